@@ -0,0 +1,144 @@
+import { withStreamingAuth, jsonResponse, eventStreamResponse } from './utils/auth';
+import { buildChatPrompt, describeChatError, runChat, saveChatExchange, titleConversation } from './utils/chat';
+import { rememberExchange } from './utils/memory';
+
+// Streaming chat over server-sent events:
+//   event: start  { conversation_id }
+//   event: delta  { text }                                        (repeated)
+//   event: done   { message, conversation_id, message_id, title?, actions, context }
+//                 (after the reply is saved; pending actions are confirmed via chat-actions)
+//   ... then memories are extracted from the exchange before the stream closes
+//   event: error  { error, details }
+// Closing the connection cancels generation; whatever was written so far is kept.
+export default withStreamingAuth(async (req) => {
+  const { user, body, headers, signal } = req;
+  const { message, conversation_id, context = {} } = body;
+
+  console.log('💬 [AI-Chat-Stream] Request:', { conversation_id, userId: user.id });
+
+  if (!process.env.ANTHROPIC_API_KEY) {
+    console.error('Missing ANTHROPIC_API_KEY environment variable');
+    return jsonResponse({
+      error: 'AI service not configured',
+      details: 'Anthropic API key is missing. Please check your environment configuration.'
+    }, 400);
+  }
+
+  if (!message || typeof message !== 'string') {
+    return jsonResponse({ error: 'Message is required' }, 400);
+  }
+
+  try {
+    const { default: Anthropic } = await import('@anthropic-ai/sdk');
+    const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
+
+    const mem0Key = headers['x-mem0-key'];
+    const prompt = await buildChatPrompt(user.id, message, conversation_id, mem0Key);
+    const conversationId: string = conversation_id || crypto.randomUUID();
+    const responseContext = {
+      parts_referenced: prompt.partsCount,
+      projects_referenced: prompt.projectsCount,
+      memories_referenced: prompt.memoriesCount,
+      // What the reply was based on, for "based on these parts" in the UI
+      records: prompt.context
+    };
+
+    // Aborted by the client closing the request or cancelling the stream
+    const generation = new AbortController();
+    signal.addEventListener('abort', () => generation.abort());
+
+    const encoder = new TextEncoder();
+    let disconnected = false;
+    let reply = '';
+    // Set once the full exchange is stored, so a later abort doesn't store it again
+    let saved = false;
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          if (disconnected) return;
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+
+        send('start', { conversation_id: conversationId });
+
+        try {
+          const { actions } = await runChat(anthropic, user.id, prompt, {
+            signal: generation.signal,
+            onText: (delta) => {
+              reply += delta;
+              send('delta', { text: delta });
+            }
+          });
+
+          const { created, messageId } = await saveChatExchange({
+            userId: user.id,
+            conversationId,
+            message,
+            reply,
+            context,
+            metadata: {
+              model: 'claude-3-sonnet',
+              streamed: true,
+              actions,
+              parts_context: prompt.partsCount,
+              projects_context: prompt.projectsCount,
+              memories_context: prompt.memoriesCount,
+              context_records: prompt.context
+            }
+          });
+          saved = true;
+
+          const title = created
+            ? await titleConversation(anthropic, user.id, conversationId, message, reply)
+            : undefined;
+
+          console.log(`✅ [AI-Chat-Stream] Streamed ${reply.length} chars, ${actions.length} actions to ${conversationId}`);
+          send('done', {
+            message: reply,
+            conversation_id: conversationId,
+            message_id: messageId,
+            title,
+            actions,
+            context: responseContext
+          });
+
+          // The client has its reply; learning from it happens while the stream winds down
+          await rememberExchange(anthropic, user.id, { message, reply, messageId }, mem0Key);
+        } catch (error) {
+          if (generation.signal.aborted) {
+            console.log(`🛑 [AI-Chat-Stream] Cancelled by client after ${reply.length} chars`);
+            // Keep the partial reply so the conversation history matches what the user saw
+            if (reply && !saved) {
+              await saveChatExchange({
+                userId: user.id,
+                conversationId,
+                message,
+                reply,
+                context,
+                metadata: { model: 'claude-3-sonnet', streamed: true, cancelled: true }
+              }).catch(saveError => console.error('❌ [AI-Chat-Stream] Failed to save partial reply:', saveError));
+            }
+          } else {
+            console.error('❌ [AI-Chat-Stream] Failed:', error);
+            send('error', describeChatError(error));
+          }
+        }
+
+        if (!disconnected) {
+          controller.close();
+        }
+      },
+      cancel() {
+        disconnected = true;
+        generation.abort();
+      }
+    });
+
+    return eventStreamResponse(stream);
+
+  } catch (error) {
+    console.error('❌ [AI-Chat-Stream] Failed to start:', error);
+    return jsonResponse(describeChatError(error), 500);
+  }
+});
@@ -1,7 +1,12 @@
-import { withAuth, supabaseAdmin } from './utils/auth';
+import { withAuth } from './utils/auth';
+import { buildChatPrompt, describeChatError, runChat, saveChatExchange, titleConversation } from './utils/chat';
+import { rememberExchange } from './utils/memory';
 
+// Non-streaming chat: waits for the whole reply and returns it as JSON.
+// The chat UI uses ai-chat-stream; this stays for callers that need a single response.
+// Actions that change data come back pending; confirm them through chat-actions.
 export const handler = withAuth(async (req) => {
-  const { user, body } = req;
+  const { user, body, headers } = req;
   const { message, conversation_id, context = {} } = body;
 
   console.log('AI Chat Request:', { message, conversation_id, context });
@@ -24,161 +29,57 @@ export const handler = withAuth(async (req) => {
     const { default: Anthropic } = await import('@anthropic-ai/sdk');
     const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
 
-    // Get recent parts and projects for context
-    const { data: recentParts } = await supabaseAdmin
-      .from('parts')
-      .select('name, category, description, quantity, is_available')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(10);
+    const mem0Key = headers['x-mem0-key'];
+    const prompt = await buildChatPrompt(user.id, message, conversation_id, mem0Key);
 
-    const { data: recentProjects } = await supabaseAdmin
-      .from('projects')
-      .select('name, status, description')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false })
-      .limit(5);
+    // Get response from Claude, running any inventory lookups it asks for
+    const { reply: assistantResponse, actions } = await runChat(anthropic, user.id, prompt);
 
-    // Get conversation history if conversation_id provided
-    let conversationHistory = [];
-    if (conversation_id) {
-      const { data: history } = await supabaseAdmin
-        .from('chat_messages')
-        .select('role, content, created_at')
-        .eq('conversation_id', conversation_id)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: true })
-        .limit(20);
-      
-      conversationHistory = history || [];
-    }
-
-    // System prompt for the garage buddy personality
-    const systemPrompt = `You are the user's AI garage buddy - a helpful, knowledgeable electronics expert with a casual, friendly personality. You help with salvaged parts, project ideas, and electronics knowledge.
-
-PERSONALITY:
-- Casual and enthusiastic about electronics projects
-- Use light profanity when appropriate (damn, shit, hell - keep it workshop-appropriate)
-- Genuinely excited about weird and creative projects
-- Practical knowledge with a "let's try it" attitude
-- Safety conscious but not preachy
-- Remember past conversations and learn preferences
-
-CURRENT USER CONTEXT:
-Recent Parts (${recentParts?.length || 0} total):
-${recentParts?.map(p => `- ${p.name} (${p.category}) - Qty: ${p.quantity} - ${p.is_available ? 'Available' : 'Used'}`).join('\n') || 'No parts added yet'}
-
-Recent Projects (${recentProjects?.length || 0} total):
-${recentProjects?.map(p => `- ${p.name} (${p.status}) - ${p.description || 'No description'}`).join('\n') || 'No projects started yet'}
-
-GUIDELINES:
-- Always consider what parts the user actually has
-- Suggest projects based on available components
-- Provide practical, actionable advice
-- Ask follow-up questions to understand their goals
-- Be encouraging about learning and experimentation
-- Share safety tips when working with dangerous components
-
-Respond as their enthusiastic garage buddy who knows their inventory and project history.`;
-
-    // Build messages array for Claude
-    const messages = [
-      ...conversationHistory.map(msg => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content
-      })),
-      {
-        role: 'user' as const,
-        content: message
+    // Save messages to database
+    const finalConversationId = conversation_id || crypto.randomUUID();
+
+    const { created, messageId } = await saveChatExchange({
+      userId: user.id,
+      conversationId: finalConversationId,
+      message,
+      reply: assistantResponse,
+      context,
+      metadata: {
+        model: 'claude-3-sonnet',
+        actions,
+        parts_context: prompt.partsCount,
+        projects_context: prompt.projectsCount,
+        memories_context: prompt.memoriesCount,
+        context_records: prompt.context
       }
-    ];
-
-    // Get response from Claude
-    const response = await anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 1000,
-      system: systemPrompt,
-      messages: messages
     });
 
-    const assistantMessage = response.content[0];
-    if (assistantMessage.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
+    // New conversations get a title summarizing this first exchange
+    const title = created
+      ? await titleConversation(anthropic, user.id, finalConversationId, message, assistantResponse)
+      : undefined;
 
-    const assistantResponse = assistantMessage.text;
-
-    // Save messages to database
-    let finalConversationId = conversation_id;
-    
-    if (!finalConversationId) {
-      // Create new conversation
-      finalConversationId = crypto.randomUUID();
-    }
-
-    // Save user message
-    await supabaseAdmin
-      .from('chat_messages')
-      .insert({
-        conversation_id: finalConversationId,
-        user_id: user.id,
-        role: 'user',
-        content: message,
-        metadata: context
-      });
-
-    // Save assistant response
-    await supabaseAdmin
-      .from('chat_messages')
-      .insert({
-        conversation_id: finalConversationId,
-        user_id: user.id,
-        role: 'assistant',
-        content: assistantResponse,
-        metadata: {
-          model: 'claude-3-sonnet',
-          parts_context: recentParts?.length || 0,
-          projects_context: recentProjects?.length || 0
-        }
-      });
+    // Pick up anything worth remembering for next time
+    const memoriesAdded = await rememberExchange(anthropic, user.id, { message, reply: assistantResponse, messageId }, mem0Key);
 
     return {
       message: assistantResponse,
       conversation_id: finalConversationId,
+      message_id: messageId,
+      title,
+      actions,
       context: {
-        parts_referenced: recentParts?.length || 0,
-        projects_referenced: recentProjects?.length || 0
+        parts_referenced: prompt.partsCount,
+        projects_referenced: prompt.projectsCount,
+        memories_referenced: prompt.memoriesCount,
+        memories_added: memoriesAdded,
+        // What the reply was based on, for "based on these parts" in the UI
+        records: prompt.context
       }
     };
 
   } catch (error) {
     console.error('AI chat error:', error);
-    
-    // Provide more specific error messages based on error type
-    if (error instanceof Error) {
-      if (error.message.includes('API key')) {
-        return { 
-          error: 'AI service authentication failed',
-          details: 'Invalid or missing API key. Please check your Anthropic API configuration.'
-        };
-      }
-      if (error.message.includes('rate limit')) {
-        return { 
-          error: 'AI service rate limit exceeded',
-          details: 'Too many requests. Please wait a moment and try again.'
-        };
-      }
-      if (error.message.includes('network') || error.message.includes('fetch')) {
-        return { 
-          error: 'AI service connection failed',
-          details: 'Unable to connect to AI service. Please check your internet connection.'
-        };
-      }
-    }
-    
-    return { 
-      error: 'Failed to get AI response',
-      details: error instanceof Error ? error.message : 'Unknown error occurred'
-    };
+    return describeChatError(error);
   }
-});
\ No newline at end of file
+});
@@ -1,7 +1,8 @@
 import { withAuth, supabaseAdmin } from './utils/auth';
+import { formatMemories, recallMemories } from './utils/memory';
 
 export const handler = withAuth(async (req) => {
-  const { user, body } = req;
+  const { user, body, headers } = req;
   const { 
     selected_parts = [], 
     preferences = {}, 
@@ -37,7 +38,7 @@ export const handler = withAuth(async (req) => {
     if (selected_parts.length > 0) {
       const { data: parts } = await supabaseAdmin
         .from('parts')
-        .select('name, category, description, specifications, quantity, is_available')
+        .select('name, category, description, specs, quantity, reserved_quantity, is_available')
         .in('id', selected_parts)
         .eq('user_id', user.id);
       
@@ -46,13 +47,16 @@ export const handler = withAuth(async (req) => {
       // If no parts selected, get all available parts
       const { data: allParts } = await supabaseAdmin
         .from('parts')
-        .select('name, category, description, specifications, quantity')
+        .select('name, category, description, specs, quantity, reserved_quantity')
         .eq('user_id', user.id)
         .eq('is_available', true)
         .order('created_at', { ascending: false })
-        .limit(20);
+        .limit(40);
       
-      partsInfo = allParts || [];
+      // Stock reserved for other projects' BOMs isn't free to build with
+      partsInfo = (allParts || [])
+        .filter(p => (p.quantity || 0) - (p.reserved_quantity || 0) > 0)
+        .slice(0, 20);
     }
 
     // Get user's previous projects for context
@@ -63,6 +67,13 @@ export const handler = withAuth(async (req) => {
       .order('created_at', { ascending: false })
       .limit(5);
 
+    // What the assistant has learned about the user: tools, skills, safety limits
+    const memories = await recallMemories(
+      user.id,
+      [project_type, difficulty, JSON.stringify(preferences), ...partsInfo.map(p => p.name)].join(' '),
+      { limit: 15, mem0Key: headers['x-mem0-key'] }
+    );
+
     // System prompt for project generation
     const systemPrompt = `You are an expert electronics project generator with a garage buddy personality. Generate creative, practical project ideas based on the user's available parts.
 
@@ -79,6 +90,10 @@ GENERATE PROJECT IDEAS that:
 - Include safety considerations
 - Provide clear learning opportunities
 - Suggest cool extensions or variations
+- Fit what you know about the user: don't require tools they lack, and never cross their safety limits
+
+WHAT YOU KNOW ABOUT THE USER:
+${formatMemories(memories)}
 
 RESPOND IN JSON FORMAT:
 {
@@ -106,7 +121,7 @@ Generate 2-3 project ideas that are genuinely exciting and doable.`;
     const userPrompt = `Generate project ideas for me!
 
 AVAILABLE PARTS (${partsInfo.length} parts):
-${partsInfo.map(p => `- ${p.name} (${p.category}) - Qty: ${p.quantity}${p.description ? ` - ${p.description}` : ''}`).join('\n')}
+${partsInfo.map(p => `- ${p.name} (${p.category}) - Qty: ${Math.max((p.quantity || 0) - (p.reserved_quantity || 0), 0)}${p.reserved_quantity ? ` (${p.reserved_quantity} reserved for other projects)` : ''}${p.description ? ` - ${p.description}` : ''}`).join('\n')}
 
 PREFERENCES:
 - Difficulty: ${difficulty}
@@ -158,6 +173,7 @@ I want to build something cool with these parts! Give me some creative ideas tha
     result.generation_metadata = {
       parts_used: partsInfo.length,
       selected_parts: selected_parts.length,
+      memories_used: memories.length,
       user_preferences: {
         difficulty,
         project_type,
@@ -1,4 +1,36 @@
 import { withAuth, supabaseAdmin } from './utils/auth';
+import { parseNaturalLanguage } from './utils/ai-clients';
+import { loadLocationTree } from './utils/locations';
+import { normalizeSpecs } from './utils/specs';
+
+// A photo sent for identification and the angle it shows ("top", "bottom", "markings", ...)
+interface IdentificationImage {
+  url: string;
+  angle: string | null;
+}
+
+// Which photo showed what, e.g. { image: 3, angle: 'markings', evidence: 'Top reads "NE555P"' }
+interface ImageEvidence {
+  image: number;
+  url: string | null;
+  angle: string | null;
+  evidence: string;
+}
+
+// An alternative identity the model considered, best first
+interface IdentificationCandidate {
+  name: string;
+  part_number: string | null;
+  manufacturer: string | null;
+  category: string | null;
+  reasoning: string;
+  markings_read: string[];
+  confidence: number;
+}
+
+const MAX_IDENTIFICATION_IMAGES = 5;
+const DEFAULT_CANDIDATE_COUNT = 3;
+const MAX_CANDIDATE_COUNT = 5;
 
 export const handler = withAuth(async (req) => {
   const { user, body } = req;
@@ -6,18 +38,35 @@ export const handler = withAuth(async (req) => {
     description, 
     mode = 'research', 
     context = {},
-    imageUrl = null 
+    imageUrl = null,
+    images: requestedImages = [],
+    candidate_count: requestedCandidates = DEFAULT_CANDIDATE_COUNT
   } = body;
 
+  // Quick lookups want one answer; research mode ranks several possible identities
+  const candidateCount = mode === 'quick'
+    ? 0
+    : Math.min(Math.max(Math.round(Number(requestedCandidates)) || DEFAULT_CANDIDATE_COUNT, 1), MAX_CANDIDATE_COUNT);
+
+  // `images` carries every photo with its angle; a lone `imageUrl` still works
+  const images: IdentificationImage[] = (Array.isArray(requestedImages) && requestedImages.length > 0
+    ? requestedImages
+    : imageUrl ? [{ url: imageUrl }] : []
+  )
+    .filter((image: { url?: unknown }) => typeof image?.url === 'string' && image.url)
+    .slice(0, MAX_IDENTIFICATION_IMAGES)
+    .map((image: { url: string; angle?: string }) => ({ url: image.url, angle: image.angle?.trim() || null }));
+  const hasImages = images.length > 0;
+
   console.log('🔍 AI Research Request:', { 
     description: description?.substring(0, 100), 
     mode, 
-    hasImage: !!imageUrl,
+    images: images.length,
     userId: user.id 
   });
 
   // Validate required inputs
-  if (!description && !imageUrl) {
+  if (!description && !hasImages) {
     return { 
       success: false,
       error: 'Either description or image is required for part research' 
@@ -38,27 +87,41 @@ export const handler = withAuth(async (req) => {
     // Determine which AI service to use and research approach
     let researchResult;
     
-    if (imageUrl) {
+    if (hasImages) {
       // Image-based identification using Claude Vision
-      researchResult = await researchPartFromImage(imageUrl, description, mode);
+      researchResult = await researchPartFromImages(images, description, mode, candidateCount);
     } else {
       // Text-based research using Perplexity or Claude
-      researchResult = await researchPartFromText(description, mode);
+      researchResult = await researchPartFromText(description, mode, candidateCount);
     }
 
+    // Quick adds like "5 Arduino Nanos in drawer A" also carry quantity and a storage location
+    const intent = mode === 'quick' && description && process.env.ANTHROPIC_API_KEY
+      ? await parseEntryIntent(user.id, description)
+      : null;
+
     // Validate the AI response structure
-    const validatedResult = validateAndEnhanceResult(researchResult, description, imageUrl);
+    const validatedResult = validateAndEnhanceResult(researchResult, description, images, candidateCount);
+
+    // Keep the candidates so the user's confirm / reject can be scored later
+    const attemptId = candidateCount > 0
+      ? await recordIdentificationAttempt(user.id, description, images, validatedResult)
+      : null;
 
     console.log('✅ AI research completed:', {
       name: validatedResult.name,
       confidence: validatedResult.confidence,
-      hasImage: !!imageUrl,
+      images: images.length,
+      evidence: validatedResult.image_evidence.length,
+      candidates: validatedResult.candidates.length,
       mode
     });
 
     return {
       success: true,
-      research: validatedResult
+      research: validatedResult,
+      ...(attemptId && { attempt_id: attemptId }),
+      ...(intent && { intent })
     };
 
   } catch (error) {
@@ -69,17 +132,60 @@ export const handler = withAuth(async (req) => {
       success: false,
       error: 'AI research failed',
       details: error instanceof Error ? error.message : 'Unknown error occurred',
-      fallback: createFallbackResult(description, imageUrl)
+      fallback: createFallbackResult(description, images)
     };
   }
 });
 
+// Quantity and location mentioned in a quick-add sentence, location resolved against the user's tree
+async function parseEntryIntent(userId: string, description: string): Promise<{ quantity?: number; location?: string; location_id?: string } | null> {
+  try {
+    const locations = await loadLocationTree(userId);
+    const parsed = await parseNaturalLanguage(description, locations);
+    return {
+      quantity: parsed.quantity,
+      location: parsed.location,
+      location_id: parsed.location_id
+    };
+  } catch (error) {
+    console.warn('⚠️ Intent parsing failed, continuing without it:', error);
+    return null;
+  }
+}
+
+// Stored for evaluation; a failed insert shouldn't cost the user their result
+async function recordIdentificationAttempt(
+  userId: string,
+  description: string,
+  images: IdentificationImage[],
+  result: { candidates: IdentificationCandidate[]; ai_metadata: { research_method: string } }
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('identification_attempts')
+    .insert([{
+      user_id: userId,
+      description: description || null,
+      images,
+      research_method: result.ai_metadata.research_method,
+      candidates: result.candidates
+    }])
+    .select('id')
+    .single();
+
+  if (error) {
+    console.warn('⚠️ Failed to record identification attempt:', error);
+    return null;
+  }
+
+  return data.id;
+}
+
 // Text-based research using Perplexity (preferred) or Claude
-async function researchPartFromText(description: string, mode: 'quick' | 'research'): Promise<any> {
+async function researchPartFromText(description: string, mode: 'quick' | 'research', candidateCount: number): Promise<any> {
   // Try Perplexity first for better web search results
   if (process.env.PERPLEXITY_API_KEY) {
     try {
-      return await callPerplexityAPI(description, mode);
+      return await callPerplexityAPI(description, mode, candidateCount);
     } catch (error) {
       console.warn('⚠️ Perplexity failed, falling back to Claude:', error.message);
     }
@@ -87,24 +193,29 @@ async function researchPartFromText(description: string, mode: 'quick' | 'resear
 
   // Fallback to Claude
   if (process.env.ANTHROPIC_API_KEY) {
-    return await callClaudeAPI(description, mode, false);
+    return await callClaudeAPI(description, mode, candidateCount);
   }
 
   throw new Error('No AI service available for text research');
 }
 
-// Image-based research using Claude Vision
-async function researchPartFromImage(imageUrl: string, description: string = '', mode: 'quick' | 'research'): Promise<any> {
+// Image-based research using Claude Vision, all photos in one request
+async function researchPartFromImages(
+  images: IdentificationImage[],
+  description: string = '',
+  mode: 'quick' | 'research',
+  candidateCount: number
+): Promise<any> {
   if (!process.env.ANTHROPIC_API_KEY) {
     throw new Error('Anthropic API key required for image identification');
   }
 
-  return await callClaudeAPI(description, mode, true, imageUrl);
+  return await callClaudeAPI(description, mode, candidateCount, images);
 }
 
 // Perplexity API call with robust prompt engineering
-async function callPerplexityAPI(description: string, mode: 'quick' | 'research'): Promise<any> {
-  const systemPrompt = createSystemPrompt(mode, false);
+async function callPerplexityAPI(description: string, mode: 'quick' | 'research', candidateCount: number): Promise<any> {
+  const systemPrompt = createSystemPrompt(mode, false, candidateCount);
   const userPrompt = `Research this electronic component: "${description}"`;
 
   const response = await fetch('https://api.perplexity.ai/chat/completions', {
@@ -140,36 +251,43 @@ async function callPerplexityAPI(description: string, mode: 'quick' | 'research'
 }
 
 // Claude API call with vision support
-async function callClaudeAPI(description: string, mode: 'quick' | 'research', hasImage: boolean, imageUrl?: string): Promise<any> {
+async function callClaudeAPI(
+  description: string,
+  mode: 'quick' | 'research',
+  candidateCount: number,
+  images: IdentificationImage[] = []
+): Promise<any> {
   const { default: Anthropic } = await import('@anthropic-ai/sdk');
   const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY });
 
-  const systemPrompt = createSystemPrompt(mode, hasImage);
+  const hasImage = images.length > 0;
+  const systemPrompt = createSystemPrompt(mode, hasImage, candidateCount);
 
   // Build messages array
   const messages: any[] = [];
   
-  if (hasImage && imageUrl) {
-    // Image + text message
-    messages.push({
-      role: 'user',
-      content: [
-        {
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: 'image/jpeg',
-            data: await fetchImageAsBase64(imageUrl)
-          }
-        },
-        {
-          type: 'text',
-          text: description 
-            ? `Identify this electronic component. Additional context: ${description}`
-            : 'Identify this electronic component from the image.'
-        }
-      ]
+  if (hasImage) {
+    // Each photo is labelled with its number and angle so evidence can point back to it
+    const content: (
+      | { type: 'text'; text: string }
+      | { type: 'image'; source: { type: 'base64'; media_type: ImageMediaType; data: string } }
+    )[] = [];
+
+    for (const [index, image] of images.entries()) {
+      const { data, mediaType } = await fetchImageAsBase64(image.url);
+      content.push({ type: 'text', text: `Image ${index + 1}${image.angle ? ` (${image.angle})` : ''}:` });
+      content.push({ type: 'image', source: { type: 'base64', media_type: mediaType, data } });
+    }
+
+    content.push({
+      type: 'text',
+      text: (images.length > 1
+        ? `These ${images.length} photos show the same electronic component from different angles. Identify it.`
+        : 'Identify this electronic component from the image.') +
+        (description ? ` Additional context: ${description}` : '')
     });
+
+    messages.push({ role: 'user', content });
   } else {
     // Text-only message
     messages.push({
@@ -194,7 +312,7 @@ async function callClaudeAPI(description: string, mode: 'quick' | 'research', ha
 }
 
 // Create system prompt based on mode and capabilities
-function createSystemPrompt(mode: 'quick' | 'research', hasImage: boolean): string {
+function createSystemPrompt(mode: 'quick' | 'research', hasImage: boolean, candidateCount: number): string {
   const basePrompt = `You are an expert electronics researcher. Your task is to identify and provide information about electronic components.
 
 CRITICAL: You MUST respond with ONLY a valid JSON object. No conversational text, explanations, or preambles.
@@ -232,9 +350,17 @@ ${mode === 'quick'
 }
 
 ${hasImage 
-  ? 'IMAGE MODE: Analyze the provided image to identify the component. Look for markings, package type, pin count, and any visible text.'
+  ? `IMAGE MODE: Analyze the provided images to identify the component. Images are numbered and may name the angle they show (top, bottom, markings close-up). Look for markings, package type, pin count, and any visible text, and combine what each image shows.
+Also include in the JSON an "image_evidence" array recording what each image contributed:
+"image_evidence": [{ "image": 1, "evidence": "Top marking reads NE555P" }, { "image": 2, "evidence": "8-pin DIP package" }]`
   : 'TEXT MODE: Research based on the text description provided.'
 }
+${candidateCount > 0
+  ? `
+CANDIDATES: Also include a "candidates" array with up to ${candidateCount} possible identities, most likely first (the first must match the top-level answer). Each candidate's confidence is the probability that it is the right one:
+"candidates": [{ "name": "NE555P timer", "part_number": "NE555P", "manufacturer": "Texas Instruments", "category": "IC", "reasoning": "Why this fits and what would rule it out", "markings_read": ["NE555P", "TI logo"], "confidence": 0.7 }]`
+  : ''
+}
 
 If you cannot identify the component, still return valid JSON with:
 - name: "Unknown Component"
@@ -275,8 +401,88 @@ function parseAIResponse(content: string): any {
   }
 }
 
+// Evidence entries the model returned, tied back to the image urls and angles that were sent
+function normalizeImageEvidence(evidence: unknown, images: IdentificationImage[]): ImageEvidence[] {
+  if (!Array.isArray(evidence)) {
+    return [];
+  }
+
+  return evidence
+    .filter((entry): entry is { image?: unknown; evidence?: unknown } => !!entry && typeof entry === 'object')
+    .map(entry => {
+      const index = Number(entry.image);
+      const image = Number.isInteger(index) ? images[index - 1] : undefined;
+      return {
+        image: image ? index : 0,
+        url: image?.url || null,
+        angle: image?.angle || null,
+        evidence: typeof entry.evidence === 'string' ? entry.evidence.trim() : ''
+      };
+    })
+    .filter(entry => entry.evidence);
+}
+
+// Raw model output for one candidate; anything can be missing or the wrong type
+interface RawCandidate {
+  name?: unknown;
+  part_number?: string;
+  manufacturer?: string;
+  category?: string;
+  reasoning?: unknown;
+  markings_read?: unknown;
+  confidence?: unknown;
+}
+
+// Ranked candidates, with the top-level answer first when the model left it out
+function normalizeCandidates(
+  result: { candidates?: unknown; name?: string; part_number?: string; manufacturer?: string; category?: string; description?: string; confidence?: unknown },
+  candidateCount: number
+): IdentificationCandidate[] {
+  if (candidateCount === 0) {
+    return [];
+  }
+
+  const raw: RawCandidate[] = Array.isArray(result.candidates) ? result.candidates : [];
+  const candidates: IdentificationCandidate[] = raw
+    .filter((candidate): candidate is RawCandidate & { name: string } =>
+      !!candidate && typeof candidate.name === 'string' && !!candidate.name.trim())
+    .map(candidate => ({
+      name: candidate.name.trim(),
+      part_number: candidate.part_number || null,
+      manufacturer: candidate.manufacturer || null,
+      category: candidate.category || null,
+      reasoning: typeof candidate.reasoning === 'string' ? candidate.reasoning : '',
+      markings_read: Array.isArray(candidate.markings_read)
+        ? candidate.markings_read.filter((marking): marking is string => typeof marking === 'string')
+        : [],
+      confidence: Math.min(Math.max(Number(candidate.confidence) || 0, 0), 1)
+    }));
+
+  const topName = (result.name || '').trim();
+  if (topName && !candidates.some(candidate => candidate.name.toLowerCase() === topName.toLowerCase())) {
+    candidates.unshift({
+      name: topName,
+      part_number: result.part_number || null,
+      manufacturer: result.manufacturer || null,
+      category: result.category || null,
+      reasoning: result.description || '',
+      markings_read: [],
+      confidence: Math.min(Math.max(Number(result.confidence) || 0.5, 0), 1)
+    });
+  }
+
+  return candidates
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, candidateCount);
+}
+
 // Validate and enhance the AI result
-function validateAndEnhanceResult(result: any, originalDescription: string, imageUrl?: string): any {
+function validateAndEnhanceResult(
+  result: any,
+  originalDescription: string,
+  images: IdentificationImage[] = [],
+  candidateCount: number = 0
+): any {
   // Ensure required fields exist
   const validated = {
     name: result.name || 'Unknown Component',
@@ -285,22 +491,27 @@ function validateAndEnhanceResult(result: any, originalDescription: string, imag
     subcategory: result.subcategory || null,
     manufacturer: result.manufacturer || null,
     part_number: result.part_number || null,
-    specifications: result.specifications || {},
+    specifications: normalizeSpecs(result.specifications).specs,
     datasheet_url: result.datasheet_url || null,
     image_urls: Array.isArray(result.image_urls) ? result.image_urls : [],
     typical_quantity: Number(result.typical_quantity) || 1,
     estimated_value: result.estimated_value ? Number(result.estimated_value) : null,
     current_price_usd: result.current_price_usd ? Number(result.current_price_usd) : null,
+    purchase_urls: Array.isArray(result.purchase_urls) ? result.purchase_urls : [],
     tags: Array.isArray(result.tags) ? result.tags : [],
     safety_warnings: Array.isArray(result.safety_warnings) ? result.safety_warnings : [],
     common_uses: Array.isArray(result.common_uses) ? result.common_uses : [],
     confidence: Math.min(Math.max(Number(result.confidence) || 0.5, 0), 1),
+    image_evidence: normalizeImageEvidence(result.image_evidence, images),
+    candidates: normalizeCandidates(result, candidateCount),
     
     // Add metadata
     ai_metadata: {
-      research_method: imageUrl ? 'image_analysis' : 'text_research',
+      research_method: images.length > 0 ? 'image_analysis' : 'text_research',
       original_input: originalDescription,
-      has_image: !!imageUrl,
+      has_image: images.length > 0,
+      image_count: images.length,
+      image_angles: images.map(image => image.angle),
       timestamp: new Date().toISOString()
     }
   };
@@ -347,7 +558,7 @@ function enhanceWithCategoryDefaults(result: any): void {
 }
 
 // Create fallback result when AI completely fails
-function createFallbackResult(description: string, imageUrl?: string): any {
+function createFallbackResult(description: string, images: IdentificationImage[] = []): any {
   return {
     name: description || 'Unknown Component',
     description: 'AI identification failed - manual research required',
@@ -361,14 +572,18 @@ function createFallbackResult(description: string, imageUrl?: string): any {
     typical_quantity: 1,
     estimated_value: null,
     current_price_usd: null,
+    purchase_urls: [],
     tags: ['unidentified'],
     safety_warnings: ['Unknown component - verify specifications before use'],
     common_uses: [],
     confidence: 0.1,
+    image_evidence: [],
+    candidates: [],
     ai_metadata: {
-      research_method: imageUrl ? 'image_analysis' : 'text_research',
+      research_method: images.length > 0 ? 'image_analysis' : 'text_research',
       original_input: description,
-      has_image: !!imageUrl,
+      has_image: images.length > 0,
+      image_count: images.length,
       failed: true,
       timestamp: new Date().toISOString()
     }
@@ -395,10 +610,13 @@ function createFallbackFromText(content: string): any {
     typical_quantity: 1,
     estimated_value: null,
     current_price_usd: null,
+    purchase_urls: [],
     tags: ['ai_parsed'],
     safety_warnings: [],
     common_uses: [],
     confidence: 0.3,
+    image_evidence: [],
+    candidates: [],
     ai_metadata: {
       research_method: 'text_extraction',
       original_response: content,
@@ -419,14 +637,35 @@ function extractField(text: string, fieldNames: string[]): string | null {
   return null;
 }
 
+type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+const IMAGE_MEDIA_TYPES: ImageMediaType[] = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Sniff the file signature; uploads are often stored with the wrong extension or content type
+function detectImageMediaType(bytes: Buffer, contentType: string | null): ImageMediaType {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'image/png';
+  if (bytes.subarray(0, 4).toString('ascii') === 'GIF8') return 'image/gif';
+  if (bytes.subarray(0, 4).toString('ascii') === 'RIFF' && bytes.subarray(8, 12).toString('ascii') === 'WEBP') return 'image/webp';
+
+  const declared = contentType?.split(';')[0].trim().toLowerCase();
+  if (declared && (IMAGE_MEDIA_TYPES as string[]).includes(declared)) {
+    return declared as ImageMediaType;
+  }
+
+  throw new Error(`Unsupported image type${declared ? `: ${declared}` : ''} (use JPEG, PNG, GIF or WebP)`);
+}
+
 // Fetch image as base64 for Claude Vision
-async function fetchImageAsBase64(imageUrl: string): Promise<string> {
+async function fetchImageAsBase64(imageUrl: string): Promise<{ data: string; mediaType: ImageMediaType }> {
   const response = await fetch(imageUrl);
   if (!response.ok) {
     throw new Error(`Failed to fetch image: ${response.status}`);
   }
   
-  const arrayBuffer = await response.arrayBuffer();
-  const base64 = Buffer.from(arrayBuffer).toString('base64');
-  return base64;
+  const bytes = Buffer.from(await response.arrayBuffer());
+  return {
+    data: bytes.toString('base64'),
+    mediaType: detectImageMediaType(bytes, response.headers.get('content-type'))
+  };
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { withAuth } from './utils/auth';
+import { fetchAll } from './utils/queries';
+import { sessionMinutes } from './utils/sessions';
+
+interface PartRow {
+  id: string;
+  category: string | null;
+  quantity: number;
+  value_estimate: number | null;
+  ai_identified: boolean;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface MovementRow {
+  part_id: string;
+  delta: number;
+  reason: string;
+  created_at: string;
+}
+
+interface ProjectRow {
+  status: string;
+  difficulty_level: number | null;
+  ai_generated: boolean;
+  created_at: string;
+}
+
+interface SessionRow {
+  mood: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface MessageRow {
+  conversation_id: string;
+  role: string;
+  created_at: string;
+}
+
+const CONFIDENCE_BUCKETS = [
+  { label: '0-20%', min: 0, max: 0.2 },
+  { label: '20-40%', min: 0.2, max: 0.4 },
+  { label: '40-60%', min: 0.4, max: 0.6 },
+  { label: '60-80%', min: 0.6, max: 0.8 },
+  { label: '80-100%', min: 0.8, max: 1.01 }
+];
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const monthKey = (date: string | Date) => new Date(date).toISOString().slice(0, 7);
+
+// The last `count` months as YYYY-MM, oldest first
+const recentMonths = (count: number) => {
+  const now = new Date();
+  return Array.from({ length: count }, (_, i) =>
+    monthKey(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (count - 1 - i), 1)))
+  );
+};
+
+// Workshop analytics: parts usage, inventory value over time, project outcomes,
+// session length by mood and AI usage. `months` sets how far back the monthly series go.
+export const handler = withAuth(async (req) => {
+  const { user, body } = req;
+  const months = Math.min(Math.max(parseInt(body.months) || 12, 1), 36);
+
+  console.log('📊 [Analytics] Aggregating:', { userId: user.id, months });
+
+  try {
+    const [parts, movements, projects, sessions, messages] = await Promise.all([
+      fetchAll<PartRow>('parts', 'id, category, quantity, value_estimate, ai_identified, metadata, created_at', user.id),
+      fetchAll<MovementRow>('stock_movements', 'part_id, delta, reason, created_at', user.id),
+      fetchAll<ProjectRow>('projects', 'status, difficulty_level, ai_generated, created_at', user.id),
+      fetchAll<SessionRow>('build_sessions', 'mood, start_time, end_time, metadata, created_at', user.id),
+      fetchAll<MessageRow>('chat_messages', 'conversation_id, role, created_at', user.id)
+    ]);
+
+    const partsById = new Map(parts.map(part => [part.id, part]));
+    const periods = recentMonths(months);
+
+    // Parts: inventory by category and what gets used up
+    const inventory = new Map<string, { category: string; parts: number; units: number; value: number }>();
+    parts.forEach(part => {
+      const category = part.category || 'Uncategorized';
+      const entry = inventory.get(category) || { category, parts: 0, units: 0, value: 0 };
+      entry.parts += 1;
+      entry.units += part.quantity;
+      entry.value += (Number(part.value_estimate) || 0) * part.quantity;
+      inventory.set(category, entry);
+    });
+
+    const consumed = new Map<string, { category: string; units: number; value: number }>();
+    movements
+      .filter(movement => movement.reason === 'consumed')
+      .forEach(movement => {
+        const part = partsById.get(movement.part_id);
+        const category = part?.category || 'Uncategorized';
+        const entry = consumed.get(category) || { category, units: 0, value: 0 };
+        entry.units -= movement.delta;
+        entry.value -= movement.delta * (Number(part?.value_estimate) || 0);
+        consumed.set(category, entry);
+      });
+
+    // Inventory value at the end of each month, replaying the ledger at today's estimates
+    const valueByMonth = new Map<string, number>();
+    movements.forEach(movement => {
+      const key = monthKey(movement.created_at);
+      const value = movement.delta * (Number(partsById.get(movement.part_id)?.value_estimate) || 0);
+      valueByMonth.set(key, (valueByMonth.get(key) || 0) + value);
+    });
+
+    let runningValue = [...valueByMonth.entries()]
+      .filter(([key]) => key < periods[0])
+      .reduce((sum, [, value]) => sum + value, 0);
+    const valueOverTime = periods.map(month => {
+      runningValue += valueByMonth.get(month) || 0;
+      return { month, value: round(Math.max(runningValue, 0)) };
+    });
+
+    // Projects: outcomes by difficulty
+    const byDifficulty = new Map<number, { total: number; completed: number; failed: number; abandoned: number }>();
+    const byStatus: Record<string, number> = {};
+    projects.forEach(project => {
+      byStatus[project.status] = (byStatus[project.status] || 0) + 1;
+      const difficulty = project.difficulty_level || 0;
+      const entry = byDifficulty.get(difficulty) || { total: 0, completed: 0, failed: 0, abandoned: 0 };
+      entry.total += 1;
+      if (project.status === 'completed' || project.status === 'failed' || project.status === 'abandoned') {
+        entry[project.status] += 1;
+      }
+      byDifficulty.set(difficulty, entry);
+    });
+
+    const finished = (byStatus.completed || 0) + (byStatus.failed || 0) + (byStatus.abandoned || 0);
+    const outcomes = [...byDifficulty.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([difficulty, entry]) => {
+        const closed = entry.completed + entry.failed + entry.abandoned;
+        return {
+          difficulty: difficulty || null,
+          ...entry,
+          active: entry.total - closed,
+          completion_rate: closed ? round(entry.completed / closed) : null,
+          abandon_rate: closed ? round(entry.abandoned / closed) : null
+        };
+      });
+
+    // Sessions: average length by mood
+    const moods = new Map<string, { sessions: number; minutes: number }>();
+    let totalMinutes = 0;
+    let timedSessions = 0;
+    sessions.forEach(session => {
+      const minutes = sessionMinutes(session);
+      if (minutes === null) return;
+      totalMinutes += minutes;
+      timedSessions += 1;
+      const mood = session.mood || 'unrecorded';
+      const entry = moods.get(mood) || { sessions: 0, minutes: 0 };
+      entry.sessions += 1;
+      entry.minutes += minutes;
+      moods.set(mood, entry);
+    });
+
+    // AI: identifications, their confidence, chat activity
+    const identified = parts.filter(part => part.ai_identified);
+    const confidences = identified
+      .filter(part => part.metadata?.confidence != null)
+      .map(part => Number(part.metadata?.confidence))
+      .filter(confidence => !Number.isNaN(confidence) && confidence >= 0 && confidence <= 1);
+
+    const messagesByMonth = new Map<string, number>();
+    messages
+      .filter(message => message.role === 'user')
+      .forEach(message => {
+        const key = monthKey(message.created_at);
+        messagesByMonth.set(key, (messagesByMonth.get(key) || 0) + 1);
+      });
+
+    const aiProjects = projects.filter(project => project.ai_generated);
+
+    console.log(`✅ [Analytics] ${parts.length} parts, ${projects.length} projects, ${sessions.length} sessions, ${messages.length} messages`);
+
+    return {
+      generated_at: new Date().toISOString(),
+      months,
+      parts: {
+        total: parts.length,
+        units: parts.reduce((sum, part) => sum + part.quantity, 0),
+        value: round([...inventory.values()].reduce((sum, entry) => sum + entry.value, 0)),
+        by_category: [...inventory.values()]
+          .map(entry => ({ ...entry, value: round(entry.value) }))
+          .sort((a, b) => b.units - a.units),
+        most_consumed: [...consumed.values()]
+          .filter(entry => entry.units > 0)
+          .map(entry => ({ ...entry, value: round(entry.value) }))
+          .sort((a, b) => b.units - a.units)
+          .slice(0, 10),
+        value_over_time: valueOverTime,
+        added_by_month: periods.map(month => ({
+          month,
+          count: parts.filter(part => monthKey(part.created_at) === month).length
+        }))
+      },
+      projects: {
+        total: projects.length,
+        by_status: byStatus,
+        completion_rate: finished ? round((byStatus.completed || 0) / finished) : null,
+        abandon_rate: finished ? round((byStatus.abandoned || 0) / finished) : null,
+        by_difficulty: outcomes
+      },
+      sessions: {
+        total: sessions.length,
+        total_minutes: totalMinutes,
+        average_minutes: timedSessions ? Math.round(totalMinutes / timedSessions) : 0,
+        by_mood: [...moods.entries()]
+          .map(([mood, entry]) => ({ mood, sessions: entry.sessions, average_minutes: Math.round(entry.minutes / entry.sessions) }))
+          .sort((a, b) => b.sessions - a.sessions)
+      },
+      ai: {
+        identified_parts: identified.length,
+        identified_share: parts.length ? round(identified.length / parts.length) : 0,
+        average_confidence: confidences.length
+          ? round(confidences.reduce((sum, confidence) => sum + confidence, 0) / confidences.length)
+          : null,
+        confidence_distribution: CONFIDENCE_BUCKETS.map(bucket => ({
+          range: bucket.label,
+          count: confidences.filter(confidence => confidence >= bucket.min && confidence < bucket.max).length
+        })),
+        conversations: new Set(messages.map(message => message.conversation_id)).size,
+        questions: messages.filter(message => message.role === 'user').length,
+        questions_by_month: periods.map(month => ({ month, count: messagesByMonth.get(month) || 0 })),
+        generated_projects: aiProjects.length,
+        generated_completed: aiProjects.filter(project => project.status === 'completed').length
+      }
+    };
+  } catch (error) {
+    console.error('❌ [Analytics] Aggregation failed:', error);
+    return {
+      error: 'Failed to load analytics',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
@@ -1,5 +1,6 @@
 import { withAuth, supabaseAdmin } from './utils/auth';
 import { validateBuildSession } from './utils/validation';
+import { syncConsumption } from './utils/stock';
 
 export const handler = withAuth(async (req) => {
   const { user, body, headers, path } = req;
@@ -33,11 +34,12 @@ export const handler = withAuth(async (req) => {
           return { session };
         } else {
           // Get all sessions with optional filtering
-          const { project_id, limit = 50, offset = 0 } = body;
+          const { project_id, part_id, limit = 50, offset = 0 } = body;
           
           let query = supabaseAdmin
             .from('build_sessions')
-            .select('*', { count: 'exact' })
+            // Sessions looked up by part come from many projects, so include the project summary
+            .select(part_id ? '*, project:projects(id, name, status)' : '*', { count: 'exact' })
             .eq('user_id', user.id)
             .order('created_at', { ascending: false });
 
@@ -45,6 +47,10 @@ export const handler = withAuth(async (req) => {
             query = query.eq('project_id', project_id);
           }
 
+          if (part_id) {
+            query = query.contains('parts_consumed', [part_id]);
+          }
+
           query = query.range(offset, offset + limit - 1);
 
           const { data: sessions, error, count } = await query;
@@ -66,6 +72,9 @@ export const handler = withAuth(async (req) => {
           return { error: 'Validation failed', details: errors };
         }
 
+        // session_number is assigned per project by the database
+        delete validatedSession!.session_number;
+
         const { data: newSession, error: createError } = await supabaseAdmin
           .from('build_sessions')
           .insert([{ ...validatedSession, user_id: user.id }])
@@ -77,7 +86,16 @@ export const handler = withAuth(async (req) => {
           throw createError;
         }
 
-        return { session: newSession };
+        console.log('Build session created:', { id: newSession.id, project_id: newSession.project_id, session_number: newSession.session_number });
+
+        const createdStock = await syncConsumption(
+          user.id,
+          newSession.parts_consumed,
+          { build_session_id: newSession.id, project_id: newSession.project_id },
+          { allowReturns: true, note: 'Build session' }
+        );
+
+        return { session: newSession, stock: createdStock };
 
       case 'PUT':
         // Update existing session
@@ -91,6 +109,8 @@ export const handler = withAuth(async (req) => {
           return { error: 'Validation failed', details: updateErrors };
         }
 
+        delete updateData!.session_number;
+
         const { data: updatedSession, error: updateError } = await supabaseAdmin
           .from('build_sessions')
           .update(updateData)
@@ -104,7 +124,15 @@ export const handler = withAuth(async (req) => {
           throw updateError;
         }
 
-        return { session: updatedSession };
+        // Editing parts_consumed takes or returns the difference
+        const updatedStock = await syncConsumption(
+          user.id,
+          updatedSession.parts_consumed,
+          { build_session_id: updatedSession.id, project_id: updatedSession.project_id },
+          { allowReturns: true, note: 'Build session' }
+        );
+
+        return { session: updatedSession, stock: updatedStock };
 
       case 'DELETE':
         // Delete session
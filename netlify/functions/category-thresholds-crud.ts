@@ -0,0 +1,91 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { validateCategoryThreshold } from './utils/validation';
+
+// Minimum quantities per part category. POST upserts by category name
+// (case-insensitive), so the settings UI never has to know row ids.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const thresholdId = pathParts[pathParts.length - 1];
+
+  try {
+    switch (method) {
+      case 'GET': {
+        const { data: thresholds, error } = await supabaseAdmin
+          .from('category_thresholds')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('category');
+
+        if (error) {
+          throw error;
+        }
+
+        return { thresholds: thresholds || [] };
+      }
+
+      case 'POST': {
+        const { valid, errors, threshold } = validateCategoryThreshold(body);
+
+        if (!valid || !threshold) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        const { data: existing } = await supabaseAdmin
+          .from('category_thresholds')
+          .select('id')
+          .eq('user_id', user.id)
+          .ilike('category', threshold.category.replace(/[%_\\]/g, '\\$&'))
+          .maybeSingle();
+
+        const { data: saved, error } = existing
+          ? await supabaseAdmin
+            .from('category_thresholds')
+            .update(threshold)
+            .eq('id', existing.id)
+            .eq('user_id', user.id)
+            .select()
+            .single()
+          : await supabaseAdmin
+            .from('category_thresholds')
+            .insert([{ ...threshold, user_id: user.id }])
+            .select()
+            .single();
+
+        if (error) {
+          throw error;
+        }
+
+        return { threshold: saved };
+      }
+
+      case 'DELETE': {
+        if (!thresholdId || thresholdId === 'category-thresholds-crud') {
+          return { error: 'Threshold ID is required for deletion' };
+        }
+
+        const { error } = await supabaseAdmin
+          .from('category_thresholds')
+          .delete()
+          .eq('id', thresholdId)
+          .eq('user_id', user.id);
+
+        if (error) {
+          throw error;
+        }
+
+        return { success: true };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Category-Thresholds] Error:', error);
+    return {
+      error: 'Database operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
@@ -0,0 +1,108 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { ChatAction, ChatActionStatus, runAction } from './utils/chat-tools';
+
+// Change one action on a message, only while it's in the `from` status; null when it
+// isn't (someone else claimed or resolved it first). Other actions are left alone.
+const updateAction = async (
+  userId: string,
+  messageId: string,
+  actionId: string,
+  from: ChatActionStatus,
+  changes: Partial<ChatAction>
+): Promise<ChatAction | null> => {
+  const { data, error } = await supabaseAdmin.rpc('update_chat_action', {
+    p_message_id: messageId,
+    p_user_id: userId,
+    p_action_id: actionId,
+    p_from_status: from,
+    p_changes: changes
+  });
+
+  if (error) {
+    throw error;
+  }
+  return data;
+};
+
+// POST /chat-actions/<message id> with { action_id, decision: 'confirm' | 'reject' }
+// resolves an action the assistant proposed in that message. Confirmed actions run
+// now; either way the outcome is written back to the message's metadata.actions.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'POST';
+  const pathParts = path.split('/').filter(Boolean);
+  const messageId = pathParts.length > 1 && pathParts[pathParts.length - 1] !== 'chat-actions'
+    ? pathParts[pathParts.length - 1]
+    : null;
+  const { action_id: actionId, decision } = body || {};
+
+  console.log('🛠️ [Chat-Actions] Request:', { method, messageId, actionId, decision, userId: user.id });
+
+  if (method !== 'POST') {
+    return { error: 'Method not allowed' };
+  }
+
+  if (!messageId || !actionId) {
+    return { error: 'Message ID and action_id are required' };
+  }
+
+  if (decision !== 'confirm' && decision !== 'reject') {
+    return { error: 'Validation failed', details: ['Decision must be one of: confirm, reject'] };
+  }
+
+  try {
+    const { data: message } = await supabaseAdmin
+      .from('chat_messages')
+      .select('id, metadata')
+      .eq('id', messageId)
+      .eq('user_id', user.id)
+      .eq('role', 'assistant')
+      .maybeSingle();
+
+    if (!message) {
+      return { error: 'Message not found' };
+    }
+
+    const actions: ChatAction[] = message.metadata?.actions || [];
+    const action = actions.find(a => a.id === actionId);
+
+    if (!action) {
+      return { error: 'Action not found' };
+    }
+
+    if (action.status !== 'pending') {
+      return { error: `Action already ${action.status}` };
+    }
+
+    // Claim the action before running it: the claim only succeeds while it's still
+    // pending, so a double click or retry can't run it twice
+    const claimed = await updateAction(user.id, messageId, actionId, 'pending', decision === 'confirm'
+      ? { status: 'running' }
+      : { status: 'rejected', resolved_at: new Date().toISOString() });
+
+    if (!claimed) {
+      return { error: 'Action already resolved' };
+    }
+
+    let resolved = claimed;
+    if (decision === 'confirm') {
+      // Whatever happens, the action leaves 'running' so it never stays stuck there
+      resolved = { ...claimed, status: 'failed', error: 'Action did not finish', resolved_at: new Date().toISOString() };
+      try {
+        resolved = await runAction(user.id, claimed);
+      } finally {
+        const { status, result, error, resolved_at } = resolved;
+        resolved = await updateAction(user.id, messageId, actionId, 'running', { status, result, error, resolved_at }) || resolved;
+      }
+    }
+
+    console.log(`✅ [Chat-Actions] ${resolved.tool} ${resolved.status}: ${resolved.summary}`);
+    return { action: resolved, message_id: messageId };
+  } catch (error) {
+    console.error('❌ [Chat-Actions] Failed:', error);
+    return {
+      error: 'Chat action failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
@@ -0,0 +1,188 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { validateConversation } from './utils/validation';
+
+const MESSAGE_PAGE_SIZE = 30;
+
+// ±60 characters of a message around the first match of the search term
+const excerpt = (content: string, term: string) => {
+  const index = content.toLowerCase().indexOf(term.toLowerCase());
+  if (index === -1) {
+    return content.slice(0, 120);
+  }
+  const start = Math.max(0, index - 60);
+  const end = Math.min(content.length, index + term.length + 60);
+  return `${start > 0 ? '...' : ''}${content.slice(start, end)}${end < content.length ? '...' : ''}`;
+};
+
+// Conversations group chat_messages by conversation_id. They're created by
+// ai-chat / ai-chat-stream on the first exchange; this function lists, searches,
+// pages through, renames, pins, archives and deletes them.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const conversationId = pathParts.length > 1 && pathParts[pathParts.length - 1] !== 'conversations-crud'
+    ? pathParts[pathParts.length - 1]
+    : null;
+
+  console.log('🗂️ [Conversations-CRUD] Request:', { method, conversationId, userId: user.id });
+
+  try {
+    switch (method) {
+      case 'GET': {
+        if (conversationId) {
+          // One page of messages, newest page first; `before` is the created_at of
+          // the oldest message already loaded
+          const { before, limit = MESSAGE_PAGE_SIZE } = body || {};
+
+          const { data: conversation, error } = await supabaseAdmin
+            .from('conversations')
+            .select('*')
+            .eq('id', conversationId)
+            .eq('user_id', user.id)
+            .single();
+
+          if (error || !conversation) {
+            return { error: 'Conversation not found' };
+          }
+
+          let query = supabaseAdmin
+            .from('chat_messages')
+            .select('id, role, content, metadata, created_at')
+            .eq('conversation_id', conversationId)
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .limit(limit + 1);
+
+          if (before) {
+            query = query.lt('created_at', before);
+          }
+
+          const { data: messages, error: messagesError } = await query;
+
+          if (messagesError) {
+            throw messagesError;
+          }
+
+          const page = (messages || []).slice(0, limit);
+          return {
+            conversation,
+            messages: page.reverse(),
+            has_more: (messages || []).length > limit
+          };
+        }
+
+        // List conversations: pinned first, then most recently active. A search
+        // matches titles and message text, and includes archived conversations.
+        const { search, archived = false, limit = 50, offset = 0 } = body || {};
+        const term = typeof search === 'string' ? search.replace(/[,()%]/g, ' ').trim() : '';
+
+        let query = supabaseAdmin
+          .from('conversations')
+          .select('*', { count: 'exact' })
+          .eq('user_id', user.id)
+          .order('pinned', { ascending: false })
+          .order('last_message_at', { ascending: false });
+
+        const snippets = new Map<string, string>();
+
+        if (term) {
+          const { data: matches, error: matchError } = await supabaseAdmin
+            .from('chat_messages')
+            .select('conversation_id, content')
+            .eq('user_id', user.id)
+            .ilike('content', `%${term}%`)
+            .order('created_at', { ascending: false })
+            .limit(200);
+
+          if (matchError) {
+            throw matchError;
+          }
+
+          (matches || []).forEach(match => {
+            if (!snippets.has(match.conversation_id)) {
+              snippets.set(match.conversation_id, excerpt(match.content, term));
+            }
+          });
+
+          const ids = [...snippets.keys()];
+          query = ids.length > 0
+            ? query.or(`title.ilike.%${term}%,id.in.(${ids.join(',')})`)
+            : query.ilike('title', `%${term}%`);
+        } else {
+          query = query.eq('archived', archived);
+        }
+
+        const { data: conversations, error, count } = await query.range(offset, offset + limit - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        return {
+          conversations: (conversations || []).map(conversation => ({
+            ...conversation,
+            snippet: snippets.get(conversation.id) || null
+          })),
+          total: count || 0
+        };
+      }
+
+      case 'PUT': {
+        // Rename, pin/unpin, archive/unarchive
+        if (!conversationId) {
+          return { error: 'Conversation ID is required for updates' };
+        }
+
+        const { valid, errors, conversation: updates } = validateConversation(body || {});
+
+        if (!valid) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        const { data: conversation, error: updateError } = await supabaseAdmin
+          .from('conversations')
+          .update(updates)
+          .eq('id', conversationId)
+          .eq('user_id', user.id)
+          .select()
+          .single();
+
+        if (updateError || !conversation) {
+          return { error: 'Conversation not found' };
+        }
+
+        return { conversation };
+      }
+
+      case 'DELETE': {
+        // Delete conversation; its messages go with it (ON DELETE CASCADE)
+        if (!conversationId) {
+          return { error: 'Conversation ID is required for deletion' };
+        }
+
+        const { error: deleteError } = await supabaseAdmin
+          .from('conversations')
+          .delete()
+          .eq('id', conversationId)
+          .eq('user_id', user.id);
+
+        if (deleteError) {
+          throw deleteError;
+        }
+
+        console.log(`✅ [Conversations-CRUD] Conversation deleted: ${conversationId}`);
+        return { success: true };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Conversations-CRUD] Failed:', error);
+    return {
+      error: 'Conversation operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
@@ -0,0 +1,158 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { validateIdentificationOutcome } from './utils/validation';
+import { fetchAll } from './utils/queries';
+
+interface AttemptRow {
+  outcome: 'pending' | 'confirmed' | 'rejected';
+  chosen_index: number | null;
+  research_method: string;
+  candidates: { confidence: number }[];
+}
+
+const CONFIDENCE_BUCKETS = [0, 0.2, 0.4, 0.6, 0.8];
+
+// How often the model's ranked candidates held the right answer, and whether its
+// top-pick confidence matched how often that pick was confirmed
+const summarize = (attempts: AttemptRow[]) => {
+  const resolved = attempts.filter(attempt => attempt.outcome !== 'pending');
+  const confirmed = resolved.filter(attempt => attempt.outcome === 'confirmed');
+  const rate = (count: number) => (resolved.length > 0 ? Math.round((count / resolved.length) * 1000) / 1000 : null);
+
+  const calibration = CONFIDENCE_BUCKETS.map((min, index) => {
+    const max = CONFIDENCE_BUCKETS[index + 1] ?? 1.01;
+    const inBucket = resolved.filter(attempt => {
+      const confidence = attempt.candidates[0]?.confidence ?? 0;
+      return confidence >= min && confidence < max;
+    });
+    const correct = inBucket.filter(attempt => attempt.chosen_index === 0).length;
+    return {
+      range: `${Math.round(min * 100)}-${Math.min(Math.round(max * 100), 100)}%`,
+      attempts: inBucket.length,
+      top1_correct: correct,
+      accuracy: inBucket.length > 0 ? Math.round((correct / inBucket.length) * 1000) / 1000 : null
+    };
+  });
+
+  return {
+    total: attempts.length,
+    pending: attempts.length - resolved.length,
+    confirmed: confirmed.length,
+    rejected: resolved.length - confirmed.length,
+    top1_accuracy: rate(confirmed.filter(attempt => attempt.chosen_index === 0).length),
+    topn_accuracy: rate(confirmed.length),
+    by_method: [...new Set(resolved.map(attempt => attempt.research_method))].map(method => {
+      const forMethod = resolved.filter(attempt => attempt.research_method === method);
+      const hits = forMethod.filter(attempt => attempt.outcome === 'confirmed').length;
+      return { method, resolved: forMethod.length, confirmed: hits };
+    }),
+    calibration
+  };
+};
+
+// GET lists identification attempts with accuracy stats; PUT records whether the
+// user confirmed one of the candidates or rejected them all.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const attemptId = pathParts.length > 1 && pathParts[pathParts.length - 1] !== 'identifications-crud'
+    ? pathParts[pathParts.length - 1]
+    : null;
+
+  console.log('🎯 [Identifications] Request:', { method, attemptId, userId: user.id });
+
+  try {
+    switch (method) {
+      case 'GET': {
+        const { outcome, limit = 50, offset = 0 } = body || {};
+
+        let query = supabaseAdmin
+          .from('identification_attempts')
+          .select('*', { count: 'exact' })
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (outcome) {
+          query = query.eq('outcome', outcome);
+        }
+
+        const { data: attempts, error, count } = await query.range(offset, offset + limit - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        const all = await fetchAll<AttemptRow>(
+          'identification_attempts',
+          'outcome, chosen_index, research_method, candidates',
+          user.id
+        );
+
+        return { attempts: attempts || [], total: count || 0, summary: summarize(all) };
+      }
+
+      case 'PUT': {
+        if (!attemptId) {
+          return { error: 'Identification attempt ID is required' };
+        }
+
+        const { valid, errors, outcome } = validateIdentificationOutcome(body);
+        if (!valid) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        const { data: attempt } = await supabaseAdmin
+          .from('identification_attempts')
+          .select('id, candidates')
+          .eq('id', attemptId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (!attempt) {
+          return { error: 'Identification attempt not found' };
+        }
+
+        if (outcome!.chosen_index !== null && outcome!.chosen_index >= (attempt.candidates || []).length) {
+          return { error: 'Validation failed', details: ['Chosen candidate does not exist'] };
+        }
+
+        if (outcome!.part_id) {
+          const { data: part } = await supabaseAdmin
+            .from('parts')
+            .select('id')
+            .eq('id', outcome!.part_id)
+            .eq('user_id', user.id)
+            .single();
+
+          if (!part) {
+            return { error: 'Validation failed', details: ['Part not found'] };
+          }
+        }
+
+        const { data: updated, error: updateError } = await supabaseAdmin
+          .from('identification_attempts')
+          .update({ ...outcome, resolved_at: new Date().toISOString() })
+          .eq('id', attemptId)
+          .eq('user_id', user.id)
+          .select()
+          .single();
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        console.log(`✅ [Identifications] Attempt ${attemptId} ${outcome!.outcome}`, { chosen_index: outcome!.chosen_index });
+        return { attempt: updated };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Identifications] Failed:', error);
+    return {
+      error: 'Identification operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
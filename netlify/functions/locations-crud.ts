@@ -0,0 +1,240 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { validateLocation } from './utils/validation';
+import { loadLocationTree, getDescendantIds, LocationNode } from './utils/locations';
+
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const locationId = pathParts[pathParts.length - 1];
+
+  console.log('📦 [Locations-CRUD] Request:', { method, locationId, userId: user.id });
+
+  try {
+    switch (method) {
+      case 'GET': {
+        if (locationId && locationId !== 'locations-crud') {
+          // Get single location with its path
+          const nodes = await loadLocationTree(user.id);
+          const location = nodes.find(node => node.id === locationId);
+
+          if (!location) {
+            return { error: 'Location not found' };
+          }
+
+          return { location };
+        } else {
+          // Get the whole tree, flattened in path order, with part counts
+          const nodes = await loadLocationTree(user.id);
+
+          const { data: stock, error: stockError } = await supabaseAdmin
+            .from('parts')
+            .select('location_id, quantity')
+            .eq('user_id', user.id);
+
+          if (stockError) {
+            throw stockError;
+          }
+
+          const direct = new Map<string, { parts: number; quantity: number }>();
+          let unassignedCount = 0;
+
+          (stock || []).forEach(row => {
+            if (!row.location_id) {
+              unassignedCount++;
+              return;
+            }
+            const counts = direct.get(row.location_id) || { parts: 0, quantity: 0 };
+            counts.parts++;
+            counts.quantity += row.quantity || 0;
+            direct.set(row.location_id, counts);
+          });
+
+          const locations = nodes.map(node => {
+            const subtree = getDescendantIds(nodes, node.id);
+            const totals = subtree.reduce((acc, id) => {
+              const counts = direct.get(id);
+              return counts
+                ? { parts: acc.parts + counts.parts, quantity: acc.quantity + counts.quantity }
+                : acc;
+            }, { parts: 0, quantity: 0 });
+
+            return {
+              ...node,
+              part_count: direct.get(node.id)?.parts || 0,
+              quantity_count: direct.get(node.id)?.quantity || 0,
+              total_part_count: totals.parts,
+              total_quantity_count: totals.quantity
+            };
+          });
+
+          return { locations, total: locations.length, unassigned_count: unassignedCount };
+        }
+      }
+
+      case 'POST': {
+        // Create new location
+        const { valid, errors, location: validatedLocation } = validateLocation(body);
+
+        if (!valid) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        if (validatedLocation.parent_id) {
+          const nodes = await loadLocationTree(user.id);
+          if (!nodes.some(node => node.id === validatedLocation.parent_id)) {
+            return { error: 'Parent location not found' };
+          }
+        }
+
+        const { data: newLocation, error: createError } = await supabaseAdmin
+          .from('locations')
+          .insert([{ ...validatedLocation, user_id: user.id }])
+          .select()
+          .single();
+
+        if (createError) {
+          if (createError.code === '23505') {
+            return { error: `"${validatedLocation.name}" already exists in that location` };
+          }
+          throw createError;
+        }
+
+        console.log('✅ [Locations-CRUD] Location created:', { id: newLocation.id, name: newLocation.name });
+        return { location: newLocation };
+      }
+
+      case 'PUT': {
+        // Update (rename / move) existing location
+        if (!locationId || locationId === 'locations-crud') {
+          return { error: 'Location ID is required for updates' };
+        }
+
+        const { valid: updateValid, errors: updateErrors, location: updateData } = validateLocation(body);
+
+        if (!updateValid) {
+          return { error: 'Validation failed', details: updateErrors };
+        }
+
+        const treeBeforeUpdate = await loadLocationTree(user.id);
+
+        if (!treeBeforeUpdate.some(node => node.id === locationId)) {
+          return { error: 'Location not found' };
+        }
+
+        if (updateData.parent_id) {
+          if (!treeBeforeUpdate.some(node => node.id === updateData.parent_id)) {
+            return { error: 'Parent location not found' };
+          }
+          if (getDescendantIds(treeBeforeUpdate, locationId).includes(updateData.parent_id)) {
+            return { error: 'A location cannot be moved inside itself' };
+          }
+        }
+
+        const { data: updatedLocation, error: updateError } = await supabaseAdmin
+          .from('locations')
+          .update(updateData)
+          .eq('id', locationId)
+          .eq('user_id', user.id)
+          .select()
+          .single();
+
+        if (updateError) {
+          if (updateError.code === '23505') {
+            return { error: `"${updateData.name}" already exists in that location` };
+          }
+          throw updateError;
+        }
+
+        // Renaming or moving changes the display path of everything below
+        await syncPartLocationPaths(user.id, getDescendantIds(treeBeforeUpdate, locationId));
+
+        return { location: updatedLocation };
+      }
+
+      case 'DELETE': {
+        // Delete location; its children and parts move up to its parent
+        if (!locationId || locationId === 'locations-crud') {
+          return { error: 'Location ID is required for deletion' };
+        }
+
+        const tree = await loadLocationTree(user.id);
+        const doomed = tree.find(node => node.id === locationId);
+
+        if (!doomed) {
+          return { error: 'Location not found' };
+        }
+
+        const { error: reparentError } = await supabaseAdmin
+          .from('locations')
+          .update({ parent_id: doomed.parent_id })
+          .eq('parent_id', locationId)
+          .eq('user_id', user.id);
+
+        if (reparentError) {
+          if (reparentError.code === '23505') {
+            return { error: 'A child location has the same name as one in the parent; rename it first' };
+          }
+          throw reparentError;
+        }
+
+        const parent = tree.find(node => node.id === doomed.parent_id);
+        const { error: movePartsError } = await supabaseAdmin
+          .from('parts')
+          .update({ location_id: parent?.id || null, location: parent?.path || null })
+          .eq('location_id', locationId)
+          .eq('user_id', user.id);
+
+        if (movePartsError) {
+          throw movePartsError;
+        }
+
+        const { error: deleteError } = await supabaseAdmin
+          .from('locations')
+          .delete()
+          .eq('id', locationId)
+          .eq('user_id', user.id);
+
+        if (deleteError) {
+          throw deleteError;
+        }
+
+        await syncPartLocationPaths(user.id, getDescendantIds(tree, locationId).filter(id => id !== locationId));
+
+        return { success: true };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('💥 [Locations-CRUD] Unexpected error:', error);
+    return {
+      error: 'Database operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
+
+// Rewrite parts.location (the denormalized display path) for the given locations
+async function syncPartLocationPaths(userId: string, locationIds: string[]): Promise<void> {
+  if (locationIds.length === 0) return;
+
+  const nodes = await loadLocationTree(userId);
+  const byId = new Map<string, LocationNode>(nodes.map(node => [node.id, node]));
+
+  for (const id of locationIds) {
+    const node = byId.get(id);
+    if (!node) continue;
+
+    const { error } = await supabaseAdmin
+      .from('parts')
+      .update({ location: node.path })
+      .eq('location_id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error(`❌ [Locations-CRUD] Failed to sync part paths for ${id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { withAuth } from './utils/auth';
+import { findLowStock, toShoppingListCsv } from './utils/stock';
+
+// Lists parts under their minimum quantity (per-part min_quantity, else the
+// category threshold). Stateless, so it can back a nightly job or be called on
+// demand; `format: 'csv'` returns the shopping list instead of JSON rows.
+export const handler = withAuth(async (req) => {
+  const { user, body } = req;
+  const { format = 'json' } = body;
+
+  console.log('📉 [Low-Stock] Checking thresholds:', { userId: user.id, format });
+
+  try {
+    const items = await findLowStock(user.id);
+    const estimatedTotal = items.reduce((sum, item) => sum + (item.estimated_cost || 0), 0);
+
+    console.log(`✅ [Low-Stock] ${items.length} parts under threshold`);
+
+    if (format === 'csv') {
+      return {
+        csv: toShoppingListCsv(items),
+        filename: `shopping-list-${new Date().toISOString().slice(0, 10)}.csv`,
+        total: items.length
+      };
+    }
+
+    return {
+      items,
+      total: items.length,
+      estimated_total: Math.round(estimatedTotal * 100) / 100,
+      checked_at: new Date().toISOString()
+    };
+  } catch (error) {
+    console.error('❌ [Low-Stock] Check failed:', error);
+    return {
+      error: 'Low stock check failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
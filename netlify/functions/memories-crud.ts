@@ -0,0 +1,71 @@
+import { withAuth } from './utils/auth';
+import { getMemoryStore } from './utils/memory';
+import { validateMemory } from './utils/validation';
+
+// What the assistant remembers about the user. Memories are learned from chat by
+// ai-chat / ai-chat-stream; this function lists, edits and forgets them, in
+// whichever store backs memory for this request (mem0 when it carries an
+// X-Mem0-Key, otherwise user_memories).
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const memoryId = pathParts.length > 1 && pathParts[pathParts.length - 1] !== 'memories-crud'
+    ? pathParts[pathParts.length - 1]
+    : null;
+
+  const store = getMemoryStore(headers['x-mem0-key']);
+
+  console.log('🧠 [Memories-CRUD] Request:', { method, memoryId, store: store.kind, userId: user.id });
+
+  try {
+    switch (method) {
+      case 'GET': {
+        const memories = await store.list(user.id);
+        return { memories, store: store.kind };
+      }
+
+      case 'PUT': {
+        if (!memoryId) {
+          return { error: 'Memory ID is required for updates' };
+        }
+
+        const { valid, errors, memory: updates } = validateMemory(body || {});
+
+        if (!valid || !updates) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        const memory = await store.update(user.id, memoryId, updates);
+
+        if (!memory) {
+          return { error: 'Memory not found' };
+        }
+
+        return { memory };
+      }
+
+      case 'DELETE': {
+        if (!memoryId) {
+          return { error: 'Memory ID is required for deletion' };
+        }
+
+        if (!(await store.remove(user.id, memoryId))) {
+          return { error: 'Memory not found' };
+        }
+
+        console.log(`✅ [Memories-CRUD] Memory forgotten: ${memoryId}`);
+        return { success: true };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Memories-CRUD] Failed:', error);
+    return {
+      error: 'Memory operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
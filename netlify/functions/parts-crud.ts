@@ -1,5 +1,11 @@
 import { withAuth, supabaseAdmin } from './utils/auth';
 import { validatePart } from './utils/validation';
+import { loadLocationTree, getDescendantIds, resolvePartLocation } from './utils/locations';
+import { recordStockMovements, findLowStock } from './utils/stock';
+import { resolvePartTeardown } from './utils/teardowns';
+import { parsePartQuery, toWebSearchText, negateOperator, QueryClause, QueryOperator } from './utils/query-language';
+
+type PartsQuery = ReturnType<ReturnType<typeof supabaseAdmin.from>['select']>;
 
 export const handler = withAuth(async (req) => {
   const { user, body, headers, path } = req;
@@ -41,27 +47,85 @@ export const handler = withAuth(async (req) => {
           return { part };
         } else {
           // Get all parts with optional filtering
-          const { search, category, available, limit = 50, offset = 0 } = body || {};
+          const {
+            search,
+            query: queryText,
+            category,
+            available,
+            location_id: locationId,
+            teardown_id: teardownId,
+            include_sublocations: includeSublocations = true,
+            limit = 50,
+            offset = 0
+          } = body || {};
           
           console.log(`🔍 [Parts-CRUD] Getting parts list:`, { 
             search, 
+            query: queryText,
             category, 
             available, 
+            locationId,
+            teardownId,
             limit, 
             offset,
             userId: user.id 
           });
 
+          // Structured query ("category:sensor qty<5 -used"); plain words stay ranked search
+          const parsedQuery = queryText && queryText.trim() ? parsePartQuery(queryText) : null;
+          const isPlainTextQuery = !!parsedQuery &&
+            parsedQuery.clauses.every(clause => clause.type === 'text' && !clause.negated);
+          const searchText = parsedQuery
+            ? (isPlainTextQuery ? toWebSearchText(parsedQuery.clauses) : '')
+            : search;
+
+          if (parsedQuery?.errors.length) {
+            console.log(`⚠️ [Parts-CRUD] Query parse errors:`, parsedQuery.errors);
+          }
+
+          // Location and teardown browsing go through the query builder (search_parts has neither filter)
+          if (searchText && searchText.trim() && !locationId && !teardownId) {
+            // Ranked full-text + trigram search (see search_parts in supabase/migrations)
+            const searchStartTime = Date.now();
+            const { data: matches, error: searchError } = await supabaseAdmin.rpc('search_parts', {
+              p_user_id: user.id,
+              p_query: searchText.trim(),
+              p_category: category || null,
+              p_available: available !== undefined ? available : null,
+              p_limit: limit,
+              p_offset: offset
+            });
+
+            if (searchError) {
+              console.error(`❌ [Parts-CRUD] Search error:`, searchError);
+              throw searchError;
+            }
+
+            const rankedParts = (matches || []).map((match) => ({
+              ...match.part,
+              search_rank: match.rank,
+              search_highlight: match.highlight,
+              search_match_type: match.match_type
+            }));
+
+            console.log(`✅ [Parts-CRUD] Search completed:`, {
+              search,
+              resultsCount: rankedParts.length,
+              totalCount: matches?.[0]?.total_count || 0,
+              queryTimeMs: Date.now() - searchStartTime
+            });
+
+            return {
+              parts: rankedParts,
+              total: Number(matches?.[0]?.total_count || 0),
+              ...(parsedQuery && { query: parsedQuery })
+            };
+          }
+
           let query = supabaseAdmin
             .from('parts')
             .select('*', { count: 'exact' })
-            .eq('user_id', user.id)
-            .order('created_at', { ascending: false });
-
-          if (search) {
-            query = query.or(`name.ilike.%${search}%,description.ilike.%${search}%,category.ilike.%${search}%`);
-            console.log(`🔍 [Parts-CRUD] Added search filter: "${search}"`);
-          }
+            .eq('user_id', user.id);
 
           if (category) {
             query = query.eq('category', category);
@@ -73,7 +137,41 @@ export const handler = withAuth(async (req) => {
             console.log(`✅ [Parts-CRUD] Added availability filter: ${available}`);
           }
 
-          query = query.range(offset, offset + limit - 1);
+          if (locationId === 'unassigned') {
+            query = query.is('location_id', null);
+          } else if (locationId) {
+            const locationIds = includeSublocations
+              ? getDescendantIds(await loadLocationTree(user.id), locationId)
+              : [locationId];
+            query = query.in('location_id', locationIds);
+            console.log(`📦 [Parts-CRUD] Added location filter:`, { locationId, locations: locationIds.length });
+          }
+
+          if (teardownId) {
+            query = query.eq('teardown_id', teardownId);
+            console.log(`🪛 [Parts-CRUD] Added teardown filter: ${teardownId}`);
+          }
+
+          // Plain search text skipped the ranked path above; structured queries handle their own text
+          if ((locationId || teardownId) && !parsedQuery && search && search.trim()) {
+            query = query.textSearch('search_vector', search.trim(), { type: 'websearch', config: 'english' });
+          }
+
+          if (parsedQuery) {
+            query = applyQueryClauses(query, parsedQuery.clauses);
+            console.log(`🧮 [Parts-CRUD] Applied structured query:`, {
+              clauses: parsedQuery.clauses.length,
+              errors: parsedQuery.errors.length
+            });
+          }
+
+          // sort: clauses first, newest first breaks ties
+          const sortClauses = (parsedQuery?.clauses || [])
+            .filter((clause): clause is Extract<QueryClause, { type: 'sort' }> => clause.type === 'sort');
+          for (const clause of sortClauses) {
+            query = query.order(sortColumn(clause), { ascending: !clause.descending, nullsFirst: false });
+          }
+          query = query.order('created_at', { ascending: false }).range(offset, offset + limit - 1);
 
           const startTime = Date.now();
           const { data: parts, error, count } = await query;
@@ -89,7 +187,7 @@ export const handler = withAuth(async (req) => {
             totalCount: count || 0,
             queryTimeMs: queryTime,
             userId: user.id,
-            filters: { search, category, available }
+            filters: { search, query: queryText, category, available, locationId, teardownId }
           });
 
           // Additional debugging for empty results
@@ -113,7 +211,11 @@ export const handler = withAuth(async (req) => {
             }
           }
 
-          return { parts: parts || [], total: count || 0 };
+          return {
+            parts: parts || [],
+            total: count || 0,
+            ...(parsedQuery && { query: parsedQuery })
+          };
         }
 
       case 'POST':
@@ -132,6 +234,22 @@ export const handler = withAuth(async (req) => {
           return { error: 'Validation failed', details: errors };
         }
 
+        const createLocation = await resolvePartLocation(user.id, validatedPart);
+        if ('error' in createLocation) {
+          return { error: 'Validation failed', details: [createLocation.error] };
+        }
+        Object.assign(validatedPart, createLocation);
+
+        const createTeardown = await resolvePartTeardown(user.id, validatedPart);
+        if ('error' in createTeardown) {
+          return { error: 'Validation failed', details: [createTeardown.error] };
+        }
+        Object.assign(validatedPart, createTeardown);
+
+        // Stock arrives through the ledger, which sets quantity via its trigger
+        const initialQuantity = validatedPart.quantity || 0;
+        validatedPart.quantity = 0;
+
         console.log(`✅ [Parts-CRUD] Validation passed, inserting part:`, {
           name: validatedPart.name,
           category: validatedPart.category,
@@ -165,6 +283,26 @@ export const handler = withAuth(async (req) => {
           created_at: newPart.created_at
         });
 
+        if (initialQuantity > 0) {
+          // Parts harvested in a teardown enter the ledger as salvage
+          try {
+            await recordStockMovements(user.id, [{
+              part_id: newPart.id,
+              delta: initialQuantity,
+              reason: validatedPart.teardown_id ? 'salvaged' : 'adjusted',
+              note: validatedPart.teardown_id
+                ? `Harvested from ${validatedPart.original_device || 'teardown'}`
+                : 'Initial stock'
+            }]);
+          } catch (stockError) {
+            // Don't leave the part behind at 0 stock when its opening stock didn't record
+            console.error(`❌ [Parts-CRUD] Initial stock failed, removing part ${newPart.id}:`, stockError);
+            await supabaseAdmin.from('parts').delete().eq('id', newPart.id).eq('user_id', user.id);
+            throw stockError;
+          }
+          newPart.quantity = initialQuantity;
+        }
+
         // Verify the part was actually saved by reading it back
         const { data: verifyPart, error: verifyError } = await supabaseAdmin
           .from('parts')
@@ -195,6 +333,51 @@ export const handler = withAuth(async (req) => {
           return { error: 'Validation failed', details: updateErrors };
         }
 
+        const updateLocation = await resolvePartLocation(user.id, updateData);
+        if ('error' in updateLocation) {
+          return { error: 'Validation failed', details: [updateLocation.error] };
+        }
+        Object.assign(updateData, updateLocation);
+
+        const updateTeardown = await resolvePartTeardown(user.id, updateData);
+        if ('error' in updateTeardown) {
+          return { error: 'Validation failed', details: [updateTeardown.error] };
+        }
+        Object.assign(updateData, updateTeardown);
+
+        // Quantity edits become ledger adjustments instead of overwriting the total
+        const { data: currentPart } = await supabaseAdmin
+          .from('parts')
+          .select('quantity, min_quantity')
+          .eq('id', partId)
+          .eq('user_id', user.id)
+          .single();
+
+        // validatePart defaults a missing quantity to 1; an update without one leaves stock alone
+        if (body.quantity === undefined) {
+          delete updateData.quantity;
+        }
+
+        // A changed quantity must come with the quantity the client loaded, so a stale
+        // form can't undo stock movements recorded since
+        if (currentPart && updateData.quantity !== undefined && updateData.quantity !== currentPart.quantity &&
+            body.expected_quantity !== currentPart.quantity) {
+          return {
+            error: 'Quantity changed since this part was loaded',
+            details: [`Stock is now ${currentPart.quantity}; reload the part and try again`]
+          };
+        }
+
+        // Only warn when this edit could have pushed the part under its minimum
+        const stockCheckNeeded = !!currentPart && (
+          (updateData.quantity !== undefined && updateData.quantity < currentPart.quantity) ||
+          updateData.min_quantity !== currentPart.min_quantity
+        );
+        const quantityChange = currentPart && updateData.quantity !== undefined
+          ? updateData.quantity - currentPart.quantity
+          : 0;
+        delete updateData.quantity;
+
         const { data: updatedPart, error: updateError } = await supabaseAdmin
           .from('parts')
           .update(updateData)
@@ -208,8 +391,23 @@ export const handler = withAuth(async (req) => {
           throw updateError;
         }
 
+        // Recorded only once the edit has saved, so the ledger never keeps an
+        // adjustment for an edit that didn't happen
+        if (currentPart && quantityChange !== 0) {
+          await recordStockMovements(user.id, [{
+            part_id: partId,
+            delta: quantityChange,
+            reason: 'adjusted',
+            note: 'Quantity edited'
+          }]);
+          updatedPart.quantity = currentPart.quantity + quantityChange;
+        }
+
         console.log(`✅ [Parts-CRUD] Part updated successfully:`, { id: updatedPart.id, name: updatedPart.name });
-        return { part: updatedPart };
+        return {
+          part: updatedPart,
+          low_stock: stockCheckNeeded ? await findLowStock(user.id, [partId]) : []
+        };
 
       case 'DELETE':
         // Delete part
@@ -244,4 +442,116 @@ export const handler = withAuth(async (req) => {
       details: error instanceof Error ? error.message : 'Unknown error'
     };
   }
-});
\ No newline at end of file
+});
+
+// Escape LIKE wildcards so a user-typed "%" or "_" matches literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// Numeric comparison on a column or jsonb path ("specs->voltage")
+function applyComparison(query: PartsQuery, column: string, op: QueryOperator, value: number): PartsQuery {
+  switch (op) {
+    case '<': return query.lt(column, value);
+    case '<=': return query.lte(column, value);
+    case '>': return query.gt(column, value);
+    case '>=': return query.gte(column, value);
+    case '!=': return query.neq(column, value);
+    default: return query.eq(column, value);
+  }
+}
+
+// Specs are stored as { value, unit, min, max } (see utils/specs). A part matches when
+// its range can satisfy the comparison: "vin>=12" matches 7-35V, and "=" means the
+// value lies inside the range. Negation flips the operator on the same bound.
+function applySpecComparison(query: PartsQuery, key: string, op: QueryOperator, value: number, negated: boolean): PartsQuery {
+  const min = `specs->${key}->min`;
+  const max = `specs->${key}->max`;
+
+  if (op === ':' || op === '=' || op === '!=') {
+    const exclude = negated !== (op === '!=');
+    return exclude
+      ? query.or(`${min}.gt.${value},${max}.lt.${value}`)
+      : query.lte(min, value).gte(max, value);
+  }
+
+  const bound = op === '>' || op === '>=' ? max : min;
+  return applyComparison(query, bound, negated ? negateOperator(op) : op, value);
+}
+
+// Spec sorts use the bottom of the range ascending and the top descending
+function sortColumn(clause: Extract<QueryClause, { type: 'sort' }>): string {
+  if (!clause.spec) {
+    return clause.key;
+  }
+  return `specs->${clause.key}->${clause.descending ? 'max' : 'min'}`;
+}
+
+// Case-insensitive text match; ':' is "contains", '=' is exact
+function applyTextMatch(query: PartsQuery, column: string, op: QueryOperator, value: string, negated: boolean): PartsQuery {
+  const pattern = op === ':' ? `%${escapeLike(value)}%` : escapeLike(value);
+  const exclude = negated !== (op === '!=');
+  return exclude ? query.not(column, 'ilike', pattern) : query.ilike(column, pattern);
+}
+
+// Translate parsed query clauses into Supabase query builder calls
+function applyQueryClauses(query: PartsQuery, clauses: QueryClause[]): PartsQuery {
+  const textSearch = toWebSearchText(clauses);
+  if (textSearch) {
+    query = query.textSearch('search_vector', textSearch, { type: 'websearch', config: 'english' });
+  }
+
+  for (const clause of clauses) {
+    switch (clause.type) {
+      case 'flag':
+        if (clause.flag === 'ai') {
+          query = query.eq('ai_identified', !clause.negated);
+        } else {
+          // "used" means not available; "-used" flips it back
+          query = query.eq('is_available', (clause.flag === 'available') !== clause.negated);
+        }
+        break;
+
+      case 'field': {
+        const op = clause.negated && typeof clause.value === 'number' ? negateOperator(clause.op) : clause.op;
+
+        if (clause.field === 'quantity' || clause.field === 'value_estimate') {
+          query = applyComparison(query, clause.field, op, Number(clause.value));
+        } else if (clause.field === 'tag') {
+          const tagFilter = `{"${String(clause.value).replace(/"/g, '\\"')}"}`;
+          const exclude = clause.negated !== (clause.op === '!=');
+          query = exclude ? query.not('tags', 'cs', tagFilter) : query.contains('tags', [clause.value]);
+        } else if (clause.field === 'category') {
+          // Categories match whole values: "category:ic" shouldn't match "microcontroller"
+          query = applyTextMatch(query, 'category', clause.op === ':' ? '=' : clause.op, String(clause.value), clause.negated);
+        } else if (clause.field === 'manufacturer') {
+          query = applyTextMatch(query, 'metadata->>manufacturer', clause.op, String(clause.value), clause.negated);
+        } else {
+          query = applyTextMatch(query, clause.field, clause.op, String(clause.value), clause.negated);
+        }
+        break;
+      }
+
+      case 'spec':
+        if (typeof clause.value === 'number') {
+          query = applySpecComparison(query, clause.key, clause.op, clause.value, clause.negated);
+          if (clause.unit) {
+            query = query.eq(`specs->${clause.key}->>unit`, clause.unit);
+          }
+        } else {
+          query = applyTextMatch(query, `specs->>${clause.key}`, clause.op, clause.value, clause.negated);
+        }
+        break;
+
+      case 'text':
+        // Handled above through full-text search
+        break;
+
+      case 'sort':
+        // Applied after filtering, ahead of the default order
+        break;
+    }
+  }
+
+  return query;
+}
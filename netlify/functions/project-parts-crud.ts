@@ -0,0 +1,187 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { validateBomLine } from './utils/validation';
+import { loadBom, reserveBom, releaseBom, buildBom, syncProjectPartLists } from './utils/bom';
+
+const BOM_ACTIONS = ['reserve', 'release', 'build'];
+
+// Project bill of materials. GET returns the lines with their status and the
+// shortfall report; POST adds a line, or runs a BOM-wide action
+// (`action: 'reserve' | 'release' | 'build'`) when one is given.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const lineId = pathParts[pathParts.length - 1];
+
+  console.log('🧾 [Project-Parts] Request:', { method, lineId, action: body.action, userId: user.id });
+
+  const ownsProject = async (projectId: string) => {
+    const { data } = await supabaseAdmin
+      .from('projects')
+      .select('id')
+      .eq('id', projectId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    return !!data;
+  };
+
+  try {
+    switch (method) {
+      case 'GET': {
+        const { project_id } = body;
+
+        if (!project_id) {
+          return { error: 'Project ID is required' };
+        }
+
+        if (!(await ownsProject(project_id))) {
+          return { error: 'Project not found' };
+        }
+
+        return await loadBom(user.id, project_id);
+      }
+
+      case 'POST': {
+        if (body.action) {
+          const { action, project_id } = body;
+
+          if (!BOM_ACTIONS.includes(action)) {
+            return { error: 'Validation failed', details: [`Action must be one of: ${BOM_ACTIONS.join(', ')}`] };
+          }
+
+          if (!project_id || !(await ownsProject(project_id))) {
+            return { error: 'Project not found' };
+          }
+
+          if (action === 'reserve') {
+            const reserved = await reserveBom(user.id, project_id);
+            console.log(`✅ [Project-Parts] Reserved ${reserved} units for ${project_id}`);
+            return { ...(await loadBom(user.id, project_id)), reserved };
+          }
+
+          if (action === 'release') {
+            await releaseBom(user.id, project_id);
+            return await loadBom(user.id, project_id);
+          }
+
+          const { movements, report, low_stock } = await buildBom(user.id, project_id);
+          console.log(`✅ [Project-Parts] Built ${project_id}: ${movements.length} parts consumed, ${report.shortfalls.length} short`);
+          return { ...report, movements, low_stock };
+        }
+
+        const { valid, errors, line } = validateBomLine(body);
+
+        if (!valid || !line) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        if (!(await ownsProject(line.project_id))) {
+          return { error: 'Project not found' };
+        }
+
+        const { data: part } = await supabaseAdmin
+          .from('parts')
+          .select('id')
+          .eq('id', line.part_id)
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (!part) {
+          return { error: 'Part not found' };
+        }
+
+        // Adding a part that is already on the BOM updates its line
+        const { data: saved, error: saveError } = await supabaseAdmin
+          .from('project_parts')
+          .upsert({ ...line, user_id: user.id }, { onConflict: 'project_id,part_id' })
+          .select()
+          .single();
+
+        if (saveError) {
+          throw saveError;
+        }
+
+        await syncProjectPartLists(user.id, line.project_id);
+
+        return { line: saved };
+      }
+
+      case 'PUT': {
+        if (!lineId || lineId === 'project-parts-crud') {
+          return { error: 'BOM line ID is required for updates' };
+        }
+
+        const { data: existing, error: existingError } = await supabaseAdmin
+          .from('project_parts')
+          .select('*')
+          .eq('id', lineId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (existingError || !existing) {
+          return { error: 'BOM line not found' };
+        }
+
+        const { valid, errors, line } = validateBomLine({ ...existing, ...body, project_id: existing.project_id, part_id: existing.part_id });
+
+        if (!valid || !line) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        // Shrinking a line gives back whatever it no longer needs to hold
+        const { data: updated, error: updateError } = await supabaseAdmin
+          .from('project_parts')
+          .update({
+            quantity: line.quantity,
+            substitutes: line.substitutes,
+            notes: line.notes,
+            reserved: Math.min(existing.reserved, Math.max(line.quantity - existing.consumed, 0))
+          })
+          .eq('id', lineId)
+          .eq('user_id', user.id)
+          .select()
+          .single();
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        return { line: updated };
+      }
+
+      case 'DELETE': {
+        if (!lineId || lineId === 'project-parts-crud') {
+          return { error: 'BOM line ID is required for deletion' };
+        }
+
+        // Deleting the line drops its reservation through the trigger
+        const { data: deleted, error: deleteError } = await supabaseAdmin
+          .from('project_parts')
+          .delete()
+          .eq('id', lineId)
+          .eq('user_id', user.id)
+          .select('project_id')
+          .maybeSingle();
+
+        if (deleteError) {
+          throw deleteError;
+        }
+
+        if (deleted) {
+          await syncProjectPartLists(user.id, deleted.project_id);
+        }
+
+        return { success: true };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Project-Parts] Error:', error);
+    return {
+      error: 'Database operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
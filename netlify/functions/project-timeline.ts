@@ -0,0 +1,156 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { sessionMinutes } from './utils/sessions';
+
+type TimelineEventType = 'status' | 'session' | 'photos' | 'stock';
+
+interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  at: string;
+  title: string;
+  detail?: string | null;
+  [key: string]: unknown;
+}
+
+// Everything that happened to one project, newest first: status changes, build
+// sessions with their logs and photos, project photos and stock movements.
+export const handler = withAuth(async (req) => {
+  const { user, body } = req;
+  const { project_id } = body;
+
+  if (!project_id) {
+    return { error: 'project_id is required' };
+  }
+
+  console.log('🕒 [Project-Timeline] Building timeline:', { userId: user.id, project_id });
+
+  try {
+    const { data: project, error: projectError } = await supabaseAdmin
+      .from('projects')
+      .select('id, name, status, created_at, updated_at, date_completed, success_photos, fail_photos, actual_minutes, actual_time')
+      .eq('id', project_id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (projectError || !project) {
+      return { error: 'Project not found' };
+    }
+
+    const [statusResult, sessionsResult, movementsResult] = await Promise.all([
+      supabaseAdmin
+        .from('project_status_changes')
+        .select('id, from_status, to_status, changed_at')
+        .eq('project_id', project_id)
+        .eq('user_id', user.id),
+      supabaseAdmin
+        .from('build_sessions')
+        .select('id, session_number, start_time, end_time, created_at, work_description, issues_encountered, solutions_found, photos, parts_consumed, mood, notes, metadata')
+        .eq('project_id', project_id)
+        .eq('user_id', user.id),
+      supabaseAdmin
+        .from('stock_movements')
+        .select('id, part_id, delta, reason, note, build_session_id, created_at, part:parts(name)')
+        .eq('project_id', project_id)
+        .eq('user_id', user.id)
+    ]);
+
+    const failed = statusResult.error || sessionsResult.error || movementsResult.error;
+    if (failed) {
+      throw failed;
+    }
+
+    const events: TimelineEvent[] = [];
+
+    (statusResult.data || []).forEach(change => {
+      events.push({
+        id: `status-${change.id}`,
+        type: 'status',
+        at: change.changed_at,
+        title: change.from_status ? `${change.from_status} → ${change.to_status}` : `Created as ${change.to_status}`,
+        from_status: change.from_status,
+        to_status: change.to_status
+      });
+    });
+
+    (sessionsResult.data || []).forEach(session => {
+      events.push({
+        id: `session-${session.id}`,
+        type: 'session',
+        at: session.start_time || session.created_at,
+        title: session.session_number ? `Session #${session.session_number}` : 'Build session',
+        detail: session.work_description,
+        session_id: session.id,
+        end_time: session.end_time,
+        minutes: sessionMinutes(session),
+        mood: session.mood,
+        notes: session.notes,
+        issues: session.issues_encountered || [],
+        solutions: session.solutions_found || [],
+        photos: session.photos || [],
+        parts_consumed: (session.parts_consumed || []).length
+      });
+    });
+
+    // Project photos carry no timestamp of their own; show them when the outcome was known
+    const outcomeAt = project.date_completed || project.updated_at || project.created_at;
+    if ((project.success_photos || []).length > 0) {
+      events.push({
+        id: 'photos-success',
+        type: 'photos',
+        at: outcomeAt,
+        title: 'Success photos',
+        photos: project.success_photos,
+        outcome: 'success'
+      });
+    }
+    if ((project.fail_photos || []).length > 0) {
+      events.push({
+        id: 'photos-fail',
+        type: 'photos',
+        at: outcomeAt,
+        title: 'Fail photos',
+        photos: project.fail_photos,
+        outcome: 'fail'
+      });
+    }
+
+    (movementsResult.data || []).forEach(movement => {
+      const part = movement.part as unknown as { name: string } | null;
+      events.push({
+        id: `stock-${movement.id}`,
+        type: 'stock',
+        at: movement.created_at,
+        title: `${movement.delta > 0 ? '+' : ''}${movement.delta} ${part?.name || 'deleted part'}`,
+        detail: movement.note,
+        part_id: movement.part_id,
+        delta: movement.delta,
+        reason: movement.reason,
+        build_session_id: movement.build_session_id
+      });
+    });
+
+    events.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+    const sessions = sessionsResult.data || [];
+    console.log(`✅ [Project-Timeline] ${events.length} events for ${project.name}`);
+
+    return {
+      timeline: events,
+      summary: {
+        sessions: sessions.length,
+        open_sessions: sessions.filter(session => !session.end_time).length,
+        actual_minutes: project.actual_minutes || 0,
+        actual_time: project.actual_time,
+        issues: sessions.reduce((sum, session) => sum + (session.issues_encountered || []).length, 0),
+        solutions: sessions.reduce((sum, session) => sum + (session.solutions_found || []).length, 0),
+        photos: events.reduce((sum, event) => sum + (Array.isArray(event.photos) ? event.photos.length : 0), 0)
+      }
+    };
+  } catch (error) {
+    console.error('❌ [Project-Timeline] Failed:', error);
+    return {
+      error: 'Failed to load project timeline',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
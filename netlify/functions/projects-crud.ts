@@ -1,5 +1,34 @@
 import { withAuth, supabaseAdmin } from './utils/auth';
 import { validateProject } from './utils/validation';
+import { syncConsumption } from './utils/stock';
+import { releaseBom } from './utils/bom';
+
+type ProjectDates = { status?: string; date_started?: string | null; date_completed?: string | null };
+
+// Keep date_started/date_completed in step with status changes. Dates already
+// set are kept unless the project goes back to a stage before them.
+const applyStatusDates = (project: ProjectDates, previous?: ProjectDates | null) => {
+  const now = new Date().toISOString();
+  const startedBefore = previous?.date_started || project.date_started;
+
+  if (project.status === 'idea' || project.status === 'planning') {
+    project.date_started = null;
+    project.date_completed = null;
+    return project;
+  }
+
+  project.date_started = startedBefore || now;
+
+  if (project.status === 'completed') {
+    project.date_completed = previous?.status === 'completed'
+      ? previous.date_completed || project.date_completed || now
+      : now;
+  } else if (project.status === 'building') {
+    project.date_completed = null;
+  }
+
+  return project;
+};
 
 export const handler = withAuth(async (req) => {
   const { user, body, headers, path } = req; // Use path from req instead of headers
@@ -26,7 +55,16 @@ export const handler = withAuth(async (req) => {
           return { project };
         } else {
           // Get all projects with optional filtering
-          const { search, status, limit = 50, offset = 0 } = body;
+          const {
+            search,
+            status,
+            part_id,
+            difficulty_level,
+            max_danger_level,
+            min_fun_factor,
+            limit = 50,
+            offset = 0
+          } = body;
           
           let query = supabaseAdmin
             .from('projects')
@@ -42,6 +80,23 @@ export const handler = withAuth(async (req) => {
             query = query.eq('status', status);
           }
 
+          if (difficulty_level) {
+            query = query.eq('difficulty_level', difficulty_level);
+          }
+
+          if (max_danger_level) {
+            query = query.lte('danger_level', max_danger_level);
+          }
+
+          if (min_fun_factor) {
+            query = query.gte('fun_factor', min_fun_factor);
+          }
+
+          // Projects that reference a part (parts_used / parts_consumed hold part ids)
+          if (part_id) {
+            query = query.or(`parts_used.cs.{${part_id}},parts_consumed.cs.{${part_id}}`);
+          }
+
           query = query.range(offset, offset + limit - 1);
 
           const { data: projects, error, count } = await query;
@@ -63,7 +118,7 @@ export const handler = withAuth(async (req) => {
 
         const { data: newProject, error: createError } = await supabaseAdmin
           .from('projects')
-          .insert([{ ...validatedProject, user_id: user.id }])
+          .insert([{ ...applyStatusDates(validatedProject!), user_id: user.id }])
           .select()
           .single();
 
@@ -71,6 +126,13 @@ export const handler = withAuth(async (req) => {
           throw createError;
         }
 
+        if (newProject.status === 'completed') {
+          const createdStock = await syncConsumption(user.id, newProject.parts_consumed, { project_id: newProject.id }, {
+            note: 'Project completed'
+          });
+          return { project: newProject, stock: createdStock };
+        }
+
         return { project: newProject };
 
       case 'PUT':
@@ -85,6 +147,18 @@ export const handler = withAuth(async (req) => {
           return { error: 'Validation failed', details: updateErrors };
         }
 
+        const { data: previousProject } = await supabaseAdmin
+          .from('projects')
+          .select('status, date_started, date_completed')
+          .eq('id', projectId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (previousProject && previousProject.status !== updateData!.status) {
+          console.log(`🔀 [Projects-CRUD] ${projectId}: ${previousProject.status} -> ${updateData!.status}`);
+        }
+        applyStatusDates(updateData!, previousProject);
+
         const { data: updatedProject, error: updateError } = await supabaseAdmin
           .from('projects')
           .update(updateData)
@@ -97,6 +171,19 @@ export const handler = withAuth(async (req) => {
           throw updateError;
         }
 
+        // Finished projects stop holding stock for their BOM
+        if (['completed', 'failed', 'abandoned'].includes(updatedProject.status) && previousProject?.status !== updatedProject.status) {
+          await releaseBom(user.id, projectId);
+        }
+
+        // Completing a project consumes whatever its build sessions haven't already
+        if (updatedProject.status === 'completed' && previousProject?.status !== 'completed') {
+          const completedStock = await syncConsumption(user.id, updatedProject.parts_consumed, { project_id: projectId }, {
+            note: 'Project completed'
+          });
+          return { project: updatedProject, stock: completedStock };
+        }
+
         return { project: updatedProject };
 
       case 'DELETE':
@@ -0,0 +1,63 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { fetchAll } from './utils/queries';
+import { migratePartSpecs } from './utils/specs';
+
+interface SpecsRow {
+  id: string;
+  name: string;
+  specs: Record<string, unknown> | null;
+  metadata: Record<string, unknown> | null;
+}
+
+// GET previews converting every part's free-text specs to { value, unit, min, max };
+// POST applies it. Both report the values that couldn't be parsed, which are left as text.
+export const handler = withAuth(async (req) => {
+  const { user, headers } = req;
+  const method = headers['x-http-method'] || 'GET';
+
+  console.log('📐 [Specs-Normalize] Request:', { method, userId: user.id });
+
+  if (method !== 'GET' && method !== 'POST') {
+    return { error: 'Method not allowed' };
+  }
+
+  try {
+    const parts = await fetchAll<SpecsRow>('parts', 'id, name, specs, metadata', user.id);
+    const plans = parts.map(part => ({ part, migration: migratePartSpecs(part) }));
+    const changed = plans.filter(plan => plan.migration.changed);
+
+    if (method === 'POST') {
+      for (const { part, migration } of changed) {
+        const { error } = await supabaseAdmin
+          .from('parts')
+          .update({ specs: migration.specs, metadata: migration.metadata })
+          .eq('id', part.id)
+          .eq('user_id', user.id);
+
+        if (error) {
+          throw error;
+        }
+      }
+    }
+
+    const unparsed = plans.flatMap(({ part, migration }) =>
+      migration.unparsed.map(spec => ({ part_id: part.id, part_name: part.name, ...spec }))
+    );
+
+    console.log(`✅ [Specs-Normalize] ${method === 'POST' ? 'Updated' : 'Would update'} ${changed.length}/${parts.length} parts, ${unparsed.length} unparsed values`);
+
+    return {
+      applied: method === 'POST',
+      parts: parts.length,
+      changed: changed.length,
+      unchanged: parts.length - changed.length,
+      unparsed
+    };
+  } catch (error) {
+    console.error('❌ [Specs-Normalize] Failed:', error);
+    return {
+      error: 'Spec normalization failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
@@ -0,0 +1,136 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { validateStockMovement } from './utils/validation';
+import { recordStockMovements, isOverdrawError, findLowStock } from './utils/stock';
+
+// Stock ledger. Movements are append-only: POST records one, DELETE reverts it,
+// and the part's quantity follows through the stock_movements trigger.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const movementId = pathParts[pathParts.length - 1];
+
+  console.log('📒 [Stock-Movements] Request:', { method, movementId, userId: user.id });
+
+  try {
+    switch (method) {
+      case 'GET': {
+        if (movementId && movementId !== 'stock-movements-crud') {
+          const { data: movement, error } = await supabaseAdmin
+            .from('stock_movements')
+            .select('*, part:parts(id, name), project:projects(id, name)')
+            .eq('id', movementId)
+            .eq('user_id', user.id)
+            .single();
+
+          if (error) {
+            return { error: 'Stock movement not found' };
+          }
+
+          return { movement };
+        }
+
+        const { part_id, project_id, build_session_id, reason, limit = 50, offset = 0 } = body;
+
+        let query = supabaseAdmin
+          .from('stock_movements')
+          .select('*, part:parts(id, name), project:projects(id, name)', { count: 'exact' })
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false });
+
+        if (part_id) {
+          query = query.eq('part_id', part_id);
+        }
+
+        if (project_id) {
+          query = query.eq('project_id', project_id);
+        }
+
+        if (build_session_id) {
+          query = query.eq('build_session_id', build_session_id);
+        }
+
+        if (reason) {
+          query = query.eq('reason', reason);
+        }
+
+        query = query.range(offset, offset + limit - 1);
+
+        const { data: movements, error, count } = await query;
+
+        if (error) {
+          throw error;
+        }
+
+        return { movements: movements || [], total: count || 0 };
+      }
+
+      case 'POST': {
+        const { valid, errors, movement } = validateStockMovement(body);
+
+        if (!valid || !movement) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        const { data: part, error: partError } = await supabaseAdmin
+          .from('parts')
+          .select('id, name, quantity')
+          .eq('id', movement.part_id)
+          .eq('user_id', user.id)
+          .single();
+
+        if (partError || !part) {
+          return { error: 'Part not found' };
+        }
+
+        if (part.quantity + movement.delta < 0) {
+          return {
+            error: 'Insufficient stock',
+            details: [`${part.name} has ${part.quantity} on hand, cannot remove ${-movement.delta}`]
+          };
+        }
+
+        const [created] = await recordStockMovements(user.id, [movement]);
+        console.log(`✅ [Stock-Movements] ${part.name}: ${movement.delta > 0 ? '+' : ''}${movement.delta} (${movement.reason})`);
+
+        const lowStock = movement.delta < 0 ? await findLowStock(user.id, [part.id]) : [];
+
+        return {
+          movement: created,
+          part: { id: part.id, quantity: part.quantity + movement.delta },
+          low_stock: lowStock
+        };
+      }
+
+      case 'DELETE': {
+        if (!movementId || movementId === 'stock-movements-crud') {
+          return { error: 'Stock movement ID is required for deletion' };
+        }
+
+        const { error: deleteError } = await supabaseAdmin
+          .from('stock_movements')
+          .delete()
+          .eq('id', movementId)
+          .eq('user_id', user.id);
+
+        if (deleteError) {
+          if (isOverdrawError(deleteError)) {
+            return { error: 'Cannot revert', details: ['Reverting this movement would leave negative stock'] };
+          }
+          throw deleteError;
+        }
+
+        return { success: true };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Stock-Movements] Error:', error);
+    return {
+      error: 'Database operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
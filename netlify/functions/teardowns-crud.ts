@@ -0,0 +1,244 @@
+import { withAuth, supabaseAdmin } from './utils/auth';
+import { validateTeardown, TeardownChecklistItem } from './utils/validation';
+import { teardownLabel, summarizeTeardownYield } from './utils/teardowns';
+import { suggestSalvageableComponents } from './utils/ai-clients';
+
+// POST with `action: 'suggest'` on a teardown asks the AI for the components
+// usually worth salvaging from it and merges them into its checklist.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers, path } = req;
+  const method = headers['x-http-method'] || 'GET';
+  const pathParts = path.split('/').filter(Boolean);
+  const teardownId = pathParts.length > 1 && pathParts[pathParts.length - 1] !== 'teardowns-crud'
+    ? pathParts[pathParts.length - 1]
+    : null;
+
+  console.log('🪛 [Teardowns-CRUD] Request:', { method, teardownId, userId: user.id });
+
+  try {
+    switch (method) {
+      case 'GET': {
+        if (teardownId) {
+          // Get single teardown with the parts harvested from it
+          const { data: teardown, error } = await supabaseAdmin
+            .from('teardowns')
+            .select('*')
+            .eq('id', teardownId)
+            .eq('user_id', user.id)
+            .single();
+
+          if (error || !teardown) {
+            return { error: 'Teardown not found' };
+          }
+
+          const { data: parts, error: partsError } = await supabaseAdmin
+            .from('parts')
+            .select('id, name, category, quantity, value_estimate, images, is_available, created_at')
+            .eq('teardown_id', teardownId)
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: true });
+
+          if (partsError) {
+            throw partsError;
+          }
+
+          const summaries = await summarizeTeardownYield(user.id, [teardownId]);
+          return {
+            teardown: { ...teardown, ...(summaries.get(teardownId) || { parts: 0, units: 0, value: 0 }) },
+            parts: parts || []
+          };
+        }
+
+        // Get all teardowns, newest first, with what each has yielded so far
+        const { search, limit = 50, offset = 0 } = body || {};
+
+        let query = supabaseAdmin
+          .from('teardowns')
+          .select('*', { count: 'exact' })
+          .eq('user_id', user.id)
+          .order('teardown_date', { ascending: false })
+          .order('created_at', { ascending: false });
+
+        if (search && search.trim()) {
+          const term = `%${search.trim()}%`;
+          query = query.or(`device_name.ilike.${term},model.ilike.${term},manufacturer.ilike.${term}`);
+        }
+
+        const { data: teardowns, error, count } = await query.range(offset, offset + limit - 1);
+
+        if (error) {
+          throw error;
+        }
+
+        const summaries = await summarizeTeardownYield(user.id, (teardowns || []).map(teardown => teardown.id));
+
+        return {
+          teardowns: (teardowns || []).map(teardown => ({
+            ...teardown,
+            ...(summaries.get(teardown.id) || { parts: 0, units: 0, value: 0 })
+          })),
+          total: count || 0
+        };
+      }
+
+      case 'POST': {
+        if (body?.action === 'suggest') {
+          if (!teardownId) {
+            return { error: 'Teardown ID is required for suggestions' };
+          }
+
+          const { data: teardown } = await supabaseAdmin
+            .from('teardowns')
+            .select('*')
+            .eq('id', teardownId)
+            .eq('user_id', user.id)
+            .single();
+
+          if (!teardown) {
+            return { error: 'Teardown not found' };
+          }
+
+          const device = [teardown.manufacturer, teardownLabel(teardown)].filter(Boolean).join(' ');
+          const suggestion = await suggestSalvageableComponents(device);
+
+          // Keep what's already on the checklist (and ticked); only add new component names
+          const checklist: TeardownChecklistItem[] = teardown.checklist || [];
+          const known = new Set(checklist.map(item => item.name.toLowerCase()));
+          const added = suggestion.components
+            .filter(component => !known.has(component.name.toLowerCase()))
+            .map(component => ({ ...component, harvested: false, part_id: null }));
+
+          const hazards: string[] = [...(teardown.hazards || [])];
+          suggestion.hazards.forEach(hazard => {
+            if (!hazards.some(existing => existing.toLowerCase() === hazard.toLowerCase())) {
+              hazards.push(hazard);
+            }
+          });
+
+          const { data: updated, error: updateError } = await supabaseAdmin
+            .from('teardowns')
+            .update({
+              checklist: [...checklist, ...added],
+              hazards,
+              metadata: {
+                ...(teardown.metadata || {}),
+                suggestion_confidence: suggestion.confidence,
+                suggested_at: new Date().toISOString()
+              }
+            })
+            .eq('id', teardownId)
+            .eq('user_id', user.id)
+            .select()
+            .single();
+
+          if (updateError) {
+            throw updateError;
+          }
+
+          console.log(`✅ [Teardowns-CRUD] Added ${added.length} suggested components to ${device}`);
+          return { teardown: updated, added: added.length, confidence: suggestion.confidence };
+        }
+
+        // Create new teardown
+        const { valid, errors, teardown: validatedTeardown } = validateTeardown(body);
+
+        if (!valid) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        const { data: newTeardown, error: createError } = await supabaseAdmin
+          .from('teardowns')
+          .insert([{ ...validatedTeardown, user_id: user.id }])
+          .select()
+          .single();
+
+        if (createError) {
+          throw createError;
+        }
+
+        console.log('✅ [Teardowns-CRUD] Teardown created:', { id: newTeardown.id, device: newTeardown.device_name });
+        return { teardown: newTeardown };
+      }
+
+      case 'PUT': {
+        // Update existing teardown (details, photos, checklist ticks)
+        if (!teardownId) {
+          return { error: 'Teardown ID is required for updates' };
+        }
+
+        const { valid: updateValid, errors: updateErrors, teardown: updateData } = validateTeardown(body);
+
+        if (!updateValid) {
+          return { error: 'Validation failed', details: updateErrors };
+        }
+
+        const { data: current } = await supabaseAdmin
+          .from('teardowns')
+          .select('device_name, model')
+          .eq('id', teardownId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (!current) {
+          return { error: 'Teardown not found' };
+        }
+
+        const { data: updatedTeardown, error: updateError } = await supabaseAdmin
+          .from('teardowns')
+          .update(updateData)
+          .eq('id', teardownId)
+          .eq('user_id', user.id)
+          .select()
+          .single();
+
+        if (updateError) {
+          throw updateError;
+        }
+
+        // Renaming the device changes the display name on everything harvested from it
+        if (teardownLabel(current) !== teardownLabel(updatedTeardown)) {
+          const { error: syncError } = await supabaseAdmin
+            .from('parts')
+            .update({ original_device: teardownLabel(updatedTeardown) })
+            .eq('teardown_id', teardownId)
+            .eq('user_id', user.id);
+
+          if (syncError) {
+            throw syncError;
+          }
+        }
+
+        return { teardown: updatedTeardown };
+      }
+
+      case 'DELETE': {
+        // Delete teardown; its parts stay in inventory and keep their original_device
+        if (!teardownId) {
+          return { error: 'Teardown ID is required for deletion' };
+        }
+
+        const { error: deleteError } = await supabaseAdmin
+          .from('teardowns')
+          .delete()
+          .eq('id', teardownId)
+          .eq('user_id', user.id);
+
+        if (deleteError) {
+          throw deleteError;
+        }
+
+        console.log(`✅ [Teardowns-CRUD] Teardown deleted: ${teardownId}`);
+        return { success: true };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Teardowns-CRUD] Failed:', error);
+    return {
+      error: 'Teardown operation failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
@@ -1,5 +1,6 @@
 // AI client utilities for Claude and Perplexity
 import Anthropic from '@anthropic-ai/sdk';
+import { resolveLocation, LocationNode } from './locations';
 
 // Helper function to get Anthropic client for chat (keep Claude for personality)
 const getAnthropicClient = (): Anthropic => {
@@ -116,6 +117,18 @@ export interface PartResearchResult {
   confidence: number;
 }
 
+export interface SalvageSuggestion {
+  components: {
+    name: string;
+    category: string | null;
+    quantity: number;
+    estimated_value: number | null;
+    notes: string | null;
+  }[];
+  hazards: string[];
+  confidence: number;
+}
+
 // Enhanced JSON extraction with better error handling and logging
 const extractJSON = (text: string): any => {
   let cleanText = text.trim();
@@ -431,12 +444,126 @@ export const findPartImages = async (partName: string, manufacturer?: string): P
   }
 };
 
-// Natural language processing - keep Claude for this since it's good at understanding
-export const parseNaturalLanguage = async (input: string): Promise<{
+const salvagePrompt = (device: string) => `List the components typically worth salvaging from this device: "${device}"
+
+Focus on parts a hobbyist would reuse: motors, steppers, power supplies, displays, sensors, switches, connectors, ICs, bearings, lasers, speakers, heatsinks. Skip generic passives unless notable.
+
+You MUST respond with ONLY a valid JSON object. No conversational text, explanations, or preambles. Start directly with { and end with }.
+
+JSON format:
+{
+  "components": [
+    { "name": "Component name", "category": "Primary category", "quantity": 1, "estimated_value": 2.5, "notes": "Where it sits or how to remove it" }
+  ],
+  "hazards": ["Safety hazards to handle during the teardown, e.g. charged capacitors, laser diode, lithium cell"],
+  "confidence": 0.8
+}
+
+Remember: ONLY JSON, no other text.`;
+
+// Raw model output; anything can be missing or the wrong type
+interface RawSalvage {
+  components?: { name?: unknown; category?: string; quantity?: unknown; estimated_value?: unknown; notes?: string }[];
+  hazards?: unknown[];
+  confidence?: unknown;
+}
+
+const normalizeSalvage = (result: RawSalvage): SalvageSuggestion => {
+  if (!Array.isArray(result?.components)) {
+    throw new Error('Invalid response: missing components');
+  }
+
+  return {
+    components: result.components
+      .filter(component => component?.name && typeof component.name === 'string')
+      .map(component => ({
+        name: (component.name as string).trim(),
+        category: component.category || null,
+        quantity: Math.max(1, Math.round(Number(component.quantity) || 1)),
+        estimated_value: typeof component.estimated_value === 'number' ? component.estimated_value : null,
+        notes: component.notes || null
+      })),
+    hazards: (result.hazards || []).filter((hazard): hazard is string => typeof hazard === 'string'),
+    confidence: typeof result.confidence === 'number' ? result.confidence : 0.5
+  };
+};
+
+// Typical salvageable components for a device model - Perplexity first, Claude as fallback
+export const suggestSalvageableComponents = async (device: string): Promise<SalvageSuggestion> => {
+  console.log('🪛 Suggesting salvageable components for:', device);
+
+  try {
+    return await retryWithBackoff(async () => {
+      const client = getPerplexityClient();
+
+      const response = await fetch(`${client.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${client.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: 'llama-3.1-sonar-large-128k-online',
+          messages: [
+            {
+              role: 'system',
+              content: 'You are an expert electronics salvager with access to real-time web search. Use teardown guides and service manuals to answer accurately.'
+            },
+            {
+              role: 'user',
+              content: salvagePrompt(device)
+            }
+          ],
+          max_tokens: 1500,
+          temperature: 0.1
+        })
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Perplexity API error: ${response.status} - ${errorText}`);
+      }
+
+      const data = await response.json();
+      const result = normalizeSalvage(extractJSON(data.choices[0].message.content));
+      console.log('✅ Perplexity salvage suggestions:', result.components.length);
+      return result;
+    }, 2, 2000);
+  } catch (perplexityError) {
+    console.warn('⚠️ Perplexity salvage suggestions failed, falling back to Claude:', (perplexityError as Error).message);
+
+    return retryWithBackoff(async () => {
+      const anthropic = getAnthropicClient();
+
+      const response = await anthropic.messages.create({
+        model: 'claude-3-haiku-20240307',
+        max_tokens: 1500,
+        messages: [{ role: 'user', content: salvagePrompt(device) }]
+      });
+
+      const content = response.content[0];
+      if (content.type !== 'text') {
+        throw new Error('Unexpected response type from Claude');
+      }
+
+      const result = normalizeSalvage(extractJSON(content.text));
+      result.confidence = Math.max(0.3, result.confidence - 0.2); // Lower confidence without web search
+      console.log('✅ Claude salvage suggestions:', result.components.length);
+      return result;
+    }, 2, 1500);
+  }
+};
+
+// Natural language processing - keep Claude for this since it's good at understanding.
+// When the user's location tree is passed, the extracted location is resolved
+// to a node: `location` becomes its canonical path and `location_id` is set.
+// Unmatched locations are kept as raw text with `location_id` left undefined.
+export const parseNaturalLanguage = async (input: string, locations?: LocationNode[]): Promise<{
   action: 'add_part' | 'search_part' | 'identify_part';
   part_description: string;
   quantity?: number;
   location?: string;
+  location_id?: string;
   additional_context?: string;
 }> => {
   try {
@@ -481,6 +608,14 @@ Remember: ONLY JSON, no other text.`
 
       return extractJSON(content.text);
     }, 2, 1000);
+
+    if (result.location && locations?.length) {
+      const match = resolveLocation(result.location, locations);
+      if (match) {
+        result.location = match.path;
+        result.location_id = match.id;
+      }
+    }
     
     return result;
   } catch (error) {
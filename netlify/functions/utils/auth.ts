@@ -65,9 +65,9 @@ export const withAuth = (handler: (req: AuthenticatedRequest) => Promise<any>):
         };
       }
 
-      // Extract API keys from headers and add to environment
+      // Extract API keys from headers and add to environment. x-mem0-key stays per
+      // request (getMemoryStore reads it) so MEM0_API_KEY is only ever the site's key.
       if (event.headers['x-anthropic-key']) process.env.ANTHROPIC_API_KEY = event.headers['x-anthropic-key'];
-      if (event.headers['x-mem0-key']) process.env.MEM0_API_KEY = event.headers['x-mem0-key'];
       if (event.headers['x-perplexity-key']) process.env.PERPLEXITY_API_KEY = event.headers['x-perplexity-key'];
 
       // Parse request body
@@ -116,4 +116,82 @@ export const withAuth = (handler: (req: AuthenticatedRequest) => Promise<any>):
       };
     }
   };
-};
\ No newline at end of file
+};
+
+export interface StreamingRequest extends AuthenticatedRequest {
+  // Aborted when the client disconnects or cancels the request
+  signal: AbortSignal;
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS'
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders }
+  });
+
+export const eventStreamResponse = (stream: ReadableStream<Uint8Array>) =>
+  new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      ...corsHeaders
+    }
+  });
+
+// Auth middleware for streaming (Request → Response) functions. Same checks as
+// withAuth, but the handler builds its own Response so the body can be a stream.
+export const withStreamingAuth = (handler: (req: StreamingRequest) => Promise<Response>) => {
+  return async (request: Request): Promise<Response> => {
+    try {
+      const authHeader = request.headers.get('authorization');
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        console.error('Missing or invalid authorization header');
+        return jsonResponse({ error: 'Missing or invalid authorization header' }, 401);
+      }
+
+      const token = authHeader.replace('Bearer ', '');
+      const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+
+      if (error || !user) {
+        console.error('Token validation failed:', error?.message);
+        return jsonResponse({ error: 'Invalid token' }, 401);
+      }
+
+      const headers = Object.fromEntries(request.headers.entries());
+
+      // Extract API keys from headers and add to environment. x-mem0-key stays per
+      // request (getMemoryStore reads it) so MEM0_API_KEY is only ever the site's key.
+      if (headers['x-anthropic-key']) process.env.ANTHROPIC_API_KEY = headers['x-anthropic-key'];
+      if (headers['x-perplexity-key']) process.env.PERPLEXITY_API_KEY = headers['x-perplexity-key'];
+
+      let body = {};
+      try {
+        body = await request.json();
+      } catch {
+        // Body might not be JSON, that's ok
+      }
+
+      return await handler({
+        user: {
+          id: user.id,
+          email: user.email!
+        },
+        body,
+        headers,
+        path: new URL(request.url).pathname,
+        signal: request.signal
+      });
+
+    } catch (error) {
+      console.error('Streaming auth middleware error:', error);
+      return jsonResponse({ error: 'Internal server error' }, 500);
+    }
+  };
+};
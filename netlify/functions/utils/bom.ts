@@ -0,0 +1,226 @@
+// Project bill of materials. Lines live in project_parts; reservations hold
+// stock back from other projects and "build" turns them into consumption.
+import { supabaseAdmin } from './auth';
+import { recordStockMovements, applyBomConsumption, countPartIds, findLowStock, LowStockItem, StockMovementRow } from './stock';
+import type { StockMovementInput } from './validation';
+
+export type BomStatus = 'have' | 'short' | 'reserved' | 'consumed';
+
+export interface BomSubstitute {
+  id: string;
+  name: string;
+  available: number;
+}
+
+export interface BomLine {
+  id: string;
+  project_id: string;
+  part_id: string;
+  quantity: number;
+  reserved: number;
+  consumed: number;
+  substitutes: string[];
+  notes: string | null;
+  created_at: string;
+  part: { id: string; name: string; category: string | null; location: string | null; quantity: number; reserved_quantity: number } | null;
+  status: BomStatus;
+  outstanding: number;
+  available: number;
+  missing: number;
+  substitute_parts: BomSubstitute[];
+}
+
+export interface BomShortfall {
+  line_id: string;
+  part_id: string;
+  name: string;
+  outstanding: number;
+  available: number;
+  missing: number;
+  substitutes: BomSubstitute[];
+  covered_by_substitutes: boolean;
+}
+
+export interface BomReport {
+  lines: BomLine[];
+  shortfalls: BomShortfall[];
+  summary: Record<BomStatus, number> & { total: number; ready: boolean };
+}
+
+// Stock nobody has reserved
+const freeStock = (part: { quantity: number; reserved_quantity: number } | null) =>
+  part ? Math.max((part.quantity || 0) - (part.reserved_quantity || 0), 0) : 0;
+
+export const loadBom = async (userId: string, projectId: string): Promise<BomReport> => {
+  const { data: rows, error } = await supabaseAdmin
+    .from('project_parts')
+    .select('*, part:parts(id, name, category, location, quantity, reserved_quantity)')
+    .eq('user_id', userId)
+    .eq('project_id', projectId)
+    .order('created_at');
+
+  if (error) {
+    throw error;
+  }
+
+  const substituteIds = [...new Set((rows || []).flatMap(row => row.substitutes || []))];
+  const substitutes = new Map<string, BomSubstitute>();
+
+  if (substituteIds.length > 0) {
+    const { data: parts, error: partsError } = await supabaseAdmin
+      .from('parts')
+      .select('id, name, quantity, reserved_quantity')
+      .eq('user_id', userId)
+      .in('id', substituteIds);
+
+    if (partsError) {
+      throw partsError;
+    }
+
+    (parts || []).forEach(part => substitutes.set(part.id, { id: part.id, name: part.name, available: freeStock(part) }));
+  }
+
+  const lines: BomLine[] = (rows || []).map(row => {
+    const outstanding = Math.max(row.quantity - row.consumed, 0);
+    const available = freeStock(row.part);
+    const missing = Math.max(outstanding - row.reserved - available, 0);
+
+    let status: BomStatus = 'have';
+    if (outstanding === 0) status = 'consumed';
+    else if (row.reserved >= outstanding) status = 'reserved';
+    else if (missing > 0) status = 'short';
+
+    return {
+      ...row,
+      substitutes: row.substitutes || [],
+      status,
+      outstanding,
+      available,
+      missing,
+      substitute_parts: (row.substitutes || []).map((id: string) => substitutes.get(id)).filter(Boolean) as BomSubstitute[]
+    };
+  });
+
+  const shortfalls: BomShortfall[] = lines
+    .filter(line => line.status === 'short')
+    .map(line => {
+      const spare = line.substitute_parts.reduce((sum, sub) => sum + sub.available, 0);
+      return {
+        line_id: line.id,
+        part_id: line.part_id,
+        name: line.part?.name || 'Unknown part',
+        outstanding: line.outstanding,
+        available: line.reserved + line.available,
+        missing: line.missing,
+        substitutes: line.substitute_parts.filter(sub => sub.available > 0),
+        covered_by_substitutes: spare >= line.missing
+      };
+    });
+
+  const summary = { have: 0, short: 0, reserved: 0, consumed: 0, total: lines.length, ready: shortfalls.length === 0 };
+  lines.forEach(line => summary[line.status]++);
+
+  return { lines, shortfalls, summary };
+};
+
+// Hold as much free stock as each open line still needs
+export const reserveBom = async (userId: string, projectId: string): Promise<number> => {
+  const { lines } = await loadBom(userId, projectId);
+  let reserved = 0;
+
+  for (const line of lines) {
+    const add = Math.min(line.outstanding - line.reserved, line.available);
+    if (add <= 0) continue;
+
+    const { error } = await supabaseAdmin
+      .from('project_parts')
+      .update({ reserved: line.reserved + add })
+      .eq('id', line.id);
+
+    if (error) {
+      throw error;
+    }
+    reserved += add;
+  }
+
+  return reserved;
+};
+
+export const releaseBom = async (userId: string, projectId: string) => {
+  const { error } = await supabaseAdmin
+    .from('project_parts')
+    .update({ reserved: 0 })
+    .eq('user_id', userId)
+    .eq('project_id', projectId)
+    .gt('reserved', 0);
+
+  if (error) {
+    throw error;
+  }
+};
+
+// Consume everything the BOM still needs: reservations first, then free stock.
+// Whatever is left unreserved afterwards is released and reported as short.
+export const buildBom = async (
+  userId: string,
+  projectId: string
+): Promise<{ movements: StockMovementRow[]; report: BomReport; low_stock: LowStockItem[] }> => {
+  const { lines } = await loadBom(userId, projectId);
+
+  const movements: StockMovementInput[] = [];
+  lines.forEach(line => {
+    const usable = Math.min(line.reserved + line.available, line.part?.quantity || 0);
+    const take = Math.min(line.outstanding, usable);
+    if (take > 0) {
+      movements.push({ part_id: line.part_id, delta: -take, reason: 'consumed', project_id: projectId, note: 'Built from BOM' });
+    }
+  });
+
+  const recorded = await recordStockMovements(userId, movements);
+  await applyBomConsumption(userId, projectId, movements);
+  await releaseBom(userId, projectId);
+  await syncProjectPartLists(userId, projectId);
+
+  const lowStock = await findLowStock(userId, movements.map(m => m.part_id));
+
+  return { movements: recorded, report: await loadBom(userId, projectId), low_stock: lowStock };
+};
+
+// Keep the legacy parts_used / parts_consumed arrays in step with the BOM so
+// part pages, project completion and the AI prompts see the same picture
+export const syncProjectPartLists = async (userId: string, projectId: string) => {
+  const [{ data: project, error: projectError }, { data: lines, error: linesError }] = await Promise.all([
+    supabaseAdmin
+      .from('projects')
+      .select('parts_consumed')
+      .eq('id', projectId)
+      .eq('user_id', userId)
+      .single(),
+    supabaseAdmin
+      .from('project_parts')
+      .select('part_id, consumed')
+      .eq('user_id', userId)
+      .eq('project_id', projectId)
+  ]);
+
+  if (projectError) throw projectError;
+  if (linesError) throw linesError;
+
+  const consumedCounts = countPartIds(project?.parts_consumed || []);
+  (lines || []).forEach(line => {
+    consumedCounts.set(line.part_id, Math.max(consumedCounts.get(line.part_id) || 0, line.consumed));
+  });
+
+  const { error } = await supabaseAdmin
+    .from('projects')
+    .update({
+      parts_used: (lines || []).map(line => line.part_id),
+      parts_consumed: [...consumedCounts].flatMap(([id, count]) => Array(count).fill(id))
+    })
+    .eq('id', projectId)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+};
@@ -0,0 +1,211 @@
+// Inventory context for the chat prompt: parts, projects and build session notes
+// relevant to what the user asked, topped up with recent items, within a token budget.
+import { supabaseAdmin } from './auth';
+
+// Roughly 4 characters per token for English text
+export const CONTEXT_TOKEN_BUDGET = 1500;
+
+const MATCH_LIMIT = 15;
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 3).trimEnd()}...` : text;
+
+export type ContextRecordType = 'part' | 'project' | 'session';
+
+// A record that made it into the prompt, as reported in the response context
+export interface ContextRecord {
+  type: ContextRecordType;
+  id: string;
+  name: string;
+  // 'match' when retrieved for this message, 'recent' when it filled spare budget
+  reason: 'match' | 'recent';
+  // Sessions link through to their project
+  project_id?: string | null;
+}
+
+export interface ChatContext {
+  text: string;
+  records: ContextRecord[];
+  tokens: number;
+}
+
+interface PartRow {
+  id: string;
+  name: string;
+  category: string | null;
+  description: string | null;
+  quantity: number | null;
+  reserved_quantity: number | null;
+  is_available: boolean;
+  location: string | null;
+  specs: Record<string, unknown> | null;
+}
+
+interface ProjectRow {
+  id: string;
+  name: string;
+  status: string;
+  description: string | null;
+}
+
+interface SessionRow {
+  id: string;
+  project_id: string | null;
+  project_name: string | null;
+  session_number: number | null;
+  work_description: string | null;
+  issues_encountered: string[] | null;
+  solutions_found: string[] | null;
+  notes: string | null;
+  created_at: string;
+}
+
+type Candidate =
+  | { type: 'part'; row: PartRow; reason: ContextRecord['reason'] }
+  | { type: 'project'; row: ProjectRow; reason: ContextRecord['reason'] }
+  | { type: 'session'; row: SessionRow; reason: ContextRecord['reason'] };
+
+// match_chat_context rows
+type MatchRow =
+  | { kind: 'part'; record: PartRow; rank: number }
+  | { kind: 'project'; record: ProjectRow; rank: number }
+  | { kind: 'session'; record: SessionRow; rank: number };
+
+// Specs are stored as { value, unit, min, max, raw }; the raw text reads best
+const formatSpec = (value: unknown) => {
+  if (value && typeof value === 'object') {
+    const { raw } = value as { raw?: unknown };
+    return typeof raw === 'string' ? raw : JSON.stringify(value);
+  }
+  return String(value);
+};
+
+const formatPart = (part: PartRow) => {
+  const specs = Object.entries(part.specs || {})
+    .filter(([key]) => !key.startsWith('_'))
+    .slice(0, 6)
+    .map(([key, value]) => `${key}: ${formatSpec(value)}`)
+    .join(', ');
+
+  return [
+    `- ${part.name} (${part.category || 'Uncategorized'})`,
+    `Qty: ${part.quantity ?? 0}${part.reserved_quantity ? ` (${part.reserved_quantity} reserved)` : ''}`,
+    part.is_available ? 'Available' : 'Used',
+    part.location,
+    part.description && truncate(part.description, 120),
+    specs && `Specs: ${truncate(specs, 160)}`
+  ].filter(Boolean).join(' - ');
+};
+
+const formatProject = (project: ProjectRow) =>
+  `- ${project.name} (${project.status}) - ${truncate(project.description || 'No description', 160)}`;
+
+const sessionName = (session: SessionRow) =>
+  `${session.project_name || 'Unassigned'} session #${session.session_number ?? '?'}`;
+
+const formatSession = (session: SessionRow) => [
+  `- ${sessionName(session)} (${session.created_at.slice(0, 10)}): ${truncate(session.work_description || session.notes || 'No notes', 160)}`,
+  session.issues_encountered?.length && `Issues: ${truncate(session.issues_encountered.join('; '), 120)}`,
+  session.solutions_found?.length && `Solutions: ${truncate(session.solutions_found.join('; '), 120)}`
+].filter(Boolean).join(' - ');
+
+const SECTION_TITLES: Record<ContextRecordType, string> = {
+  part: 'Parts',
+  project: 'Projects',
+  session: 'Build session notes'
+};
+
+// Ranked matches for the query; on failure the prompt falls back to recent items
+const matchRecords = async (userId: string, query: string): Promise<Candidate[]> => {
+  const { data, error } = await supabaseAdmin.rpc('match_chat_context', {
+    p_user_id: userId,
+    p_query: query,
+    p_limit: MATCH_LIMIT
+  });
+
+  if (error) {
+    console.warn('⚠️ [Chat-Context] Relevance search failed, using recent items only:', error.message);
+    return [];
+  }
+
+  // Best first across kinds; ranks share the same ts_rank_cd scale
+  return ((data || []) as MatchRow[])
+    .sort((a, b) => b.rank - a.rank)
+    .map(match => ({ type: match.kind, row: match.record, reason: 'match' }) as Candidate);
+};
+
+const recentRecords = async (userId: string): Promise<Candidate[]> => {
+  const { data: parts } = await supabaseAdmin
+    .from('parts')
+    .select('id, name, category, description, quantity, reserved_quantity, is_available, location, specs')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(10);
+
+  const { data: projects } = await supabaseAdmin
+    .from('projects')
+    .select('id, name, status, description')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(5);
+
+  return [
+    ...(parts || []).map(row => ({ type: 'part', row, reason: 'recent' }) as Candidate),
+    ...(projects || []).map(row => ({ type: 'project', row, reason: 'recent' }) as Candidate)
+  ];
+};
+
+// Fill the budget with matches first, then recent items, skipping duplicates and
+// anything that no longer fits. Sections keep the prompt readable by kind.
+export const retrieveChatContext = async (
+  userId: string,
+  query: string,
+  budget = CONTEXT_TOKEN_BUDGET
+): Promise<ChatContext> => {
+  const [matches, recent] = await Promise.all([matchRecords(userId, query), recentRecords(userId)]);
+
+  const lines: Record<ContextRecordType, string[]> = { part: [], project: [], session: [] };
+  const records: ContextRecord[] = [];
+  const seen = new Set<string>();
+  let tokens = 0;
+
+  for (const candidate of [...matches, ...recent]) {
+    const key = `${candidate.type}:${candidate.row.id}`;
+    if (seen.has(key)) continue;
+
+    const line = candidate.type === 'part'
+      ? formatPart(candidate.row)
+      : candidate.type === 'project'
+        ? formatProject(candidate.row)
+        : formatSession(candidate.row);
+    const cost = estimateTokens(line) + 1;
+
+    if (tokens + cost > budget) continue;
+
+    seen.add(key);
+    tokens += cost;
+    lines[candidate.type].push(line);
+    records.push({
+      type: candidate.type,
+      id: candidate.row.id,
+      name: candidate.type === 'session' ? sessionName(candidate.row) : candidate.row.name,
+      reason: candidate.reason,
+      ...(candidate.type === 'session' && { project_id: candidate.row.project_id })
+    });
+  }
+
+  const text = (Object.keys(lines) as ContextRecordType[])
+    .filter(type => lines[type].length > 0)
+    .map(type => `${SECTION_TITLES[type]}:\n${lines[type].join('\n')}`)
+    .join('\n\n');
+
+  console.log(`📚 [Chat-Context] ${records.filter(r => r.reason === 'match').length} matched, ${records.filter(r => r.reason === 'recent').length} recent, ~${tokens} tokens`);
+
+  return {
+    text: text || 'No parts or projects added yet',
+    records,
+    tokens
+  };
+};
@@ -0,0 +1,382 @@
+// Tools the garage buddy can call from ai-chat / ai-chat-stream. Lookups run
+// immediately; anything that changes data becomes a pending action the user
+// confirms in the chat before chat-actions runs it.
+import type Anthropic from '@anthropic-ai/sdk';
+import { supabaseAdmin } from './auth';
+import { validatePart, validateProject, validateBuildSession } from './validation';
+import { recordStockMovements, isOverdrawError, STOCK_REASONS } from './stock';
+import { resolvePartLocation } from './locations';
+
+export type ChatToolName =
+  | 'search_parts'
+  | 'get_part'
+  | 'adjust_quantity'
+  | 'create_part'
+  | 'create_project_idea'
+  | 'log_session_note';
+
+export type ChatActionStatus = 'executed' | 'pending' | 'running' | 'rejected' | 'failed';
+
+// One tool call, stored in the assistant message's metadata.actions
+export interface ChatAction {
+  id: string; // Claude's tool_use id
+  tool: ChatToolName;
+  input: Record<string, unknown>;
+  summary: string;
+  status: ChatActionStatus;
+  result?: unknown;
+  error?: string;
+  resolved_at?: string;
+}
+
+export const CHAT_TOOLS: Anthropic.Tool[] = [
+  {
+    name: 'search_parts',
+    description: 'Search the user\'s parts inventory by name, part number, category, tags or description. Use it before answering questions about what the user has, and to find part ids for other tools.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search text, e.g. "esp32", "10k resistor", "stepper motor"' },
+        limit: { type: 'integer', description: 'Maximum results (default 10, max 25)' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'get_part',
+    description: 'Get full details of one part: quantity, location, specs, tags, notes and where it was salvaged from.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        part_id: { type: 'string', description: 'Part id from search_parts' }
+      },
+      required: ['part_id']
+    }
+  },
+  {
+    name: 'adjust_quantity',
+    description: 'Change how many of a part the user has, recorded in the stock ledger. Needs the user\'s confirmation.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        part_id: { type: 'string', description: 'Part id from search_parts' },
+        delta: { type: 'integer', description: 'Units to add (positive) or remove (negative)' },
+        reason: { type: 'string', enum: [...STOCK_REASONS], description: 'Why the stock changed' },
+        note: { type: 'string', description: 'Optional note for the ledger' }
+      },
+      required: ['part_id', 'delta', 'reason']
+    }
+  },
+  {
+    name: 'create_part',
+    description: 'Add a new part to the inventory. Search first so you don\'t create a duplicate. Needs the user\'s confirmation.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        category: { type: 'string', description: 'e.g. Microcontroller, Sensor, Resistor, Motor' },
+        description: { type: 'string' },
+        quantity: { type: 'integer', description: 'Units on hand (default 1)' },
+        location: { type: 'string', description: 'Storage location, e.g. "Garage / Shelf 2 / Bin 4"' },
+        original_device: { type: 'string', description: 'Device it was salvaged from' },
+        tags: { type: 'array', items: { type: 'string' } },
+        notes: { type: 'string' }
+      },
+      required: ['name']
+    }
+  },
+  {
+    name: 'create_project_idea',
+    description: 'Save a project idea to the user\'s projects list. Needs the user\'s confirmation.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        difficulty_level: { type: 'integer', description: '1 (easy) to 5 (hard)' },
+        parts_used: { type: 'array', items: { type: 'string' }, description: 'Ids of inventory parts the project would use' },
+        instructions: { type: 'string' },
+        time_estimate: { type: 'string', description: 'e.g. "2-3 hours"' }
+      },
+      required: ['name', 'description']
+    }
+  },
+  {
+    name: 'log_session_note',
+    description: 'Log a note against one of the user\'s projects as a build session, e.g. progress, a problem or a fix. Needs the user\'s confirmation.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        project_id: { type: 'string' },
+        note: { type: 'string' },
+        mood: { type: 'string', enum: ['excited', 'focused', 'frustrated', 'confused', 'triumphant', 'defeated', 'drunk'] }
+      },
+      required: ['project_id', 'note']
+    }
+  }
+];
+
+const MUTATING_TOOLS = new Set<string>(['adjust_quantity', 'create_part', 'create_project_idea', 'log_session_note']);
+
+export const isChatTool = (name: string): name is ChatToolName => CHAT_TOOLS.some(tool => tool.name === name);
+
+export const isMutatingTool = (name: string) => MUTATING_TOOLS.has(name);
+
+const nameOf = async (table: 'parts' | 'projects', id: unknown, userId: string): Promise<string | null> => {
+  if (typeof id !== 'string') return null;
+  const { data } = await supabaseAdmin
+    .from(table)
+    .select('name')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data?.name || null;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The ids in a model-supplied list that are the user's own parts, in order
+const ownPartIds = async (userId: string, ids: unknown): Promise<string[]> => {
+  const candidates = Array.isArray(ids)
+    ? ids.filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id))
+    : [];
+  if (candidates.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('parts')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', [...new Set(candidates)]);
+
+  if (error) {
+    throw error;
+  }
+
+  const owned = new Set((data || []).map(part => part.id));
+  return candidates.filter(id => owned.has(id));
+};
+
+// One line describing the action, shown on the confirmation card
+export const describeAction = async (userId: string, tool: ChatToolName, input: Record<string, unknown>): Promise<string> => {
+  switch (tool) {
+    case 'search_parts':
+      return `Searched parts for "${input.query}"`;
+    case 'get_part':
+      return `Looked up ${(await nameOf('parts', input.part_id, userId)) || 'a part'}`;
+    case 'adjust_quantity': {
+      const name = (await nameOf('parts', input.part_id, userId)) || 'unknown part';
+      const delta = Number(input.delta);
+      return `${delta >= 0 ? 'Add' : 'Remove'} ${Math.abs(delta)} × ${name} (${input.reason})`;
+    }
+    case 'create_part':
+      return `Add part "${input.name}"${input.quantity ? ` × ${input.quantity}` : ''}${input.location ? ` in ${input.location}` : ''}`;
+    case 'create_project_idea':
+      return `Save project idea "${input.name}"`;
+    case 'log_session_note':
+      return `Log a note on ${(await nameOf('projects', input.project_id, userId)) || 'a project'}: "${String(input.note).slice(0, 80)}"`;
+  }
+};
+
+// Run a tool for the user. Throws with a readable message on bad input; the
+// caller records it as a failed action (and Claude sees it as a tool error).
+export const executeTool = async (userId: string, tool: ChatToolName, input: Record<string, unknown>): Promise<unknown> => {
+  switch (tool) {
+    case 'search_parts': {
+      const limit = Math.min(Math.max(Number(input.limit) || 10, 1), 25);
+      const { data, error } = await supabaseAdmin.rpc('search_parts', {
+        p_user_id: userId,
+        p_query: String(input.query || '').trim(),
+        p_category: null,
+        p_available: null,
+        p_limit: limit,
+        p_offset: 0
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      return {
+        total: Number(data?.[0]?.total_count || 0),
+        parts: (data || []).map((match: { part: Record<string, unknown> }) => ({
+          id: match.part.id,
+          name: match.part.name,
+          category: match.part.category,
+          quantity: match.part.quantity,
+          location: match.part.location,
+          is_available: match.part.is_available
+        }))
+      };
+    }
+
+    case 'get_part': {
+      const { data: part } = await supabaseAdmin
+        .from('parts')
+        .select('id, name, description, category, subcategory, quantity, min_quantity, location, specs, tags, value_estimate, is_available, datasheet_url, original_device, notes')
+        .eq('id', input.part_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (!part) {
+        throw new Error('Part not found');
+      }
+      return part;
+    }
+
+    case 'adjust_quantity': {
+      const delta = Number(input.delta);
+      if (!Number.isInteger(delta) || delta === 0) {
+        throw new Error('Delta must be a non-zero whole number');
+      }
+      const reason = STOCK_REASONS.find(r => r === input.reason);
+      if (!reason) {
+        throw new Error(`Reason must be one of: ${STOCK_REASONS.join(', ')}`);
+      }
+
+      const name = await nameOf('parts', input.part_id, userId);
+      if (!name) {
+        throw new Error('Part not found');
+      }
+
+      try {
+        await recordStockMovements(userId, [{
+          part_id: String(input.part_id),
+          delta,
+          reason,
+          note: typeof input.note === 'string' && input.note.trim() ? input.note.trim() : 'From AI chat'
+        }]);
+      } catch (error) {
+        if (isOverdrawError(error)) {
+          throw new Error(`Not enough ${name} in stock to remove ${Math.abs(delta)}`);
+        }
+        throw error;
+      }
+
+      const { data: part } = await supabaseAdmin
+        .from('parts')
+        .select('id, name, quantity')
+        .eq('id', input.part_id)
+        .eq('user_id', userId)
+        .single();
+      return part;
+    }
+
+    case 'create_part': {
+      const { valid, errors, part } = validatePart({
+        ...input,
+        quantity: input.quantity ?? 1,
+        metadata: { created_via: 'chat' }
+      });
+
+      if (!valid || !part) {
+        throw new Error(errors.join(', '));
+      }
+
+      const location = await resolvePartLocation(userId, part);
+      if ('error' in location) {
+        throw new Error(location.error);
+      }
+      Object.assign(part, location);
+
+      // Stock arrives through the ledger, as in parts-crud
+      const initialQuantity = part.quantity || 0;
+      part.quantity = 0;
+
+      const { data: newPart, error } = await supabaseAdmin
+        .from('parts')
+        .insert([{ ...part, user_id: userId }])
+        .select('id, name, category, location')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      if (initialQuantity > 0) {
+        await recordStockMovements(userId, [{
+          part_id: newPart.id,
+          delta: initialQuantity,
+          reason: part.original_device ? 'salvaged' : 'adjusted',
+          note: 'Added from AI chat'
+        }]);
+      }
+
+      return { ...newPart, quantity: initialQuantity };
+    }
+
+    case 'create_project_idea': {
+      const { valid, errors, project } = validateProject({
+        ...input,
+        parts_used: await ownPartIds(userId, input.parts_used),
+        // An idea hasn't used anything up yet
+        parts_consumed: [],
+        status: 'idea',
+        ai_generated: true,
+        metadata: { created_via: 'chat' }
+      });
+
+      if (!valid || !project) {
+        throw new Error(errors.join(', '));
+      }
+
+      const { data: newProject, error } = await supabaseAdmin
+        .from('projects')
+        .insert([{ ...project, user_id: userId }])
+        .select('id, name, status')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      return newProject;
+    }
+
+    case 'log_session_note': {
+      const projectName = await nameOf('projects', input.project_id, userId);
+      if (!projectName) {
+        throw new Error('Project not found');
+      }
+
+      const { valid, errors, session } = validateBuildSession({
+        project_id: input.project_id,
+        work_description: input.note,
+        mood: input.mood,
+        metadata: { created_via: 'chat' }
+      });
+
+      if (!valid || !session) {
+        throw new Error(errors.join(', '));
+      }
+
+      // session_number is assigned per project by the database
+      delete session.session_number;
+
+      const { data: newSession, error } = await supabaseAdmin
+        .from('build_sessions')
+        .insert([{ ...session, user_id: userId }])
+        .select('id, project_id, session_number')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      return { ...newSession, project_name: projectName };
+    }
+  }
+};
+
+// Execute and record the outcome on the action
+export const runAction = async (userId: string, action: ChatAction): Promise<ChatAction> => {
+  try {
+    const result = await executeTool(userId, action.tool, action.input);
+    return { ...action, status: 'executed', result, resolved_at: new Date().toISOString() };
+  } catch (error) {
+    console.error(`❌ [Chat-Tools] ${action.tool} failed:`, error);
+    return {
+      ...action,
+      status: 'failed',
+      error: error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error',
+      resolved_at: new Date().toISOString()
+    };
+  }
+};
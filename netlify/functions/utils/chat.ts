@@ -0,0 +1,340 @@
+// Shared by ai-chat (JSON) and ai-chat-stream (SSE): prompt context, history and persistence.
+import type Anthropic from '@anthropic-ai/sdk';
+import { supabaseAdmin } from './auth';
+import { CHAT_TOOLS, ChatAction, describeAction, isChatTool, isMutatingTool, runAction } from './chat-tools';
+import { formatMemories, recallMemories } from './memory';
+import { ContextRecord, retrieveChatContext } from './chat-context';
+
+export const CHAT_MODEL = 'claude-3-sonnet-20240229';
+export const CHAT_MAX_TOKENS = 1000;
+
+// Lookup rounds before the reply has to stand on what it has
+const MAX_TOOL_ROUNDS = 5;
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatPrompt {
+  system: string;
+  messages: ChatTurn[];
+  // Parts, projects and sessions included in the system prompt
+  context: ContextRecord[];
+  partsCount: number;
+  projectsCount: number;
+  memoriesCount: number;
+}
+
+// Inventory relevant to the message and what's remembered about the user for the
+// system prompt, plus the conversation so far. mem0Key is the request's x-mem0-key header.
+export const buildChatPrompt = async (
+  userId: string,
+  message: string,
+  conversationId?: string,
+  mem0Key?: string
+): Promise<ChatPrompt> => {
+  let conversationHistory: ChatTurn[] = [];
+  if (conversationId) {
+    const { data: history } = await supabaseAdmin
+      .from('chat_messages')
+      .select('role, content, metadata, created_at')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .limit(20);
+
+    // Tool calls aren't replayed; the model sees what happened to each as a note
+    conversationHistory = (history || []).map(msg => {
+      const actions: ChatAction[] = msg.metadata?.actions || [];
+      const notes = actions.map(action => `[${action.status} action: ${action.summary}${action.error ? ` (${action.error})` : ''}]`);
+      return {
+        role: msg.role as 'user' | 'assistant',
+        content: [msg.content, ...notes].filter(Boolean).join('\n') || '...'
+      };
+    });
+  }
+
+  // Follow-ups ("what about the other one?") lean on the previous question for retrieval
+  const previousQuestion = [...conversationHistory].reverse().find(turn => turn.role === 'user')?.content || '';
+  const context = await retrieveChatContext(userId, `${message} ${previousQuestion}`.trim());
+  const memories = await recallMemories(userId, message, { mem0Key });
+
+  // System prompt for the garage buddy personality
+  const system = `You are the user's AI garage buddy - a helpful, knowledgeable electronics expert with a casual, friendly personality. You help with salvaged parts, project ideas, and electronics knowledge.
+
+PERSONALITY:
+- Casual and enthusiastic about electronics projects
+- Use light profanity when appropriate (damn, shit, hell - keep it workshop-appropriate)
+- Genuinely excited about weird and creative projects
+- Practical knowledge with a "let's try it" attitude
+- Safety conscious but not preachy
+- Remember past conversations and learn preferences
+
+CURRENT USER CONTEXT (what's relevant to this message, then recent additions - not the whole inventory):
+${context.text}
+
+WHAT YOU REMEMBER ABOUT THE USER:
+${formatMemories(memories)}
+
+GUIDELINES:
+- Always consider what parts the user actually has
+- Suggest projects based on available components
+- Provide practical, actionable advice
+- Ask follow-up questions to understand their goals
+- Be encouraging about learning and experimentation
+- Share safety tips when working with dangerous components
+- Respect what you remember (their tools, skills, preferences and safety limits) without reciting it back
+
+TOOLS:
+- Use search_parts and get_part to check the actual inventory instead of guessing, especially for anything not listed above
+- adjust_quantity, create_part, create_project_idea and log_session_note only run after the user confirms them in the chat, so say what you're proposing instead of claiming it's done
+- Notes like "[executed action: ...]" in the history record what the user confirmed or rejected
+
+Respond as their enthusiastic garage buddy who knows their inventory and project history.`;
+
+  return {
+    system,
+    messages: [...conversationHistory, { role: 'user', content: message }],
+    context: context.records,
+    partsCount: context.records.filter(record => record.type === 'part').length,
+    projectsCount: context.records.filter(record => record.type === 'project').length,
+    memoriesCount: memories.length
+  };
+};
+
+export interface ChatRun {
+  reply: string;
+  actions: ChatAction[];
+}
+
+// Run the conversation with tools. Lookups execute and the model continues with
+// their results; a mutating call ends the run with a pending action for the user
+// to confirm. onText receives reply text as it streams, across rounds.
+export const runChat = async (
+  anthropic: Anthropic,
+  userId: string,
+  prompt: ChatPrompt,
+  options: { onText?: (text: string) => void; signal?: AbortSignal } = {}
+): Promise<ChatRun> => {
+  const messages: Anthropic.MessageParam[] = [...prompt.messages];
+  const actions: ChatAction[] = [];
+  let reply = '';
+
+  for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+    const turn = anthropic.messages.stream({
+      model: CHAT_MODEL,
+      max_tokens: CHAT_MAX_TOKENS,
+      system: prompt.system,
+      tools: CHAT_TOOLS,
+      messages
+    }, { signal: options.signal });
+
+    // Text from a later round starts a new paragraph
+    let separator = reply ? '\n\n' : '';
+    turn.on('text', (delta) => {
+      const text = separator + delta;
+      separator = '';
+      reply += text;
+      options.onText?.(text);
+    });
+
+    const message = await turn.finalMessage();
+    const toolUses = message.content.filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use');
+
+    if (message.stop_reason !== 'tool_use' || toolUses.length === 0) {
+      break;
+    }
+
+    const results: Anthropic.ToolResultBlockParam[] = [];
+    let awaitingConfirmation = false;
+
+    for (const use of toolUses) {
+      if (!isChatTool(use.name)) {
+        results.push({ type: 'tool_result', tool_use_id: use.id, content: `Unknown tool: ${use.name}`, is_error: true });
+        continue;
+      }
+
+      const input = (use.input || {}) as Record<string, unknown>;
+      const action: ChatAction = {
+        id: use.id,
+        tool: use.name,
+        input,
+        summary: await describeAction(userId, use.name, input),
+        status: 'pending'
+      };
+
+      if (isMutatingTool(use.name)) {
+        actions.push(action);
+        awaitingConfirmation = true;
+        continue;
+      }
+
+      const executed = await runAction(userId, action);
+      actions.push(executed);
+      results.push({
+        type: 'tool_result',
+        tool_use_id: use.id,
+        content: JSON.stringify(executed.status === 'executed' ? executed.result : { error: executed.error }),
+        is_error: executed.status === 'failed'
+      });
+    }
+
+    if (awaitingConfirmation) {
+      console.log(`⏸️ [Chat] ${actions.filter(a => a.status === 'pending').length} action(s) waiting for confirmation`);
+      break;
+    }
+
+    messages.push(
+      { role: 'assistant', content: message.content },
+      { role: 'user', content: results }
+    );
+  }
+
+  return { reply, actions };
+};
+
+// Placeholder title until the first exchange is summarized: the opening message, trimmed
+export const fallbackTitle = (message: string) => {
+  const text = message.replace(/\s+/g, ' ').trim();
+  return text.length > 60 ? `${text.slice(0, 57).trimEnd()}...` : text || 'New conversation';
+};
+
+// Store the user's message and the reply. The conversation row is created on the
+// first exchange; `created` tells the caller it still needs a real title. The
+// reply's id is what pending actions are confirmed against.
+export const saveChatExchange = async (params: {
+  userId: string;
+  conversationId: string;
+  message: string;
+  reply: string;
+  context: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+}): Promise<{ created: boolean; messageId: string }> => {
+  const { data: existing } = await supabaseAdmin
+    .from('conversations')
+    .select('id')
+    .eq('id', params.conversationId)
+    .eq('user_id', params.userId)
+    .maybeSingle();
+
+  const now = new Date().toISOString();
+  const { error: conversationError } = existing
+    ? await supabaseAdmin
+      .from('conversations')
+      .update({ last_message_at: now })
+      .eq('id', params.conversationId)
+      .eq('user_id', params.userId)
+    : await supabaseAdmin
+      .from('conversations')
+      .insert({
+        id: params.conversationId,
+        user_id: params.userId,
+        title: fallbackTitle(params.message),
+        last_message_at: now
+      });
+
+  if (conversationError) {
+    throw conversationError;
+  }
+
+  const { error: userError } = await supabaseAdmin
+    .from('chat_messages')
+    .insert({
+      conversation_id: params.conversationId,
+      user_id: params.userId,
+      role: 'user',
+      content: params.message,
+      metadata: params.context
+    });
+
+  if (userError) {
+    throw userError;
+  }
+
+  const { data: assistantMessage, error: assistantError } = await supabaseAdmin
+    .from('chat_messages')
+    .insert({
+      conversation_id: params.conversationId,
+      user_id: params.userId,
+      role: 'assistant',
+      content: params.reply,
+      metadata: params.metadata
+    })
+    .select('id')
+    .single();
+
+  if (assistantError) {
+    throw assistantError;
+  }
+
+  return { created: !existing, messageId: assistantMessage.id };
+};
+
+// Ask Claude for a short title summarizing the first exchange. A failure keeps the
+// fallback title from saveChatExchange; it never fails the chat itself.
+export const titleConversation = async (
+  anthropic: Anthropic,
+  userId: string,
+  conversationId: string,
+  message: string,
+  reply: string
+): Promise<string> => {
+  let title = fallbackTitle(message);
+
+  try {
+    const response = await anthropic.messages.create({
+      model: CHAT_MODEL,
+      max_tokens: 30,
+      system: 'You write titles for chat conversations. Reply with only the title: at most 6 words, no quotes, no trailing punctuation.',
+      messages: [{
+        role: 'user',
+        content: `User: ${message.slice(0, 1000)}\n\nAssistant: ${reply.slice(0, 1000)}`
+      }]
+    });
+
+    const block = response.content[0];
+    const generated = block?.type === 'text' ? block.text.replace(/^["'\s]+|["'.\s]+$/g, '').slice(0, 120) : '';
+    if (generated) {
+      title = generated;
+      await supabaseAdmin
+        .from('conversations')
+        .update({ title })
+        .eq('id', conversationId)
+        .eq('user_id', userId);
+    }
+  } catch (error) {
+    console.warn('⚠️ [Chat] Title generation failed, keeping fallback:', error);
+  }
+
+  return title;
+};
+
+// Map SDK and network failures to the { error, details } shape the client shows
+export const describeChatError = (error: unknown): { error: string; details: string } => {
+  if (error instanceof Error) {
+    if (error.message.includes('API key')) {
+      return {
+        error: 'AI service authentication failed',
+        details: 'Invalid or missing API key. Please check your Anthropic API configuration.'
+      };
+    }
+    if (error.message.includes('rate limit')) {
+      return {
+        error: 'AI service rate limit exceeded',
+        details: 'Too many requests. Please wait a moment and try again.'
+      };
+    }
+    if (error.message.includes('network') || error.message.includes('fetch')) {
+      return {
+        error: 'AI service connection failed',
+        details: 'Unable to connect to AI service. Please check your internet connection.'
+      };
+    }
+  }
+
+  return {
+    error: 'Failed to get AI response',
+    details: error instanceof Error ? error.message : 'Unknown error occurred'
+  };
+};
@@ -0,0 +1,163 @@
+// Storage location tree helpers (room → shelf → bin)
+import { supabaseAdmin } from './auth';
+
+export const LOCATION_KINDS = ['room', 'area', 'shelf', 'cabinet', 'drawer', 'bin', 'box', 'other'] as const;
+
+export type LocationKind = typeof LOCATION_KINDS[number];
+
+export interface LocationRow {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  kind: LocationKind;
+  description?: string | null;
+  sort_order?: number;
+  metadata?: Record<string, unknown>;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface LocationNode extends LocationRow {
+  path: string;
+  depth: number;
+}
+
+export const PATH_SEPARATOR = ' / ';
+
+// Shorthand people type for storage ("drw a", "shlf 2")
+const ABBREVIATIONS: Record<string, string> = {
+  drw: 'drawer',
+  dwr: 'drawer',
+  drwr: 'drawer',
+  shf: 'shelf',
+  shlf: 'shelf',
+  cab: 'cabinet',
+  bx: 'box',
+  rm: 'room'
+};
+
+// "Drawer A", "drawer a" and "drw a" all normalize to "drawera"
+export const normalizeLocationKey = (text: string): string => {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] || word)
+    .join('');
+};
+
+// Attach full paths and depths; rows whose parent is missing are treated as roots
+export const buildLocationTree = (rows: LocationRow[]): LocationNode[] => {
+  const byId = new Map(rows.map(row => [row.id, row]));
+  const nodes = new Map<string, LocationNode>();
+
+  const resolve = (row: LocationRow, seen: Set<string>): LocationNode => {
+    const cached = nodes.get(row.id);
+    if (cached) return cached;
+
+    const parent = row.parent_id ? byId.get(row.parent_id) : undefined;
+    let node: LocationNode;
+
+    if (parent && !seen.has(parent.id)) {
+      seen.add(row.id);
+      const parentNode = resolve(parent, seen);
+      node = { ...row, path: parentNode.path + PATH_SEPARATOR + row.name, depth: parentNode.depth + 1 };
+    } else {
+      node = { ...row, path: row.name, depth: 0 };
+    }
+
+    nodes.set(row.id, node);
+    return node;
+  };
+
+  rows.forEach(row => resolve(row, new Set()));
+
+  return rows
+    .map(row => nodes.get(row.id)!)
+    .sort((a, b) => a.path.localeCompare(b.path, undefined, { numeric: true }));
+};
+
+// IDs of a location and everything below it
+export const getDescendantIds = (rows: LocationRow[], rootId: string): string[] => {
+  const ids = [rootId];
+  for (let i = 0; i < ids.length; i++) {
+    rows.forEach(row => {
+      if (row.parent_id === ids[i] && !ids.includes(row.id)) ids.push(row.id);
+    });
+  }
+  return ids;
+};
+
+// Match free text ("drawer A", "garage/shelf 2/bin 4") to a node in the tree.
+// The last segment must match a location name; earlier segments narrow the
+// candidates to those with matching ancestors. Ambiguous matches return null.
+export const resolveLocation = (text: string, nodes: LocationNode[]): LocationNode | null => {
+  if (!text || !text.trim()) return null;
+
+  const fullKey = normalizeLocationKey(text);
+  const byPath = nodes.filter(node => normalizeLocationKey(node.path) === fullKey);
+  if (byPath.length === 1) return byPath[0];
+
+  const segments = text.split(/\s*(?:\/|>|\\)\s*/).map(normalizeLocationKey).filter(Boolean);
+  if (segments.length === 0) return null;
+
+  const leafKey = segments[segments.length - 1];
+  const byId = new Map(nodes.map(node => [node.id, node]));
+
+  const candidates = nodes.filter(node => {
+    if (normalizeLocationKey(node.name) !== leafKey) return false;
+
+    // Every earlier segment must match some ancestor, in order
+    let ancestor = node.parent_id ? byId.get(node.parent_id) : undefined;
+    for (let i = segments.length - 2; i >= 0; i--) {
+      while (ancestor && normalizeLocationKey(ancestor.name) !== segments[i]) {
+        ancestor = ancestor.parent_id ? byId.get(ancestor.parent_id) : undefined;
+      }
+      if (!ancestor) return false;
+      ancestor = ancestor.parent_id ? byId.get(ancestor.parent_id) : undefined;
+    }
+    return true;
+  });
+
+  return candidates.length === 1 ? candidates[0] : null;
+};
+
+export const loadLocationTree = async (userId: string): Promise<LocationNode[]> => {
+  const { data, error } = await supabaseAdmin
+    .from('locations')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw error;
+  }
+
+  return buildLocationTree(data || []);
+};
+
+// Link a part to the location tree before it is written. An explicit
+// location_id wins; otherwise free text is resolved against the tree and kept
+// verbatim when nothing matches. `location` always ends up as the display path.
+export const resolvePartLocation = async (
+  userId: string,
+  part: { location?: string | null; location_id?: string | null }
+): Promise<{ location: string | null; location_id: string | null } | { error: string }> => {
+  if (!part.location_id && !part.location) {
+    return { location: null, location_id: null };
+  }
+
+  const nodes = await loadLocationTree(userId);
+
+  if (part.location_id) {
+    const node = nodes.find(n => n.id === part.location_id);
+    if (!node) {
+      return { error: 'Location not found' };
+    }
+    return { location: node.path, location_id: node.id };
+  }
+
+  const match = resolveLocation(part.location!, nodes);
+  return match
+    ? { location: match.path, location_id: match.id }
+    : { location: part.location!, location_id: null };
+};
@@ -0,0 +1,346 @@
+// Long-term memory for the assistant: durable facts about the user ("prefers 3.3V
+// logic", "has no oscilloscope") learned from chat and recalled into AI prompts.
+// Backed by the user_memories table, or by mem0 when the request carries an X-Mem0-Key
+// (or MEM0_API_KEY is configured for the site).
+import type Anthropic from '@anthropic-ai/sdk';
+import { supabaseAdmin } from './auth';
+
+export const MEMORY_CATEGORIES = ['preference', 'equipment', 'skill', 'safety', 'project', 'other'] as const;
+
+export type MemoryCategory = typeof MEMORY_CATEGORIES[number];
+
+export interface Memory {
+  id: string;
+  content: string;
+  category: MemoryCategory;
+  source_message_id: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface MemoryFact {
+  content: string;
+  category: MemoryCategory;
+}
+
+export interface MemoryStore {
+  kind: 'local' | 'mem0';
+  list: (userId: string) => Promise<Memory[]>;
+  // Most relevant first; falls back to recent memories when nothing matches
+  search: (userId: string, query: string, limit: number) => Promise<Memory[]>;
+  // Returns how many facts were stored
+  add: (userId: string, facts: MemoryFact[], sourceMessageId?: string) => Promise<number>;
+  update: (userId: string, id: string, changes: Partial<MemoryFact>) => Promise<Memory | null>;
+  remove: (userId: string, id: string) => Promise<boolean>;
+}
+
+const LOCAL_SCAN_LIMIT = 200;
+
+const asCategory = (value: unknown): MemoryCategory =>
+  MEMORY_CATEGORIES.find(category => category === value) || 'other';
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9.]+/g, ' ').trim();
+
+// Words worth matching on: skip short ones ("a", "to", "my")
+const keywords = (text: string) => [...new Set(normalize(text).split(' ').filter(word => word.length > 2))];
+
+// Rank by how many query keywords a memory mentions; safety facts win ties since
+// they matter most when they do apply. Unmatched memories fill the rest, newest first.
+const rankMemories = (memories: Memory[], query: string, limit: number) => {
+  const words = keywords(query);
+  const scored = memories.map((memory, index) => {
+    const content = normalize(memory.content);
+    const hits = words.filter(word => content.includes(word)).length;
+    return { memory, index, score: hits + (hits > 0 && memory.category === 'safety' ? 0.5 : 0) };
+  });
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(entry => entry.memory);
+};
+
+const localStore: MemoryStore = {
+  kind: 'local',
+
+  list: async (userId) => {
+    const { data, error } = await supabaseAdmin
+      .from('user_memories')
+      .select('id, content, category, source_message_id, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+    return data || [];
+  },
+
+  search: async (userId, query, limit) => {
+    const { data, error } = await supabaseAdmin
+      .from('user_memories')
+      .select('id, content, category, source_message_id, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(LOCAL_SCAN_LIMIT);
+
+    if (error) {
+      throw error;
+    }
+    return rankMemories(data || [], query, limit);
+  },
+
+  add: async (userId, facts, sourceMessageId) => {
+    if (facts.length === 0) return 0;
+
+    const { error } = await supabaseAdmin
+      .from('user_memories')
+      .insert(facts.map(fact => ({
+        user_id: userId,
+        content: fact.content,
+        category: fact.category,
+        source_message_id: sourceMessageId || null
+      })));
+
+    if (error) {
+      throw error;
+    }
+    return facts.length;
+  },
+
+  update: async (userId, id, changes) => {
+    const { data, error } = await supabaseAdmin
+      .from('user_memories')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id, content, category, source_message_id, created_at, updated_at')
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+    return data;
+  },
+
+  remove: async (userId, id) => {
+    const { data, error } = await supabaseAdmin
+      .from('user_memories')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+    return (data || []).length > 0;
+  }
+};
+
+const MEM0_API_URL = 'https://api.mem0.ai/v1/memories';
+
+// A memory as mem0 returns it; category and source live in our metadata
+interface Mem0Memory {
+  id: string;
+  memory: string;
+  user_id?: string;
+  metadata?: { category?: string; source_message_id?: string } | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+const fromMem0 = (memory: Mem0Memory): Memory => ({
+  id: memory.id,
+  content: memory.memory,
+  category: asCategory(memory.metadata?.category),
+  source_message_id: memory.metadata?.source_message_id || null,
+  created_at: memory.created_at,
+  updated_at: memory.updated_at || null
+});
+
+const createMem0Store = (apiKey: string): MemoryStore => {
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${MEM0_API_URL}${path}`, {
+      ...init,
+      headers: {
+        'Authorization': `Token ${apiKey}`,
+        'Content-Type': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`mem0 API error: ${response.status} - ${errorText}`);
+    }
+    return response.status === 204 ? null : response.json();
+  };
+
+  // Older endpoints return a bare array, newer ones wrap it in { results }
+  const results = (data: unknown): Mem0Memory[] =>
+    Array.isArray(data) ? data : (data as { results?: Mem0Memory[] })?.results || [];
+
+  // mem0 ids aren't scoped to a user, so check ownership before changing one
+  const owned = async (userId: string, id: string) => {
+    try {
+      const memory: Mem0Memory = await request(`/${encodeURIComponent(id)}/`);
+      return memory?.user_id === userId ? memory : null;
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    kind: 'mem0',
+
+    list: async (userId) => {
+      const data = await request(`/?user_id=${encodeURIComponent(userId)}`);
+      return results(data)
+        .map(fromMem0)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+
+    search: async (userId, query, limit) => {
+      const data = await request('/search/', {
+        method: 'POST',
+        body: JSON.stringify({ query, user_id: userId, limit })
+      });
+      return results(data).map(fromMem0);
+    },
+
+    add: async (userId, facts, sourceMessageId) => {
+      // Facts are already extracted, so mem0 stores them as given
+      for (const fact of facts) {
+        await request('/', {
+          method: 'POST',
+          body: JSON.stringify({
+            messages: [{ role: 'user', content: fact.content }],
+            user_id: userId,
+            infer: false,
+            metadata: { category: fact.category, source_message_id: sourceMessageId || null }
+          })
+        });
+      }
+      return facts.length;
+    },
+
+    update: async (userId, id, changes) => {
+      const memory = await owned(userId, id);
+      if (!memory) return null;
+
+      await request(`/${encodeURIComponent(id)}/`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          text: changes.content ?? memory.memory,
+          metadata: { ...memory.metadata, ...(changes.category && { category: changes.category }) }
+        })
+      });
+
+      return fromMem0(await request(`/${encodeURIComponent(id)}/`));
+    },
+
+    remove: async (userId, id) => {
+      if (!(await owned(userId, id))) return false;
+      await request(`/${encodeURIComponent(id)}/`, { method: 'DELETE' });
+      return true;
+    }
+  };
+};
+
+// mem0 when the request's x-mem0-key header (or the site's MEM0_API_KEY) gives a
+// key, otherwise the local table
+export const getMemoryStore = (mem0Key?: string): MemoryStore => {
+  const key = mem0Key || process.env.MEM0_API_KEY;
+  return key ? createMem0Store(key) : localStore;
+};
+
+// Memories relevant to a prompt. Memory is an extra; a failing store never fails the caller.
+export const recallMemories = async (
+  userId: string,
+  query: string,
+  options: { limit?: number; mem0Key?: string } = {}
+): Promise<Memory[]> => {
+  try {
+    return await getMemoryStore(options.mem0Key).search(userId, query, options.limit ?? 10);
+  } catch (error) {
+    console.warn('⚠️ [Memory] Recall failed, continuing without memories:', error);
+    return [];
+  }
+};
+
+// Prompt section listing recalled memories
+export const formatMemories = (memories: Memory[]) =>
+  memories.length > 0
+    ? memories.map(memory => `- ${memory.content}${memory.category === 'safety' ? ' (safety)' : ''}`).join('\n')
+    : 'Nothing remembered yet';
+
+const EXTRACTION_PROMPT = `You maintain long-term memory for an electronics workshop assistant. From one chat exchange, pick out durable facts about the USER worth remembering in future conversations:
+- preference: how they like to work ("Prefers 3.3V logic", "Likes projects that finish in an evening")
+- equipment: tools they have or lack ("Has no oscilloscope", "Owns a Prusa MK3")
+- skill: experience level ("Comfortable with SMD soldering", "New to microcontrollers")
+- safety: fears, limits or hazards ("Scared of mains voltage", "Kids in the workshop")
+- project: long-running goals ("Building a CNC plotter over the winter")
+
+Skip anything temporary, anything about the assistant, and anything already known. Write each fact as a short third-person statement without the user's name. Most exchanges have nothing worth remembering.
+
+Respond with ONLY a JSON object, no other text:
+{"memories": [{"content": "Has no oscilloscope", "category": "equipment"}]}`;
+
+const MAX_FACTS_PER_EXCHANGE = 5;
+
+// Durable facts in one exchange, minus ones already known
+export const extractMemories = async (
+  anthropic: Anthropic,
+  message: string,
+  reply: string,
+  known: Memory[]
+): Promise<MemoryFact[]> => {
+  const response = await anthropic.messages.create({
+    model: 'claude-3-haiku-20240307',
+    max_tokens: 400,
+    system: EXTRACTION_PROMPT,
+    messages: [{
+      role: 'user',
+      content: `ALREADY KNOWN:\n${formatMemories(known)}\n\nUser: ${message.slice(0, 2000)}\n\nAssistant: ${reply.slice(0, 2000)}`
+    }]
+  });
+
+  const block = response.content[0];
+  const text = block?.type === 'text' ? block.text : '';
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return [];
+
+  const parsed = JSON.parse(json) as { memories?: { content?: unknown; category?: unknown }[] };
+  const knownContent = new Set(known.map(memory => normalize(memory.content)));
+
+  return (parsed.memories || [])
+    .filter((fact): fact is { content: string; category?: unknown } =>
+      typeof fact?.content === 'string' && fact.content.trim().length > 0)
+    .map(fact => ({ content: fact.content.trim().slice(0, 300), category: asCategory(fact.category) }))
+    .filter(fact => !knownContent.has(normalize(fact.content)))
+    .slice(0, MAX_FACTS_PER_EXCHANGE);
+};
+
+// Learn from a finished chat exchange. Never throws: a failed extraction only
+// means nothing new is remembered this turn.
+export const rememberExchange = async (
+  anthropic: Anthropic,
+  userId: string,
+  exchange: { message: string; reply: string; messageId?: string },
+  mem0Key?: string
+): Promise<number> => {
+  try {
+    const store = getMemoryStore(mem0Key);
+    const known = await store.search(userId, exchange.message, 20);
+    const facts = await extractMemories(anthropic, exchange.message, exchange.reply, known);
+    const stored = await store.add(userId, facts, exchange.messageId);
+
+    if (stored > 0) {
+      console.log(`🧠 [Memory] Remembered ${stored} fact(s) in ${store.kind} store`);
+    }
+    return stored;
+  } catch (error) {
+    console.warn('⚠️ [Memory] Failed to extract memories:', error);
+    return 0;
+  }
+};
@@ -0,0 +1,27 @@
+// Query helpers shared by the reporting functions.
+import { supabaseAdmin } from './auth';
+
+const PAGE_SIZE = 1000;
+
+// Supabase caps each select at 1000 rows; reports need every row the user owns
+export const fetchAll = async <T>(table: string, columns: string, userId: string): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(table)
+      .select(columns)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+};
@@ -0,0 +1,273 @@
+// Inventory query language for the parts search box
+//
+//   category:sensor qty<5 tag:i2c loc:"drawer A" -used voltage>=5 sort:-current
+//
+// Each whitespace-separated token becomes a clause:
+//   field:value | field<op>value    known part field, or a specs key for unknown fields
+//   specs.key<op>value              explicit specs key; values take units ("vout:3.3V current>=500mA")
+//   is:available | is:used | is:ai  flags (bare `available` / `used` also work)
+//   sort:key | sort:-key            order by a part field or spec, '-' for descending
+//   "quoted phrase" | word          free text, handed to full-text search
+// A leading '-' negates any clause. Values may be quoted to include spaces.
+
+import { parseQuantity, normalizeSpecKey } from './specs';
+
+export type QueryOperator = ':' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type PartQueryField =
+  | 'name'
+  | 'category'
+  | 'subcategory'
+  | 'tag'
+  | 'location'
+  | 'source'
+  | 'original_device'
+  | 'manufacturer'
+  | 'quantity'
+  | 'value_estimate';
+
+export type PartQueryFlag = 'available' | 'used' | 'ai';
+
+export interface QuerySpan {
+  start: number;
+  end: number;
+}
+
+export type QueryClause =
+  | { type: 'text'; value: string; negated: boolean; span: QuerySpan }
+  | { type: 'field'; field: PartQueryField; op: QueryOperator; value: string | number; negated: boolean; span: QuerySpan }
+  | { type: 'spec'; key: string; op: QueryOperator; value: string | number; unit?: string | null; negated: boolean; span: QuerySpan }
+  | { type: 'flag'; flag: PartQueryFlag; negated: boolean; span: QuerySpan }
+  | { type: 'sort'; key: string; spec: boolean; descending: boolean; span: QuerySpan };
+
+export interface QueryParseError {
+  message: string;
+  token: string;
+  start: number;
+  end: number;
+}
+
+export interface ParsedPartQuery {
+  clauses: QueryClause[];
+  errors: QueryParseError[];
+}
+
+const FIELD_ALIASES: Record<string, PartQueryField> = {
+  name: 'name',
+  category: 'category',
+  cat: 'category',
+  subcategory: 'subcategory',
+  sub: 'subcategory',
+  tag: 'tag',
+  tags: 'tag',
+  loc: 'location',
+  location: 'location',
+  source: 'source',
+  src: 'source',
+  device: 'original_device',
+  mfr: 'manufacturer',
+  manufacturer: 'manufacturer',
+  qty: 'quantity',
+  quantity: 'quantity',
+  value: 'value_estimate',
+  price: 'value_estimate'
+};
+
+const NUMERIC_FIELDS: PartQueryField[] = ['quantity', 'value_estimate'];
+
+// Part columns `sort:` can order by; anything else sorts on a spec
+const SORTABLE_FIELDS: PartQueryField[] = ['name', 'category', 'quantity', 'value_estimate'];
+
+const FLAG_WORDS: Record<string, PartQueryFlag> = {
+  available: 'available',
+  used: 'used',
+  ai: 'ai'
+};
+
+const FIELD_PATTERN = /^([A-Za-z_][\w.-]*)(<=|>=|!=|:|<|>|=)/
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+// Read a bare or quoted value starting at `pos`; returns the value and where it ended
+const readValue = (input: string, pos: number): { value: string; end: number; unterminated: boolean } => {
+  if (input[pos] === '"') {
+    const close = input.indexOf('"', pos + 1);
+    if (close === -1) {
+      return { value: input.slice(pos + 1), end: input.length, unterminated: true };
+    }
+    return { value: input.slice(pos + 1, close), end: close + 1, unterminated: false };
+  }
+
+  let end = pos;
+  while (end < input.length && !/\s/.test(input[end])) end++;
+  return { value: input.slice(pos, end), end, unterminated: false };
+};
+
+export const parsePartQuery = (input: string): ParsedPartQuery => {
+  const clauses: QueryClause[] = [];
+  const errors: QueryParseError[] = [];
+  let pos = 0;
+
+  const fail = (message: string, start: number, end: number) => {
+    errors.push({ message, token: input.slice(start, end), start, end });
+  };
+
+  while (pos < input.length) {
+    if (/\s/.test(input[pos])) {
+      pos++;
+      continue;
+    }
+
+    const start = pos;
+    let negated = false;
+
+    if (input[pos] === '-') {
+      negated = true;
+      pos++;
+      if (pos >= input.length || /\s/.test(input[pos])) {
+        fail("A '-' must be followed by a term to exclude", start, pos);
+        continue;
+      }
+    }
+
+    const fieldMatch = input.slice(pos).match(FIELD_PATTERN);
+
+    if (fieldMatch) {
+      const rawField = fieldMatch[1].toLowerCase();
+      const op = fieldMatch[2] as QueryOperator;
+      const valueStart = pos + fieldMatch[0].length;
+      const { value, end, unterminated } = readValue(input, valueStart);
+      pos = end;
+
+      if (unterminated) {
+        fail('Unterminated quote', start, end);
+        continue;
+      }
+      if (value.trim() === '') {
+        fail(`Missing value after "${fieldMatch[0]}"`, start, end);
+        continue;
+      }
+
+      const span = { start, end };
+
+      if (rawField === 'is') {
+        const flag = FLAG_WORDS[value.toLowerCase()];
+        if (!flag || (op !== ':' && op !== '=')) {
+          fail(`Unknown flag "${value}" (expected is:available, is:used or is:ai)`, start, end);
+          continue;
+        }
+        clauses.push({ type: 'flag', flag, negated, span });
+        continue;
+      }
+
+      if (rawField === 'sort') {
+        const descending = value.startsWith('-') !== negated;
+        const sortKey = value.replace(/^-/, '').toLowerCase();
+        const sortField = FIELD_ALIASES[sortKey];
+        const specKey = normalizeSpecKey(sortKey.replace(/^specs?\./, ''));
+        if (op !== ':' && op !== '=') {
+          fail('Use sort:key or sort:-key', start, end);
+          continue;
+        }
+        if (sortField && SORTABLE_FIELDS.includes(sortField)) {
+          clauses.push({ type: 'sort', key: sortField, spec: false, descending, span });
+        } else if (specKey) {
+          clauses.push({ type: 'sort', key: specKey, spec: true, descending, span });
+        } else {
+          fail(`Can't sort by "${sortKey}"`, start, end);
+        }
+        continue;
+      }
+
+      const field = FIELD_ALIASES[rawField];
+
+      if (field) {
+        if (NUMERIC_FIELDS.includes(field)) {
+          if (!NUMBER_PATTERN.test(value)) {
+            fail(`"${rawField}" needs a number, got "${value}"`, start, end);
+            continue;
+          }
+          clauses.push({ type: 'field', field, op, value: Number(value), negated, span });
+        } else {
+          if (!['!=', ':', '='].includes(op)) {
+            fail(`"${rawField}" is text and can't be compared with "${op}"`, start, end);
+            continue;
+          }
+          clauses.push({ type: 'field', field, op, value, negated, span });
+        }
+        continue;
+      }
+
+      // Anything else is a specs key: "voltage>=5", "specs.package:TO-220". Keys are
+      // normalized like stored ones, so "specs.output-voltage" and "vout" both match output_voltage
+      const specField = rawField.replace(/^specs?\./, '');
+      const key = normalizeSpecKey(specField);
+      if (!key || specField.includes('.')) {
+        fail(`Invalid spec key "${rawField}"`, start, end);
+        continue;
+      }
+
+      // Measurements compare in base units: "current>=500mA" is current >= 0.5 A
+      const quantity = parseQuantity(value);
+
+      if (quantity) {
+        clauses.push({ type: 'spec', key, op, value: quantity.value, unit: quantity.unit, negated, span });
+      } else if (op === ':' || op === '=' || op === '!=') {
+        clauses.push({ type: 'spec', key, op, value, negated, span });
+      } else {
+        fail(`"${key}${op}" needs a number, got "${value}"`, start, end);
+      }
+      continue;
+    }
+
+    // Free text: quoted phrase, flag word or bare word
+    const { value, end, unterminated } = readValue(input, pos);
+    const quoted = input[pos] === '"';
+    pos = end;
+
+    if (unterminated) {
+      fail('Unterminated quote', start, end);
+      continue;
+    }
+
+    if (/^[<>=!:]/.test(value)) {
+      fail(`Missing field name before "${value}"`, start, end);
+      continue;
+    }
+
+    const span = { start, end };
+    const flag = quoted ? undefined : FLAG_WORDS[value.toLowerCase()];
+
+    if (flag && flag !== 'ai') {
+      clauses.push({ type: 'flag', flag, negated, span });
+    } else if (value.trim()) {
+      clauses.push({ type: 'text', value, negated, span });
+    }
+  }
+
+  return { clauses, errors };
+};
+
+// Websearch-syntax text for the clauses that go to full-text search
+export const toWebSearchText = (clauses: QueryClause[]): string => {
+  return clauses
+    .filter((clause): clause is Extract<QueryClause, { type: 'text' }> => clause.type === 'text')
+    .map(clause => {
+      const term = clause.value.includes(' ') ? `"${clause.value}"` : clause.value;
+      return clause.negated ? `-${term}` : term;
+    })
+    .join(' ');
+};
+
+// Comparison that a negated clause turns into ("-qty<5" → qty >= 5)
+export const negateOperator = (op: QueryOperator): QueryOperator => {
+  const inverse: Record<QueryOperator, QueryOperator> = {
+    ':': '!=',
+    '=': '!=',
+    '!=': '=',
+    '<': '>=',
+    '<=': '>',
+    '>': '<=',
+    '>=': '<'
+  };
+  return inverse[op];
+};
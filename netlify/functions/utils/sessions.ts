@@ -0,0 +1,16 @@
+// Build session helpers shared by the timeline and analytics functions.
+
+export interface SessionTiming {
+  start_time: string | null;
+  end_time: string | null;
+  metadata: Record<string, unknown> | null;
+}
+
+// Worked minutes for a session: the clock's pause-free active_minutes when it
+// recorded them, otherwise end_time - start_time. Mirrors rollup_project_time().
+export const sessionMinutes = (session: SessionTiming): number | null => {
+  const recorded = session.metadata?.active_minutes;
+  if (typeof recorded === 'number') return recorded;
+  if (!session.start_time || !session.end_time) return null;
+  return Math.round((new Date(session.end_time).getTime() - new Date(session.start_time).getTime()) / 60000);
+};
@@ -0,0 +1,269 @@
+// Units-aware normalization of part specs.
+//
+//   "3.3-5V"        → { value: null, unit: 'V',  min: 3.3,  max: 5 }
+//   "500mA"         → { value: 0.5,  unit: 'A',  min: 0.5,  max: 0.5 }
+//   "16 MHz"        → { value: 16e6, unit: 'Hz', min: 16e6, max: 16e6 }
+//   "10kΩ ±5%"      → { value: 1e4,  unit: 'Ω',  min: 1e4,  max: 1e4, tolerance: 5 }
+//   "up to 1A"      → { value: null, unit: 'A',  min: null, max: 1 }
+//
+// Numbers are stored in base units so specs compare and sort across prefixes.
+// Text that isn't a measurement ("DIP-8", "I2C") stays a plain string.
+
+export interface SpecValue {
+  value: number | null;
+  unit: string | null;
+  min: number | null;
+  max: number | null;
+  tolerance?: number;
+  raw: string;
+}
+
+export interface UnparsedSpec {
+  key: string;
+  value: string;
+}
+
+const PREFIXES: Record<string, number> = {
+  p: 1e-12, n: 1e-9, u: 1e-6, 'µ': 1e-6, 'μ': 1e-6, m: 1e-3, k: 1e3, K: 1e3, M: 1e6, G: 1e9
+};
+
+// Spellings of each unit, mapped to its symbol
+const UNIT_ALIASES: Record<string, string> = {
+  v: 'V', volt: 'V', volts: 'V', vdc: 'V', vac: 'V',
+  a: 'A', amp: 'A', amps: 'A', ampere: 'A', amperes: 'A',
+  w: 'W', watt: 'W', watts: 'W',
+  hz: 'Hz', hertz: 'Hz',
+  'ω': 'Ω', ohm: 'Ω', ohms: 'Ω',
+  f: 'F', farad: 'F', farads: 'F',
+  h: 'H', henry: 'H', henries: 'H',
+  s: 's', sec: 's', second: 's', seconds: 's',
+  g: 'g', gram: 'g', grams: 'g',
+  ah: 'Ah', wh: 'Wh',
+  b: 'B', byte: 'B', bytes: 'B',
+  bit: 'bit', bits: 'bit', bps: 'bps',
+  '°c': '°C', c: '°C', degc: '°C',
+  db: 'dB', dbm: 'dBm',
+  '%': '%', ppm: 'ppm', rpm: 'rpm',
+  pin: 'pins', pins: 'pins',
+  mm: 'mm', cm: 'cm', in: 'in'
+};
+
+// Units that never take an SI prefix ("mm" is millimetres, not milli-m)
+const UNPREFIXED = new Set(['°C', '%', 'ppm', 'rpm', 'pins', 'mm', 'cm', 'in', 'dB', 'dBm']);
+
+// Memory sizes use binary multiples ("32KB" is 32768 bytes)
+const BINARY_PREFIXES: Record<string, number> = { k: 1024, K: 1024, M: 1024 ** 2, G: 1024 ** 3 };
+
+const NUMBER = '[-+]?\\d+(?:\\.\\d+)?';
+const QUANTITY_PATTERN = new RegExp(`^(${NUMBER})\\s*([^\\d\\s±+-]*)$`);
+
+// Floating point noise from the multipliers: 4.7 * 1e3 → 4700.000000000001
+const clean = (value: number) => Number(value.toPrecision(10));
+
+const resolveUnit = (suffix: string): { unit: string | null; scale: number } | null => {
+  if (suffix === '') {
+    return { unit: null, scale: 1 };
+  }
+
+  const whole = UNIT_ALIASES[suffix.toLowerCase()];
+  if (whole) {
+    return { unit: whole, scale: 1 };
+  }
+
+  // SI prefix + unit: "mA", "MHz", "kΩ", "µF", "KB"
+  const prefix = suffix[0];
+  const unit = UNIT_ALIASES[suffix.slice(1).toLowerCase()];
+  if (!unit || UNPREFIXED.has(unit)) {
+    return null;
+  }
+
+  if (unit === 'B' || unit === 'bit') {
+    return BINARY_PREFIXES[prefix] ? { unit, scale: BINARY_PREFIXES[prefix] } : null;
+  }
+
+  return PREFIXES[prefix] ? { unit, scale: PREFIXES[prefix] } : null;
+};
+
+// "500mA" → { value: 0.5, unit: 'A' }; a bare number has no unit
+export const parseQuantity = (text: string): { value: number; unit: string | null } | null => {
+  const match = text.trim().replace(/^\+/, '').match(QUANTITY_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const resolved = resolveUnit(match[2]);
+  if (!resolved) {
+    return null;
+  }
+
+  return { value: clean(Number(match[1]) * resolved.scale), unit: resolved.unit };
+};
+
+const spec = (raw: string, fields: Omit<SpecValue, 'raw'>): SpecValue => ({ ...fields, raw });
+
+// Parse one free-text spec value; null when it isn't a measurement
+export const parseSpecValue = (input: string): SpecValue | null => {
+  const raw = input.trim();
+  let text = raw
+    .replace(/\([^)]*\)/g, ' ')                      // "16MHz (crystal)"
+    .replace(/,(?=\d{3}(?!\d))/g, '')                // "1,000mAh"
+    .replace(/(\d)\s*-\s*(?=[a-zA-Z°Ωµ])/g, '$1')   // "8-bit", "5-pin"
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!text) {
+    return null;
+  }
+
+  // Trailing tolerance: "10kΩ ±5%", "100nF 10%"
+  let tolerance: number | undefined;
+  const toleranceMatch = text.match(/(?:\s+±?|\s*±)\s*(\d+(?:\.\d+)?)\s*%$/);
+  if (toleranceMatch && toleranceMatch.index! > 0) {
+    tolerance = Number(toleranceMatch[1]);
+    text = text.slice(0, toleranceMatch.index).trim();
+  }
+
+  // Symmetric range: "±15V"
+  const symmetric = text.match(/^±\s*(.+)$/);
+  if (symmetric) {
+    const quantity = parseQuantity(symmetric[1]);
+    return quantity && spec(raw, { value: null, unit: quantity.unit, min: -quantity.value, max: quantity.value, tolerance });
+  }
+
+  // One-sided bounds: "up to 1A", "max 500mA", "≤ 5V", "1A max", "min 2V", "≥3.3V"
+  const upper = text.match(/^(?:up to|max(?:imum)?\.?|≤|<=?)\s*(.+)$/i) || text.match(/^(.+?)\s+max(?:imum)?\.?$/i);
+  if (upper) {
+    const quantity = parseQuantity(upper[1]);
+    return quantity && spec(raw, { value: null, unit: quantity.unit, min: null, max: quantity.value, tolerance });
+  }
+
+  const lower = text.match(/^(?:min(?:imum)?\.?|at least|≥|>=?)\s*(.+)$/i) || text.match(/^(.+?)\s+min(?:imum)?\.?$/i);
+  if (lower) {
+    const quantity = parseQuantity(lower[1]);
+    // "5 min" is a duration, not a lower bound on a unitless 5
+    if (quantity?.unit === null && !/^(?:min|at least|≥|>)/i.test(text)) {
+      return null;
+    }
+    return quantity && spec(raw, { value: null, unit: quantity.unit, min: quantity.value, max: null, tolerance });
+  }
+
+  // Nominal value: "5V typ"
+  text = text.replace(/\s*(?:typ(?:ical)?\.?|nom(?:inal)?\.?)$/i, '');
+
+  // Ranges: "3.3-5V", "3.3V - 5V", "-40 to 85°C", "-40°C~+85°C"
+  const range = text.match(new RegExp(`^(${NUMBER}\\s*[^\\d\\s~±-]*)\\s*(?:-|–|~|to)\\s*(${NUMBER}\\s*[^\\d\\s~±]*)$`, 'i'));
+  if (range) {
+    const high = parseQuantity(range[2]);
+    const low = parseQuantity(range[1]);
+    // "3.3-5V": the unit is only written once, on the upper bound
+    const lowValue = low && low.unit === null && high ? parseQuantity(`${range[1]}${range[2].replace(/^[-+\d.\s]+/, '')}`) : low;
+    if (high && lowValue && (lowValue.unit === high.unit)) {
+      return spec(raw, {
+        value: null,
+        unit: high.unit,
+        min: Math.min(lowValue.value, high.value),
+        max: Math.max(lowValue.value, high.value),
+        tolerance
+      });
+    }
+    return null;
+  }
+
+  const quantity = parseQuantity(text);
+  return quantity && spec(raw, { value: quantity.value, unit: quantity.unit, min: quantity.value, max: quantity.value, tolerance });
+};
+
+const isSpecValue = (value: unknown): value is SpecValue =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && 'unit' in value && 'min' in value && 'max' in value;
+
+// Shorthand from datasheets and queries, keyed by slug
+const SPEC_KEY_ALIASES: Record<string, string> = {
+  v: 'voltage',
+  vcc: 'voltage',
+  vdd: 'voltage',
+  vin: 'input_voltage',
+  vout: 'output_voltage',
+  i: 'current',
+  iin: 'input_current',
+  iout: 'output_current',
+  p: 'power',
+  r: 'resistance',
+  c: 'capacitance',
+  l: 'inductance',
+  f: 'frequency',
+  freq: 'frequency'
+};
+
+// "Output Voltage" → "output_voltage", and "Vout" → "output_voltage" too, so stored
+// keys and query fields meet on the same name (vout>=3.3)
+export const normalizeSpecKey = (key: string) => {
+  const slug = key.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return SPEC_KEY_ALIASES[slug] || slug;
+};
+
+// Normalize every spec; values that don't parse are kept as they were and reported
+export const normalizeSpecs = (specs: unknown): { specs: Record<string, unknown>; unparsed: UnparsedSpec[] } => {
+  const normalized: Record<string, unknown> = {};
+  const unparsed: UnparsedSpec[] = [];
+
+  if (!specs || typeof specs !== 'object' || Array.isArray(specs)) {
+    return { specs: normalized, unparsed };
+  }
+
+  for (const [rawKey, value] of Object.entries(specs as Record<string, unknown>)) {
+    const key = normalizeSpecKey(rawKey) || rawKey;
+
+    if (value === null || value === undefined || value === '') {
+      continue;
+    }
+
+    if (isSpecValue(value)) {
+      normalized[key] = value;
+    } else if (typeof value === 'number' && Number.isFinite(value)) {
+      normalized[key] = spec(String(value), { value, unit: null, min: value, max: value });
+    } else if (typeof value === 'object' && !Array.isArray(value) && 'value' in value) {
+      // Older { value, unit } objects
+      const legacy = value as { value: unknown; unit?: unknown };
+      const parsed = parseSpecValue(`${legacy.value}${legacy.unit ? String(legacy.unit) : ''}`);
+      normalized[key] = parsed || value;
+      if (!parsed) unparsed.push({ key, value: JSON.stringify(value) });
+    } else if (typeof value === 'string') {
+      const parsed = parseSpecValue(value);
+      normalized[key] = parsed || value.trim();
+      // Pure words ("I2C", "TO-220") are descriptive; only report what looked like a measurement
+      if (!parsed && /^\s*[-+±~≤≥<>]?\s*\d/.test(value)) unparsed.push({ key, value });
+    } else {
+      normalized[key] = value;
+    }
+  }
+
+  return { specs: normalized, unparsed };
+};
+
+export interface SpecMigration {
+  specs: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+  changed: boolean;
+  unparsed: UnparsedSpec[];
+}
+
+// One part's specs after normalization. Older AI adds kept their specs in
+// metadata.specifications only; those move into specs (specs win on a clash).
+export const migratePartSpecs = (part: { specs: unknown; metadata: unknown }): SpecMigration => {
+  const metadata = { ...((part.metadata as Record<string, unknown>) || {}) };
+  const legacy = metadata.specifications;
+  delete metadata.specifications;
+
+  const merged = {
+    ...(legacy && typeof legacy === 'object' && !Array.isArray(legacy) ? legacy : {}),
+    ...((part.specs as Record<string, unknown>) || {})
+  };
+  const { specs, unparsed } = normalizeSpecs(merged);
+
+  return {
+    specs,
+    metadata,
+    changed: legacy !== undefined || JSON.stringify(specs) !== JSON.stringify(part.specs || {}),
+    unparsed
+  };
+};
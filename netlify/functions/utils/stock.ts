@@ -0,0 +1,346 @@
+// Stock ledger helpers. parts.quantity is maintained by a trigger on
+// stock_movements, so every stock change goes through recordStockMovements (or the
+// record_consumption RPC when syncing consumption).
+import { supabaseAdmin } from './auth';
+import type { StockMovementInput } from './validation';
+
+export const STOCK_REASONS = ['salvaged', 'consumed', 'sold', 'lost', 'adjusted'] as const;
+
+export type StockReason = typeof STOCK_REASONS[number];
+
+export interface StockMovementRow extends StockMovementInput {
+  id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export interface StockShortfall {
+  part_id: string;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// Postgres check_violation: parts.quantity would go below zero
+export const isOverdrawError = (error: unknown) =>
+  !!error && typeof error === 'object' && (error as { code?: string }).code === '23514';
+
+export const recordStockMovements = async (
+  userId: string,
+  movements: StockMovementInput[]
+): Promise<StockMovementRow[]> => {
+  if (movements.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('stock_movements')
+    .insert(movements.map(movement => ({ ...movement, user_id: userId })))
+    .select();
+
+  if (error) {
+    throw error;
+  }
+
+  return data || [];
+};
+
+// parts_consumed is a list of part ids where repeats mean several units
+export const countPartIds = (ids: string[] = []): Map<string, number> => {
+  const counts = new Map<string, number>();
+  ids.forEach(id => counts.set(id, (counts.get(id) || 0) + 1));
+  return counts;
+};
+
+// Stock held for a project's BOM, by part id
+export const loadReservations = async (userId: string, projectId?: string | null): Promise<Map<string, number>> => {
+  const reserved = new Map<string, number>();
+  if (!projectId) return reserved;
+
+  const { data, error } = await supabaseAdmin
+    .from('project_parts')
+    .select('part_id, reserved')
+    .eq('user_id', userId)
+    .eq('project_id', projectId)
+    .gt('reserved', 0);
+
+  if (error) {
+    throw error;
+  }
+
+  (data || []).forEach(line => reserved.set(line.part_id, line.reserved));
+  return reserved;
+};
+
+// Mirror consumption onto the project's BOM lines: units taken come out of the
+// line's reservation first, returned units come back off its consumed count
+export const applyBomConsumption = async (userId: string, projectId: string | null | undefined, movements: StockMovementInput[]) => {
+  if (!projectId || movements.length === 0) return;
+
+  const { data: lines, error } = await supabaseAdmin
+    .from('project_parts')
+    .select('id, part_id, reserved, consumed')
+    .eq('user_id', userId)
+    .eq('project_id', projectId)
+    .in('part_id', movements.map(m => m.part_id));
+
+  if (error) {
+    throw error;
+  }
+
+  for (const line of lines || []) {
+    const used = -movements.filter(m => m.part_id === line.part_id).reduce((sum, m) => sum + m.delta, 0);
+    if (used === 0) continue;
+
+    const { error: updateError } = await supabaseAdmin
+      .from('project_parts')
+      .update({
+        reserved: Math.max(line.reserved - Math.max(used, 0), 0),
+        consumed: Math.max(line.consumed + used, 0)
+      })
+      .eq('id', line.id);
+
+    if (updateError) {
+      throw updateError;
+    }
+  }
+};
+
+// Postgres serialization_failure: record_consumption saw the ledger change under it
+const isSerializationError = (error: unknown) =>
+  !!error && typeof error === 'object' && (error as { code?: string }).code === '40001';
+
+const SYNC_ATTEMPTS = 3;
+
+type ConsumptionScope = { project_id?: string | null; build_session_id?: string | null };
+
+type ConsumptionSync = { movements: StockMovementRow[]; shortfalls: StockShortfall[]; low_stock: LowStockItem[] };
+
+// One pass of syncConsumption: read the scope's ledger, then record the difference
+const syncConsumptionOnce = async (
+  userId: string,
+  partsConsumed: string[],
+  scope: ConsumptionScope,
+  options: { allowReturns?: boolean; note?: string }
+): Promise<ConsumptionSync> => {
+  const target = countPartIds(partsConsumed);
+
+  let ledgerQuery = supabaseAdmin
+    .from('stock_movements')
+    .select('part_id, delta')
+    .eq('user_id', userId)
+    .eq('reason', 'consumed');
+
+  ledgerQuery = scope.build_session_id
+    ? ledgerQuery.eq('build_session_id', scope.build_session_id)
+    : ledgerQuery.eq('project_id', scope.project_id);
+
+  const { data: ledger, error: ledgerError } = await ledgerQuery;
+  if (ledgerError) {
+    throw ledgerError;
+  }
+
+  const consumed = new Map<string, number>();
+  (ledger || []).forEach(row => consumed.set(row.part_id, (consumed.get(row.part_id) || 0) - row.delta));
+
+  const partIds = [...new Set([...target.keys(), ...consumed.keys()])];
+  if (partIds.length === 0) {
+    return { movements: [], shortfalls: [], low_stock: [] };
+  }
+
+  // Only the user's own parts; unknown ids in parts_consumed are ignored
+  const [{ data: parts, error: partsError }, ownReservations] = await Promise.all([
+    supabaseAdmin
+      .from('parts')
+      .select('id, name, quantity, reserved_quantity')
+      .eq('user_id', userId)
+      .in('id', partIds),
+    loadReservations(userId, scope.project_id)
+  ]);
+
+  if (partsError) {
+    throw partsError;
+  }
+
+  const movements: StockMovementInput[] = [];
+  const shortfalls: StockShortfall[] = [];
+
+  (parts || []).forEach(part => {
+    const wanted = target.get(part.id) || 0;
+    const already = consumed.get(part.id) || 0;
+    const difference = wanted - already;
+
+    if (difference > 0) {
+      const heldElsewhere = (part.reserved_quantity || 0) - (ownReservations.get(part.id) || 0);
+      const available = Math.max((part.quantity || 0) - Math.max(heldElsewhere, 0), 0);
+      const take = Math.min(difference, available);
+      if (take < difference) {
+        shortfalls.push({ part_id: part.id, name: part.name, requested: difference, available });
+      }
+      if (take > 0) {
+        movements.push({
+          part_id: part.id,
+          delta: -take,
+          reason: 'consumed',
+          project_id: scope.project_id || undefined,
+          build_session_id: scope.build_session_id || undefined,
+          note: options.note
+        });
+      }
+    } else if (difference < 0 && options.allowReturns) {
+      movements.push({
+        part_id: part.id,
+        delta: -difference,
+        reason: 'consumed',
+        project_id: scope.project_id || undefined,
+        build_session_id: scope.build_session_id || undefined,
+        note: 'Returned to stock'
+      });
+    }
+  });
+
+  let recorded: StockMovementRow[] = [];
+  if (movements.length > 0) {
+    // Inserted only if the ledger still holds what was read above
+    const { data, error } = await supabaseAdmin.rpc('record_consumption', {
+      p_user_id: userId,
+      p_project_id: scope.project_id || null,
+      p_build_session_id: scope.build_session_id || null,
+      p_seen: Object.fromEntries([...consumed].filter(([, units]) => units !== 0)),
+      p_movements: movements.map(({ part_id, delta, note }) => ({ part_id, delta, note }))
+    });
+
+    if (error) {
+      throw error;
+    }
+    recorded = data || [];
+  }
+
+  await applyBomConsumption(userId, scope.project_id, movements);
+  const lowStock = await findLowStock(userId, recorded.filter(m => m.delta < 0).map(m => m.part_id));
+
+  return { movements: recorded, shortfalls, low_stock: lowStock };
+};
+
+// Bring the consumption recorded for a project or build session in line with
+// its parts_consumed list. Only 'consumed' movements count towards the scope;
+// removals hand stock back (when allowed) and consumption is capped at what is
+// on the shelf and not reserved by other projects, with the difference
+// reported as shortfalls. Overlapping syncs for the same scope are serialized by
+// record_consumption; the one that loses works the difference out again.
+export const syncConsumption = async (
+  userId: string,
+  partsConsumed: string[] = [],
+  scope: ConsumptionScope,
+  options: { allowReturns?: boolean; note?: string } = {}
+): Promise<ConsumptionSync> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await syncConsumptionOnce(userId, partsConsumed, scope, options);
+    } catch (error) {
+      if (!isSerializationError(error) || attempt >= SYNC_ATTEMPTS) {
+        throw error;
+      }
+      console.warn(`⚠️ [Stock] Consumption changed during sync, retrying (attempt ${attempt + 1})`);
+    }
+  }
+};
+
+export interface LowStockItem {
+  part_id: string;
+  name: string;
+  category: string | null;
+  part_number: string | null;
+  location: string | null;
+  quantity: number;
+  min_quantity: number;
+  threshold_source: 'part' | 'category';
+  reorder_quantity: number;
+  current_price_usd: number | null;
+  estimated_cost: number | null;
+  purchase_urls: string[];
+}
+
+// Parts below their minimum. A part's own min_quantity wins over its category's
+// threshold; pass partIds to check only the parts an action just touched.
+export const findLowStock = async (userId: string, partIds?: string[]): Promise<LowStockItem[]> => {
+  if (partIds && partIds.length === 0) return [];
+
+  let partsQuery = supabaseAdmin
+    .from('parts')
+    .select('id, name, category, quantity, min_quantity, location, metadata')
+    .eq('user_id', userId);
+
+  if (partIds) {
+    partsQuery = partsQuery.in('id', partIds);
+  }
+
+  const [{ data: parts, error: partsError }, { data: thresholds, error: thresholdsError }] = await Promise.all([
+    partsQuery,
+    supabaseAdmin
+      .from('category_thresholds')
+      .select('category, min_quantity')
+      .eq('user_id', userId)
+  ]);
+
+  if (partsError) throw partsError;
+  if (thresholdsError) throw thresholdsError;
+
+  const byCategory = new Map<string, number>();
+  (thresholds || []).forEach(t => byCategory.set(t.category.trim().toLowerCase(), t.min_quantity));
+
+  const items: LowStockItem[] = [];
+
+  (parts || []).forEach(part => {
+    const categoryMin = part.category ? byCategory.get(part.category.trim().toLowerCase()) : undefined;
+    const minimum = part.min_quantity ?? categoryMin;
+    const quantity = part.quantity || 0;
+
+    if (minimum === undefined || minimum === null || quantity >= minimum) return;
+
+    const metadata = part.metadata || {};
+    const price = typeof metadata.current_price_usd === 'number' ? metadata.current_price_usd : null;
+    const reorder = minimum - quantity;
+
+    items.push({
+      part_id: part.id,
+      name: part.name,
+      category: part.category,
+      part_number: metadata.part_number || null,
+      location: part.location,
+      quantity,
+      min_quantity: minimum,
+      threshold_source: part.min_quantity !== null && part.min_quantity !== undefined ? 'part' : 'category',
+      reorder_quantity: reorder,
+      current_price_usd: price,
+      estimated_cost: price !== null ? Math.round(price * reorder * 100) / 100 : null,
+      purchase_urls: Array.isArray(metadata.purchase_urls) ? metadata.purchase_urls : []
+    });
+  });
+
+  // Emptiest first
+  return items.sort((a, b) => a.quantity / a.min_quantity - b.quantity / b.min_quantity || a.name.localeCompare(b.name));
+};
+
+const csvCell = (value: unknown) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]): string => rows.map(row => row.map(csvCell).join(',')).join('\n');
+
+export const toShoppingListCsv = (items: LowStockItem[]): string => {
+  const header = ['Part', 'Category', 'Part Number', 'Location', 'On Hand', 'Minimum', 'Buy', 'Unit Price (USD)', 'Est. Cost (USD)', 'Purchase URLs'];
+  const rows = items.map(item => [
+    item.name,
+    item.category,
+    item.part_number,
+    item.location,
+    item.quantity,
+    item.min_quantity,
+    item.reorder_quantity,
+    item.current_price_usd,
+    item.estimated_cost,
+    item.purchase_urls.join(' | ')
+  ]);
+
+  return toCsv([header, ...rows]);
+};
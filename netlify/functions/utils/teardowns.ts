@@ -0,0 +1,77 @@
+// Teardowns: the devices parts were harvested from. Parts link by `teardown_id`
+// and keep `original_device` as the display name, like `location` for locations.
+import { supabaseAdmin } from './auth';
+
+interface TeardownRow {
+  id: string;
+  device_name: string;
+  model: string | null;
+}
+
+export interface TeardownYieldSummary {
+  parts: number;
+  units: number;
+  value: number;
+}
+
+// "HP LaserJet 1020" + "Q5911A" → "HP LaserJet 1020 (Q5911A)"
+export const teardownLabel = (teardown: Pick<TeardownRow, 'device_name' | 'model'>) =>
+  teardown.model ? `${teardown.device_name} (${teardown.model})` : teardown.device_name;
+
+// Checks a part's teardown belongs to the user and fills in `original_device` from it
+export const resolvePartTeardown = async (
+  userId: string,
+  part: { teardown_id?: string | null; original_device?: string | null }
+): Promise<{ teardown_id: string | null; original_device: string | null } | { error: string }> => {
+  if (!part.teardown_id) {
+    return { teardown_id: null, original_device: part.original_device || null };
+  }
+
+  const { data: teardown } = await supabaseAdmin
+    .from('teardowns')
+    .select('id, device_name, model')
+    .eq('id', part.teardown_id)
+    .eq('user_id', userId)
+    .single();
+
+  if (!teardown) {
+    return { error: 'Teardown not found' };
+  }
+
+  return {
+    teardown_id: teardown.id,
+    original_device: part.original_device || teardownLabel(teardown)
+  };
+};
+
+// Parts, units and value harvested per teardown
+export const summarizeTeardownYield = async (userId: string, teardownIds: string[]) => {
+  const summaries = new Map<string, TeardownYieldSummary>();
+  if (teardownIds.length === 0) {
+    return summaries;
+  }
+
+  const { data: parts, error } = await supabaseAdmin
+    .from('parts')
+    .select('teardown_id, quantity, value_estimate')
+    .eq('user_id', userId)
+    .in('teardown_id', teardownIds);
+
+  if (error) {
+    throw error;
+  }
+
+  (parts || []).forEach(part => {
+    const summary = summaries.get(part.teardown_id) || { parts: 0, units: 0, value: 0 };
+    summary.parts += 1;
+    summary.units += part.quantity;
+    summary.value += (Number(part.value_estimate) || 0) * part.quantity;
+    summaries.set(part.teardown_id, summary);
+  });
+
+  summaries.forEach(summary => {
+    summary.value = Math.round(summary.value * 100) / 100;
+  });
+
+  return summaries;
+};
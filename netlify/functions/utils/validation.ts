@@ -1,4 +1,5 @@
 // Validation utilities for API endpoints
+import { normalizeSpecs } from './specs';
 
 export interface PartInput {
   name: string;
@@ -6,7 +7,9 @@ export interface PartInput {
   category?: string;
   subcategory?: string;
   quantity?: number;
+  min_quantity?: number | null;
   location?: string;
+  location_id?: string;
   source?: string;
   specs?: Record<string, any>;
   tags?: string[];
@@ -17,6 +20,7 @@ export interface PartInput {
   is_available?: boolean;
   ai_identified?: boolean;
   original_device?: string;
+  teardown_id?: string;
   compatible_with?: string[];
   notes?: string;
   metadata?: Record<string, any>;
@@ -39,7 +43,6 @@ export interface ProjectInput {
   success_photos?: string[];
   fail_photos?: string[];
   time_estimate?: string;
-  actual_time?: string;
   date_started?: string;
   date_completed?: string;
   ai_generated?: boolean;
@@ -65,6 +68,84 @@ export interface BuildSessionInput {
   metadata?: Record<string, any>;
 }
 
+export interface StockMovementInput {
+  part_id: string;
+  delta: number;
+  reason: 'salvaged' | 'consumed' | 'sold' | 'lost' | 'adjusted';
+  project_id?: string;
+  build_session_id?: string;
+  note?: string;
+}
+
+export interface CategoryThresholdInput {
+  category: string;
+  min_quantity: number;
+}
+
+export interface BomLineInput {
+  project_id: string;
+  part_id: string;
+  quantity: number;
+  substitutes: string[];
+  notes: string | null;
+}
+
+export interface ValueEstimateInput {
+  part_id: string;
+  value_estimate: number;
+  confidence: number | null;
+}
+
+export interface TeardownChecklistItem {
+  name: string;
+  category: string | null;
+  quantity: number;
+  estimated_value: number | null;
+  notes: string | null;
+  harvested: boolean;
+  part_id: string | null;
+}
+
+export interface TeardownInput {
+  device_name: string;
+  model?: string;
+  manufacturer?: string;
+  teardown_date?: string;
+  photos?: string[];
+  notes?: string;
+  hazards?: string[];
+  checklist?: TeardownChecklistItem[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface IdentificationOutcomeInput {
+  outcome: 'confirmed' | 'rejected';
+  chosen_index: number | null;
+  part_id: string | null;
+  notes: string | null;
+}
+
+// Partial: only the fields sent are changed
+export interface ConversationInput {
+  title?: string;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+export interface MemoryInput {
+  content?: string;
+  category?: 'preference' | 'equipment' | 'skill' | 'safety' | 'project' | 'other';
+}
+
+export interface LocationInput {
+  name: string;
+  parent_id?: string;
+  kind?: 'room' | 'area' | 'shelf' | 'cabinet' | 'drawer' | 'bin' | 'box' | 'other';
+  description?: string;
+  sort_order?: number;
+  metadata?: Record<string, unknown>;
+}
+
 export const validatePart = (data: any): { valid: boolean; errors: string[]; part?: PartInput } => {
   const errors: string[] = [];
   
@@ -79,7 +160,16 @@ export const validatePart = (data: any): { valid: boolean; errors: string[]; par
   if (data.value_estimate !== undefined && (typeof data.value_estimate !== 'number' || data.value_estimate < 0)) {
     errors.push('Value estimate must be a non-negative number');
   }
+
+  if (data.min_quantity !== undefined && data.min_quantity !== null &&
+      (!Number.isInteger(data.min_quantity) || data.min_quantity < 0)) {
+    errors.push('Minimum quantity must be a non-negative whole number');
+  }
   
+  if (data.specs && (typeof data.specs !== 'object' || Array.isArray(data.specs))) {
+    errors.push('Specs must be an object');
+  }
+
   if (data.tags && !Array.isArray(data.tags)) {
     errors.push('Tags must be an array');
   }
@@ -101,10 +191,13 @@ export const validatePart = (data: any): { valid: boolean; errors: string[]; par
     description: data.description?.trim() || null,
     category: data.category?.trim() || null,
     subcategory: data.subcategory?.trim() || null,
-    quantity: data.quantity || 1,
+    quantity: data.quantity ?? 1,
+    min_quantity: data.min_quantity ?? null,
     location: data.location?.trim() || null,
+    location_id: data.location_id || null,
     source: data.source?.trim() || null,
-    specs: data.specs || {},
+    // Free-text values ("3.3-5V", "500mA") become { value, unit, min, max }
+    specs: normalizeSpecs(data.specs).specs,
     tags: data.tags || [],
     images: data.images || [],
     pinout_diagram: data.pinout_diagram?.trim() || null,
@@ -113,6 +206,7 @@ export const validatePart = (data: any): { valid: boolean; errors: string[]; par
     is_available: data.is_available !== undefined ? data.is_available : true,
     ai_identified: data.ai_identified || false,
     original_device: data.original_device?.trim() || null,
+    teardown_id: data.teardown_id || null,
     compatible_with: data.compatible_with || [],
     notes: data.notes?.trim() || null,
     metadata: data.metadata || {}
@@ -158,7 +252,6 @@ export const validateProject = (data: any): { valid: boolean; errors: string[];
     success_photos: data.success_photos || [],
     fail_photos: data.fail_photos || [],
     time_estimate: data.time_estimate?.trim() || null,
-    actual_time: data.actual_time?.trim() || null,
     date_started: data.date_started || null,
     date_completed: data.date_completed || null,
     ai_generated: data.ai_generated || false,
@@ -187,6 +280,16 @@ export const validateBuildSession = (data: any): { valid: boolean; errors: strin
     errors.push('Tools used must be an array');
   }
 
+  ['issues_encountered', 'solutions_found', 'photos'].forEach(field => {
+    if (data[field] && !Array.isArray(data[field])) {
+      errors.push(`${field.replace('_', ' ')} must be an array`);
+    }
+  });
+
+  if (data.start_time && data.end_time && new Date(data.end_time) < new Date(data.start_time)) {
+    errors.push('End time cannot be before start time');
+  }
+
   if (errors.length > 0) {
     return { valid: false, errors };
   }
@@ -208,4 +311,324 @@ export const validateBuildSession = (data: any): { valid: boolean; errors: strin
   };
 
   return { valid: true, errors: [], session };
-};
\ No newline at end of file
+};
+
+export const validateLocation = (data: any): { valid: boolean; errors: string[]; location?: LocationInput } => {
+  const errors: string[] = [];
+
+  if (!data.name || typeof data.name !== 'string' || data.name.trim().length === 0) {
+    errors.push('Name is required and must be a non-empty string');
+  }
+
+  if (data.name && typeof data.name === 'string' && /[/\\>]/.test(data.name)) {
+    errors.push('Name cannot contain "/", "\\" or ">" (they separate path segments)');
+  }
+
+  const validKinds = ['room', 'area', 'shelf', 'cabinet', 'drawer', 'bin', 'box', 'other'];
+  if (data.kind && !validKinds.includes(data.kind)) {
+    errors.push(`Kind must be one of: ${validKinds.join(', ')}`);
+  }
+
+  if (data.sort_order !== undefined && typeof data.sort_order !== 'number') {
+    errors.push('Sort order must be a number');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const location: LocationInput = {
+    name: data.name.trim(),
+    parent_id: data.parent_id || null,
+    kind: data.kind || 'bin',
+    description: data.description?.trim() || null,
+    sort_order: data.sort_order || 0,
+    metadata: data.metadata || {}
+  };
+
+  return { valid: true, errors: [], location };
+};
+
+export const validateTeardown = (data: any): { valid: boolean; errors: string[]; teardown?: TeardownInput } => {
+  const errors: string[] = [];
+
+  if (!data.device_name || typeof data.device_name !== 'string' || data.device_name.trim().length === 0) {
+    errors.push('Device name is required and must be a non-empty string');
+  }
+
+  if (data.teardown_date && isNaN(Date.parse(data.teardown_date))) {
+    errors.push('Teardown date must be a valid date');
+  }
+
+  if (data.photos && !Array.isArray(data.photos)) {
+    errors.push('Photos must be an array');
+  }
+
+  if (data.hazards && !Array.isArray(data.hazards)) {
+    errors.push('Hazards must be an array');
+  }
+
+  if (data.checklist && !Array.isArray(data.checklist)) {
+    errors.push('Checklist must be an array');
+  }
+
+  (Array.isArray(data.checklist) ? data.checklist : []).forEach((item: any, index: number) => {
+    if (!item?.name || typeof item.name !== 'string' || item.name.trim().length === 0) {
+      errors.push(`Checklist item ${index + 1}: name is required`);
+    }
+    if (item?.quantity !== undefined && (!Number.isInteger(item.quantity) || item.quantity < 1)) {
+      errors.push(`Checklist item ${index + 1}: quantity must be a positive whole number`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const teardown: TeardownInput = {
+    device_name: data.device_name.trim(),
+    model: data.model?.trim() || null,
+    manufacturer: data.manufacturer?.trim() || null,
+    teardown_date: data.teardown_date || new Date().toISOString().slice(0, 10),
+    photos: data.photos || [],
+    notes: data.notes?.trim() || null,
+    hazards: (data.hazards || []).map((hazard: string) => hazard.trim()).filter(Boolean),
+    checklist: (data.checklist || []).map((item: any) => ({
+      name: item.name.trim(),
+      category: item.category?.trim() || null,
+      quantity: item.quantity ?? 1,
+      estimated_value: typeof item.estimated_value === 'number' ? item.estimated_value : null,
+      notes: item.notes?.trim() || null,
+      harvested: !!item.harvested,
+      part_id: item.part_id || null
+    })),
+    metadata: data.metadata || {}
+  };
+
+  return { valid: true, errors: [], teardown };
+};
+
+export const validateIdentificationOutcome = (data: any): { valid: boolean; errors: string[]; outcome?: IdentificationOutcomeInput } => {
+  const errors: string[] = [];
+
+  if (!['confirmed', 'rejected'].includes(data.outcome)) {
+    errors.push('Outcome must be one of: confirmed, rejected');
+  }
+
+  if (data.outcome === 'confirmed' && (!Number.isInteger(data.chosen_index) || data.chosen_index < 0)) {
+    errors.push('A confirmed identification needs the index of the chosen candidate');
+  }
+
+  if (data.part_id !== undefined && data.part_id !== null && typeof data.part_id !== 'string') {
+    errors.push('Part ID must be a string');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    outcome: {
+      outcome: data.outcome,
+      chosen_index: data.outcome === 'confirmed' ? data.chosen_index : null,
+      part_id: data.part_id || null,
+      notes: data.notes?.trim() || null
+    }
+  };
+};
+
+export const validateStockMovement = (data: any): { valid: boolean; errors: string[]; movement?: StockMovementInput } => {
+  const errors: string[] = [];
+
+  if (!data.part_id || typeof data.part_id !== 'string') {
+    errors.push('Part ID is required');
+  }
+
+  if (typeof data.delta !== 'number' || !Number.isInteger(data.delta) || data.delta === 0) {
+    errors.push('Delta must be a non-zero whole number');
+  }
+
+  const validReasons = ['salvaged', 'consumed', 'sold', 'lost', 'adjusted'];
+  if (!validReasons.includes(data.reason)) {
+    errors.push(`Reason must be one of: ${validReasons.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const movement: StockMovementInput = {
+    part_id: data.part_id,
+    delta: data.delta,
+    reason: data.reason,
+    project_id: data.project_id || null,
+    build_session_id: data.build_session_id || null,
+    note: data.note?.trim() || null
+  };
+
+  return { valid: true, errors: [], movement };
+};
+
+export const validateCategoryThreshold = (data: any): { valid: boolean; errors: string[]; threshold?: CategoryThresholdInput } => {
+  const errors: string[] = [];
+
+  if (!data.category || typeof data.category !== 'string' || data.category.trim().length === 0) {
+    errors.push('Category is required');
+  }
+
+  if (!Number.isInteger(data.min_quantity) || data.min_quantity < 0) {
+    errors.push('Minimum quantity must be a non-negative whole number');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    threshold: { category: data.category.trim(), min_quantity: data.min_quantity }
+  };
+};
+
+export const validateBomLine = (data: any): { valid: boolean; errors: string[]; line?: BomLineInput } => {
+  const errors: string[] = [];
+
+  if (!data.project_id || typeof data.project_id !== 'string') {
+    errors.push('Project ID is required');
+  }
+
+  if (!data.part_id || typeof data.part_id !== 'string') {
+    errors.push('Part ID is required');
+  }
+
+  if (data.quantity !== undefined && (!Number.isInteger(data.quantity) || data.quantity < 1)) {
+    errors.push('Quantity must be a whole number of at least 1');
+  }
+
+  if (data.substitutes !== undefined && (!Array.isArray(data.substitutes) || data.substitutes.some((id: unknown) => typeof id !== 'string'))) {
+    errors.push('Substitutes must be an array of part IDs');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    line: {
+      project_id: data.project_id,
+      part_id: data.part_id,
+      quantity: data.quantity ?? 1,
+      substitutes: (data.substitutes || []).filter((id: string) => id !== data.part_id),
+      notes: data.notes?.trim() || null
+    }
+  };
+};
+
+export const validateValueEstimates = (data: any): { valid: boolean; errors: string[]; estimates?: ValueEstimateInput[] } => {
+  const errors: string[] = [];
+
+  if (!Array.isArray(data.estimates) || data.estimates.length === 0) {
+    return { valid: false, errors: ['Estimates must be a non-empty array'] };
+  }
+
+  if (data.estimates.length > 100) {
+    errors.push('At most 100 estimates can be applied at once');
+  }
+
+  data.estimates.forEach((estimate: any, index: number) => {
+    if (!estimate?.part_id || typeof estimate.part_id !== 'string') {
+      errors.push(`Estimate ${index + 1}: part ID is required`);
+    }
+    if (typeof estimate?.value_estimate !== 'number' || !Number.isFinite(estimate.value_estimate) || estimate.value_estimate < 0) {
+      errors.push(`Estimate ${index + 1}: value must be a non-negative number`);
+    }
+    if (estimate?.confidence != null && (typeof estimate.confidence !== 'number' || estimate.confidence < 0 || estimate.confidence > 1)) {
+      errors.push(`Estimate ${index + 1}: confidence must be between 0 and 1`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    estimates: data.estimates.map((estimate: any) => ({
+      part_id: estimate.part_id,
+      value_estimate: estimate.value_estimate,
+      confidence: estimate.confidence ?? null
+    }))
+  };
+};
+
+export const validateConversation = (data: any): { valid: boolean; errors: string[]; conversation?: ConversationInput } => {
+  const errors: string[] = [];
+
+  if (data.title !== undefined && (typeof data.title !== 'string' || data.title.trim().length === 0)) {
+    errors.push('Title must be a non-empty string');
+  }
+
+  if (typeof data.title === 'string' && data.title.trim().length > 120) {
+    errors.push('Title must be 120 characters or fewer');
+  }
+
+  if (data.pinned !== undefined && typeof data.pinned !== 'boolean') {
+    errors.push('Pinned must be a boolean');
+  }
+
+  if (data.archived !== undefined && typeof data.archived !== 'boolean') {
+    errors.push('Archived must be a boolean');
+  }
+
+  const conversation: ConversationInput = {};
+  if (data.title !== undefined) conversation.title = data.title?.trim();
+  if (data.pinned !== undefined) conversation.pinned = data.pinned;
+  if (data.archived !== undefined) conversation.archived = data.archived;
+
+  if (errors.length === 0 && Object.keys(conversation).length === 0) {
+    errors.push('Nothing to update: send a title, pinned or archived');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, errors: [], conversation };
+};
+
+export const validateMemory = (data: any): { valid: boolean; errors: string[]; memory?: MemoryInput } => {
+  const errors: string[] = [];
+
+  if (data.content !== undefined && (typeof data.content !== 'string' || data.content.trim().length === 0)) {
+    errors.push('Content must be a non-empty string');
+  }
+
+  if (typeof data.content === 'string' && data.content.trim().length > 300) {
+    errors.push('Content must be 300 characters or fewer');
+  }
+
+  const validCategories = ['preference', 'equipment', 'skill', 'safety', 'project', 'other'];
+  if (data.category !== undefined && !validCategories.includes(data.category)) {
+    errors.push(`Category must be one of: ${validCategories.join(', ')}`);
+  }
+
+  const memory: MemoryInput = {};
+  if (data.content !== undefined) memory.content = data.content?.trim();
+  if (data.category !== undefined) memory.category = data.category;
+
+  if (errors.length === 0 && Object.keys(memory).length === 0) {
+    errors.push('Nothing to update: send content or category');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, errors: [], memory };
+};
@@ -0,0 +1,255 @@
+// Inventory valuation: value_estimate × quantity rolled up by category, source
+// and the device a part was salvaged from, plus the parts still missing a value.
+import { supabaseAdmin } from './auth';
+import { fetchAll } from './queries';
+import { toCsv } from './stock';
+import type { ValueEstimateInput } from './validation';
+
+interface ValuationPartRow {
+  id: string;
+  name: string;
+  category: string | null;
+  source: string | null;
+  original_device: string | null;
+  quantity: number;
+  value_estimate: number | string | null;
+  ai_identified: boolean;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface ValuationGroup {
+  key: string;
+  parts: number;
+  units: number;
+  value: number;
+  unvalued: number;
+}
+
+export interface TeardownYield extends ValuationGroup {
+  sources: string[];
+  first_salvaged: string;
+  last_salvaged: string;
+  top_parts: { id: string; name: string; value: number }[];
+}
+
+export interface UnvaluedPart {
+  id: string;
+  name: string;
+  category: string | null;
+  quantity: number;
+  original_device: string | null;
+  manufacturer: string | null;
+  part_number: string | null;
+}
+
+export interface ValuationReport {
+  totals: {
+    parts: number;
+    units: number;
+    value: number;
+    valued_parts: number;
+    unvalued_parts: number;
+    unvalued_units: number;
+  };
+  by_category: ValuationGroup[];
+  by_source: ValuationGroup[];
+  by_device: ValuationGroup[];
+  teardowns: TeardownYield[];
+  unvalued: UnvaluedPart[];
+  parts: (Pick<ValuationPartRow, 'id' | 'name' | 'category' | 'source' | 'original_device' | 'quantity'> & {
+    value_estimate: number | null;
+    total_value: number | null;
+  })[];
+  generated_at: string;
+}
+
+export type ValuationCsvView = 'parts' | 'category' | 'source' | 'device' | 'teardowns';
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+const unitValue = (part: ValuationPartRow) => {
+  const value = part.value_estimate === null ? NaN : Number(part.value_estimate);
+  return Number.isFinite(value) ? value : null;
+};
+
+const groupBy = (parts: ValuationPartRow[], keyOf: (part: ValuationPartRow) => string | null, fallback: string) => {
+  const groups = new Map<string, ValuationGroup>();
+
+  parts.forEach(part => {
+    const key = keyOf(part)?.trim() || fallback;
+    const group = groups.get(key) || { key, parts: 0, units: 0, value: 0, unvalued: 0 };
+    const value = unitValue(part);
+    group.parts += 1;
+    group.units += part.quantity;
+    if (value === null) {
+      group.unvalued += 1;
+    } else {
+      group.value += value * part.quantity;
+    }
+    groups.set(key, group);
+  });
+
+  return [...groups.values()]
+    .map(group => ({ ...group, value: money(group.value) }))
+    .sort((a, b) => b.value - a.value || b.units - a.units);
+};
+
+export const buildValuation = async (userId: string): Promise<ValuationReport> => {
+  const parts = await fetchAll<ValuationPartRow>(
+    'parts',
+    'id, name, category, source, original_device, quantity, value_estimate, ai_identified, metadata, created_at',
+    userId
+  );
+
+  const unvalued = parts.filter(part => unitValue(part) === null);
+
+  // Teardown yield: everything harvested from one device, whatever it is worth today
+  const devices = new Map<string, ValuationPartRow[]>();
+  parts
+    .filter(part => part.original_device?.trim())
+    .forEach(part => {
+      const device = part.original_device!.trim();
+      devices.set(device, [...(devices.get(device) || []), part]);
+    });
+
+  const teardowns: TeardownYield[] = [...devices.entries()].map(([device, deviceParts]) => {
+    const [group] = groupBy(deviceParts, () => device, device);
+    const dates = deviceParts.map(part => part.created_at).sort();
+    return {
+      ...group,
+      sources: [...new Set(deviceParts.map(part => part.source?.trim()).filter((source): source is string => !!source))],
+      first_salvaged: dates[0],
+      last_salvaged: dates[dates.length - 1],
+      top_parts: deviceParts
+        .map(part => ({ id: part.id, name: part.name, value: money((unitValue(part) || 0) * part.quantity) }))
+        .filter(part => part.value > 0)
+        .sort((a, b) => b.value - a.value)
+        .slice(0, 3)
+    };
+  }).sort((a, b) => b.value - a.value);
+
+  const value = parts.reduce((sum, part) => sum + (unitValue(part) || 0) * part.quantity, 0);
+
+  return {
+    totals: {
+      parts: parts.length,
+      units: parts.reduce((sum, part) => sum + part.quantity, 0),
+      value: money(value),
+      valued_parts: parts.length - unvalued.length,
+      unvalued_parts: unvalued.length,
+      unvalued_units: unvalued.reduce((sum, part) => sum + part.quantity, 0)
+    },
+    by_category: groupBy(parts, part => part.category, 'Uncategorized'),
+    by_source: groupBy(parts, part => part.source, 'Unknown source'),
+    by_device: groupBy(parts, part => part.original_device, 'Not from a teardown'),
+    teardowns,
+    unvalued: unvalued.map(part => ({
+      id: part.id,
+      name: part.name,
+      category: part.category,
+      quantity: part.quantity,
+      original_device: part.original_device,
+      manufacturer: (part.metadata?.manufacturer as string) || null,
+      part_number: (part.metadata?.part_number as string) || null
+    })),
+    parts: parts.map(part => {
+      const unit = unitValue(part);
+      return {
+        id: part.id,
+        name: part.name,
+        category: part.category,
+        source: part.source,
+        original_device: part.original_device,
+        quantity: part.quantity,
+        value_estimate: unit,
+        total_value: unit === null ? null : money(unit * part.quantity)
+      };
+    }),
+    generated_at: new Date().toISOString()
+  };
+};
+
+export const toValuationCsv = (report: ValuationReport, view: ValuationCsvView): string => {
+  if (view === 'parts') {
+    return toCsv([
+      ['Part', 'Category', 'Source', 'Original Device', 'Quantity', 'Unit Value (USD)', 'Total Value (USD)'],
+      ...report.parts.map(part => [
+        part.name,
+        part.category,
+        part.source,
+        part.original_device,
+        part.quantity,
+        part.value_estimate,
+        part.total_value
+      ])
+    ]);
+  }
+
+  if (view === 'teardowns') {
+    return toCsv([
+      ['Device', 'Sources', 'Parts', 'Units', 'Value (USD)', 'Unvalued Parts', 'First Salvaged', 'Last Salvaged', 'Top Parts'],
+      ...report.teardowns.map(teardown => [
+        teardown.key,
+        teardown.sources.join(' | '),
+        teardown.parts,
+        teardown.units,
+        teardown.value,
+        teardown.unvalued,
+        teardown.first_salvaged,
+        teardown.last_salvaged,
+        teardown.top_parts.map(part => `${part.name} ($${part.value})`).join(' | ')
+      ])
+    ]);
+  }
+
+  const groups = { category: report.by_category, source: report.by_source, device: report.by_device }[view];
+  const label = { category: 'Category', source: 'Source', device: 'Original Device' }[view];
+  return toCsv([
+    [label, 'Parts', 'Units', 'Value (USD)', 'Unvalued Parts'],
+    ...groups.map(group => [group.key, group.parts, group.units, group.value, group.unvalued])
+  ]);
+};
+
+// Write AI value estimates onto parts, noting where the number came from
+export const applyValueEstimates = async (userId: string, estimates: ValueEstimateInput[]) => {
+  const ids = estimates.map(estimate => estimate.part_id);
+  const { data: parts, error } = await supabaseAdmin
+    .from('parts')
+    .select('id, metadata')
+    .eq('user_id', userId)
+    .in('id', ids);
+
+  if (error) {
+    throw error;
+  }
+
+  const estimatedAt = new Date().toISOString();
+  const updated: string[] = [];
+
+  for (const estimate of estimates) {
+    const part = (parts || []).find(row => row.id === estimate.part_id);
+    if (!part) continue;
+
+    const { error: updateError } = await supabaseAdmin
+      .from('parts')
+      .update({
+        value_estimate: money(estimate.value_estimate),
+        metadata: {
+          ...(part.metadata || {}),
+          value_estimate_source: 'ai',
+          value_estimate_confidence: estimate.confidence,
+          value_estimated_at: estimatedAt
+        }
+      })
+      .eq('id', part.id)
+      .eq('user_id', userId);
+
+    if (updateError) {
+      throw updateError;
+    }
+    updated.push(part.id);
+  }
+
+  return updated;
+};
@@ -0,0 +1,59 @@
+import { withAuth } from './utils/auth';
+import { buildValuation, toValuationCsv, applyValueEstimates, ValuationCsvView } from './utils/valuation';
+import { validateValueEstimates } from './utils/validation';
+
+const CSV_VIEWS: ValuationCsvView[] = ['parts', 'category', 'source', 'device', 'teardowns'];
+
+// GET returns the valuation report (`format: 'csv'` with a `view` for a download);
+// PUT writes value estimates back onto parts after a batch AI estimate.
+export const handler = withAuth(async (req) => {
+  const { user, body, headers } = req;
+  const method = headers['x-http-method'] || 'GET';
+
+  console.log('💰 [Valuation] Request:', { method, userId: user.id });
+
+  try {
+    switch (method) {
+      case 'GET': {
+        const { format = 'json', view = 'parts' } = body;
+        const report = await buildValuation(user.id);
+
+        console.log(`✅ [Valuation] ${report.totals.parts} parts worth $${report.totals.value}, ${report.totals.unvalued_parts} unvalued`);
+
+        if (format === 'csv') {
+          if (!CSV_VIEWS.includes(view)) {
+            return { error: `View must be one of: ${CSV_VIEWS.join(', ')}` };
+          }
+          return {
+            csv: toValuationCsv(report, view),
+            filename: `valuation-${view}-${new Date().toISOString().slice(0, 10)}.csv`,
+            total: report.totals.parts
+          };
+        }
+
+        return report;
+      }
+
+      case 'PUT': {
+        const { valid, errors, estimates } = validateValueEstimates(body);
+        if (!valid) {
+          return { error: 'Validation failed', details: errors };
+        }
+
+        const updated = await applyValueEstimates(user.id, estimates!);
+        console.log(`✅ [Valuation] Applied ${updated.length} value estimates`);
+
+        return { updated, total: updated.length };
+      }
+
+      default:
+        return { error: 'Method not allowed' };
+    }
+  } catch (error) {
+    console.error('❌ [Valuation] Failed:', error);
+    return {
+      error: 'Valuation report failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+});
@@ -0,0 +1,33 @@
+// Copies the tesseract.js worker, WASM core and English model into public/tesseract
+// so on-device OCR (src/lib/ocr.ts) is served by the app and works offline instead
+// of loading them from a CDN. Runs after npm install.
+import { copyFileSync, existsSync, mkdirSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const target = join(root, 'public', 'tesseract');
+const modules = join(root, 'node_modules');
+
+// The worker runs LSTM only (tesseract.js's default engine), so only those cores
+// and the matching best_int model are needed
+const assets = [
+  ['tesseract.js/dist/worker.min.js', 'worker.min.js'],
+  ['tesseract.js-core/tesseract-core-lstm.wasm.js', 'core/tesseract-core-lstm.wasm.js'],
+  ['tesseract.js-core/tesseract-core-simd-lstm.wasm.js', 'core/tesseract-core-simd-lstm.wasm.js'],
+  ['@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz', 'lang/eng.traineddata.gz']
+];
+
+let missing = 0;
+for (const [from, to] of assets) {
+  const source = join(modules, from);
+  if (!existsSync(source)) {
+    console.warn(`⚠️ [OCR assets] Missing ${from}; on-device OCR won't load until it's installed`);
+    missing++;
+    continue;
+  }
+  mkdirSync(dirname(join(target, to)), { recursive: true });
+  copyFileSync(source, join(target, to));
+}
+
+console.log(`✅ [OCR assets] Copied ${assets.length - missing}/${assets.length} files to public/tesseract`);
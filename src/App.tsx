@@ -13,9 +13,15 @@ import { queryClient } from '@/lib/queryClient';
 // Import pages
 import { Dashboard } from '@/pages/Dashboard';
 import { PartsInventory } from '@/pages/PartsInventory';
+import { PartDetail } from '@/pages/PartDetail';
+import { Locations } from '@/pages/Locations';
 import { AIAssistant } from '@/pages/AIAssistant';
 import { Projects } from '@/pages/Projects';
+import { ProjectDetail } from '@/pages/ProjectDetail';
 import { Analytics } from '@/pages/Analytics';
+import { Valuation } from '@/pages/Valuation';
+import { Teardowns } from '@/pages/Teardowns';
+import { TeardownDetail } from '@/pages/TeardownDetail';
 import { Settings } from '@/pages/Settings';
 
 const AuthenticatedApp = () => {
@@ -27,9 +33,16 @@ const AuthenticatedApp = () => {
         <Route path="/" element={<AppShell />}>
           <Route index element={<Dashboard />} />
           <Route path="parts" element={<PartsInventory />} />
+          <Route path="parts/:partId" element={<PartDetail />} />
+          <Route path="locations" element={<Locations />} />
+          <Route path="locations/:locationId" element={<Locations />} />
           <Route path="chat" element={<AIAssistant />} />
           <Route path="projects" element={<Projects />} />
+          <Route path="projects/:projectId" element={<ProjectDetail />} />
+          <Route path="teardowns" element={<Teardowns />} />
+          <Route path="teardowns/:teardownId" element={<TeardownDetail />} />
           <Route path="analytics" element={<Analytics />} />
+          <Route path="valuation" element={<Valuation />} />
           <Route path="settings" element={<Settings />} />
         </Route>
       </Routes>
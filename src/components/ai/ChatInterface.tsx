@@ -1,7 +1,8 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Zap, Lightbulb, HelpCircle, Wrench } from 'lucide-react';
+import { Send, Bot, User, Loader2, Zap, Lightbulb, HelpCircle, Wrench, Square, History, CheckCircle, XCircle, AlertTriangle, Check, X } from 'lucide-react';
 import { Button } from '@/components/common/Button';
-import { useSendMessage } from '@/hooks/api/useChat';
+import { Link } from 'react-router-dom';
+import { useChatMessages, useStreamMessage, useResolveChatAction, ChatAction, ChatContextRecord } from '@/hooks/api/useChat';
 import { cn } from '@/lib/utils';
 
 interface Message {
@@ -10,8 +11,49 @@ interface Message {
   content: string;
   timestamp: string;
   isLoading?: boolean;
+  isStreaming?: boolean;
+  cancelled?: boolean;
+  // Saved assistant message id; actions are confirmed against it
+  serverId?: string;
+  actions?: ChatAction[];
+  // Inventory records the reply was based on
+  sources?: ChatContextRecord[];
 }
 
+const MAX_SOURCES_SHOWN = 5;
+
+const sourcePath = (record: ChatContextRecord) =>
+  record.type === 'part' ? `/parts/${record.id}` : `/projects/${record.type === 'session' ? record.project_id : record.id}`;
+
+// Links to the records retrieved for the question; recent fill-ins aren't what a reply was "based on"
+const BasedOn: React.FC<{ sources: ChatContextRecord[] }> = ({ sources }) => {
+  const matched = sources.filter(record => record.reason === 'match' && (record.type !== 'session' || record.project_id));
+  if (matched.length === 0) return null;
+
+  return (
+    <p className="text-xs text-text-muted mt-1 font-mono">
+      BASED ON:{' '}
+      {matched.slice(0, MAX_SOURCES_SHOWN).map((record, index) => (
+        <React.Fragment key={`${record.type}:${record.id}`}>
+          {index > 0 && ', '}
+          <Link to={sourcePath(record)} className="text-cyber-cyan hover:underline">
+            {record.name}
+          </Link>
+        </React.Fragment>
+      ))}
+      {matched.length > MAX_SOURCES_SHOWN && ` +${matched.length - MAX_SOURCES_SHOWN} more`}
+    </p>
+  );
+};
+
+const ACTION_ICONS = {
+  executed: <CheckCircle className="w-3 h-3 text-cyber-green flex-shrink-0" />,
+  pending: <Wrench className="w-3 h-3 text-cyber-orange flex-shrink-0" />,
+  running: <Loader2 className="w-3 h-3 text-cyber-cyan animate-spin flex-shrink-0" />,
+  rejected: <XCircle className="w-3 h-3 text-text-muted flex-shrink-0" />,
+  failed: <AlertTriangle className="w-3 h-3 text-cyber-orange flex-shrink-0" />
+};
+
 interface ChatInterfaceProps {
   conversationId?: string;
   onConversationStart?: (id: string) => void;
@@ -24,16 +66,39 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [message, setMessage] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
   const [currentConversationId, setCurrentConversationId] = useState(conversationId);
+  // History is loaded for the conversation this chat was opened on; anything sent
+  // after that is already in `messages`
+  const [openedConversationId] = useState(conversationId);
+  // Outcomes of actions confirmed or rejected here, by action id
+  const [resolvedActions, setResolvedActions] = useState<Record<string, ChatAction>>({});
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   
-  const sendMessage = useSendMessage();
+  const sendMessage = useStreamMessage();
+  const history = useChatMessages(openedConversationId);
+  const resolveAction = useResolveChatAction();
+
+  // Pages are newest first, messages within a page oldest first
+  const historyMessages: Message[] = (history.data?.pages || [])
+    .slice()
+    .reverse()
+    .flatMap(page => page.messages.map(msg => ({
+      id: msg.id,
+      role: msg.role,
+      content: msg.content,
+      timestamp: msg.created_at,
+      cancelled: !!msg.metadata?.cancelled,
+      serverId: msg.id,
+      actions: msg.metadata?.actions,
+      sources: msg.metadata?.context_records
+    })));
+  const allMessages = [...historyMessages, ...messages];
 
-  // Auto scroll to bottom when new messages arrive
+  // Auto scroll to bottom when new messages arrive (not when loading earlier ones)
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, history.isSuccess]);
 
   // Auto resize textarea
   useEffect(() => {
@@ -68,9 +133,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     // Add user message immediately
     setMessages(prev => [...prev, userMessage]);
     
-    // Add loading message
+    // Placeholder that the streamed reply is written into
+    const replyId = `response-${Date.now()}`;
     const loadingMessage: Message = {
-      id: `loading-${Date.now()}`,
+      id: replyId,
       role: 'assistant',
       content: '',
       timestamp: new Date().toISOString(),
@@ -78,6 +144,17 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     };
     setMessages(prev => [...prev, loadingMessage]);
 
+    const updateReply = (update: (msg: Message) => Partial<Message>) => {
+      setMessages(prev => prev.map(m => (m.id === replyId ? { ...m, ...update(m) } : m)));
+    };
+
+    const startConversation = (id: string) => {
+      if (id && id !== currentConversationId) {
+        setCurrentConversationId(id);
+        onConversationStart?.(id);
+      }
+    };
+
     const messageContent = message;
     setMessage('');
 
@@ -88,30 +165,31 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         context: {
           timestamp: new Date().toISOString(),
           user_agent: navigator.userAgent
-        }
+        },
+        onStart: startConversation,
+        onDelta: (text) => updateReply(m => ({ content: m.content + text, isLoading: false, isStreaming: true }))
       });
 
-      // Remove loading message and add actual response
-      setMessages(prev => prev.filter(m => !m.isLoading));
-      
-      const assistantMessage: Message = {
-        id: `response-${Date.now()}`,
-        role: 'assistant',
+      updateReply(() => ({
         content: response.message,
-        timestamp: new Date().toISOString()
-      };
-      
-      setMessages(prev => [...prev, assistantMessage]);
+        isLoading: false,
+        isStreaming: false,
+        serverId: response.message_id,
+        actions: response.actions,
+        sources: response.context?.records
+      }));
+      startConversation(response.conversation_id);
 
-      // Update conversation ID if this is a new conversation
-      if (response.conversation_id && response.conversation_id !== currentConversationId) {
-        setCurrentConversationId(response.conversation_id);
-        onConversationStart?.(response.conversation_id);
+    } catch (error) {
+      // Stopped by the user: keep whatever arrived, drop the placeholder if nothing did
+      if (error instanceof Error && error.name === 'AbortError') {
+        setMessages(prev => prev
+          .filter(m => m.id !== replyId || m.content)
+          .map(m => (m.id === replyId ? { ...m, isLoading: false, isStreaming: false, cancelled: true } : m)));
+        return;
       }
 
-    } catch (error) {
-      // Remove loading message and show error
-      setMessages(prev => prev.filter(m => !m.isLoading));
+      setMessages(prev => prev.filter(m => m.id !== replyId));
       
       const errorMessage: Message = {
         id: `error-${Date.now()}`,
@@ -124,6 +202,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
 
+  const handleResolveAction = (messageId: string, actionId: string, decision: 'confirm' | 'reject') => {
+    resolveAction.mutate({ messageId, actionId, decision }, {
+      onSuccess: ({ action }) => setResolvedActions(prev => ({ ...prev, [action.id]: action }))
+    });
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -177,14 +261,33 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         {sendMessage.isPending && (
           <div className="flex items-center space-x-2 text-text-muted">
             <Loader2 className="w-4 h-4 animate-spin" />
-            <span className="text-sm font-mono">PROCESSING...</span>
+            <span className="text-sm font-mono">STREAMING...</span>
           </div>
         )}
       </div>
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((msg) => (
+        {history.isLoading && (
+          <div className="flex items-center justify-center space-x-2 text-text-muted">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span className="text-sm font-mono">LOADING CONVERSATION...</span>
+          </div>
+        )}
+        {history.hasNextPage && (
+          <div className="flex justify-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => history.fetchNextPage()}
+              loading={history.isFetchingNextPage}
+              icon={<History className="w-4 h-4" />}
+            >
+              LOAD EARLIER
+            </Button>
+          </div>
+        )}
+        {allMessages.map((msg) => (
           <div
             key={msg.id}
             className={cn(
@@ -222,10 +325,62 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                     <Loader2 className="w-4 h-4 animate-spin" />
                     <span className="text-sm font-mono">THINKING...</span>
                   </div>
-                ) : (
-                  <p className="text-sm whitespace-pre-wrap font-mono">{msg.content}</p>
+                ) : (msg.content || msg.isStreaming) && (
+                  <p className="text-sm whitespace-pre-wrap font-mono">
+                    {msg.content}
+                    {msg.isStreaming && <span className="ml-0.5 text-cyber-cyan animate-pulse">▍</span>}
+                  </p>
+                )}
+                {msg.actions && msg.actions.length > 0 && (
+                  <div className={cn('space-y-2', msg.content && 'mt-3 pt-3 border-t border-text-muted/20')}>
+                    {msg.actions.map(original => {
+                      const action = resolvedActions[original.id] || original;
+                      const resolving = resolveAction.isPending && resolveAction.variables?.actionId === action.id;
+                      return (
+                        <div key={action.id} className="text-xs font-mono">
+                          <div className={cn(
+                            'flex items-start gap-2',
+                            action.status === 'rejected' ? 'text-text-muted line-through' : 'text-text-secondary'
+                          )}>
+                            {ACTION_ICONS[action.status]}
+                            <span>{action.summary}</span>
+                          </div>
+                          {action.error && (
+                            <p className="ml-5 text-cyber-orange">{action.error}</p>
+                          )}
+                          {action.status === 'pending' && msg.serverId && (
+                            <div className="ml-5 mt-1 flex gap-2">
+                              <Button
+                                size="sm"
+                                onClick={() => handleResolveAction(msg.serverId!, action.id, 'confirm')}
+                                loading={resolving && resolveAction.variables?.decision === 'confirm'}
+                                disabled={resolving}
+                                icon={<Check className="w-3 h-3" />}
+                              >
+                                CONFIRM
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => handleResolveAction(msg.serverId!, action.id, 'reject')}
+                                loading={resolving && resolveAction.variables?.decision === 'reject'}
+                                disabled={resolving}
+                                icon={<X className="w-3 h-3" />}
+                              >
+                                CANCEL
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {msg.cancelled && (
+                  <p className="text-xs text-text-muted mt-2 font-mono">[STOPPED]</p>
                 )}
               </div>
+              {msg.sources && <BasedOn sources={msg.sources} />}
               <p className="text-xs text-text-muted mt-1 font-mono">
                 {formatTime(msg.timestamp)}
               </p>
@@ -236,7 +391,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
       </div>
 
       {/* Quick Prompts (show when conversation is new) */}
-      {messages.length <= 1 && (
+      {allMessages.length <= 1 && !history.isLoading && (
         <div className="px-4 py-2 border-t border-cyber-cyan/20">
           <p className="text-sm text-text-muted mb-2 font-mono">QUICK PROMPTS:</p>
           <div className="grid grid-cols-2 gap-2">
@@ -269,14 +424,24 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
               disabled={sendMessage.isPending}
             />
           </div>
-          <Button
-            onClick={handleSendMessage}
-            disabled={!message.trim() || sendMessage.isPending}
-            icon={sendMessage.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-            glow
-          >
-            SEND
-          </Button>
+          {sendMessage.isPending ? (
+            <Button
+              variant="outline"
+              onClick={sendMessage.cancel}
+              icon={<Square className="w-4 h-4" />}
+            >
+              STOP
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!message.trim()}
+              icon={<Send className="w-4 h-4" />}
+              glow
+            >
+              SEND
+            </Button>
+          )}
         </div>
         <p className="text-xs text-text-muted mt-2 font-mono">
           Press Enter to send, Shift+Enter for new line
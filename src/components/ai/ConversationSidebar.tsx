@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Search, Pin, PinOff, Pencil, Archive, ArchiveRestore, Trash2, MessageSquare, Loader2 } from 'lucide-react';
+import { useConversations, useUpdateConversation, useDeleteConversation, Conversation } from '@/hooks/api/useChat';
+import { cn, formatDate } from '@/lib/utils';
+
+interface ConversationSidebarProps {
+  activeId?: string;
+  onSelect: (id: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+// Saved chats: search titles and messages, rename, pin, archive, delete
+export const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ activeId, onSelect, onDeleted }) => {
+  const [search, setSearch] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+
+  const { data, isLoading } = useConversations({ search: search.trim() || undefined, archived: showArchived });
+  const updateConversation = useUpdateConversation();
+  const deleteConversation = useDeleteConversation();
+
+  const conversations = data?.conversations || [];
+
+  const startRename = (conversation: Conversation) => {
+    setRenamingId(conversation.id);
+    setTitle(conversation.title);
+  };
+
+  const saveRename = () => {
+    if (renamingId && title.trim()) {
+      updateConversation.mutate({ id: renamingId, updates: { title: title.trim() } });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}" and all its messages?`)) {
+      deleteConversation.mutate(conversation.id, {
+        onSuccess: () => onDeleted(conversation.id)
+      });
+    }
+  };
+
+  const actionClass = 'p-1 text-text-muted hover:text-cyber-cyan transition-colors';
+
+  return (
+    <div className="cyber-card space-y-3">
+      <h3 className="font-medium text-text-primary flex items-center font-mono uppercase tracking-wider">
+        <MessageSquare className="w-4 h-4 mr-2 text-cyber-cyan" />
+        CONVERSATIONS
+      </h3>
+
+      <div className="relative">
+        <Search className="w-4 h-4 text-text-muted absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search chats..."
+          className="cyber-input w-full pl-9 text-sm"
+        />
+      </div>
+
+      {!search.trim() && (
+        <div className="flex gap-2 text-xs font-mono">
+          {[false, true].map(archived => (
+            <button
+              key={String(archived)}
+              type="button"
+              onClick={() => setShowArchived(archived)}
+              className={cn(
+                'px-2 py-0.5 rounded-sm border',
+                showArchived === archived ? 'border-cyber-cyan text-cyber-cyan' : 'border-text-muted/30 text-text-muted hover:text-text-secondary'
+              )}
+            >
+              {archived ? 'ARCHIVED' : 'ACTIVE'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-text-muted">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span className="text-sm font-mono">LOADING...</span>
+        </div>
+      ) : conversations.length === 0 ? (
+        <p className="text-sm text-text-muted font-mono">
+          {search.trim() ? 'No matching chats' : showArchived ? 'No archived chats' : 'No saved chats yet'}
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={cn(
+                'group p-2 rounded-sm border transition-colors',
+                conversation.id === activeId
+                  ? 'bg-cyber-cyan/10 border-cyber-cyan/50'
+                  : 'border-transparent hover:bg-bg-tertiary hover:border-text-muted/20'
+              )}
+            >
+              {renamingId === conversation.id ? (
+                <input
+                  type="text"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  onBlur={saveRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') saveRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  maxLength={120}
+                  className="cyber-input w-full text-sm py-1"
+                  autoFocus
+                />
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => onSelect(conversation.id)}
+                  className="w-full text-left"
+                >
+                  <span className="flex items-center gap-1 text-sm text-text-primary font-mono truncate">
+                    {conversation.pinned && <Pin className="w-3 h-3 text-cyber-orange flex-shrink-0" />}
+                    <span className="truncate">{conversation.title}</span>
+                  </span>
+                  {conversation.snippet && (
+                    <span className="block text-xs text-text-secondary mt-1 line-clamp-2">{conversation.snippet}</span>
+                  )}
+                  <span className="block text-xs text-text-muted font-mono mt-1">
+                    {formatDate(conversation.last_message_at)}
+                    {conversation.archived && ' · ARCHIVED'}
+                  </span>
+                </button>
+              )}
+
+              <div className="flex justify-end gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  type="button"
+                  onClick={() => updateConversation.mutate({ id: conversation.id, updates: { pinned: !conversation.pinned } })}
+                  className={actionClass}
+                  title={conversation.pinned ? 'Unpin' : 'Pin'}
+                >
+                  {conversation.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                </button>
+                <button type="button" onClick={() => startRename(conversation)} className={actionClass} title="Rename">
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateConversation.mutate({ id: conversation.id, updates: { archived: !conversation.archived } })}
+                  className={actionClass}
+                  title={conversation.archived ? 'Unarchive' : 'Archive'}
+                >
+                  {conversation.archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(conversation)}
+                  className="p-1 text-text-muted hover:text-cyber-magenta transition-colors"
+                  title="Delete"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
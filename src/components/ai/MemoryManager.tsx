@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Pencil, Trash2, Check, X } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { useMemories, useUpdateMemory, useDeleteMemory, Memory, MemoryCategory, MEMORY_CATEGORIES } from '@/hooks/api/useMemories';
+import { cn, formatDate } from '@/lib/utils';
+
+const CATEGORY_STYLES: Record<MemoryCategory, string> = {
+  preference: 'text-cyber-cyan border-cyber-cyan/40',
+  equipment: 'text-cyber-green border-cyber-green/40',
+  skill: 'text-text-secondary border-text-secondary/40',
+  safety: 'text-cyber-orange border-cyber-orange/40',
+  project: 'text-cyber-magenta border-cyber-magenta/40',
+  other: 'text-text-muted border-text-muted/40'
+};
+
+// What the assistant remembers about the user: review, correct or forget it
+export const MemoryManager: React.FC = () => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [content, setContent] = useState('');
+  const [category, setCategory] = useState<MemoryCategory>('other');
+  const [filter, setFilter] = useState<MemoryCategory | 'all'>('all');
+
+  const { data, isLoading } = useMemories();
+  const updateMemory = useUpdateMemory();
+  const deleteMemory = useDeleteMemory();
+
+  const memories = data?.memories || [];
+  const visible = filter === 'all' ? memories : memories.filter(memory => memory.category === filter);
+
+  const startEdit = (memory: Memory) => {
+    setEditingId(memory.id);
+    setContent(memory.content);
+    setCategory(memory.category);
+  };
+
+  const saveEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || !content.trim()) return;
+
+    try {
+      await updateMemory.mutateAsync({ id: editingId, updates: { content: content.trim(), category } });
+      setEditingId(null);
+    } catch {
+      // Error handled by hook
+    }
+  };
+
+  const handleDelete = (memory: Memory) => {
+    if (window.confirm(`Forget "${memory.content}"?`)) {
+      deleteMemory.mutate(memory.id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-muted font-mono">
+        The assistant picks up lasting facts from your chats (tools you have, skills, preferences, safety limits)
+        and uses them in chat and project ideas.{' '}
+        {data?.store === 'mem0'
+          ? 'Stored in your mem0 account.'
+          : 'Stored in your workshop database. Add a mem0 key under API Keys to use mem0 instead.'}
+      </p>
+
+      <div className="flex flex-wrap gap-2 text-xs font-mono">
+        {(['all', ...MEMORY_CATEGORIES] as const).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setFilter(option)}
+            className={cn(
+              'px-2 py-0.5 rounded-sm border uppercase',
+              filter === option ? 'border-cyber-cyan text-cyber-cyan' : 'border-text-muted/30 text-text-muted hover:text-text-secondary'
+            )}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <p className="text-text-muted font-mono text-sm">LOADING MEMORIES...</p>
+      ) : visible.length === 0 ? (
+        <p className="text-text-muted font-mono text-sm">
+          {memories.length === 0 ? 'NOTHING REMEMBERED YET' : 'NO MEMORIES IN THIS CATEGORY'}
+        </p>
+      ) : (
+        <div className="divide-y divide-text-muted/20 font-mono text-sm">
+          {visible.map(memory => (
+            <div key={memory.id} className="py-2">
+              {editingId === memory.id ? (
+                <form onSubmit={saveEdit} className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="text"
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    maxLength={300}
+                    className="cyber-input flex-1 min-w-[12rem]"
+                    autoFocus
+                  />
+                  <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value as MemoryCategory)}
+                    className="cyber-input w-36"
+                  >
+                    {MEMORY_CATEGORIES.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  <Button type="submit" size="sm" loading={updateMemory.isPending} icon={<Check className="w-3 h-3" />}>
+                    SAVE
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)} icon={<X className="w-3 h-3" />}>
+                    CANCEL
+                  </Button>
+                </form>
+              ) : (
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-text-primary">{memory.content}</p>
+                    <p className="text-xs text-text-muted mt-1">
+                      <span className={cn('px-1.5 py-px mr-2 rounded-sm border uppercase', CATEGORY_STYLES[memory.category])}>
+                        {memory.category}
+                      </span>
+                      {formatDate(memory.created_at)}
+                      {memory.source_message_id && ' · from chat'}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => startEdit(memory)}
+                      className="text-text-muted hover:text-cyber-cyan"
+                      title="Edit"
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(memory)}
+                      className="text-text-muted hover:text-cyber-magenta"
+                      title="Forget"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
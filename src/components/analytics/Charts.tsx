@@ -0,0 +1,170 @@
+import React from 'react';
+import { cn } from '@/lib/utils';
+
+// Small dependency-free charts for the analytics page. Colours are tailwind
+// "cyber" names (cyan, magenta, green, orange) applied as bg/stroke/fill classes.
+
+type ChartColor = 'cyan' | 'magenta' | 'green' | 'orange';
+
+const BG: Record<ChartColor, string> = {
+  cyan: 'bg-cyber-cyan',
+  magenta: 'bg-cyber-magenta',
+  green: 'bg-cyber-green',
+  orange: 'bg-cyber-orange'
+};
+
+const FILL: Record<ChartColor, string> = {
+  cyan: 'fill-cyber-cyan',
+  magenta: 'fill-cyber-magenta',
+  green: 'fill-cyber-green',
+  orange: 'fill-cyber-orange'
+};
+
+const STROKE: Record<ChartColor, string> = {
+  cyan: 'stroke-cyber-cyan',
+  magenta: 'stroke-cyber-magenta',
+  green: 'stroke-cyber-green',
+  orange: 'stroke-cyber-orange'
+};
+
+const EmptyChart: React.FC = () => (
+  <p className="text-text-muted font-mono text-sm py-6 text-center">NO DATA YET</p>
+);
+
+// Horizontal bars, one row per label
+export const BarList: React.FC<{
+  items: { label: string; value: number; hint?: string }[];
+  color?: ChartColor;
+  format?: (value: number) => string;
+}> = ({ items, color = 'cyan', format = String }) => {
+  const max = Math.max(...items.map(item => item.value), 0);
+  if (items.length === 0 || max === 0) return <EmptyChart />;
+
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <div key={item.label}>
+          <div className="flex justify-between text-xs font-mono mb-1">
+            <span className="text-text-secondary truncate">{item.label}</span>
+            <span className="text-text-primary ml-2 flex-shrink-0">
+              {format(item.value)}
+              {item.hint && <span className="text-text-muted"> {item.hint}</span>}
+            </span>
+          </div>
+          <div className="h-2 bg-bg-tertiary rounded-sm overflow-hidden">
+            <div className={cn('h-full rounded-sm', BG[color])} style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Vertical bars over a sequence (e.g. months)
+export const ColumnChart: React.FC<{
+  items: { label: string; value: number }[];
+  color?: ChartColor;
+  height?: number;
+}> = ({ items, color = 'cyan', height = 140 }) => {
+  const max = Math.max(...items.map(item => item.value), 0);
+  if (items.length === 0 || max === 0) return <EmptyChart />;
+
+  return (
+    <div>
+      <div className="flex items-end gap-1" style={{ height }}>
+        {items.map(item => (
+          <div key={item.label} className="flex-1 h-full flex items-end" title={`${item.label}: ${item.value}`}>
+            <div
+              className={cn('w-full rounded-t-sm opacity-80 hover:opacity-100', BG[color])}
+              style={{ height: `${(item.value / max) * 100}%`, minHeight: item.value > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {items.map((item, index) => (
+          <span key={item.label} className="flex-1 text-center text-[10px] text-text-muted font-mono truncate">
+            {index % Math.ceil(items.length / 6) === 0 ? item.label : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Area line over a sequence
+export const LineChart: React.FC<{
+  points: { label: string; value: number }[];
+  color?: ChartColor;
+  format?: (value: number) => string;
+  height?: number;
+}> = ({ points, color = 'green', format = String, height = 160 }) => {
+  const max = Math.max(...points.map(point => point.value), 0);
+  if (points.length === 0 || max === 0) return <EmptyChart />;
+
+  const width = 100;
+  const step = points.length > 1 ? width / (points.length - 1) : 0;
+  const coords = points.map((point, index) => [index * step, height - (point.value / max) * (height - 8)] as const);
+  const line = coords.map(([x, y]) => `${x},${y}`).join(' ');
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs font-mono text-text-muted mb-1">
+        <span>PEAK {format(max)}</span>
+        <span className="text-text-primary">NOW {format(last.value)}</span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+        <polygon points={`0,${height} ${line} ${width},${height}`} className={cn(FILL[color], 'opacity-20')} />
+        <polyline points={line} fill="none" strokeWidth={2} vectorEffect="non-scaling-stroke" className={STROKE[color]} />
+      </svg>
+      <div className="flex justify-between text-[10px] text-text-muted font-mono mt-1">
+        <span>{points[0].label}</span>
+        <span>{last.label}</span>
+      </div>
+    </div>
+  );
+};
+
+// One row per group, split into coloured segments that sum to the group total
+export const StackedBars: React.FC<{
+  rows: { label: string; segments: { key: string; value: number }[]; hint?: string }[];
+  legend: { key: string; label: string; color: ChartColor }[];
+}> = ({ rows, legend }) => {
+  const max = Math.max(...rows.map(row => row.segments.reduce((sum, segment) => sum + segment.value, 0)), 0);
+  if (rows.length === 0 || max === 0) return <EmptyChart />;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-3 text-xs font-mono">
+        {legend.map(entry => (
+          <span key={entry.key} className="inline-flex items-center text-text-secondary uppercase">
+            <span className={cn('w-2 h-2 rounded-sm mr-1', BG[entry.color])} />
+            {entry.label}
+          </span>
+        ))}
+      </div>
+      {rows.map(row => (
+        <div key={row.label}>
+          <div className="flex justify-between text-xs font-mono mb-1">
+            <span className="text-text-secondary">{row.label}</span>
+            {row.hint && <span className="text-text-muted">{row.hint}</span>}
+          </div>
+          <div className="h-3 bg-bg-tertiary rounded-sm overflow-hidden flex">
+            {row.segments.map(segment => {
+              const color = legend.find(entry => entry.key === segment.key)?.color || 'cyan';
+              return segment.value > 0 ? (
+                <div
+                  key={segment.key}
+                  className={cn('h-full', BG[color])}
+                  style={{ width: `${(segment.value / max) * 100}%` }}
+                  title={`${segment.key}: ${segment.value}`}
+                />
+              ) : null;
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Search, Package, Wrench, Brain, Settings, Plus, Zap, Home, BarChart3, Camera, Upload } from 'lucide-react';
+import { Search, Package, Wrench, Brain, Settings, Plus, Zap, Home, BarChart3, DollarSign, Recycle, Camera, Upload, MapPin, QrCode, ScanLine, Calculator } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useParts } from '@/hooks/api/useParts';
 import { useProjects } from '@/hooks/api/useProjects';
+import { useUIStore } from '@/stores/uiStore';
 import { cn } from '@/lib/utils';
+import { decodeAnyCode, formatPassiveValue } from '@/lib/passives';
 
 interface Command {
   id: string;
@@ -34,6 +36,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const navigate = useNavigate();
+  const { openLabelPrinter, openScanner, openDecoder } = useUIStore();
   const inputRef = useRef<HTMLInputElement>(null);
   
   const { data: partsData } = useParts({ limit: 10 });
@@ -65,6 +68,15 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
       keywords: ['parts', 'inventory', 'components', 'catalog'],
       shortcut: 'Alt+P'
     },
+    {
+      id: 'nav-locations',
+      title: 'Storage Locations',
+      subtitle: 'Browse rooms, shelves, drawers and bins',
+      icon: MapPin,
+      action: () => navigate('/locations'),
+      category: 'navigation',
+      keywords: ['locations', 'storage', 'bins', 'drawers', 'shelves', 'where']
+    },
     {
       id: 'nav-projects',
       title: 'Projects',
@@ -75,6 +87,15 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
       keywords: ['projects', 'builds', 'work', 'construction'],
       shortcut: 'Alt+R'
     },
+    {
+      id: 'nav-teardowns',
+      title: 'Teardowns',
+      subtitle: 'Devices taken apart and their salvage checklists',
+      icon: Recycle,
+      action: () => navigate('/teardowns'),
+      category: 'navigation',
+      keywords: ['teardowns', 'salvage', 'harvest', 'device', 'disassemble', 'scrap']
+    },
     {
       id: 'nav-ai',
       title: 'AI Assistant',
@@ -95,6 +116,15 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
       keywords: ['analytics', 'stats', 'reports', 'data'],
       shortcut: 'Alt+Y'
     },
+    {
+      id: 'nav-valuation',
+      title: 'Valuation',
+      subtitle: 'Inventory value and teardown yield',
+      icon: DollarSign,
+      action: () => navigate('/valuation'),
+      category: 'navigation',
+      keywords: ['valuation', 'value', 'worth', 'teardown', 'yield', 'export']
+    },
     {
       id: 'nav-settings',
       title: 'Settings',
@@ -129,6 +159,34 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
       category: 'actions',
       keywords: ['bulk', 'import', 'csv', 'multiple', 'batch']
     },
+    {
+      id: 'action-print-labels',
+      title: 'Print Labels',
+      subtitle: 'QR label sheets for parts and storage locations',
+      icon: QrCode,
+      action: () => openLabelPrinter(),
+      category: 'actions',
+      keywords: ['labels', 'qr', 'print', 'barcode', 'sticker', 'avery']
+    },
+    {
+      id: 'action-scan-label',
+      title: 'Scan Label',
+      subtitle: 'Use the camera to open a part or bin from its QR code',
+      icon: ScanLine,
+      action: () => openScanner(),
+      category: 'actions',
+      keywords: ['scan', 'qr', 'barcode', 'camera', 'label', 'code128'],
+      shortcut: 'Ctrl+B'
+    },
+    {
+      id: 'action-decode-passive',
+      title: 'Decode Passive',
+      subtitle: 'Resistor colour bands, SMD, capacitor and inductor codes',
+      icon: Calculator,
+      action: () => openDecoder(),
+      category: 'actions',
+      keywords: ['decode', 'resistor', 'capacitor', 'inductor', 'color', 'colour', 'bands', 'smd', 'code', 'passive']
+    },
 
     // AI Actions
     {
@@ -174,10 +232,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
     title: part.name,
     subtitle: `${part.category || 'Part'} • Qty: ${part.quantity || 0} • ${part.is_available ? 'Available' : 'Used'}`,
     icon: Package,
-    action: () => {
-      navigate('/parts');
-      // TODO: Could highlight or focus the specific part
-    },
+    action: () => navigate(`/parts/${part.id}`),
     category: 'parts',
     keywords: [
       part.name.toLowerCase(), 
@@ -194,10 +249,7 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
     title: project.name,
     subtitle: `Project • ${project.status || 'Unknown status'} • ${project.difficulty_level ? `Level ${project.difficulty_level}` : ''}`,
     icon: Wrench,
-    action: () => {
-      navigate('/projects');
-      // TODO: Could highlight or focus the specific project
-    },
+    action: () => navigate(`/projects/${project.id}`),
     category: 'projects',
     keywords: [
       project.name.toLowerCase(), 
@@ -218,6 +270,35 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
                command.keywords.some(keyword => keyword.includes(searchText));
       }).slice(0, 10); // Show top 10 results
 
+  // Always offer to run the query against the full inventory (supports field:value syntax)
+  if (query.trim() !== '') {
+    filteredCommands.unshift({
+      id: 'search-inventory',
+      title: `Search inventory: ${query.trim()}`,
+      subtitle: 'Run as a parts query (e.g. category:sensor qty<5 -used)',
+      icon: Search,
+      action: () => navigate(`/parts?q=${encodeURIComponent(query.trim())}`),
+      category: 'parts',
+      keywords: []
+    });
+  }
+
+  // A bare marking ("104", "4R7", "01C") gets its decoded readings inline
+  if (/^[0-9a-z.]{2,5}$/i.test(query.trim()) && /\d/.test(query)) {
+    decodeAnyCode(query.trim()).reverse().forEach(passive => {
+      const value = formatPassiveValue(passive.value, passive.unit);
+      filteredCommands.unshift({
+        id: `decode-${passive.kind}`,
+        title: `${query.trim().toUpperCase()} → ${value} ${passive.kind}`,
+        subtitle: [passive.format, passive.tolerance].filter(Boolean).join(' • '),
+        icon: Calculator,
+        action: () => openDecoder({ kind: passive.kind, code: query.trim() }),
+        category: 'actions',
+        keywords: []
+      });
+    });
+  }
+
   // Group commands by category for display
   const groupedCommands = filteredCommands.reduce((acc, command) => {
     if (!acc[command.category]) acc[command.category] = [];
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders a search snippet whose matches are wrapped in <mark>...</mark> by the
+// search_parts RPC. The snippet is split into text nodes - never injected as HTML.
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => {
+  const segments = text.split(/(<mark>[\s\S]*?<\/mark>)/g).filter(Boolean);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.startsWith('<mark>') && segment.endsWith('</mark>') ? (
+          <mark key={index} className="bg-cyber-cyan/30 text-text-primary rounded-sm px-0.5">
+            {segment.slice(6, -7)}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+};
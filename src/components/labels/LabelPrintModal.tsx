@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { Printer, Download, X, Package, MapPin, Search } from 'lucide-react';
+import { Modal } from '@/components/common/Modal';
+import { Button } from '@/components/common/Button';
+import { Input } from '@/components/common/Input';
+import { useUIStore } from '@/stores/uiStore';
+import { useToast } from '@/hooks/useToast';
+import { useParts, Part } from '@/hooks/api/useParts';
+import { useLocations } from '@/hooks/api/useLocations';
+import {
+  LABEL_LAYOUTS,
+  LabelItem,
+  buildLabelSheets,
+  printLabelSheets,
+  downloadLabelSheets,
+  partToLabel,
+  locationToLabel
+} from '@/lib/labels';
+
+// Mounted by AppShell only while the printer is open, so the chooser queries don't run otherwise
+export const LabelPrintModal: React.FC = () => {
+  const { labelItems, closeLabelPrinter } = useUIStore();
+  const { error } = useToast();
+
+  const [items, setItems] = useState<LabelItem[]>(labelItems);
+  const [layoutId, setLayoutId] = useState(LABEL_LAYOUTS[0].id);
+  const [skip, setSkip] = useState(0);
+  const [copies, setCopies] = useState(1);
+  const [showDetails, setShowDetails] = useState(true);
+  const [showBorder, setShowBorder] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const layout = LABEL_LAYOUTS.find(l => l.id === layoutId) || LABEL_LAYOUTS[0];
+  const perPage = layout.columns * layout.rows;
+
+  // Chooser for when the printer is opened without a selection (e.g. from the palette)
+  const { data: partsData } = useParts({ search: search || undefined, limit: 20 });
+  const { data: locationsData } = useLocations();
+  const candidateParts = ((partsData as { parts?: Part[] } | undefined)?.parts || [])
+    .filter(part => !items.some(item => item.id === part.id));
+  const candidateLocations = (locationsData?.locations || [])
+    .filter(location => !items.some(item => item.id === location.id))
+    .filter(location => !search || location.path.toLowerCase().includes(search.toLowerCase()))
+    .slice(0, 10);
+
+  const pages = useMemo(() => {
+    if (items.length === 0) return [];
+    return buildLabelSheets(items, layout, { skip, copies, showDetails, showBorder });
+  }, [items, layout, skip, copies, showDetails, showBorder]);
+
+  const handlePrint = () => {
+    if (!printLabelSheets(pages, layout)) {
+      error('Print window blocked', 'Allow pop-ups for this site to print labels');
+    }
+  };
+
+  const addItem = (item: LabelItem) => setItems(prev => [...prev, item]);
+  const removeItem = (id: string) => setItems(prev => prev.filter(item => item.id !== id));
+
+  return (
+    <Modal isOpen onClose={closeLabelPrinter} title="PRINT LABELS" size="xl">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          {/* Sheet settings */}
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider">SHEET</label>
+            <select
+              value={layoutId}
+              onChange={(e) => {
+                setLayoutId(e.target.value);
+                setSkip(0);
+              }}
+              className="cyber-input block w-full"
+            >
+              {LABEL_LAYOUTS.map(l => (
+                <option key={l.id} value={l.id}>{l.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="SKIP USED LABELS"
+              type="number"
+              min={0}
+              max={perPage - 1}
+              value={skip}
+              onChange={(e) => setSkip(Math.min(Math.max(parseInt(e.target.value) || 0, 0), perPage - 1))}
+              helperText="Start partway into a sheet"
+            />
+            <Input
+              label="COPIES EACH"
+              type="number"
+              min={1}
+              max={perPage}
+              value={copies}
+              onChange={(e) => setCopies(Math.max(parseInt(e.target.value) || 1, 1))}
+            />
+          </div>
+
+          <div className="flex items-center gap-6 text-sm text-text-secondary font-mono uppercase tracking-wider">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={showDetails} onChange={(e) => setShowDetails(e.target.checked)} />
+              Key specs
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={showBorder} onChange={(e) => setShowBorder(e.target.checked)} />
+              Outline (test print)
+            </label>
+          </div>
+
+          {/* Selected items */}
+          <div>
+            <p className="text-sm font-medium text-text-secondary font-mono uppercase tracking-wider mb-2">
+              {items.length} ITEM{items.length === 1 ? '' : 'S'}
+            </p>
+            <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+              {items.map(item => (
+                <span
+                  key={item.id}
+                  className="inline-flex items-center gap-1 px-2 py-1 bg-bg-tertiary border border-text-muted/30 rounded-sm text-xs font-mono text-text-secondary"
+                >
+                  {item.kind === 'part' ? <Package className="w-3 h-3" /> : <MapPin className="w-3 h-3" />}
+                  {item.title}
+                  <button type="button" onClick={() => removeItem(item.id)} className="hover:text-cyber-magenta">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {/* Add more */}
+          <div className="space-y-2">
+            <Input
+              variant="search"
+              placeholder="ADD PARTS OR LOCATIONS..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              icon={<Search className="w-4 h-4" />}
+            />
+            <div className="max-h-40 overflow-y-auto border border-text-muted/20 rounded-sm divide-y divide-text-muted/10">
+              {candidateLocations.map(location => (
+                <button
+                  key={location.id}
+                  type="button"
+                  onClick={() => addItem(locationToLabel(location))}
+                  className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm font-mono text-text-secondary hover:bg-bg-tertiary"
+                >
+                  <MapPin className="w-3 h-3 text-cyber-cyan" />
+                  <span className="truncate">{location.path}</span>
+                </button>
+              ))}
+              {candidateParts.map(part => (
+                <button
+                  key={part.id}
+                  type="button"
+                  onClick={() => addItem(partToLabel(part))}
+                  className="w-full flex items-center gap-2 px-3 py-1.5 text-left text-sm font-mono text-text-secondary hover:bg-bg-tertiary"
+                >
+                  <Package className="w-3 h-3 text-cyber-green" />
+                  <span className="truncate">{part.name}</span>
+                  <span className="ml-auto text-xs text-text-muted">QTY {part.quantity || 0}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-text-secondary font-mono uppercase tracking-wider">
+            PREVIEW • {pages.length} PAGE{pages.length === 1 ? '' : 'S'}
+          </p>
+          <div className="bg-bg-tertiary p-3 rounded-sm flex justify-center">
+            {pages.length > 0 ? (
+              <img
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(pages[0])}`}
+                alt="First label sheet"
+                className="w-full max-w-sm shadow-cyber bg-white"
+              />
+            ) : (
+              <p className="py-24 text-text-muted font-mono text-sm">ADD ITEMS TO PREVIEW THE SHEET</p>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button
+              variant="outline"
+              onClick={() => downloadLabelSheets(pages)}
+              disabled={pages.length === 0}
+              icon={<Download className="w-4 h-4" />}
+            >
+              DOWNLOAD SVG
+            </Button>
+            <Button
+              onClick={handlePrint}
+              disabled={pages.length === 0}
+              icon={<Printer className="w-4 h-4" />}
+              glow
+            >
+              PRINT / SAVE PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -3,12 +3,15 @@ import { Outlet } from 'react-router-dom';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
 import { CommandPalette } from '@/components/common/CommandPalette';
+import { LabelPrintModal } from '@/components/labels/LabelPrintModal';
+import { ScannerModal } from '@/components/scanner/ScannerModal';
+import { PassiveDecoderModal } from '@/components/parts/PassiveDecoder';
 import { useUIStore } from '@/stores/uiStore';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { cn } from '@/lib/utils';
 
 export const AppShell: React.FC = () => {
-  const { sidebarOpen } = useUIStore();
+  const { sidebarOpen, labelPrinterOpen, scannerOpen, openScanner, decoderOpen } = useUIStore();
   const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
   const [addPartModalOpen, setAddPartModalOpen] = useState(false);
   const [addProjectModalOpen, setAddProjectModalOpen] = useState(false);
@@ -21,7 +24,8 @@ export const AppShell: React.FC = () => {
     () => setAddPartModalOpen(true),
     () => setAddProjectModalOpen(true),
     () => setAIIdentifierOpen(true),
-    () => setProjectGeneratorOpen(true)
+    () => setProjectGeneratorOpen(true),
+    openScanner
   );
 
   return (
@@ -66,6 +70,15 @@ export const AppShell: React.FC = () => {
         }}
       />
 
+      {/* Global Label Printer */}
+      {labelPrinterOpen && <LabelPrintModal />}
+
+      {/* Global Label Scanner */}
+      {scannerOpen && <ScannerModal />}
+
+      {/* Global Passive Decoder */}
+      {decoderOpen && <PassiveDecoderModal />}
+
       {/* Global modals would go here if needed */}
       {/* For now, let individual pages handle their own modals */}
     </div>
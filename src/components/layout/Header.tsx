@@ -1,10 +1,32 @@
 import React from 'react';
-import { Search, Menu, Bell, Settings, User, Command, Terminal, Zap } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Search, Menu, Bell, Settings, User, Command, Terminal, Zap, Timer } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useUIStore } from '@/stores/uiStore';
+import { useSessionStore, useSessionClock, formatElapsed } from '@/stores/sessionStore';
 import { Button } from '@/components/common/Button';
 import { Input } from '@/components/common/Input';
 
+// Running build session clock, visible from every page
+const ActiveSessionIndicator: React.FC = () => {
+  const active = useSessionStore(state => state.active);
+  const elapsed = useSessionClock(active);
+
+  if (!active) return null;
+
+  return (
+    <Link
+      to={`/projects/${active.projectId}`}
+      className="flex items-center space-x-2 px-3 py-1 bg-cyber-orange/20 border border-cyber-orange rounded-sm hover:shadow-cyber"
+      title={`Build session on ${active.projectName}`}
+    >
+      <Timer className={active.pausedAt ? 'w-4 h-4 text-text-muted' : 'w-4 h-4 text-cyber-orange animate-pulse'} />
+      <span className="text-cyber-orange font-mono text-xs">{formatElapsed(elapsed)}</span>
+      <span className="text-text-secondary font-mono text-xs uppercase hidden md:block max-w-[10rem] truncate">{active.projectName}</span>
+    </Link>
+  );
+};
+
 interface HeaderProps {
   onOpenCommandPalette: () => void;
 }
@@ -56,6 +78,8 @@ export const Header: React.FC<HeaderProps> = ({ onOpenCommandPalette }) => {
 
       {/* Right side actions */}
       <div className="flex items-center space-x-2">
+        <ActiveSessionIndicator />
+
         {/* Status Indicator */}
         <div className="flex items-center space-x-2 px-3 py-1 bg-cyber-green/20 border border-cyber-green rounded-sm status-online">
           <div className="w-2 h-2 bg-cyber-green rounded-full animate-pulse" />
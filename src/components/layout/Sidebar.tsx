@@ -3,9 +3,12 @@ import { NavLink } from 'react-router-dom';
 import { 
   Home, 
   Package, 
+  MapPin,
   Brain, 
   Wrench, 
+  Recycle,
   BarChart3, 
+  DollarSign,
   Settings,
   ChevronLeft,
   Zap
@@ -16,9 +19,12 @@ import { cn } from '@/lib/utils';
 const navigation = [
   { name: 'Dashboard', href: '/', icon: Home },
   { name: 'Parts Inventory', href: '/parts', icon: Package },
+  { name: 'Locations', href: '/locations', icon: MapPin },
   { name: 'AI Assistant', href: '/chat', icon: Brain },
   { name: 'Projects', href: '/projects', icon: Wrench },
+  { name: 'Teardowns', href: '/teardowns', icon: Recycle },
   { name: 'Analytics', href: '/analytics', icon: BarChart3 },
+  { name: 'Valuation', href: '/valuation', icon: DollarSign },
   { name: 'Settings', href: '/settings', icon: Settings },
 ];
 
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { MapPin, Plus, X } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { useLocations, useCreateLocation, LOCATION_KINDS, LocationKind } from '@/hooks/api/useLocations';
+
+interface LocationPickerProps {
+  value: string | null;
+  onChange: (locationId: string | null, path: string | null) => void;
+  label?: string;
+  legacyText?: string; // free-text location that never matched the tree
+  disabled?: boolean;
+}
+
+const selectClasses = 'cyber-input block w-full';
+
+export const LocationPicker: React.FC<LocationPickerProps> = ({
+  value,
+  onChange,
+  label = 'LOCATION',
+  legacyText,
+  disabled = false
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<LocationKind>('bin');
+
+  const { data, isLoading } = useLocations();
+  const createLocation = useCreateLocation();
+  const locations = data?.locations || [];
+  const selected = locations.find(location => location.id === value);
+
+  const handleSelect = (id: string) => {
+    const location = locations.find(l => l.id === id);
+    onChange(location?.id || null, location?.path || null);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    try {
+      const result = await createLocation.mutateAsync({
+        name: newName.trim(),
+        parent_id: value,
+        kind: newKind
+      });
+      const path = selected ? `${selected.path} / ${result.location.name}` : result.location.name;
+      onChange(result.location.id, path);
+      setNewName('');
+      setIsCreating(false);
+    } catch {
+      // Error handling is done in the hooks
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider">
+        {label}
+      </label>
+
+      <div className="flex gap-2">
+        <select
+          value={value || ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled || isLoading}
+          className={selectClasses}
+        >
+          <option value="">{isLoading ? 'Loading locations...' : '— No location —'}</option>
+          {locations.map(location => (
+            <option key={location.id} value={location.id}>
+              {'\u00A0\u00A0'.repeat(location.depth)}{location.name} ({location.kind})
+            </option>
+          ))}
+        </select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setIsCreating(!isCreating)}
+          disabled={disabled}
+          icon={isCreating ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+          title={isCreating ? 'Cancel' : selected ? `New location inside ${selected.name}` : 'New top-level location'}
+        />
+      </div>
+
+      {selected && (
+        <p className="flex items-center gap-1 text-xs text-text-muted font-mono">
+          <MapPin className="w-3 h-3" />
+          {selected.path}
+        </p>
+      )}
+
+      {!value && legacyText && (
+        <p className="text-xs text-cyber-orange font-mono">
+          Unfiled location "{legacyText}" - pick a location to file it
+        </p>
+      )}
+
+      {isCreating && (
+        <div className="flex gap-2 pt-1">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            placeholder={selected ? `Inside ${selected.name}...` : 'e.g., Garage'}
+            className={selectClasses}
+            autoFocus
+          />
+          <select
+            value={newKind}
+            onChange={(e) => setNewKind(e.target.value as LocationKind)}
+            className={`${selectClasses} w-32`}
+          >
+            {LOCATION_KINDS.map(kind => (
+              <option key={kind} value={kind}>{kind}</option>
+            ))}
+          </select>
+          <Button
+            type="button"
+            size="sm"
+            onClick={handleCreate}
+            loading={createLocation.isPending}
+            disabled={!newName.trim()}
+          >
+            ADD
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
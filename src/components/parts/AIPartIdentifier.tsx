@@ -1,14 +1,27 @@
 import React, { useState } from 'react';
-import { Camera, Brain, Zap, Package, AlertTriangle, ExternalLink, Loader2, Download, Box, Upload } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Camera, Brain, Zap, Package, AlertTriangle, ExternalLink, Loader2, Download, Box, Upload, ThumbsDown, ScanText, Plus } from 'lucide-react';
 import { Button } from '@/components/common/Button';
 import { ImageUpload } from '@/components/common/ImageUpload';
 import { Modal } from '@/components/common/Modal';
 import { OptimizedImage, useImagePlaceholder } from '@/components/common/OptimizedImage';
-import { useCreatePart } from '@/hooks/api/useParts';
+import { useCreatePart, useMarkingMatches } from '@/hooks/api/useParts';
+import { useCreateStockMovement } from '@/hooks/api/useStockMovements';
+import { useResolveIdentification, IdentificationCandidate } from '@/hooks/api/useIdentifications';
 import { useToast } from '@/hooks/useToast';
 import { api } from '@/lib/api';
+import { readMarkings, parseMarkings, isOcrAvailable } from '@/lib/ocr';
+import { formatSpecValue } from '@/lib/utils';
 import { supabase } from '@/lib/supabase';
 
+// What one of the uploaded photos showed the AI
+interface ImageEvidence {
+  image: number;
+  url: string | null;
+  angle: string | null;
+  evidence: string;
+}
+
 interface IdentificationResult {
   name: string;
   description: string;
@@ -23,14 +36,20 @@ interface IdentificationResult {
   model_formats: string[];
   typical_quantity: number;
   estimated_value?: number;
+  current_price_usd?: number | null;
+  purchase_urls?: string[];
   tags: string[];
   safety_warnings: string[];
   common_uses: string[];
   compatible_parts: string[];
   confidence: number;
+  image_evidence?: ImageEvidence[];
+  candidates?: IdentificationCandidate[];
   ai_metadata?: any;
 }
 
+const IMAGE_ANGLES = ['top', 'bottom', 'markings', 'side', 'overview', 'in circuit'];
+
 interface AIPartIdentifierProps {
   isOpen: boolean;
   onClose: () => void;
@@ -44,20 +63,55 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
 }) => {
   const [uploadedImages, setUploadedImages] = useState<string[]>([]);
   const [uploadedImageUrls, setUploadedImageUrls] = useState<string[]>([]);
+  // Angle shown by each photo, by index; defaults follow the top / bottom / markings tip
+  const [imageAngles, setImageAngles] = useState<string[]>(IMAGE_ANGLES.slice(0, 3));
   const [additionalContext, setAdditionalContext] = useState('');
   const [isIdentifying, setIsIdentifying] = useState(false);
   const [uploadingImages, setUploadingImages] = useState(false);
   const [identificationResult, setIdentificationResult] = useState<IdentificationResult | null>(null);
   const [identificationError, setIdentificationError] = useState<string | null>(null);
-
+  // Stored attempt the user's pick or rejection is recorded against
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [chosenIndex, setChosenIndex] = useState(0);
+  // Text read off the photos on-device; editable, and checked against inventory on blur
+  const [markingsText, setMarkingsText] = useState('');
+  const [checkedMarkings, setCheckedMarkings] = useState<string[]>([]);
+  const [readingMarkings, setReadingMarkings] = useState(false);
+
+  const navigate = useNavigate();
   const createPart = useCreatePart();
+  const createStockMovement = useCreateStockMovement();
+  const resolveIdentification = useResolveIdentification();
+  const { data: markingMatches = [] } = useMarkingMatches(checkedMarkings);
   const { success, error, warning } = useToast();
 
+  const onHand = markingMatches.reduce((sum, part) => sum + (part.quantity || 0), 0);
+
+  const readPhotoMarkings = async (imageDataUrls: string[]) => {
+    if (!isOcrAvailable()) return;
+
+    setReadingMarkings(true);
+    try {
+      const markings = await readMarkings(imageDataUrls);
+      console.log('🔤 Markings read from photos:', markings);
+      // Keep anything the user typed while OCR was running
+      setMarkingsText(prev => prev.trim() || markings.join(' '));
+      setCheckedMarkings(prev => (prev.length > 0 ? prev : markings));
+    } catch (ocrError) {
+      console.warn('⚠️ Marking OCR failed, falling back to manual entry:', ocrError);
+    } finally {
+      setReadingMarkings(false);
+    }
+  };
+
   const handleImagesUploaded = async (imageDataUrls: string[]) => {
     console.log('📸 Images uploaded to component:', imageDataUrls.length);
     setUploadedImages(imageDataUrls);
     setIdentificationResult(null);
     setIdentificationError(null);
+    setMarkingsText('');
+    setCheckedMarkings([]);
+    readPhotoMarkings(imageDataUrls);
 
     // Upload images to Supabase Storage to get public URLs
     setUploadingImages(true);
@@ -131,21 +185,28 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
     setIsIdentifying(true);
     setIdentificationResult(null);
     setIdentificationError(null);
+    setAttemptId(null);
+    setChosenIndex(0);
 
     try {
       console.log('🔍 Starting AI identification with images:', uploadedImageUrls);
 
-      // Use the first uploaded image for identification
-      const primaryImageUrl = uploadedImageUrls[0];
-      
+      const markings = parseMarkings(markingsText);
+      const description = [
+        markings.length > 0 && `Markings read from the part: ${markings.join(', ')}`,
+        additionalContext
+      ].filter(Boolean).join('. ');
+
+      // Every photo goes in one request, labelled with the angle it shows
       const response = await api.aiResearchPart({
-        description: additionalContext || 'Identify this electronic component from the image',
+        description: description || 'Identify this electronic component from the images',
         mode: 'research',
-        imageUrl: primaryImageUrl,
+        images: uploadedImageUrls.map((url, index) => ({ url, angle: imageAngles[index] })),
         context: {
           has_image: true,
           image_count: uploadedImageUrls.length,
           additional_context: additionalContext,
+          ocr_markings: markings,
           all_image_urls: uploadedImageUrls
         }
       });
@@ -162,6 +223,7 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
         }
       } else if (response.research) {
         setIdentificationResult(response.research);
+        setAttemptId(response.attempt_id || null);
         success('Part identified!', `AI identified this as: ${response.research.name}`);
       } else {
         throw new Error('Invalid response format from AI');
@@ -184,14 +246,39 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
     }
   };
 
+  const candidates = identificationResult?.candidates || [];
+  const chosen: IdentificationCandidate | undefined = candidates[chosenIndex];
+  // A different pick than the AI's top answer replaces its identity fields
+  const identity = identificationResult && chosen && chosenIndex > 0
+    ? {
+        name: chosen.name,
+        category: chosen.category || identificationResult.category,
+        manufacturer: chosen.manufacturer || undefined,
+        part_number: chosen.part_number || undefined,
+        confidence: chosen.confidence
+      }
+    : identificationResult;
+
+  const handleRejectAll = async () => {
+    if (attemptId) {
+      await resolveIdentification.mutateAsync({
+        id: attemptId,
+        outcome: { outcome: 'rejected', notes: additionalContext || null }
+      }).catch(() => undefined);
+    }
+    setIdentificationResult(null);
+    setAttemptId(null);
+    warning('Marked as not identified', 'Try a markings close-up or add what you know to the context');
+  };
+
   const handleAddToInventory = async () => {
-    if (!identificationResult) return;
+    if (!identificationResult || !identity) return;
 
     try {
-      await createPart.mutateAsync({
-        name: identificationResult.name,
+      const data = await createPart.mutateAsync({
+        name: identity.name,
         description: identificationResult.description,
-        category: identificationResult.category,
+        category: identity.category,
         subcategory: identificationResult.subcategory,
         quantity: identificationResult.typical_quantity || 1,
         specs: identificationResult.specifications,
@@ -201,20 +288,34 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
         value_estimate: identificationResult.estimated_value,
         ai_identified: true,
         metadata: {
-          manufacturer: identificationResult.manufacturer,
-          part_number: identificationResult.part_number,
-          confidence: identificationResult.confidence,
+          manufacturer: identity.manufacturer,
+          part_number: identity.part_number,
+          current_price_usd: identificationResult.current_price_usd,
+          purchase_urls: identificationResult.purchase_urls || [],
+          confidence: identity.confidence,
           safety_warnings: identificationResult.safety_warnings,
           common_uses: identificationResult.common_uses,
           compatible_parts: identificationResult.compatible_parts,
           identification_images: uploadedImageUrls,
+          identification_angles: uploadedImageUrls.map((_, index) => imageAngles[index] || null),
+          identification_evidence: identificationResult.image_evidence || [],
           identification_context: additionalContext,
+          identification_markings: parseMarkings(markingsText),
           model_3d_urls: identificationResult.model_3d_urls,
           model_formats: identificationResult.model_formats,
-          ai_metadata: identificationResult.ai_metadata
+          ai_metadata: identificationResult.ai_metadata,
+          identification_attempt_id: attemptId,
+          identification_candidate_index: candidates.length > 0 ? chosenIndex : null
         }
       });
 
+      if (attemptId) {
+        await resolveIdentification.mutateAsync({
+          id: attemptId,
+          outcome: { outcome: 'confirmed', chosen_index: chosenIndex, part_id: data.part?.id || null }
+        }).catch(() => undefined);
+      }
+
       onPartAdded?.();
       handleClose();
       
@@ -226,9 +327,14 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
   const handleClose = () => {
     setUploadedImages([]);
     setUploadedImageUrls([]);
+    setImageAngles(IMAGE_ANGLES.slice(0, 3));
     setAdditionalContext('');
     setIdentificationResult(null);
     setIdentificationError(null);
+    setAttemptId(null);
+    setChosenIndex(0);
+    setMarkingsText('');
+    setCheckedMarkings([]);
     onClose();
   };
 
@@ -263,6 +369,32 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
           <p className="text-sm text-garage-400 mt-2">
             💡 Tip: Take clear photos from multiple angles, including any markings or part numbers
           </p>
+
+          {/* What each photo shows, sent along so the AI can say which one gave it away */}
+          {uploadedImages.length > 0 && (
+            <div className="grid grid-cols-3 gap-2 mt-3">
+              {uploadedImages.map((dataUrl, index) => (
+                <div key={index} className="space-y-1">
+                  <img src={dataUrl} alt={`Photo ${index + 1}`} className="w-full h-20 object-cover rounded-sm" />
+                  <select
+                    value={imageAngles[index] || ''}
+                    onChange={(e) => setImageAngles(prev => {
+                      const next = [...prev];
+                      next[index] = e.target.value;
+                      return next;
+                    })}
+                    disabled={isIdentifying}
+                    className="cyber-input w-full text-xs py-1"
+                  >
+                    <option value="">Angle: unspecified</option>
+                    {IMAGE_ANGLES.map(angle => (
+                      <option key={angle} value={angle}>{angle}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
           
           {uploadingImages && (
             <div className="mt-2 p-2 bg-cyber-cyan/20 border border-cyber-cyan rounded-sm">
@@ -274,6 +406,75 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
           )}
         </div>
 
+        {/* Markings read on-device, corrected by the user before any AI call */}
+        {uploadedImages.length > 0 && (
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-garage-300 mb-2">
+              <ScanText className="w-4 h-4" />
+              Markings
+              {readingMarkings && (
+                <span className="inline-flex items-center gap-1 text-xs text-garage-500">
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  reading photos...
+                </span>
+              )}
+            </label>
+            <input
+              type="text"
+              value={markingsText}
+              onChange={(e) => setMarkingsText(e.target.value)}
+              onBlur={() => setCheckedMarkings(parseMarkings(markingsText))}
+              placeholder="e.g. NE555P, 78L05"
+              disabled={isIdentifying}
+              className="block w-full px-3 py-2 bg-garage-800 border border-garage-600 rounded-md text-garage-100 font-mono placeholder-garage-400 focus:outline-none focus:ring-2 focus:ring-electric-500 focus:border-electric-500"
+            />
+            <p className="text-sm text-garage-500 mt-1">
+              Text read from the photos. Fix any misread characters; it's sent to the AI as context
+            </p>
+
+            {markingMatches.length > 0 && (
+              <div className="mt-3 p-3 bg-electric-600/10 border border-electric-600 rounded-lg">
+                <p className="text-garage-100 font-medium">
+                  You already have {onHand} of these
+                </p>
+                <ul className="mt-2 space-y-2">
+                  {markingMatches.map(part => (
+                    <li key={part.id} className="flex items-center justify-between gap-2">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          handleClose();
+                          navigate(`/parts/${part.id}`);
+                        }}
+                        className="text-left text-sm text-electric-200 hover:underline min-w-0 truncate"
+                      >
+                        {part.name} • {part.quantity} on hand{part.location && ` • ${part.location}`}
+                      </button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => createStockMovement.mutate({
+                          part_id: part.id,
+                          delta: 1,
+                          reason: 'salvaged',
+                          note: 'Matched by markings in the AI identifier'
+                        })}
+                        loading={createStockMovement.isPending}
+                        icon={<Plus className="w-3 h-3" />}
+                      >
+                        Add 1
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-garage-400 mt-2">
+                  No need to identify it again; add it to stock, or run the AI anyway if it's something else
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Additional Context */}
         <div>
           <label className="block text-sm font-medium text-garage-300 mb-2">
@@ -329,31 +530,89 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
                 <div className="w-20 h-2 bg-garage-700 rounded-full overflow-hidden">
                   <div 
                     className="h-full bg-electric-500 rounded-full transition-all duration-500"
-                    style={{ width: `${identificationResult.confidence * 100}%` }}
+                    style={{ width: `${(identity?.confidence ?? 0) * 100}%` }}
                   />
                 </div>
                 <span className="text-sm text-garage-300">
-                  {Math.round(identificationResult.confidence * 100)}%
+                  {Math.round((identity?.confidence ?? 0) * 100)}%
                 </span>
               </div>
             </div>
 
+            {/* Candidates: pick the right one or reject them all */}
+            {candidates.length > 1 && (
+              <div className="bg-garage-800 border border-garage-700 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <h4 className="font-medium text-garage-200">Possible Matches</h4>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleRejectAll}
+                    loading={resolveIdentification.isPending}
+                    icon={<ThumbsDown className="w-3 h-3" />}
+                  >
+                    None of these
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {candidates.map((candidate, index) => (
+                    <label
+                      key={index}
+                      className={`flex items-start gap-3 p-3 rounded border cursor-pointer ${
+                        index === chosenIndex ? 'border-electric-500 bg-electric-600/10' : 'border-garage-600 hover:border-garage-500'
+                      }`}
+                    >
+                      <input
+                        type="radio"
+                        name="identification-candidate"
+                        checked={index === chosenIndex}
+                        onChange={() => setChosenIndex(index)}
+                        className="mt-1"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-garage-100">
+                            {candidate.name}
+                            {candidate.manufacturer && <span className="text-garage-400"> • {candidate.manufacturer}</span>}
+                          </span>
+                          <span className="text-sm text-garage-300 flex-shrink-0">{Math.round(candidate.confidence * 100)}%</span>
+                        </div>
+                        {candidate.reasoning && <p className="text-sm text-garage-400 mt-1">{candidate.reasoning}</p>}
+                        {candidate.markings_read.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {candidate.markings_read.map((marking, markingIndex) => (
+                              <span key={markingIndex} className="px-1.5 py-0.5 bg-garage-700 text-garage-200 text-xs rounded font-mono">
+                                {marking}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Part Information */}
             <div className="bg-garage-800 border border-garage-700 rounded-lg p-4">
               <div className="flex items-start justify-between mb-4">
                 <div>
                   <h4 className="text-lg font-semibold text-garage-100">
-                    {identificationResult.name}
+                    {identity?.name}
                   </h4>
                   <p className="text-garage-400">
-                    {identificationResult.category}
-                    {identificationResult.manufacturer && ` • ${identificationResult.manufacturer}`}
+                    {identity?.category}
+                    {identity?.manufacturer && ` • ${identity.manufacturer}`}
                   </p>
-                  {identificationResult.part_number && (
+                  {identity?.part_number && (
                     <p className="text-sm text-garage-500">
-                      Part #: {identificationResult.part_number}
+                      Part #: {identity.part_number}
                     </p>
                   )}
+                  {chosenIndex > 0 && (
+                    <p className="text-xs text-garage-500 mt-1">Details below were researched for the AI's top match</p>
+                  )}
                 </div>
                 
                 {identificationResult.estimated_value && (
@@ -368,6 +627,30 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
 
               <p className="text-garage-300 mb-4">{identificationResult.description}</p>
 
+              {/* Which photo gave which clue */}
+              {identificationResult.image_evidence && identificationResult.image_evidence.length > 0 && (
+                <div className="mb-4">
+                  <h5 className="font-medium text-garage-200 mb-2">Evidence</h5>
+                  <ul className="space-y-2">
+                    {identificationResult.image_evidence.map((entry, index) => (
+                      <li key={index} className="flex items-center gap-3 bg-garage-700 p-2 rounded">
+                        {entry.url ? (
+                          <img src={entry.url} alt={`Photo ${entry.image}`} className="w-10 h-10 object-cover rounded flex-shrink-0" />
+                        ) : (
+                          <div className="w-10 h-10 bg-garage-600 rounded flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="text-xs text-garage-400 uppercase">
+                            {entry.image ? `Photo ${entry.image}` : 'General'}{entry.angle && ` • ${entry.angle}`}
+                          </div>
+                          <div className="text-sm text-garage-200">{entry.evidence}</div>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Images with proper error handling */}
               {identificationResult.image_urls.length > 0 && (
                 <div className="mb-4">
@@ -436,7 +719,7 @@ export const AIPartIdentifier: React.FC<AIPartIdentifierProps> = ({
                     {Object.entries(identificationResult.specifications).map(([key, value]) => (
                       <div key={key} className="bg-garage-700 p-2 rounded">
                         <div className="text-xs text-garage-400 uppercase">{key}</div>
-                        <div className="text-sm text-garage-200">{value}</div>
+                        <div className="text-sm text-garage-200">{formatSpecValue(value)}</div>
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { useParts } from '@/hooks/api/useParts';
+import {
+  useCategoryThresholds,
+  useSaveCategoryThreshold,
+  useDeleteCategoryThreshold
+} from '@/hooks/api/useLowStock';
+
+export const CategoryThresholds: React.FC = () => {
+  const [category, setCategory] = useState('');
+  const [minQuantity, setMinQuantity] = useState('5');
+
+  const { data, isLoading } = useCategoryThresholds();
+  const { data: partsData } = useParts();
+  const saveThreshold = useSaveCategoryThreshold();
+  const deleteThreshold = useDeleteCategoryThreshold();
+
+  const thresholds = data?.thresholds || [];
+  const parts = (partsData as { parts?: { category?: string | null }[] } | undefined)?.parts || [];
+  const categories = [...new Set(parts.map(p => p.category).filter((c): c is string => !!c))].sort();
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(minQuantity);
+    if (!category.trim() || Number.isNaN(value) || value < 0) return;
+
+    try {
+      await saveThreshold.mutateAsync({ category: category.trim(), min_quantity: value });
+      setCategory('');
+    } catch {
+      // Error handled by hook
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-muted font-mono">
+        Parts in these categories trigger a low stock alert when they drop below the minimum.
+        A minimum set on the part itself always wins.
+      </p>
+
+      <form onSubmit={handleSave} className="flex flex-wrap items-end gap-2">
+        <input
+          type="text"
+          list="threshold-categories"
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          placeholder="Category (e.g. Resistors)"
+          className="cyber-input flex-1 min-w-[10rem]"
+        />
+        <datalist id="threshold-categories">
+          {categories.map(c => <option key={c} value={c} />)}
+        </datalist>
+        <input
+          type="number"
+          min="0"
+          value={minQuantity}
+          onChange={(e) => setMinQuantity(e.target.value)}
+          className="cyber-input w-24"
+          title="Minimum quantity"
+        />
+        <Button type="submit" size="sm" loading={saveThreshold.isPending} icon={<Plus className="w-3 h-3" />}>
+          SAVE
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-text-muted font-mono text-sm">LOADING THRESHOLDS...</p>
+      ) : thresholds.length === 0 ? (
+        <p className="text-text-muted font-mono text-sm">NO CATEGORY THRESHOLDS SET</p>
+      ) : (
+        <div className="divide-y divide-text-muted/20 font-mono text-sm">
+          {thresholds.map(threshold => (
+            <div key={threshold.id} className="flex items-center justify-between py-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setCategory(threshold.category);
+                  setMinQuantity(String(threshold.min_quantity));
+                }}
+                className="text-text-primary hover:text-cyber-cyan text-left"
+                title="Edit"
+              >
+                {threshold.category}
+              </button>
+              <div className="flex items-center space-x-3">
+                <span className="text-cyber-cyan">MIN {threshold.min_quantity}</span>
+                <button
+                  type="button"
+                  onClick={() => deleteThreshold.mutate(threshold.id)}
+                  className="text-text-muted hover:text-cyber-magenta"
+                  title="Remove"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
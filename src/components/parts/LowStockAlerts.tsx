@@ -0,0 +1,81 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, Download, ExternalLink } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { useLowStock, useExportShoppingList } from '@/hooks/api/useLowStock';
+import { cn } from '@/lib/utils';
+
+const MAX_ROWS = 8;
+
+export const LowStockAlerts: React.FC = () => {
+  const { data, isLoading } = useLowStock();
+  const exportList = useExportShoppingList();
+  const items = data?.items || [];
+
+  // Nothing to restock, nothing to show
+  if (isLoading || items.length === 0) return null;
+
+  return (
+    <div className="cyber-card border-cyber-orange/50">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-text-primary font-mono uppercase tracking-wider flex items-center">
+            <AlertTriangle className="w-5 h-5 mr-2 text-cyber-orange" />
+            LOW STOCK
+          </h2>
+          <p className="text-sm text-text-muted font-mono mt-1">
+            {data?.total} parts under minimum
+            {data?.estimated_total ? ` • ~$${data.estimated_total.toFixed(2)} to restock` : ''}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => exportList.mutate()}
+          loading={exportList.isPending}
+          icon={<Download className="w-4 h-4" />}
+        >
+          SHOPPING LIST
+        </Button>
+      </div>
+
+      <div className="divide-y divide-text-muted/20">
+        {items.slice(0, MAX_ROWS).map(item => (
+          <div key={item.part_id} className="flex items-center justify-between py-2 font-mono text-sm">
+            <div className="min-w-0">
+              <Link to={`/parts/${item.part_id}`} className="text-text-primary hover:text-cyber-cyan truncate block">
+                {item.name}
+              </Link>
+              <p className="text-xs text-text-muted">
+                {item.category || 'Uncategorized'}
+                {item.threshold_source === 'category' && ' • category minimum'}
+              </p>
+            </div>
+            <div className="flex items-center space-x-3 flex-shrink-0">
+              {item.purchase_urls[0] && (
+                <a
+                  href={item.purchase_urls[0]}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-text-muted hover:text-cyber-cyan"
+                  title="Buy"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+              )}
+              <span className={cn(item.quantity === 0 ? 'text-cyber-magenta' : 'text-cyber-orange')}>
+                {item.quantity}/{item.min_quantity}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {items.length > MAX_ROWS && (
+        <p className="text-xs text-text-muted font-mono mt-2">
+          +{items.length - MAX_ROWS} MORE IN THE SHOPPING LIST
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
 import React from 'react';
-import { Package, Edit, Trash2, MapPin, Tag, ExternalLink, Copy } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Package, Edit, Trash2, MapPin, Tag, ExternalLink, Copy, QrCode, Eye } from 'lucide-react';
 import { Button } from '@/components/common/Button';
 import { ContextMenu } from '@/components/common/ContextMenu';
 import { OptimizedImage, useImagePlaceholder } from '@/components/common/OptimizedImage';
+import { HighlightedText } from '@/components/common/HighlightedText';
 import { useToast } from '@/hooks/useToast';
+import { useUIStore } from '@/stores/uiStore';
+import { partToLabel } from '@/lib/labels';
 
 interface PartCardProps {
   part: any;
@@ -13,6 +17,8 @@ interface PartCardProps {
 
 export const PartCard: React.FC<PartCardProps> = ({ part, onEdit, onDelete }) => {
   const { success } = useToast();
+  const { openLabelPrinter } = useUIStore();
+  const navigate = useNavigate();
   
   // Generate placeholder image for this part
   const placeholder = useImagePlaceholder(part.name, 300, 300);
@@ -34,6 +40,12 @@ export const PartCard: React.FC<PartCardProps> = ({ part, onEdit, onDelete }) =>
   };
 
   const contextMenuItems = [
+    {
+      id: 'view',
+      label: 'View Details',
+      icon: Eye,
+      onClick: () => navigate(`/parts/${part.id}`)
+    },
     {
       id: 'edit',
       label: 'Edit Part',
@@ -52,6 +64,12 @@ export const PartCard: React.FC<PartCardProps> = ({ part, onEdit, onDelete }) =>
       icon: Copy,
       onClick: handleCopyId
     },
+    {
+      id: 'print-label',
+      label: 'Print Label',
+      icon: QrCode,
+      onClick: () => openLabelPrinter([partToLabel(part)])
+    },
     ...(part.datasheet_url ? [{
       id: 'datasheet',
       label: 'View Datasheet',
@@ -97,13 +115,19 @@ export const PartCard: React.FC<PartCardProps> = ({ part, onEdit, onDelete }) =>
 
         {/* Part Info */}
         <div className="space-y-2">
-          <h3 className="font-medium text-text-primary font-mono line-clamp-2">{part.name}</h3>
+          <h3 className="font-medium text-text-primary font-mono line-clamp-2">
+            <Link to={`/parts/${part.id}`} className="hover:text-cyber-cyan">{part.name}</Link>
+          </h3>
           
           {part.category && (
             <p className="text-sm text-text-muted font-mono">{part.category}</p>
           )}
 
-          {part.description && (
+          {part.search_highlight ? (
+            <p className="text-sm text-text-secondary line-clamp-2">
+              <HighlightedText text={part.search_highlight} />
+            </p>
+          ) : part.description && (
             <p className="text-sm text-text-secondary line-clamp-2">{part.description}</p>
           )}
 
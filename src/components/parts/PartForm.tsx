@@ -2,29 +2,48 @@ import React, { useState } from 'react';
 import { Button } from '@/components/common/Button';
 import { Input } from '@/components/common/Input';
 import { Modal } from '@/components/common/Modal';
+import { LocationPicker } from '@/components/locations/LocationPicker';
 import { useCreatePart, useUpdatePart } from '@/hooks/api/useParts';
 
+// Pre-filled values for a new part, e.g. one harvested during a teardown
+export interface PartFormDefaults {
+  name?: string;
+  category?: string | null;
+  quantity?: number;
+  value_estimate?: number | null;
+  source?: string;
+  original_device?: string;
+  teardown_id?: string;
+  notes?: string | null;
+}
+
 interface PartFormProps {
   isOpen: boolean;
   onClose: () => void;
   part?: any; // For editing existing parts
+  defaults?: PartFormDefaults;
+  onSaved?: (part: { id: string; name: string }) => void;
 }
 
-export const PartForm: React.FC<PartFormProps> = ({ isOpen, onClose, part }) => {
+export const PartForm: React.FC<PartFormProps> = ({ isOpen, onClose, part, defaults, onSaved }) => {
+  const initial = part || defaults;
   const [formData, setFormData] = useState({
-    name: part?.name || '',
+    name: initial?.name || '',
     description: part?.description || '',
-    category: part?.category || '',
+    category: initial?.category || '',
     subcategory: part?.subcategory || '',
-    quantity: part?.quantity || 1,
+    quantity: initial?.quantity ?? 1,
+    min_quantity: part?.min_quantity ?? '',
     location: part?.location || '',
-    source: part?.source || '',
+    location_id: part?.location_id || null,
+    source: initial?.source || '',
+    original_device: initial?.original_device || '',
     tags: part?.tags?.join(', ') || '',
     pinout_diagram: part?.pinout_diagram || '',
     datasheet_url: part?.datasheet_url || '',
-    value_estimate: part?.value_estimate || '',
+    value_estimate: initial?.value_estimate || '',
     is_available: part?.is_available !== undefined ? part.is_available : true,
-    notes: part?.notes || ''
+    notes: initial?.notes || ''
   });
 
   const createPart = useCreatePart();
@@ -36,19 +55,23 @@ export const PartForm: React.FC<PartFormProps> = ({ isOpen, onClose, part }) =>
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
+    // Start from the stored part so fields this form doesn't show (specs, images, metadata) survive the update
     const partData = {
+      ...(part || { teardown_id: defaults?.teardown_id }),
       ...formData,
-      quantity: parseInt(formData.quantity.toString()) || 1,
+      // Lets the server reject the edit if stock moved while the form was open
+      expected_quantity: part?.quantity,
+      quantity: Math.max(parseInt(formData.quantity.toString()) || 0, 0),
+      min_quantity: formData.min_quantity === '' ? null : Math.max(parseInt(formData.min_quantity.toString()) || 0, 0),
       value_estimate: formData.value_estimate ? parseFloat(formData.value_estimate.toString()) : null,
       tags: formData.tags ? formData.tags.split(',').map(tag => tag.trim()).filter(Boolean) : []
     };
 
     try {
-      if (isEditing) {
-        await updatePart.mutateAsync({ id: part.id, updates: partData });
-      } else {
-        await createPart.mutateAsync(partData);
-      }
+      const saved = isEditing
+        ? await updatePart.mutateAsync({ id: part.id, updates: partData })
+        : await createPart.mutateAsync(partData);
+      onSaved?.(saved.part);
       onClose();
     } catch (error) {
       // Error handling is done in the hooks
@@ -98,12 +121,24 @@ export const PartForm: React.FC<PartFormProps> = ({ isOpen, onClose, part }) =>
             onChange={(e) => handleChange('quantity', e.target.value)}
             min="0"
           />
-          
+
           <Input
-            label="LOCATION"
-            value={formData.location}
-            onChange={(e) => handleChange('location', e.target.value)}
-            placeholder="e.g., Drawer A-1"
+            label="MIN QUANTITY"
+            type="number"
+            value={formData.min_quantity}
+            onChange={(e) => handleChange('min_quantity', e.target.value)}
+            min="0"
+            placeholder="Category default"
+            helperText="Warn and add to the shopping list below this"
+          />
+          
+          <LocationPicker
+            value={formData.location_id}
+            onChange={(locationId, path) => {
+              handleChange('location_id', locationId);
+              handleChange('location', path || '');
+            }}
+            legacyText={part?.location_id ? undefined : part?.location}
           />
           
           <Input
@@ -112,6 +147,14 @@ export const PartForm: React.FC<PartFormProps> = ({ isOpen, onClose, part }) =>
             onChange={(e) => handleChange('source', e.target.value)}
             placeholder="e.g., Old printer"
           />
+
+          <Input
+            label="ORIGINAL DEVICE"
+            value={formData.original_device}
+            onChange={(e) => handleChange('original_device', e.target.value)}
+            placeholder="e.g., HP LaserJet 1020"
+            helperText={defaults?.teardown_id && !isEditing ? 'Harvested in this teardown' : undefined}
+          />
           
           <Input
             label="VALUE ESTIMATE ($)"
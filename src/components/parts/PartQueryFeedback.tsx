@@ -0,0 +1,59 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+// Mirrors QueryParseError in netlify/functions/utils/query-language.ts
+export interface PartQueryError {
+  message: string;
+  token: string;
+  start: number;
+  end: number;
+}
+
+interface PartQueryFeedbackProps {
+  query: string;
+  errors: PartQueryError[];
+}
+
+// Echoes the search query with invalid tokens underlined, plus the parser's messages
+export const PartQueryFeedback: React.FC<PartQueryFeedbackProps> = ({ query, errors }) => {
+  if (!query || errors.length === 0) return null;
+
+  const sorted = [...errors].sort((a, b) => a.start - b.start);
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+
+  sorted.forEach((err, index) => {
+    if (err.start < cursor) return;
+    if (err.start > cursor) {
+      segments.push(<span key={`text-${index}`}>{query.slice(cursor, err.start)}</span>);
+    }
+    segments.push(
+      <span
+        key={`error-${index}`}
+        title={err.message}
+        className="underline decoration-wavy decoration-cyber-orange underline-offset-4 text-cyber-orange"
+      >
+        {query.slice(err.start, err.end)}
+      </span>
+    );
+    cursor = err.end;
+  });
+
+  if (cursor < query.length) {
+    segments.push(<span key="text-end">{query.slice(cursor)}</span>);
+  }
+
+  return (
+    <div className="mt-2 p-2 bg-bg-tertiary border border-cyber-orange/40 rounded-sm font-mono text-xs space-y-1">
+      <div className="text-text-secondary whitespace-pre-wrap break-all">{segments}</div>
+      <ul className="space-y-0.5">
+        {sorted.map((err, index) => (
+          <li key={index} className="flex items-start gap-1 text-cyber-orange">
+            <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            <span>{err.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import { useParts } from '@/hooks/api/useParts';
+
+export interface PartOption {
+  id: string;
+  name: string;
+  quantity: number;
+  reserved_quantity?: number;
+}
+
+// Type-ahead over the inventory; excludes parts already picked
+export const PartSearch: React.FC<{
+  placeholder: string;
+  exclude: string[];
+  onSelect: (part: PartOption) => void;
+}> = ({ placeholder, exclude, onSelect }) => {
+  const [term, setTerm] = useState('');
+  const { data } = useParts({ search: term.trim(), limit: 8 });
+  const results = ((data as { parts?: PartOption[] } | undefined)?.parts || []).filter(p => !exclude.includes(p.id));
+
+  return (
+    <div className="relative flex-1 min-w-[12rem]">
+      <Search className="w-4 h-4 text-text-muted absolute left-3 top-1/2 -translate-y-1/2" />
+      <input
+        type="text"
+        value={term}
+        onChange={(e) => setTerm(e.target.value)}
+        placeholder={placeholder}
+        className="cyber-input w-full pl-9"
+      />
+      {term.trim().length >= 2 && (
+        <div className="absolute z-10 mt-1 w-full bg-bg-secondary border border-cyber-cyan/30 rounded-sm shadow-cyber max-h-60 overflow-y-auto">
+          {results.length === 0 ? (
+            <p className="px-3 py-2 text-xs text-text-muted font-mono">NO MATCHING PARTS</p>
+          ) : (
+            results.map(part => (
+              <button
+                key={part.id}
+                type="button"
+                onClick={() => {
+                  onSelect(part);
+                  setTerm('');
+                }}
+                className="w-full flex items-center justify-between px-3 py-2 text-sm font-mono text-left hover:bg-bg-tertiary"
+              >
+                <span className="text-text-primary truncate">{part.name}</span>
+                <span className="text-text-muted text-xs ml-2 flex-shrink-0">
+                  {Math.max(part.quantity - (part.reserved_quantity || 0), 0)} free
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
-import React from 'react';
-import { Edit, Trash2, Package, ExternalLink, Copy, Eye } from 'lucide-react';
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Edit, Trash2, Package, ExternalLink, Copy, Eye, QrCode } from 'lucide-react';
 import { Button } from '@/components/common/Button';
 import { ContextMenu } from '@/components/common/ContextMenu';
+import { HighlightedText } from '@/components/common/HighlightedText';
 import { LoadingOverlay, SkeletonTable } from '@/components/common/LoadingStates';
 import { useToast } from '@/hooks/useToast';
+import { useUIStore } from '@/stores/uiStore';
+import { partToLabel } from '@/lib/labels';
 
 interface PartTableProps {
   parts: any[];
@@ -14,6 +18,26 @@ interface PartTableProps {
 
 export const PartTable: React.FC<PartTableProps> = ({ parts, onEdit, onDelete, isLoading = false }) => {
   const { success } = useToast();
+  const { openLabelPrinter } = useUIStore();
+  const navigate = useNavigate();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Only count selections that are still in the current result set
+  const selectedParts = parts.filter(part => selectedIds.has(part.id));
+  const allSelected = parts.length > 0 && selectedParts.length === parts.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(parts.map(part => part.id)));
+  };
 
   const handleDelete = (part: any) => {
     if (window.confirm(`Are you sure you want to delete "${part.name}"?`)) {
@@ -31,7 +55,7 @@ export const PartTable: React.FC<PartTableProps> = ({ parts, onEdit, onDelete, i
       id: 'view',
       label: 'View Details',
       icon: Eye,
-      onClick: () => onEdit(part)
+      onClick: () => navigate(`/parts/${part.id}`)
     },
     {
       id: 'edit',
@@ -45,6 +69,12 @@ export const PartTable: React.FC<PartTableProps> = ({ parts, onEdit, onDelete, i
       icon: Copy,
       onClick: () => handleCopyName(part)
     },
+    {
+      id: 'print-label',
+      label: 'Print Label',
+      icon: QrCode,
+      onClick: () => openLabelPrinter([partToLabel(part)])
+    },
     ...(part.datasheet_url ? [{
       id: 'datasheet',
       label: 'View Datasheet',
@@ -82,9 +112,36 @@ export const PartTable: React.FC<PartTableProps> = ({ parts, onEdit, onDelete, i
 
   return (
     <div className="overflow-x-auto">
+      {selectedParts.length > 0 && (
+        <div className="flex items-center justify-between mb-3 px-4 py-2 bg-bg-tertiary border border-cyber-cyan/30 rounded-sm">
+          <span className="text-sm text-text-secondary font-mono uppercase tracking-wider">
+            {selectedParts.length} SELECTED
+          </span>
+          <div className="flex items-center space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds(new Set())}>
+              CLEAR
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => openLabelPrinter(selectedParts.map(partToLabel))}
+              icon={<QrCode className="w-3 h-3" />}
+            >
+              PRINT {selectedParts.length} LABEL{selectedParts.length === 1 ? '' : 'S'}
+            </Button>
+          </div>
+        </div>
+      )}
       <table className="cyber-table w-full">
         <thead>
           <tr className="border-b border-cyber-cyan/30">
+            <th className="py-3 pl-4 w-8">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={toggleAll}
+                aria-label="Select all parts"
+              />
+            </th>
             <th className="text-left py-3 px-4 text-text-secondary font-medium font-mono uppercase tracking-wider">Name</th>
             <th className="text-left py-3 px-4 text-text-secondary font-medium font-mono uppercase tracking-wider">Category</th>
             <th className="text-left py-3 px-4 text-text-secondary font-medium font-mono uppercase tracking-wider">Quantity</th>
@@ -98,10 +155,24 @@ export const PartTable: React.FC<PartTableProps> = ({ parts, onEdit, onDelete, i
           {parts.map((part) => (
             <ContextMenu key={part.id} items={getContextMenuItems(part)}>
               <tr className="border-b border-text-muted/20 hover:bg-cyber-cyan-dim cursor-pointer">
+                <td className="py-3 pl-4" onClick={(e) => e.stopPropagation()}>
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(part.id)}
+                    onChange={() => toggleSelected(part.id)}
+                    aria-label={`Select ${part.name}`}
+                  />
+                </td>
                 <td className="py-3 px-4">
                   <div>
-                    <div className="font-medium text-text-primary font-mono">{part.name}</div>
-                    {part.description && (
+                    <Link to={`/parts/${part.id}`} className="font-medium text-text-primary font-mono hover:text-cyber-cyan">
+                      {part.name}
+                    </Link>
+                    {part.search_highlight ? (
+                      <div className="text-sm text-text-muted line-clamp-1">
+                        <HighlightedText text={part.search_highlight} />
+                      </div>
+                    ) : part.description && (
                       <div className="text-sm text-text-muted line-clamp-1">
                         {part.description}
                       </div>
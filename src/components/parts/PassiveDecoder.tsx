@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { Package, Plus } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+import { useCreatePart } from '@/hooks/api/useParts';
+import { useUIStore } from '@/stores/uiStore';
+import { cn } from '@/lib/utils';
+import {
+  BAND_COLORS,
+  BandColor,
+  PassiveKind,
+  decodeResistorBands,
+  decodePassiveCode,
+  formatPassiveValue,
+  toPassivePart
+} from '@/lib/passives';
+
+type DecoderMode = 'bands' | PassiveKind;
+
+const MODES: { id: DecoderMode; label: string; placeholder?: string }[] = [
+  { id: 'bands', label: 'BANDS' },
+  { id: 'resistor', label: 'SMD RESISTOR', placeholder: '103, 4R7, 1002, 01C' },
+  { id: 'capacitor', label: 'CAPACITOR', placeholder: '104, 223J, 4n7' },
+  { id: 'inductor', label: 'INDUCTOR', placeholder: '101, 4R7, 47N' }
+];
+
+const SWATCHES: Record<BandColor, string> = {
+  black: 'bg-black',
+  brown: 'bg-amber-800',
+  red: 'bg-red-600',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-400',
+  green: 'bg-green-600',
+  blue: 'bg-blue-600',
+  violet: 'bg-violet-600',
+  grey: 'bg-gray-500',
+  white: 'bg-white',
+  gold: 'bg-yellow-600',
+  silver: 'bg-gray-300',
+  none: 'bg-transparent'
+};
+
+const DEFAULT_BANDS: Record<number, BandColor[]> = {
+  4: ['brown', 'black', 'orange', 'gold'],
+  5: ['brown', 'black', 'black', 'red', 'brown'],
+  6: ['brown', 'black', 'black', 'red', 'brown', 'brown']
+};
+
+const BAND_ROLES: Record<number, string[]> = {
+  4: ['1ST', '2ND', 'MULT', 'TOL'],
+  5: ['1ST', '2ND', '3RD', 'MULT', 'TOL'],
+  6: ['1ST', '2ND', '3RD', 'MULT', 'TOL', 'TEMP']
+};
+
+interface PassiveDecoderProps {
+  initialKind?: PassiveKind;
+  initialCode?: string;
+  locationId?: string | null;
+  locationPath?: string | null;
+  onAdded?: () => void;
+}
+
+// Resistor bands and passive codes decoded in the browser, added as a normalized part
+export const PassiveDecoder: React.FC<PassiveDecoderProps> = ({
+  initialKind,
+  initialCode = '',
+  locationId = null,
+  locationPath = null,
+  onAdded
+}) => {
+  const [mode, setMode] = useState<DecoderMode>(initialKind || 'bands');
+  const [bands, setBands] = useState<BandColor[]>(DEFAULT_BANDS[4]);
+  const [code, setCode] = useState(initialCode);
+  const [quantity, setQuantity] = useState(1);
+
+  const createPart = useCreatePart();
+
+  const decoded = mode === 'bands'
+    ? decodeResistorBands(bands)
+    : code.trim() ? decodePassiveCode(mode, code) : null;
+  const passive = decoded?.passive;
+
+  const setBand = (index: number, color: BandColor) => {
+    setBands(prev => prev.map((band, i) => (i === index ? color : band)));
+  };
+
+  const handleAdd = async () => {
+    if (!passive) return;
+
+    await createPart.mutateAsync({
+      ...toPassivePart(passive),
+      quantity,
+      location: locationPath,
+      location_id: locationId,
+      is_available: true
+    });
+
+    setCode('');
+    setQuantity(1);
+    onAdded?.();
+  };
+
+  const currentMode = MODES.find(m => m.id === mode)!;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            type="button"
+            onClick={() => setMode(m.id)}
+            className={cn(
+              'px-3 py-1 text-xs font-mono rounded-sm border transition-colors',
+              mode === m.id
+                ? 'bg-cyber-cyan text-bg-primary border-cyber-cyan'
+                : 'bg-bg-secondary text-text-secondary border-text-muted/30 hover:border-cyber-cyan/30'
+            )}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'bands' ? (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2 text-xs font-mono text-text-muted">
+            BANDS:
+            {[4, 5, 6].map(count => (
+              <button
+                key={count}
+                type="button"
+                onClick={() => setBands(DEFAULT_BANDS[count])}
+                className={cn(
+                  'px-2 py-0.5 rounded-sm border',
+                  bands.length === count ? 'border-cyber-cyan text-cyber-cyan' : 'border-text-muted/30 hover:text-text-secondary'
+                )}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            {bands.map((band, index) => (
+              <label key={index} className="space-y-1">
+                <span className="flex items-center gap-1 text-xs font-mono text-text-muted">
+                  <span className={cn('w-3 h-3 rounded-full border border-text-muted/50', SWATCHES[band])} />
+                  {BAND_ROLES[bands.length][index]}
+                </span>
+                <select
+                  value={band}
+                  onChange={(e) => setBand(index, e.target.value as BandColor)}
+                  className="cyber-input w-full text-xs py-1 font-mono"
+                >
+                  {BAND_COLORS.map(color => (
+                    <option key={color} value={color}>{color}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder={`Marking, e.g. ${currentMode.placeholder}`}
+          className="cyber-input w-full font-mono uppercase"
+          autoFocus
+        />
+      )}
+
+      {decoded && !decoded.valid && (
+        <p className="text-sm text-cyber-orange font-mono">{decoded.error}</p>
+      )}
+
+      {passive && (
+        <div className="p-3 bg-bg-tertiary border border-cyber-cyan/30 rounded-sm space-y-3">
+          <div className="flex items-baseline justify-between gap-2">
+            <span className="text-2xl font-bold text-cyber-cyan font-mono">
+              {formatPassiveValue(passive.value, passive.unit)}
+            </span>
+            <span className="text-xs text-text-muted font-mono uppercase">{passive.format}</span>
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-text-secondary font-mono">
+            {passive.tolerance && <span>TOL {passive.tolerance}</span>}
+            {passive.temperature_coefficient && <span>TEMPCO {passive.temperature_coefficient}</span>}
+            <span>{toPassivePart(passive).name}</span>
+          </div>
+          {decoded?.note && (
+            <p className="text-xs text-cyber-orange font-mono">{decoded.note}</p>
+          )}
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={1}
+              value={quantity}
+              onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+              className="cyber-input w-20 font-mono"
+              aria-label="Quantity"
+            />
+            <Button
+              onClick={handleAdd}
+              loading={createPart.isPending}
+              icon={<Plus className="w-4 h-4" />}
+              className="flex-1"
+            >
+              ADD TO INVENTORY
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Opened from the command palette via useUIStore().openDecoder
+export const PassiveDecoderModal: React.FC = () => {
+  const { decoderInput, closeDecoder } = useUIStore();
+
+  return (
+    <Modal isOpen onClose={closeDecoder} title="DECODE PASSIVE" size="md">
+      <div className="space-y-3">
+        <p className="flex items-center gap-2 text-sm text-text-muted font-mono">
+          <Package className="w-4 h-4" />
+          Resistor bands, SMD resistor, capacitor and inductor codes
+        </p>
+        <PassiveDecoder
+          initialKind={decoderInput?.kind}
+          initialCode={decoderInput?.code}
+          onAdded={closeDecoder}
+        />
+      </div>
+    </Modal>
+  );
+};
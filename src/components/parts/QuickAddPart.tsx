@@ -4,9 +4,11 @@ import { Input } from '../common/Input';
 import { useToast } from '../../hooks/useToast';
 import { api } from '../../lib/api';
 import { useCreatePart, useParts } from '../../hooks/api/useParts';
-import { Loader2, Sparkles, MessageSquare, CheckCircle, Camera, AlertTriangle } from 'lucide-react';
+import { Loader2, Sparkles, MessageSquare, CheckCircle, Camera, AlertTriangle, Calculator } from 'lucide-react';
 import { useQueryClient } from '@tanstack/react-query';
 import { AIPartIdentifier } from './AIPartIdentifier';
+import { PassiveDecoder } from './PassiveDecoder';
+import { LocationPicker } from '../locations/LocationPicker';
 
 interface QuickAddPartProps {
   onSuccess?: () => void;
@@ -18,6 +20,11 @@ interface AIResearchResult {
   error?: string;
   details?: string;
   fallback?: any;
+  intent?: {
+    quantity?: number;
+    location?: string;
+    location_id?: string;
+  };
 }
 
 export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
@@ -25,7 +32,10 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [lastAddedPart, setLastAddedPart] = useState<string | null>(null);
   const [showAIIdentifier, setShowAIIdentifier] = useState(false);
+  const [showDecoder, setShowDecoder] = useState(false);
   const [processingStage, setProcessingStage] = useState<string>('');
+  const [locationId, setLocationId] = useState<string | null>(null);
+  const [locationPath, setLocationPath] = useState<string | null>(null);
   
   const { success, error, warning } = useToast();
   const createPart = useCreatePart();
@@ -81,7 +91,7 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
       } else if (response.research) {
         // AI research succeeded
         setProcessingStage('Creating part from AI data...');
-        await createPartFromData(response.research, false);
+        await createPartFromData(response.research, false, response.intent);
         success('Part identified and added!', `Successfully added "${response.research.name}" to your inventory`);
       } else {
         throw new Error('Invalid response format from AI research');
@@ -121,16 +131,18 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
   };
 
   // Create part from AI research data
-  const createPartFromData = async (researchData: any, isPartialData: boolean) => {
-    console.log('📦 Creating part from research data:', researchData);
+  const createPartFromData = async (researchData: any, isPartialData: boolean, intent?: AIResearchResult['intent']) => {
+    console.log('📦 Creating part from research data:', researchData, intent);
 
     const partData = {
       name: researchData.name || 'Unknown Component',
       description: researchData.description || '',
       category: researchData.category || null,
       subcategory: researchData.subcategory || null,
-      quantity: researchData.typical_quantity || 1,
-      location: null,
+      quantity: intent?.quantity || researchData.typical_quantity || 1,
+      // The picker wins over a location mentioned in the sentence ("...in drawer A")
+      location: locationPath || intent?.location || null,
+      location_id: locationId || intent?.location_id || null,
       source: null,
       tags: researchData.tags || [],
       images: researchData.image_urls || [],
@@ -142,8 +154,8 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
       original_device: null,
       compatible_with: [],
       notes: isPartialData ? 'AI research partially failed - please verify details' : null,
+      specs: researchData.specifications || {},
       metadata: {
-        specifications: researchData.specifications || {},
         confidence: researchData.confidence || 0.5,
         original_input: naturalLanguageInput.trim(),
         ai_metadata: researchData.ai_metadata || {},
@@ -152,6 +164,7 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
         safety_warnings: researchData.safety_warnings || [],
         common_uses: researchData.common_uses || [],
         current_price_usd: researchData.current_price_usd,
+        purchase_urls: researchData.purchase_urls || [],
         partial_data: isPartialData
       }
     };
@@ -182,7 +195,8 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
       category: null,
       subcategory: null,
       quantity: 1,
-      location: null,
+      location: locationPath,
+      location_id: locationId,
       source: null,
       tags: ['needs-research'],
       images: [],
@@ -261,6 +275,16 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
               }}
             />
             
+            <LocationPicker
+              label="STORE IN"
+              value={locationId}
+              onChange={(id, path) => {
+                setLocationId(id);
+                setLocationPath(path);
+              }}
+              disabled={isProcessing}
+            />
+
             <div className="flex gap-2">
               <Button
                 onClick={handleNaturalLanguageEntry}
@@ -290,7 +314,27 @@ export const QuickAddPart: React.FC<QuickAddPartProps> = ({ onSuccess }) => {
               >
                 IDENTIFY FROM PHOTO
               </Button>
+
+              <Button
+                variant={showDecoder ? 'primary' : 'outline'}
+                onClick={() => setShowDecoder(prev => !prev)}
+                disabled={isProcessing}
+                icon={<Calculator className="w-4 h-4" />}
+              >
+                DECODE
+              </Button>
             </div>
+
+            {/* Resistor bands and passive codes decode locally; no AI call */}
+            {showDecoder && (
+              <div className="p-3 bg-bg-secondary border border-text-muted/30 rounded-sm">
+                <PassiveDecoder
+                  locationId={locationId}
+                  locationPath={locationPath}
+                  onAdded={onSuccess}
+                />
+              </div>
+            )}
             
             <div className="text-xs text-text-muted font-mono">
               Tip: Press Cmd+Enter (Mac) or Ctrl+Enter (Windows) to submit
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Ruler, Play, Search } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { useNormalizeSpecs } from '@/hooks/api/useSpecs';
+
+// Bulk conversion of free-text specs ("3.3-5V", "500mA") to structured values
+export const SpecNormalization: React.FC = () => {
+  const normalizeSpecs = useNormalizeSpecs();
+  const report = normalizeSpecs.data;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-text-muted font-mono">
+        Converts spec values like "3.3-5V" or "500mA" into numbers with units, so they can be
+        filtered and sorted (e.g. <span className="text-cyber-cyan">vout:3.3V current&gt;=1A sort:-current</span>).
+        Values that aren't measurements are left as text.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={() => normalizeSpecs.mutate(false)}
+          loading={normalizeSpecs.isPending && normalizeSpecs.variables === false}
+          icon={<Search className="w-4 h-4" />}
+        >
+          PREVIEW
+        </Button>
+        <Button
+          onClick={() => normalizeSpecs.mutate(true)}
+          loading={normalizeSpecs.isPending && normalizeSpecs.variables === true}
+          icon={<Play className="w-4 h-4" />}
+        >
+          NORMALIZE ALL PARTS
+        </Button>
+      </div>
+
+      {report && (
+        <div className="p-4 bg-bg-tertiary border border-text-muted/30 rounded-sm space-y-3">
+          <div className="flex items-center gap-2 text-text-primary font-mono">
+            <Ruler className="w-4 h-4 text-cyber-cyan" />
+            {report.applied ? 'UPDATED' : 'WOULD UPDATE'} {report.changed} OF {report.parts} PARTS
+          </div>
+
+          {report.unparsed.length === 0 ? (
+            <p className="text-sm text-cyber-green font-mono">Every measurement parsed</p>
+          ) : (
+            <>
+              <p className="text-sm text-text-secondary font-mono">
+                {report.unparsed.length} value{report.unparsed.length === 1 ? '' : 's'} couldn't be parsed and stay as text:
+              </p>
+              <div className="max-h-64 overflow-y-auto">
+                <table className="w-full text-sm font-mono">
+                  <tbody>
+                    {report.unparsed.map((spec, index) => (
+                      <tr key={`${spec.part_id}-${spec.key}-${index}`} className="border-b border-text-muted/20 last:border-0">
+                        <td className="py-1 pr-3">
+                          <Link to={`/parts/${spec.part_id}`} className="text-cyber-cyan hover:underline">
+                            {spec.part_name}
+                          </Link>
+                        </td>
+                        <td className="py-1 pr-3 text-text-muted uppercase">{spec.key.replace(/_/g, ' ')}</td>
+                        <td className="py-1 text-text-primary">{spec.value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Undo2, Plus } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import {
+  useStockMovements,
+  useCreateStockMovement,
+  useDeleteStockMovement,
+  STOCK_REASONS,
+  StockReason
+} from '@/hooks/api/useStockMovements';
+import { cn, formatDate } from '@/lib/utils';
+
+interface StockLedgerProps {
+  partId: string;
+  quantity: number;
+}
+
+const REASON_STYLES: Record<StockReason, string> = {
+  salvaged: 'text-cyber-green',
+  consumed: 'text-cyber-orange',
+  sold: 'text-cyber-cyan',
+  lost: 'text-cyber-magenta',
+  adjusted: 'text-text-secondary'
+};
+
+// Reasons that naturally take stock away, so the form can default the sign
+const OUTGOING: StockReason[] = ['consumed', 'sold', 'lost'];
+
+export const StockLedger: React.FC<StockLedgerProps> = ({ partId, quantity }) => {
+  const [amount, setAmount] = useState('1');
+  const [reason, setReason] = useState<StockReason>('consumed');
+  const [note, setNote] = useState('');
+
+  const { data, isLoading } = useStockMovements({ part_id: partId, limit: 100 });
+  const createMovement = useCreateStockMovement();
+  const deleteMovement = useDeleteStockMovement();
+  const movements = data?.movements || [];
+
+  // Newest first, so each row's balance is the current total minus everything after it
+  let balance = quantity;
+  const rows = movements.map(movement => {
+    const row = { movement, balance };
+    balance -= movement.delta;
+    return row;
+  });
+
+  const handleRecord = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseInt(amount);
+    if (!value) return;
+
+    // "adjusted" keeps the sign as typed; the other reasons imply a direction
+    const delta = reason === 'adjusted' ? value : OUTGOING.includes(reason) ? -Math.abs(value) : Math.abs(value);
+
+    try {
+      await createMovement.mutateAsync({ part_id: partId, delta, reason, note: note.trim() || undefined });
+      setNote('');
+    } catch {
+      // Error handled by hook
+    }
+  };
+
+  const handleRevert = (id: string) => {
+    if (window.confirm('Revert this stock movement? The quantity will be adjusted back.')) {
+      deleteMovement.mutate(id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleRecord} className="flex flex-wrap items-end gap-2">
+        <select
+          value={reason}
+          onChange={(e) => setReason(e.target.value as StockReason)}
+          className="cyber-input w-32"
+        >
+          {STOCK_REASONS.map(r => (
+            <option key={r} value={r}>{r.toUpperCase()}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="cyber-input w-20"
+          title={reason === 'adjusted' ? 'Use a negative number to remove stock' : undefined}
+        />
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+          className="cyber-input flex-1 min-w-[8rem]"
+        />
+        <Button type="submit" size="sm" loading={createMovement.isPending} icon={<Plus className="w-3 h-3" />}>
+          RECORD
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-text-muted font-mono text-sm">LOADING LEDGER...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-text-muted font-mono text-sm">NO STOCK MOVEMENTS RECORDED</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="border-b border-cyber-cyan/30 text-text-muted text-xs uppercase tracking-wider">
+                <th className="text-left py-2 pr-3">When</th>
+                <th className="text-left py-2 pr-3">Reason</th>
+                <th className="text-right py-2 pr-3">Change</th>
+                <th className="text-right py-2 pr-3">Balance</th>
+                <th className="text-left py-2 pr-3">For</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ movement, balance: after }) => (
+                <tr key={movement.id} className="border-b border-text-muted/20 last:border-0">
+                  <td className="py-2 pr-3 text-text-muted whitespace-nowrap">{formatDate(movement.created_at)}</td>
+                  <td className={cn('py-2 pr-3 uppercase', REASON_STYLES[movement.reason])}>{movement.reason}</td>
+                  <td className={cn('py-2 pr-3 text-right', movement.delta > 0 ? 'text-cyber-green' : 'text-cyber-magenta')}>
+                    {movement.delta > 0 ? '+' : ''}{movement.delta}
+                  </td>
+                  <td className="py-2 pr-3 text-right text-text-primary">{after}</td>
+                  <td className="py-2 pr-3 text-text-secondary">
+                    {movement.project ? (
+                      <Link to={`/projects/${movement.project.id}`} className="hover:text-cyber-cyan">{movement.project.name}</Link>
+                    ) : null}
+                    {movement.note && (
+                      <span className="text-text-muted">{movement.project ? ' • ' : ''}{movement.note}</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => handleRevert(movement.id)}
+                      className="text-text-muted hover:text-cyber-magenta"
+                      title="Revert"
+                    >
+                      <Undo2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {data && data.total > movements.length && (
+            <p className="text-xs text-text-muted font-mono mt-2">SHOWING LATEST {movements.length} OF {data.total}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
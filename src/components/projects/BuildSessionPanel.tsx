@@ -0,0 +1,379 @@
+import React, { useCallback, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Play, Pause, Square, Trash2, Plus, X, Package, Camera, Timer } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { Modal } from '@/components/common/Modal';
+import { ImageUpload } from '@/components/common/ImageUpload';
+import { PartSearch } from '@/components/parts/PartSearch';
+import { useCreateBuildSession, useUpdateBuildSession, useDeleteBuildSession, Project } from '@/hooks/api/useProjects';
+import { useProjectBom } from '@/hooks/api/useProjectBom';
+import { useToast } from '@/hooks/useToast';
+import {
+  useSessionStore,
+  useSessionClock,
+  formatElapsed,
+  ActiveSession,
+  SessionMood,
+  SESSION_MOODS
+} from '@/stores/sessionStore';
+import { cn } from '@/lib/utils';
+
+type LogKind = 'notes' | 'issues' | 'solutions';
+
+const LOG_KINDS: { kind: LogKind; label: string; color: string }[] = [
+  { kind: 'notes', label: 'Note', color: 'text-cyber-cyan' },
+  { kind: 'issues', label: 'Issue', color: 'text-cyber-magenta' },
+  { kind: 'solutions', label: 'Solution', color: 'text-cyber-green' }
+];
+
+const MOOD_EMOJI: Record<SessionMood, string> = {
+  excited: '🤩',
+  focused: '🎯',
+  frustrated: '😤',
+  confused: '🤔',
+  triumphant: '🏆',
+  defeated: '💀',
+  drunk: '🍺'
+};
+
+// Everything the server keeps for a session; the validator fills gaps with defaults,
+// so every save sends the whole log rather than a patch
+const toSessionPayload = (session: ActiveSession, now = Date.now()) => {
+  const pausedMs = session.pausedMs + (session.pausedAt ? now - new Date(session.pausedAt).getTime() : 0);
+  const activeMs = Math.max(now - new Date(session.startedAt).getTime() - pausedMs, 0);
+
+  return {
+    project_id: session.projectId,
+    start_time: session.startedAt,
+    notes: session.notes.join('\n'),
+    issues_encountered: session.issues,
+    solutions_found: session.solutions,
+    photos: session.photos,
+    parts_consumed: session.partsConsumed,
+    metadata: {
+      paused_ms: pausedMs,
+      active_minutes: Math.round(activeMs / 60000)
+    }
+  };
+};
+
+export const BuildSessionPanel: React.FC<{ project: Project }> = ({ project }) => {
+  const { active, startSession, pauseSession, resumeSession, updateSession, clearSession } = useSessionStore();
+  const [logKind, setLogKind] = useState<LogKind>('notes');
+  const [logText, setLogText] = useState('');
+  const [showPhotos, setShowPhotos] = useState(false);
+  const [showEnd, setShowEnd] = useState(false);
+  const [mood, setMood] = useState<SessionMood | null>(null);
+  const [summary, setSummary] = useState('');
+
+  const elapsed = useSessionClock(active);
+  const createSession = useCreateBuildSession();
+  const updateSessionMutation = useUpdateBuildSession();
+  const { mutate: saveSession } = updateSessionMutation;
+  const deleteSession = useDeleteBuildSession();
+  const { data: bom } = useProjectBom(project.id);
+  const { success } = useToast();
+
+  const session = active?.projectId === project.id ? active : null;
+  const outstanding = (bom?.lines || []).filter(line => line.outstanding > 0 && line.part);
+
+  // Apply a change locally first so the log survives a failed save, then push it
+  const save = useCallback((changes: Partial<Pick<ActiveSession, 'notes' | 'issues' | 'solutions' | 'photos' | 'partsConsumed' | 'partNames'>>) => {
+    const current = useSessionStore.getState().active;
+    if (!current) return;
+    updateSession(changes);
+    saveSession({ id: current.id, updates: toSessionPayload({ ...current, ...changes }) });
+  }, [updateSession, saveSession]);
+
+  const handleStart = async () => {
+    const startedAt = new Date().toISOString();
+    const data = await createSession.mutateAsync({ project_id: project.id, start_time: startedAt });
+    startSession({
+      id: data.session.id,
+      projectId: project.id,
+      projectName: project.name,
+      sessionNumber: data.session.session_number,
+      startedAt
+    });
+    success(`Session #${data.session.session_number} started`);
+  };
+
+  const handleAddLog = () => {
+    const text = logText.trim();
+    if (!session || !text) return;
+    save({ [logKind]: [...session[logKind], text] });
+    setLogText('');
+  };
+
+  const handleConsume = (partId: string, name: string) => {
+    if (!session) return;
+    save({
+      partsConsumed: [...session.partsConsumed, partId],
+      partNames: { ...session.partNames, [partId]: name }
+    });
+  };
+
+  const handleReturn = (partId: string) => {
+    if (!session) return;
+    const index = session.partsConsumed.lastIndexOf(partId);
+    save({ partsConsumed: session.partsConsumed.filter((_, i) => i !== index) });
+  };
+
+  // ImageUpload reports every finished upload each time, so only add the new ones
+  const handlePhotos = useCallback((urls: string[]) => {
+    const current = useSessionStore.getState().active;
+    if (!current) return;
+    const added = urls.filter(url => !current.photos.includes(url));
+    if (added.length > 0) {
+      save({ photos: [...current.photos, ...added] });
+    }
+  }, [save]);
+
+  const handleEnd = async () => {
+    if (!session) return;
+    await updateSessionMutation.mutateAsync({
+      id: session.id,
+      updates: {
+        ...toSessionPayload(session),
+        end_time: new Date().toISOString(),
+        mood,
+        work_description: summary
+      }
+    });
+    clearSession();
+    setShowEnd(false);
+    setMood(null);
+    setSummary('');
+    success('Session logged', formatElapsed(elapsed));
+  };
+
+  const handleDiscard = async () => {
+    if (!session) return;
+    const message = session.partsConsumed.length > 0
+      ? 'Discard this session? Parts it consumed go back into inventory.'
+      : 'Discard this session?';
+    if (!window.confirm(message)) return;
+
+    // Return consumed stock before the row and its ledger link disappear
+    if (session.partsConsumed.length > 0) {
+      await updateSessionMutation.mutateAsync({ id: session.id, updates: { ...toSessionPayload(session), parts_consumed: [] } });
+    }
+    await deleteSession.mutateAsync(session.id);
+    clearSession();
+  };
+
+  if (active && !session) {
+    return (
+      <div className="flex items-center justify-between gap-3 text-sm font-mono">
+        <span className="text-text-muted">
+          A SESSION IS RUNNING ON <span className="text-text-primary">{active.projectName}</span>
+        </span>
+        <Link to={`/projects/${active.projectId}`} className="text-cyber-cyan hover:underline">
+          GO TO SESSION
+        </Link>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-text-muted font-mono text-sm">NO SESSION RUNNING</p>
+        <Button onClick={handleStart} loading={createSession.isPending} icon={<Play className="w-4 h-4" />} glow>
+          START SESSION
+        </Button>
+      </div>
+    );
+  }
+
+  const consumedCounts = session.partsConsumed.reduce<Record<string, number>>((counts, id) => {
+    counts[id] = (counts[id] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="space-y-4">
+      {/* Clock */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-xs text-text-muted font-mono uppercase tracking-wider">
+            Session #{session.sessionNumber ?? '?'} {session.pausedAt && '• PAUSED'}
+          </p>
+          <p className={cn('text-4xl font-bold font-mono', session.pausedAt ? 'text-text-muted' : 'text-cyber-green text-glow-green')}>
+            {formatElapsed(elapsed)}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {session.pausedAt ? (
+            <Button variant="outline" onClick={resumeSession} icon={<Play className="w-4 h-4" />}>RESUME</Button>
+          ) : (
+            <Button variant="outline" onClick={pauseSession} icon={<Pause className="w-4 h-4" />}>PAUSE</Button>
+          )}
+          <Button onClick={() => setShowEnd(true)} icon={<Square className="w-4 h-4" />} glow>END SESSION</Button>
+          <Button
+            variant="danger"
+            onClick={handleDiscard}
+            loading={deleteSession.isPending}
+            icon={<Trash2 className="w-4 h-4" />}
+            title="Discard session"
+          />
+        </div>
+      </div>
+
+      {/* Log entry */}
+      <div className="flex flex-wrap gap-2">
+        <select value={logKind} onChange={(e) => setLogKind(e.target.value as LogKind)} className="cyber-input w-32">
+          {LOG_KINDS.map(({ kind, label }) => <option key={kind} value={kind}>{label}</option>)}
+        </select>
+        <input
+          type="text"
+          value={logText}
+          onChange={(e) => setLogText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAddLog()}
+          placeholder="What just happened?"
+          className="cyber-input flex-1 min-w-[12rem]"
+        />
+        <Button variant="outline" onClick={handleAddLog} disabled={!logText.trim()} icon={<Plus className="w-4 h-4" />}>LOG</Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {LOG_KINDS.map(({ kind, label, color }) => (
+          <div key={kind}>
+            <h3 className={cn('text-xs font-mono uppercase tracking-wider mb-2', color)}>{label}s</h3>
+            {session[kind].length === 0 ? (
+              <p className="text-xs text-text-muted font-mono">NONE YET</p>
+            ) : (
+              <ul className="space-y-1">
+                {session[kind].map((entry, index) => (
+                  <li key={index} className="flex items-start justify-between gap-2 text-sm text-text-secondary">
+                    <span>{entry}</span>
+                    <button
+                      type="button"
+                      onClick={() => save({ [kind]: session[kind].filter((_, i) => i !== index) })}
+                      className="text-text-muted hover:text-cyber-magenta flex-shrink-0"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Consumed parts */}
+      <div>
+        <h3 className="flex items-center text-xs font-mono uppercase tracking-wider text-cyber-orange mb-2">
+          <Package className="w-3 h-3 mr-1" />
+          Parts Used
+        </h3>
+        <PartSearch
+          placeholder="Log a part taken from inventory..."
+          exclude={[]}
+          onSelect={(part) => handleConsume(part.id, part.name)}
+        />
+        {outstanding.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {outstanding.map(line => (
+              <button
+                key={line.id}
+                type="button"
+                onClick={() => handleConsume(line.part_id, line.part!.name)}
+                className="px-2 py-0.5 text-xs font-mono border border-text-muted/40 rounded-sm text-text-secondary hover:border-cyber-cyan hover:text-cyber-cyan"
+                title="Outstanding on the bill of materials"
+              >
+                + {line.part!.name}
+              </button>
+            ))}
+          </div>
+        )}
+        {Object.keys(consumedCounts).length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {Object.entries(consumedCounts).map(([partId, count]) => (
+              <span key={partId} className="inline-flex items-center px-2 py-0.5 text-xs font-mono bg-cyber-orange/20 text-cyber-orange border border-cyber-orange rounded-sm">
+                {session.partNames[partId] || 'Part'} ×{count}
+                <button type="button" onClick={() => handleReturn(partId)} className="ml-1 hover:text-cyber-magenta" title="Return one">
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Photos */}
+      <div>
+        <button
+          type="button"
+          onClick={() => setShowPhotos(!showPhotos)}
+          className="flex items-center text-xs font-mono uppercase tracking-wider text-text-muted hover:text-cyber-cyan mb-2"
+        >
+          <Camera className="w-3 h-3 mr-1" />
+          Photos ({session.photos.length})
+        </button>
+        {session.photos.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {session.photos.map(url => (
+              <div key={url} className="relative">
+                <img src={url} alt="Build progress" className="w-20 h-20 object-cover rounded-sm border border-cyber-cyan/30" />
+                <button
+                  type="button"
+                  onClick={() => save({ photos: session.photos.filter(photo => photo !== url) })}
+                  className="absolute top-0 right-0 p-0.5 bg-bg-primary/80 text-text-muted hover:text-cyber-magenta"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {showPhotos && <ImageUpload onImagesUploaded={handlePhotos} maxFiles={10} showPreview={false} />}
+      </div>
+
+      {/* Close out */}
+      <Modal isOpen={showEnd} onClose={() => setShowEnd(false)} title="END SESSION" size="md" variant="terminal">
+        <div className="space-y-4">
+          <div className="flex items-center gap-2 text-text-secondary font-mono">
+            <Timer className="w-4 h-4 text-cyber-cyan" />
+            {formatElapsed(elapsed)} worked
+          </div>
+          <div>
+            <p className="text-xs text-text-muted font-mono uppercase tracking-wider mb-2">How did it go?</p>
+            <div className="grid grid-cols-4 gap-2">
+              {SESSION_MOODS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setMood(mood === option ? null : option)}
+                  className={cn(
+                    'px-2 py-2 text-xs font-mono uppercase border rounded-sm transition-colors',
+                    mood === option
+                      ? 'border-cyber-cyan bg-cyber-cyan/20 text-cyber-cyan'
+                      : 'border-text-muted/40 text-text-secondary hover:border-cyber-cyan'
+                  )}
+                >
+                  <span className="block text-lg">{MOOD_EMOJI[option]}</span>
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
+          <textarea
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            placeholder="What got done this session?"
+            rows={3}
+            className="cyber-input w-full"
+          />
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" onClick={() => setShowEnd(false)}>KEEP GOING</Button>
+            <Button onClick={handleEnd} loading={updateSessionMutation.isPending} icon={<Square className="w-4 h-4" />}>
+              LOG SESSION
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Project, ProjectStatus, PROJECT_STATUSES } from '@/hooks/api/useProjects';
+import { PROJECT_STATUS_CONFIG } from '@/lib/projects';
+import { ProjectCard } from './ProjectCard';
+import { cn } from '@/lib/utils';
+
+interface ProjectBoardProps {
+  projects: Project[];
+  onEdit: (project: Project) => void;
+  onMove: (project: Project, status: ProjectStatus) => void;
+  onDelete: (project: Project) => void;
+  onAdd: (status: ProjectStatus) => void;
+}
+
+export const ProjectBoard: React.FC<ProjectBoardProps> = ({ projects, onEdit, onMove, onDelete, onAdd }) => {
+  const [dropTarget, setDropTarget] = useState<ProjectStatus | null>(null);
+
+  const handleDrop = (e: React.DragEvent, status: ProjectStatus) => {
+    e.preventDefault();
+    setDropTarget(null);
+
+    const project = projects.find(p => p.id === e.dataTransfer.getData('text/plain'));
+    if (project && project.status !== status) {
+      onMove(project, status);
+    }
+  };
+
+  return (
+    <div className="grid grid-flow-col auto-cols-[minmax(16rem,1fr)] gap-4 overflow-x-auto pb-2">
+      {PROJECT_STATUSES.map(status => {
+        const config = PROJECT_STATUS_CONFIG[status];
+        const StatusIcon = config.icon;
+        const column = projects.filter(p => p.status === status);
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              e.dataTransfer.dropEffect = 'move';
+              if (dropTarget !== status) setDropTarget(status);
+            }}
+            onDragLeave={(e) => {
+              // Ignore leave events fired when crossing into a child card
+              if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+            }}
+            onDrop={(e) => handleDrop(e, status)}
+            className={cn(
+              'flex flex-col min-h-[20rem] bg-bg-primary border rounded-sm transition-colors',
+              dropTarget === status ? 'border-cyber-cyan shadow-cyber' : 'border-text-muted/20'
+            )}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b border-text-muted/20">
+              <span className={cn('inline-flex items-center px-2 py-0.5 rounded-sm text-xs font-mono border', config.color)}>
+                <StatusIcon className="w-3 h-3 mr-1" />
+                {config.label}
+              </span>
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-text-muted font-mono">{column.length}</span>
+                <button
+                  type="button"
+                  onClick={() => onAdd(status)}
+                  className="text-text-muted hover:text-cyber-cyan"
+                  title={`New ${config.label.toLowerCase()} project`}
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex-1 p-2 space-y-2">
+              {column.map(project => (
+                <ProjectCard
+                  key={project.id}
+                  project={project}
+                  onEdit={onEdit}
+                  onMove={onMove}
+                  onDelete={onDelete}
+                  draggable
+                />
+              ))}
+              {column.length === 0 && (
+                <p className="text-xs text-text-muted font-mono text-center py-6">DROP PROJECTS HERE</p>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
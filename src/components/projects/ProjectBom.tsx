@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Trash2, Lock, Unlock, Hammer, AlertTriangle, X, Replace } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { PartSearch } from '@/components/parts/PartSearch';
+import {
+  useProjectBom,
+  useAddBomLine,
+  useUpdateBomLine,
+  useDeleteBomLine,
+  useBomAction,
+  BomLine,
+  BomStatus
+} from '@/hooks/api/useProjectBom';
+import { cn } from '@/lib/utils';
+
+const STATUS_STYLES: Record<BomStatus, string> = {
+  have: 'bg-cyber-cyan/20 text-cyber-cyan border-cyber-cyan',
+  short: 'bg-cyber-magenta/20 text-cyber-magenta border-cyber-magenta',
+  reserved: 'bg-cyber-orange/20 text-cyber-orange border-cyber-orange',
+  consumed: 'bg-cyber-green/20 text-cyber-green border-cyber-green'
+};
+
+export const ProjectBom: React.FC<{ projectId: string }> = ({ projectId }) => {
+  const [addQuantity, setAddQuantity] = useState('1');
+  const [substituteFor, setSubstituteFor] = useState<string | null>(null);
+
+  const { data, isLoading } = useProjectBom(projectId);
+  const addLine = useAddBomLine(projectId);
+  const updateLine = useUpdateBomLine(projectId);
+  const deleteLine = useDeleteBomLine(projectId);
+  const bomAction = useBomAction(projectId);
+
+  const lines = data?.lines || [];
+  const shortfalls = data?.shortfalls || [];
+  const summary = data?.summary;
+  const openLines = lines.filter(line => line.status !== 'consumed');
+  const substituteLine = lines.find(line => line.id === substituteFor);
+
+  const handleQuantity = (line: BomLine, value: string) => {
+    const quantity = parseInt(value);
+    if (!quantity || quantity < 1 || quantity === line.quantity) return;
+    updateLine.mutate({ id: line.id, updates: { quantity } });
+  };
+
+  const handleBuild = () => {
+    const message = shortfalls.length > 0
+      ? `${shortfalls.length} parts are short. Consume what is available anyway?`
+      : 'Take every outstanding part out of inventory for this build?';
+    if (window.confirm(message)) {
+      bomAction.mutate('build');
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-text-muted font-mono text-sm">LOADING BILL OF MATERIALS...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Summary and actions */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2 text-xs font-mono">
+          {summary && (['have', 'reserved', 'short', 'consumed'] as BomStatus[]).map(status => (
+            <span key={status} className={cn('px-2 py-0.5 rounded-sm border uppercase', STATUS_STYLES[status])}>
+              {summary[status]} {status}
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => bomAction.mutate('reserve')}
+            disabled={openLines.length === 0}
+            loading={bomAction.isPending && bomAction.variables === 'reserve'}
+            icon={<Lock className="w-3 h-3" />}
+          >
+            RESERVE
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => bomAction.mutate('release')}
+            disabled={!lines.some(line => line.reserved > 0)}
+            loading={bomAction.isPending && bomAction.variables === 'release'}
+            icon={<Unlock className="w-3 h-3" />}
+          >
+            RELEASE
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleBuild}
+            disabled={openLines.length === 0}
+            loading={bomAction.isPending && bomAction.variables === 'build'}
+            icon={<Hammer className="w-3 h-3" />}
+            glow
+          >
+            BUILD IT
+          </Button>
+        </div>
+      </div>
+
+      {/* Add line */}
+      <div className="flex flex-wrap items-center gap-2">
+        <PartSearch
+          placeholder="Add a part from inventory..."
+          exclude={lines.map(line => line.part_id)}
+          onSelect={(part) => addLine.mutate({ part_id: part.id, quantity: Math.max(parseInt(addQuantity) || 1, 1) })}
+        />
+        <input
+          type="number"
+          min="1"
+          value={addQuantity}
+          onChange={(e) => setAddQuantity(e.target.value)}
+          className="cyber-input w-20"
+          title="Quantity needed"
+        />
+      </div>
+
+      {substituteLine && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-text-muted font-mono uppercase">
+            Substitute for {substituteLine.part?.name || 'part'}:
+          </span>
+          <PartSearch
+            placeholder="Search for a stand-in part..."
+            exclude={[substituteLine.part_id, ...substituteLine.substitutes]}
+            onSelect={(part) => {
+              updateLine.mutate({
+                id: substituteLine.id,
+                updates: { substitutes: [...substituteLine.substitutes, part.id] }
+              });
+              setSubstituteFor(null);
+            }}
+          />
+          <Button size="sm" variant="ghost" onClick={() => setSubstituteFor(null)} icon={<X className="w-3 h-3" />} />
+        </div>
+      )}
+
+      {/* Lines */}
+      {lines.length === 0 ? (
+        <p className="text-text-muted font-mono text-sm">NO PARTS ON THE BILL OF MATERIALS YET</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm font-mono">
+            <thead>
+              <tr className="border-b border-cyber-cyan/30 text-text-muted text-xs uppercase tracking-wider">
+                <th className="text-left py-2 pr-3">Part</th>
+                <th className="text-right py-2 pr-3">Need</th>
+                <th className="text-right py-2 pr-3">Reserved</th>
+                <th className="text-right py-2 pr-3">Free</th>
+                <th className="text-right py-2 pr-3">Used</th>
+                <th className="text-left py-2 pr-3">Status</th>
+                <th className="text-left py-2 pr-3">Substitutes</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(line => (
+                <tr key={line.id} className="border-b border-text-muted/20 last:border-0 align-top">
+                  <td className="py-2 pr-3">
+                    <Link to={`/parts/${line.part_id}`} className="text-text-primary hover:text-cyber-cyan">
+                      {line.part?.name || 'Unknown part'}
+                    </Link>
+                    {line.part?.location && <p className="text-xs text-text-muted">{line.part.location}</p>}
+                  </td>
+                  <td className="py-2 pr-3 text-right">
+                    <input
+                      type="number"
+                      min="1"
+                      defaultValue={line.quantity}
+                      key={line.quantity}
+                      onBlur={(e) => handleQuantity(line, e.target.value)}
+                      className="cyber-input w-16 text-right py-0.5"
+                    />
+                  </td>
+                  <td className="py-2 pr-3 text-right text-cyber-orange">{line.reserved || '-'}</td>
+                  <td className="py-2 pr-3 text-right text-text-secondary">{line.available}</td>
+                  <td className="py-2 pr-3 text-right text-cyber-green">{line.consumed || '-'}</td>
+                  <td className="py-2 pr-3">
+                    <span className={cn('px-2 py-0.5 rounded-sm border text-xs uppercase', STATUS_STYLES[line.status])}>
+                      {line.status}
+                      {line.status === 'short' && ` -${line.missing}`}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="flex flex-wrap gap-1">
+                      {line.substitute_parts.map(sub => (
+                        <span key={sub.id} className="inline-flex items-center px-1.5 py-0.5 text-xs bg-bg-tertiary rounded-sm text-text-secondary">
+                          {sub.name} ({sub.available})
+                          <button
+                            type="button"
+                            onClick={() => updateLine.mutate({
+                              id: line.id,
+                              updates: { substitutes: line.substitutes.filter(id => id !== sub.id) }
+                            })}
+                            className="ml-1 text-text-muted hover:text-cyber-magenta"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => setSubstituteFor(substituteFor === line.id ? null : line.id)}
+                        className="text-text-muted hover:text-cyber-cyan"
+                        title="Add substitute"
+                      >
+                        <Replace className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </td>
+                  <td className="py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => deleteLine.mutate(line.id)}
+                      className="text-text-muted hover:text-cyber-magenta"
+                      title={line.reserved > 0 ? 'Remove (releases its reservation)' : 'Remove'}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Shortfall report */}
+      {shortfalls.length > 0 && (
+        <div className="border border-cyber-magenta/50 bg-cyber-magenta/5 rounded-sm p-3">
+          <h3 className="flex items-center text-sm font-mono uppercase tracking-wider text-cyber-magenta mb-2">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            Shortfall Report
+          </h3>
+          <ul className="space-y-1 text-sm font-mono">
+            {shortfalls.map(shortfall => (
+              <li key={shortfall.line_id} className="text-text-secondary">
+                <Link to={`/parts/${shortfall.part_id}`} className="text-text-primary hover:text-cyber-cyan">
+                  {shortfall.name}
+                </Link>
+                {`: need ${shortfall.outstanding}, have ${shortfall.available}, short ${shortfall.missing}`}
+                {shortfall.substitutes.length > 0 && (
+                  <span className={shortfall.covered_by_substitutes ? 'text-cyber-green' : 'text-text-muted'}>
+                    {' • substitutes: '}
+                    {shortfall.substitutes.map(sub => `${sub.name} (${sub.available})`).join(', ')}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
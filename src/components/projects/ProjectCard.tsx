@@ -0,0 +1,145 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  ExternalLink,
+  Edit,
+  Trash2,
+  ArrowRight,
+  Flame,
+  Smile,
+  Clock,
+  Brain
+} from 'lucide-react';
+import { ContextMenu } from '@/components/common/ContextMenu';
+import { Project, ProjectStatus, PROJECT_STATUSES } from '@/hooks/api/useProjects';
+import { PROJECT_STATUS_CONFIG } from '@/lib/projects';
+import { cn, formatDate } from '@/lib/utils';
+
+// The happy path through the board; failed/abandoned are reached by dragging
+const NEXT_STATUS: Partial<Record<ProjectStatus, ProjectStatus>> = {
+  idea: 'planning',
+  planning: 'building',
+  building: 'completed'
+};
+
+const Rating = ({ icon: Icon, value, color, title }: {
+  icon: React.ElementType;
+  value: number | null;
+  color: string;
+  title: string;
+}) => {
+  if (!value) return null;
+
+  return (
+    <span className={cn('inline-flex items-center', color)} title={`${title}: ${value}/5`}>
+      <Icon className="w-3 h-3 mr-0.5" />
+      {value}
+    </span>
+  );
+};
+
+interface ProjectCardProps {
+  project: Project;
+  onEdit: (project: Project) => void;
+  onMove: (project: Project, status: ProjectStatus) => void;
+  onDelete: (project: Project) => void;
+  draggable?: boolean;
+}
+
+export const ProjectCard: React.FC<ProjectCardProps> = ({ project, onEdit, onMove, onDelete, draggable }) => {
+  const navigate = useNavigate();
+  const next = NEXT_STATUS[project.status];
+
+  const contextMenuItems = [
+    {
+      id: 'open',
+      label: 'Open Project',
+      icon: ExternalLink,
+      onClick: () => navigate(`/projects/${project.id}`)
+    },
+    {
+      id: 'edit',
+      label: 'Edit Project',
+      icon: Edit,
+      onClick: () => onEdit(project)
+    },
+    ...(next
+      ? [{
+          id: 'advance',
+          label: `Move to ${PROJECT_STATUS_CONFIG[next].label}`,
+          icon: ArrowRight,
+          onClick: () => onMove(project, next)
+        }]
+      : []),
+    ...PROJECT_STATUSES.filter(status => status !== project.status && status !== next).map(status => ({
+      id: `move-${status}`,
+      label: `Move to ${PROJECT_STATUS_CONFIG[status].label}`,
+      icon: PROJECT_STATUS_CONFIG[status].icon,
+      onClick: () => onMove(project, status)
+    })),
+    {
+      id: 'separator',
+      separator: true,
+      label: '',
+      onClick: () => {}
+    },
+    {
+      id: 'delete',
+      label: 'Delete Project',
+      icon: Trash2,
+      onClick: () => onDelete(project),
+      destructive: true
+    }
+  ];
+
+  return (
+    <ContextMenu items={contextMenuItems}>
+      <div
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.setData('text/plain', project.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onClick={() => navigate(`/projects/${project.id}`)}
+        className={cn(
+          'bg-bg-secondary border border-text-muted/30 rounded-sm p-3 hover:border-cyber-cyan transition-colors',
+          draggable ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer'
+        )}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="font-semibold text-text-primary font-mono text-sm">{project.name}</h3>
+          {project.ai_generated && (
+            <span title="AI generated">
+              <Brain className="w-3 h-3 text-cyber-magenta flex-shrink-0" />
+            </span>
+          )}
+        </div>
+
+        {project.description && (
+          <p className="text-xs text-text-secondary mt-1 line-clamp-2">{project.description}</p>
+        )}
+
+        <div className="flex items-center gap-3 mt-3 text-xs font-mono">
+          {project.difficulty_level && (
+            <span className="text-text-muted" title="Difficulty">LVL {project.difficulty_level}</span>
+          )}
+          <Rating icon={Flame} value={project.danger_level} color="text-cyber-orange" title="Danger" />
+          <Rating icon={Smile} value={project.fun_factor} color="text-cyber-green" title="Fun" />
+          {project.time_estimate && (
+            <span className="inline-flex items-center text-text-muted ml-auto">
+              <Clock className="w-3 h-3 mr-0.5" />
+              {project.time_estimate}
+            </span>
+          )}
+        </div>
+
+        {(project.date_started || project.date_completed) && (
+          <p className="text-[10px] text-text-muted font-mono mt-2">
+            {project.date_started && `STARTED ${formatDate(project.date_started)}`}
+            {project.date_completed && ` • DONE ${formatDate(project.date_completed)}`}
+          </p>
+        )}
+      </div>
+    </ContextMenu>
+  );
+};
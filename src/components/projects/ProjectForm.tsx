@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/common/Button';
+import { Input } from '@/components/common/Input';
+import { Modal } from '@/components/common/Modal';
+import { useCreateProject, useUpdateProject, Project, ProjectStatus, PROJECT_STATUSES } from '@/hooks/api/useProjects';
+import { PROJECT_STATUS_CONFIG } from '@/lib/projects';
+
+interface ProjectFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  project?: Project; // For editing existing projects
+  initialStatus?: ProjectStatus;
+}
+
+const RATINGS = [
+  { field: 'difficulty_level', label: 'DIFFICULTY' },
+  { field: 'danger_level', label: 'DANGER' },
+  { field: 'fun_factor', label: 'FUN' },
+  { field: 'practicality', label: 'PRACTICALITY' }
+] as const;
+
+const textareaClass = 'block w-full px-3 py-2 bg-bg-primary border border-text-muted/30 rounded-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-cyber-cyan focus:border-cyber-cyan font-mono';
+
+export const ProjectForm: React.FC<ProjectFormProps> = ({ isOpen, onClose, project, initialStatus = 'idea' }) => {
+  const [formData, setFormData] = useState({
+    name: project?.name || '',
+    description: project?.description || '',
+    status: project?.status || initialStatus,
+    difficulty_level: project?.difficulty_level?.toString() || '',
+    danger_level: project?.danger_level?.toString() || '',
+    fun_factor: project?.fun_factor?.toString() || '',
+    practicality: project?.practicality?.toString() || '',
+    time_estimate: project?.time_estimate || '',
+    notes: project?.notes || ''
+  });
+
+  const createProject = useCreateProject();
+  const updateProject = useUpdateProject();
+
+  const isEditing = !!project;
+  const isLoading = createProject.isPending || updateProject.isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Start from the stored project so parts, instructions and photos survive the update
+    const projectData = {
+      ...(project || {}),
+      ...formData,
+      difficulty_level: formData.difficulty_level ? parseInt(formData.difficulty_level) : null,
+      danger_level: formData.danger_level ? parseInt(formData.danger_level) : null,
+      fun_factor: formData.fun_factor ? parseInt(formData.fun_factor) : null,
+      practicality: formData.practicality ? parseInt(formData.practicality) : null
+    };
+
+    try {
+      if (isEditing) {
+        await updateProject.mutateAsync({ id: project.id, updates: projectData });
+      } else {
+        await createProject.mutateAsync(projectData);
+      }
+      onClose();
+    } catch {
+      // Error handling is done in the hooks
+    }
+  };
+
+  const handleChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'EDIT PROJECT' : 'NEW PROJECT'}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="PROJECT NAME"
+            value={formData.name}
+            onChange={(e) => handleChange('name', e.target.value)}
+            required
+            placeholder="e.g., LED Matrix Clock"
+            glow
+          />
+
+          <div>
+            <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider mb-1">
+              STATUS
+            </label>
+            <select
+              value={formData.status}
+              onChange={(e) => handleChange('status', e.target.value)}
+              className="cyber-input w-full"
+            >
+              {PROJECT_STATUSES.map(status => (
+                <option key={status} value={status}>{PROJECT_STATUS_CONFIG[status].label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <Input
+          label="DESCRIPTION"
+          value={formData.description}
+          onChange={(e) => handleChange('description', e.target.value)}
+          placeholder="What are you building?"
+        />
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {RATINGS.map(({ field, label }) => (
+            <div key={field}>
+              <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider mb-1">
+                {label}
+              </label>
+              <select
+                value={formData[field]}
+                onChange={(e) => handleChange(field, e.target.value)}
+                className="cyber-input w-full"
+              >
+                <option value="">-</option>
+                {[1, 2, 3, 4, 5].map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <Input
+          label="TIME ESTIMATE"
+          value={formData.time_estimate}
+          onChange={(e) => handleChange('time_estimate', e.target.value)}
+          placeholder="e.g., 4-6 hours"
+        />
+
+        <div>
+          <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider mb-1">
+            NOTES
+          </label>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => handleChange('notes', e.target.value)}
+            rows={3}
+            className={textareaClass}
+            placeholder="Ideas, links, gotchas..."
+          />
+        </div>
+
+        {isEditing && (project.date_started || project.date_completed) && (
+          <p className="text-xs text-text-muted font-mono">
+            Start and completion dates are set automatically when the status changes.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-text-muted/20">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isLoading}
+          >
+            CANCEL
+          </Button>
+          <Button
+            type="submit"
+            loading={isLoading}
+            glow
+          >
+            {isEditing ? 'UPDATE PROJECT' : 'CREATE PROJECT'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { GitCommit, Timer, Camera, Package, AlertTriangle, CheckCircle } from 'lucide-react';
+import { useProjectTimeline, TimelineEvent, TimelineEventType } from '@/hooks/api/useProjects';
+import { PROJECT_STATUS_CONFIG } from '@/lib/projects';
+import { cn, formatDate } from '@/lib/utils';
+
+const EVENT_TYPES: { type: TimelineEventType; label: string; icon: React.ElementType; color: string }[] = [
+  { type: 'status', label: 'Status', icon: GitCommit, color: 'text-cyber-cyan border-cyber-cyan' },
+  { type: 'session', label: 'Sessions', icon: Timer, color: 'text-cyber-green border-cyber-green' },
+  { type: 'photos', label: 'Photos', icon: Camera, color: 'text-cyber-magenta border-cyber-magenta' },
+  { type: 'stock', label: 'Stock', icon: Package, color: 'text-cyber-orange border-cyber-orange' }
+];
+
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`;
+
+const PhotoStrip: React.FC<{ photos: string[] }> = ({ photos }) => (
+  <div className="flex flex-wrap gap-2 mt-2">
+    {photos.map(url => (
+      <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+        <img src={url} alt="Project photo" className="w-16 h-16 object-cover rounded-sm border border-cyber-cyan/30 hover:border-cyber-cyan" />
+      </a>
+    ))}
+  </div>
+);
+
+const EventBody: React.FC<{ event: TimelineEvent }> = ({ event }) => {
+  switch (event.type) {
+    case 'status': {
+      const to = event.to_status ? PROJECT_STATUS_CONFIG[event.to_status] : null;
+      return (
+        <p className="font-mono text-sm text-text-primary">
+          {event.from_status ? `${PROJECT_STATUS_CONFIG[event.from_status]?.label || event.from_status} → ` : 'CREATED AS '}
+          <span className={cn('px-1.5 py-0.5 rounded-sm border text-xs', to?.color)}>{to?.label || event.to_status}</span>
+        </p>
+      );
+    }
+
+    case 'session':
+      return (
+        <div className="space-y-1">
+          <p className="font-mono text-sm text-text-primary">
+            {event.title.toUpperCase()}
+            {event.minutes != null && <span className="text-text-muted"> • {formatMinutes(event.minutes)}</span>}
+            {!event.end_time && <span className="text-cyber-green"> • IN PROGRESS</span>}
+            {event.mood && <span className="text-text-muted uppercase"> • {event.mood}</span>}
+            {!!event.parts_consumed && <span className="text-cyber-orange"> • {event.parts_consumed} parts</span>}
+          </p>
+          {event.detail && <p className="text-sm text-text-secondary">{event.detail}</p>}
+          {event.notes && <p className="text-sm text-text-muted whitespace-pre-wrap">{event.notes}</p>}
+          {event.issues?.map((issue, index) => (
+            <p key={`issue-${index}`} className="flex items-start gap-1 text-sm text-cyber-magenta">
+              <AlertTriangle className="w-3 h-3 mt-1 flex-shrink-0" />
+              {issue}
+            </p>
+          ))}
+          {event.solutions?.map((solution, index) => (
+            <p key={`solution-${index}`} className="flex items-start gap-1 text-sm text-cyber-green">
+              <CheckCircle className="w-3 h-3 mt-1 flex-shrink-0" />
+              {solution}
+            </p>
+          ))}
+          {!!event.photos?.length && <PhotoStrip photos={event.photos} />}
+        </div>
+      );
+
+    case 'photos':
+      return (
+        <div>
+          <p className={cn('font-mono text-sm uppercase', event.outcome === 'fail' ? 'text-cyber-magenta' : 'text-cyber-green')}>
+            {event.title}
+          </p>
+          <PhotoStrip photos={event.photos || []} />
+        </div>
+      );
+
+    case 'stock':
+      return (
+        <p className="font-mono text-sm text-text-primary">
+          {event.part_id ? (
+            <Link to={`/parts/${event.part_id}`} className="hover:text-cyber-cyan">{event.title}</Link>
+          ) : event.title}
+          <span className="text-text-muted uppercase"> • {event.reason}</span>
+          {event.detail && <span className="text-text-muted"> • {event.detail}</span>}
+        </p>
+      );
+  }
+};
+
+export const ProjectTimeline: React.FC<{ projectId: string }> = ({ projectId }) => {
+  const [hidden, setHidden] = useState<TimelineEventType[]>([]);
+  const { data, isLoading } = useProjectTimeline(projectId);
+
+  if (isLoading) {
+    return <p className="text-text-muted font-mono text-sm">LOADING TIMELINE...</p>;
+  }
+
+  const events = (data?.timeline || []).filter(event => !hidden.includes(event.type));
+  const summary = data?.summary;
+
+  const toggle = (type: TimelineEventType) =>
+    setHidden(hidden.includes(type) ? hidden.filter(t => t !== type) : [...hidden, type]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-2">
+          {EVENT_TYPES.map(({ type, label, icon: Icon, color }) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => toggle(type)}
+              className={cn(
+                'inline-flex items-center px-2 py-0.5 text-xs font-mono uppercase border rounded-sm transition-opacity',
+                color,
+                hidden.includes(type) && 'opacity-40'
+              )}
+            >
+              <Icon className="w-3 h-3 mr-1" />
+              {label}
+            </button>
+          ))}
+        </div>
+        {summary && (
+          <p className="text-xs text-text-muted font-mono uppercase">
+            {summary.sessions} sessions • {summary.actual_time || '0m'} logged • {summary.issues} issues • {summary.solutions} solutions
+          </p>
+        )}
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-text-muted font-mono text-sm">NOTHING ON THE TIMELINE YET</p>
+      ) : (
+        <ol className="relative border-l border-cyber-cyan/30 ml-2 space-y-4">
+          {events.map(event => {
+            const config = EVENT_TYPES.find(t => t.type === event.type)!;
+            const Icon = config.icon;
+            return (
+              <li key={event.id} className="ml-5">
+                <span className={cn('absolute -left-2.5 flex items-center justify-center w-5 h-5 bg-bg-primary border rounded-full', config.color)}>
+                  <Icon className="w-3 h-3" />
+                </span>
+                <p className="text-xs text-text-muted font-mono">{formatDate(event.at)}</p>
+                <EventBody event={event} />
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
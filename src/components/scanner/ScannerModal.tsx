@@ -0,0 +1,289 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Camera, Upload, Package, MapPin, Search, RefreshCw, Minus, Plus, ArrowRight, ScanLine } from 'lucide-react';
+import type { IScannerControls } from '@zxing/browser';
+import { Modal } from '@/components/common/Modal';
+import { Button } from '@/components/common/Button';
+import { LocationPicker } from '@/components/locations/LocationPicker';
+import { useUIStore } from '@/stores/uiStore';
+import { useToast } from '@/hooks/useToast';
+import { usePart, useUpdatePart } from '@/hooks/api/useParts';
+import { useLocations } from '@/hooks/api/useLocations';
+import { useCreateStockMovement } from '@/hooks/api/useStockMovements';
+import { ScanTarget, parseScanResult, createScanReader, decodeImageFile, isCameraAvailable } from '@/lib/scanner';
+
+// Mounted by AppShell only while open, so the camera is released as soon as it closes
+export const ScannerModal: React.FC = () => {
+  const { closeScanner } = useUIStore();
+  const navigate = useNavigate();
+  const { success, error } = useToast();
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [target, setTarget] = useState<ScanTarget | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(
+    isCameraAvailable() ? null : 'No camera available in this browser'
+  );
+  const [decoding, setDecoding] = useState(false);
+  // Part waiting for a destination: the next scanned location label (or the picker) files it
+  const [movingPartId, setMovingPartId] = useState<string | null>(null);
+
+  const partId = target?.kind === 'part' ? target.id : movingPartId || '';
+  const { data: partData, isLoading: partLoading } = usePart(partId);
+  const { data: locationsData } = useLocations();
+  const updatePart = useUpdatePart();
+  const createMovement = useCreateStockMovement();
+
+  const part = partData?.part;
+  const location = target?.kind === 'location'
+    ? locationsData?.locations.find(l => l.id === target.id)
+    : undefined;
+
+  const movePart = async (locationId: string | null, path: string | null) => {
+    if (!part) return;
+    await updatePart.mutateAsync({ id: part.id, updates: { ...part, expected_quantity: part.quantity, location_id: locationId, location: path } });
+    success('Part moved', `${part.name} → ${path || 'Unfiled'}`);
+    setMovingPartId(null);
+    setTarget({ kind: 'part', id: part.id, raw: target?.raw || '' });
+  };
+
+  const handleDecoded = (text: string) => {
+    const scanned = parseScanResult(text);
+    console.log('📷 [Scanner] Decoded:', scanned);
+
+    if (movingPartId && scanned.kind === 'location') {
+      const destination = locationsData?.locations.find(l => l.id === scanned.id);
+      if (destination) {
+        movePart(destination.id, destination.path);
+        return;
+      }
+    }
+
+    setTarget(scanned);
+  };
+
+  // The camera callback outlives renders, so it reads the latest handler through a ref
+  const onDecodedRef = useRef(handleDecoded);
+  onDecodedRef.current = handleDecoded;
+
+  // Run the camera whenever there is nothing on screen to act on
+  useEffect(() => {
+    if (cameraError || (target && !movingPartId) || !videoRef.current) return;
+
+    let controls: IScannerControls | undefined;
+    let cancelled = false;
+
+    createScanReader()
+      .decodeFromConstraints({ video: { facingMode: 'environment' } }, videoRef.current, (result, _err, scanControls) => {
+        if (result && !cancelled) {
+          cancelled = true;
+          scanControls.stop();
+          onDecodedRef.current(result.getText());
+        }
+      })
+      .then(scanControls => {
+        controls = scanControls;
+        if (cancelled) scanControls.stop();
+      })
+      .catch(err => {
+        console.error('❌ [Scanner] Camera error:', err);
+        setCameraError(err?.name === 'NotAllowedError' ? 'Camera permission denied' : 'Could not start the camera');
+      });
+
+    return () => {
+      cancelled = true;
+      controls?.stop();
+    };
+  }, [target, movingPartId, cameraError]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setDecoding(true);
+    try {
+      handleDecoded(await decodeImageFile(file));
+    } catch (err) {
+      console.error('❌ [Scanner] Could not decode image:', err);
+      error('No code found', 'Try a sharper, well-lit photo with the whole code in frame');
+    } finally {
+      setDecoding(false);
+    }
+  };
+
+  const takeOne = () => {
+    if (!part) return;
+    createMovement.mutate({ part_id: part.id, delta: -1, reason: 'consumed', note: 'Taken via scanner' });
+  };
+
+  const addTen = () => {
+    if (!part) return;
+    createMovement.mutate({ part_id: part.id, delta: 10, reason: 'adjusted', note: 'Added via scanner' });
+  };
+
+  const go = (path: string) => {
+    closeScanner();
+    navigate(path);
+  };
+
+  const reset = () => {
+    setTarget(null);
+    setMovingPartId(null);
+  };
+
+  const showViewfinder = !target || !!movingPartId;
+
+  return (
+    <Modal isOpen onClose={closeScanner} title="SCAN LABEL" size="md">
+      <div className="space-y-4">
+        {showViewfinder && (
+          <div className="relative bg-bg-tertiary rounded-sm overflow-hidden aspect-video flex items-center justify-center">
+            {cameraError ? (
+              <div className="text-center p-6">
+                <Camera className="w-10 h-10 text-text-muted mx-auto mb-3" />
+                <p className="text-text-secondary font-mono text-sm">{cameraError.toUpperCase()}</p>
+                <p className="text-text-muted text-sm mt-1">Upload a photo of the label instead</p>
+              </div>
+            ) : (
+              <>
+                <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+                <div className="absolute inset-8 border-2 border-cyber-cyan/60 rounded-sm pointer-events-none" />
+                <ScanLine className="absolute w-8 h-8 text-cyber-cyan animate-pulse" />
+              </>
+            )}
+          </div>
+        )}
+
+        {movingPartId && part && (
+          <div className="cyber-card space-y-3">
+            <p className="text-sm text-text-secondary font-mono">
+              MOVING <span className="text-cyber-cyan">{part.name}</span> — scan the bin label or pick it below
+            </p>
+            <LocationPicker
+              label="MOVE TO"
+              value={part.location_id || null}
+              onChange={(id, path) => movePart(id, path)}
+              disabled={updatePart.isPending}
+            />
+            <Button variant="ghost" size="sm" onClick={() => setMovingPartId(null)}>
+              CANCEL MOVE
+            </Button>
+          </div>
+        )}
+
+        {/* Part result */}
+        {target?.kind === 'part' && !movingPartId && (
+          <div className="cyber-card space-y-3">
+            {partLoading ? (
+              <p className="text-text-muted font-mono text-sm">LOOKING UP PART...</p>
+            ) : part ? (
+              <>
+                <div className="flex items-start gap-3">
+                  <Package className="w-6 h-6 text-cyber-green flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-text-primary font-mono truncate">{part.name}</p>
+                    <p className="text-sm text-text-muted font-mono">
+                      QTY {part.quantity || 0}
+                      {part.location && <> • {part.location}</>}
+                    </p>
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={takeOne}
+                    disabled={!part.quantity}
+                    loading={createMovement.isPending}
+                    icon={<Minus className="w-3 h-3" />}
+                  >
+                    TAKE ONE
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={addTen}
+                    loading={createMovement.isPending}
+                    icon={<Plus className="w-3 h-3" />}
+                  >
+                    ADD 10
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setMovingPartId(part.id)}
+                    icon={<MapPin className="w-3 h-3" />}
+                  >
+                    MOVE TO BIN
+                  </Button>
+                  <Button size="sm" onClick={() => go(`/parts/${part.id}`)} icon={<ArrowRight className="w-3 h-3" />}>
+                    OPEN PART
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <p className="text-cyber-magenta font-mono text-sm">PART NOT FOUND — it may have been deleted</p>
+            )}
+          </div>
+        )}
+
+        {/* Location result */}
+        {target?.kind === 'location' && (
+          <div className="cyber-card space-y-3">
+            {location ? (
+              <>
+                <div className="flex items-start gap-3">
+                  <MapPin className="w-6 h-6 text-cyber-cyan flex-shrink-0 mt-0.5" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-text-primary font-mono truncate">{location.path}</p>
+                    <p className="text-sm text-text-muted font-mono">
+                      {location.total_part_count} PARTS • {location.total_quantity_count} UNITS
+                    </p>
+                  </div>
+                </div>
+                <Button size="sm" onClick={() => go(`/locations/${location.id}`)} icon={<ArrowRight className="w-3 h-3" />}>
+                  OPEN LOCATION
+                </Button>
+              </>
+            ) : (
+              <p className="text-cyber-magenta font-mono text-sm">LOCATION NOT FOUND — it may have been deleted</p>
+            )}
+          </div>
+        )}
+
+        {/* Anything else, e.g. a manufacturer's Code128 part number */}
+        {target?.kind === 'text' && (
+          <div className="cyber-card space-y-3">
+            <p className="text-sm text-text-muted font-mono">SCANNED</p>
+            <p className="text-text-primary font-mono break-all">{target.text}</p>
+            <Button
+              size="sm"
+              onClick={() => go(`/parts?q=${encodeURIComponent(target.text)}`)}
+              icon={<Search className="w-3 h-3" />}
+            >
+              SEARCH INVENTORY
+            </Button>
+          </div>
+        )}
+
+        <div className="flex justify-between gap-3">
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            loading={decoding}
+            icon={<Upload className="w-4 h-4" />}
+          >
+            UPLOAD PHOTO
+          </Button>
+          {target && (
+            <Button variant="secondary" onClick={reset} icon={<RefreshCw className="w-4 h-4" />}>
+              SCAN AGAIN
+            </Button>
+          )}
+        </div>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleFile} />
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/common/Button';
+import { Input } from '@/components/common/Input';
+import { Modal } from '@/components/common/Modal';
+import { ImageUpload } from '@/components/common/ImageUpload';
+import { useCreateTeardown, useUpdateTeardown, toTeardownInput, Teardown } from '@/hooks/api/useTeardowns';
+
+interface TeardownFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teardown?: Teardown; // For editing existing teardowns
+  onCreated?: (teardown: Teardown) => void;
+}
+
+const textareaClass = 'block w-full px-3 py-2 bg-bg-primary border border-text-muted/30 rounded-sm text-text-primary placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-cyber-cyan focus:border-cyber-cyan font-mono';
+
+export const TeardownForm: React.FC<TeardownFormProps> = ({ isOpen, onClose, teardown, onCreated }) => {
+  const [formData, setFormData] = useState({
+    device_name: teardown?.device_name || '',
+    model: teardown?.model || '',
+    manufacturer: teardown?.manufacturer || '',
+    teardown_date: teardown?.teardown_date || new Date().toISOString().slice(0, 10),
+    hazards: teardown?.hazards?.join(', ') || '',
+    notes: teardown?.notes || ''
+  });
+  const [uploaded, setUploaded] = useState<string[]>([]);
+
+  const createTeardown = useCreateTeardown();
+  const updateTeardown = useUpdateTeardown();
+
+  const isEditing = !!teardown;
+  const isLoading = createTeardown.isPending || updateTeardown.isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const existingPhotos = teardown?.photos || [];
+    // Start from the stored teardown so the checklist survives the update
+    const teardownData = {
+      ...(teardown ? toTeardownInput(teardown) : { checklist: [] }),
+      device_name: formData.device_name,
+      model: formData.model || null,
+      manufacturer: formData.manufacturer || null,
+      teardown_date: formData.teardown_date,
+      notes: formData.notes || null,
+      hazards: formData.hazards.split(',').map(hazard => hazard.trim()).filter(Boolean),
+      photos: [...existingPhotos, ...uploaded.filter(url => !existingPhotos.includes(url))]
+    };
+
+    try {
+      if (isEditing) {
+        await updateTeardown.mutateAsync({ id: teardown.id, updates: teardownData });
+      } else {
+        const data = await createTeardown.mutateAsync(teardownData);
+        onCreated?.(data.teardown);
+      }
+      onClose();
+    } catch {
+      // Error handling is done in the hooks
+    }
+  };
+
+  const handleChange = (field: string, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'EDIT TEARDOWN' : 'NEW TEARDOWN'}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Input
+            label="DEVICE"
+            value={formData.device_name}
+            onChange={(e) => handleChange('device_name', e.target.value)}
+            required
+            placeholder="e.g., HP LaserJet 1020"
+            glow
+          />
+
+          <Input
+            label="MODEL"
+            value={formData.model}
+            onChange={(e) => handleChange('model', e.target.value)}
+            placeholder="e.g., Q5911A"
+          />
+
+          <Input
+            label="MANUFACTURER"
+            value={formData.manufacturer}
+            onChange={(e) => handleChange('manufacturer', e.target.value)}
+            placeholder="e.g., Hewlett-Packard"
+          />
+
+          <Input
+            label="DATE"
+            type="date"
+            value={formData.teardown_date}
+            onChange={(e) => handleChange('teardown_date', e.target.value)}
+            required
+          />
+        </div>
+
+        <Input
+          label="HAZARDS"
+          value={formData.hazards}
+          onChange={(e) => handleChange('hazards', e.target.value)}
+          placeholder="mains capacitors, laser, lithium cell (comma separated)"
+          helperText="Things to discharge, avoid or dispose of carefully"
+        />
+
+        <div>
+          <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider mb-1">
+            NOTES
+          </label>
+          <textarea
+            value={formData.notes}
+            onChange={(e) => handleChange('notes', e.target.value)}
+            rows={3}
+            className={textareaClass}
+            placeholder="Screws, clips, what came out easily..."
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider mb-1">
+            PHOTOS
+          </label>
+          <ImageUpload onImagesUploaded={setUploaded} maxFiles={10} />
+        </div>
+
+        <div className="flex justify-end space-x-3 pt-4 border-t border-text-muted/20">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+            disabled={isLoading}
+          >
+            CANCEL
+          </Button>
+          <Button
+            type="submit"
+            loading={isLoading}
+            glow
+          >
+            {isEditing ? 'UPDATE TEARDOWN' : 'LOG TEARDOWN'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
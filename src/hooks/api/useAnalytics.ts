@@ -0,0 +1,63 @@
+import { useQuery } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+
+export interface MonthlyCount {
+  month: string;
+  count: number;
+}
+
+export interface AnalyticsReport {
+  generated_at: string;
+  months: number;
+  parts: {
+    total: number;
+    units: number;
+    value: number;
+    by_category: { category: string; parts: number; units: number; value: number }[];
+    most_consumed: { category: string; units: number; value: number }[];
+    value_over_time: { month: string; value: number }[];
+    added_by_month: MonthlyCount[];
+  };
+  projects: {
+    total: number;
+    by_status: Record<string, number>;
+    completion_rate: number | null;
+    abandon_rate: number | null;
+    by_difficulty: {
+      difficulty: number | null;
+      total: number;
+      completed: number;
+      failed: number;
+      abandoned: number;
+      active: number;
+      completion_rate: number | null;
+      abandon_rate: number | null;
+    }[];
+  };
+  sessions: {
+    total: number;
+    total_minutes: number;
+    average_minutes: number;
+    by_mood: { mood: string; sessions: number; average_minutes: number }[];
+  };
+  ai: {
+    identified_parts: number;
+    identified_share: number;
+    average_confidence: number | null;
+    confidence_distribution: { range: string; count: number }[];
+    conversations: number;
+    questions: number;
+    questions_by_month: MonthlyCount[];
+    generated_projects: number;
+    generated_completed: number;
+  };
+}
+
+// Analytics query hooks
+export const useAnalytics = (months = 12) => {
+  return useQuery({
+    queryKey: ['analytics', months],
+    queryFn: async (): Promise<AnalyticsReport> => unwrap(await api.getAnalytics(months)),
+    staleTime: 5 * 60 * 1000,
+  });
+};
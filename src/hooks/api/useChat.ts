@@ -1,26 +1,135 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/lib/api';
+import { useCallback, useRef } from 'react';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
 import { useToast } from '@/hooks/useToast';
 
+export interface Conversation {
+  id: string;
+  title: string;
+  pinned: boolean;
+  archived: boolean;
+  last_message_at: string;
+  created_at: string;
+  updated_at: string;
+  // The matching message, when listed from a search
+  snippet?: string | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  metadata: { actions?: ChatAction[]; cancelled?: boolean; context_records?: ChatContextRecord[] } | null;
+  created_at: string;
+}
+
+// A part, project or build session included in the prompt for a reply
+export interface ChatContextRecord {
+  type: 'part' | 'project' | 'session';
+  id: string;
+  name: string;
+  // 'match' when retrieved for the message, 'recent' when it filled spare budget
+  reason: 'match' | 'recent';
+  project_id?: string | null;
+}
+
+export type ChatActionStatus = 'executed' | 'pending' | 'running' | 'rejected' | 'failed';
+
+// A tool call from the assistant; pending ones wait for the user to confirm
+export interface ChatAction {
+  id: string;
+  tool: string;
+  input: Record<string, unknown>;
+  summary: string;
+  status: ChatActionStatus;
+  result?: unknown;
+  error?: string;
+  resolved_at?: string;
+}
+
+interface ChatMessagesPage {
+  conversation: Conversation;
+  messages: ChatMessage[];
+  has_more: boolean;
+}
+
 // Chat query hooks
-export const useChatMessages = (conversationId: string) => {
-  return useQuery({
+
+// Pages run backwards in time: the first page is the latest messages, each next
+// page is the one before it. Pages aren't refetched while the chat is open, since
+// the messages sent meanwhile are already on screen.
+export const useChatMessages = (conversationId: string | undefined) => {
+  return useInfiniteQuery({
     queryKey: ['chat-messages', conversationId],
-    queryFn: () => api.getChatMessages(conversationId),
+    queryFn: async ({ pageParam }): Promise<ChatMessagesPage> =>
+      unwrap(await api.getChatMessages(conversationId!, { before: pageParam })),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => (lastPage.has_more ? lastPage.messages[0]?.created_at : undefined),
     enabled: !!conversationId,
-    staleTime: 0, // Always fresh for chat
+    staleTime: 0, // Always fresh when a conversation is opened
     refetchOnWindowFocus: false, // Don't refetch on focus for chat
+    refetchOnReconnect: false,
   });
 };
 
-export const useConversations = () => {
+export const useConversations = (filters: { search?: string; archived?: boolean } = {}) => {
   return useQuery({
-    queryKey: ['conversations'],
-    queryFn: () => api.getConversations(),
+    queryKey: ['conversations', filters.search || '', !!filters.archived],
+    queryFn: async (): Promise<{ conversations: Conversation[]; total: number }> =>
+      unwrap(await api.getConversations({ search: filters.search || undefined, archived: !!filters.archived })),
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 };
 
+export const useUpdateConversation = () => {
+  const queryClient = useQueryClient();
+  const { error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { title?: string; pinned?: boolean; archived?: boolean } }): Promise<{ conversation: Conversation }> =>
+      unwrap(await api.updateConversation(id, updates)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+    },
+    onError: (err: Error) => {
+      error('Failed to update conversation', err.message);
+    },
+  });
+};
+
+export const useDeleteConversation = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteConversation(id)),
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+      queryClient.removeQueries({ queryKey: ['chat-messages', id] });
+      success('Conversation deleted');
+    },
+    onError: (err: Error) => {
+      error('Failed to delete conversation', err.message);
+    },
+  });
+};
+
+type ToastError = ReturnType<typeof useToast>['error'];
+
+const reportChatError = (err: Error, error: ToastError) => {
+  console.error('Send message error:', err);
+  
+  if (err.message.includes('Authentication') || 
+      err.message.includes('token') || 
+      err.message.includes('login')) {
+    error('Authentication required', 'Please login again to continue');
+  } else if (err.message.includes('AI service not configured')) {
+    error('AI service not configured', 'Please add your Anthropic API key in Settings');
+  } else {
+    error('Failed to send message', err.message);
+  }
+};
+
 // Chat mutation hooks
 export const useSendMessage = () => {
   const queryClient = useQueryClient();
@@ -41,18 +150,76 @@ export const useSendMessage = () => {
       
       return data;
     },
+    onError: (err: Error) => reportChatError(err, error),
+  });
+};
+
+interface StreamMessageVariables {
+  message: string;
+  conversation_id?: string;
+  context?: Record<string, unknown>;
+  onStart?: (conversationId: string) => void;
+  onDelta: (text: string) => void;
+}
+
+// Streams the reply through onDelta; cancel() stops generation (the partial reply is kept)
+export const useStreamMessage = () => {
+  const queryClient = useQueryClient();
+  const { error } = useToast();
+  const abortRef = useRef<AbortController | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: ({ onStart, onDelta, ...body }: StreamMessageVariables) => {
+      abortRef.current = new AbortController();
+      return api.aiChatStream(body, { onStart, onDelta, signal: abortRef.current.signal });
+    },
+    onSettled: (data, _err, variables) => {
+      abortRef.current = null;
+      queryClient.invalidateQueries({ queryKey: ['conversations'] });
+
+      // Mark stale without refetching: the open chat already shows these messages
+      const conversationId = data?.conversation_id || variables.conversation_id;
+      if (conversationId) {
+        queryClient.invalidateQueries({ queryKey: ['chat-messages', conversationId], refetchType: 'none' });
+      }
+    },
     onError: (err: Error) => {
-      console.error('Send message error:', err);
-      
-      if (err.message.includes('Authentication') || 
-          err.message.includes('token') || 
-          err.message.includes('login')) {
-        error('Authentication required', 'Please login again to continue');
-      } else if (err.message.includes('AI service not configured')) {
-        error('AI service not configured', 'Please add your Anthropic API key in Settings');
-      } else {
-        error('Failed to send message', err.message);
+      if (err.name !== 'AbortError') {
+        reportChatError(err, error);
       }
     },
   });
-};
\ No newline at end of file
+
+  const cancel = useCallback(() => abortRef.current?.abort(), []);
+
+  return { ...mutation, cancel };
+};
+
+// Data each confirmed tool can change
+const ACTION_QUERY_KEYS: Record<string, string[][]> = {
+  adjust_quantity: [['parts'], ['stock-movements'], ['low-stock']],
+  create_part: [['parts'], ['stock-movements'], ['low-stock']],
+  create_project_idea: [['projects']],
+  log_session_note: [['build-sessions'], ['project-timeline']]
+};
+
+export const useResolveChatAction = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ messageId, actionId, decision }: { messageId: string; actionId: string; decision: 'confirm' | 'reject' }): Promise<{ action: ChatAction }> =>
+      unwrap(await api.resolveChatAction(messageId, actionId, decision)),
+    onSuccess: ({ action }) => {
+      if (action.status === 'executed') {
+        (ACTION_QUERY_KEYS[action.tool] || []).forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+        success('Done', action.summary);
+      } else if (action.status === 'failed') {
+        error('Action failed', action.error);
+      }
+    },
+    onError: (err: Error) => {
+      error('Failed to resolve action', err.message);
+    },
+  });
+};
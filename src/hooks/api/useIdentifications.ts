@@ -0,0 +1,34 @@
+import { useMutation } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+
+// One identity the AI considered for a mystery part, best first
+export interface IdentificationCandidate {
+  name: string;
+  part_number: string | null;
+  manufacturer: string | null;
+  category: string | null;
+  reasoning: string;
+  markings_read: string[];
+  confidence: number;
+}
+
+export interface IdentificationOutcome {
+  outcome: 'confirmed' | 'rejected';
+  chosen_index?: number | null;
+  part_id?: string | null;
+  notes?: string | null;
+}
+
+// Records which candidate was right (or that none were) against the stored attempt
+export const useResolveIdentification = () => {
+  const { error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, outcome }: { id: string; outcome: IdentificationOutcome }) =>
+      unwrap(await api.resolveIdentification(id, outcome)),
+    onError: (err: Error) => {
+      error('Failed to save identification feedback', err.message);
+    },
+  });
+};
@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+
+export type LocationKind = 'room' | 'area' | 'shelf' | 'cabinet' | 'drawer' | 'bin' | 'box' | 'other';
+
+export const LOCATION_KINDS: LocationKind[] = ['room', 'area', 'shelf', 'cabinet', 'drawer', 'bin', 'box', 'other'];
+
+// A node of the storage tree as returned by locations-crud (flattened, path order)
+export interface StorageLocation {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  kind: LocationKind;
+  description?: string | null;
+  path: string;
+  depth: number;
+  part_count: number;
+  quantity_count: number;
+  total_part_count: number;
+  total_quantity_count: number;
+}
+
+// Locations query hooks
+export const useLocations = () => {
+  return useQuery({
+    queryKey: ['locations'],
+    queryFn: async (): Promise<{ locations: StorageLocation[]; total: number; unassigned_count: number }> =>
+      unwrap(await api.getLocations()),
+    staleTime: 60 * 1000,
+  });
+};
+
+// Locations mutation hooks
+export const useCreateLocation = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (location: { name: string; parent_id?: string | null; kind?: LocationKind; description?: string }) =>
+      unwrap(await api.createLocation(location)),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      success('Location created', data.location?.name);
+      return data;
+    },
+    onError: (err: Error) => {
+      error('Failed to create location', err.message);
+    },
+  });
+};
+
+export const useUpdateLocation = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { name: string; parent_id?: string | null; kind?: LocationKind; description?: string } }) =>
+      unwrap(await api.updateLocation(id, updates)),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      // Part paths change when a location is renamed or moved
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      success('Location updated');
+      return data;
+    },
+    onError: (err: Error) => {
+      error('Failed to update location', err.message);
+    },
+  });
+};
+
+export const useDeleteLocation = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteLocation(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      success('Location deleted', 'Its contents moved up one level');
+    },
+    onError: (err: Error) => {
+      error('Failed to delete location', err.message);
+    },
+  });
+};
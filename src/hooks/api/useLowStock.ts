@@ -0,0 +1,123 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+
+export interface LowStockItem {
+  part_id: string;
+  name: string;
+  category: string | null;
+  part_number: string | null;
+  location: string | null;
+  quantity: number;
+  min_quantity: number;
+  threshold_source: 'part' | 'category';
+  reorder_quantity: number;
+  current_price_usd: number | null;
+  estimated_cost: number | null;
+  purchase_urls: string[];
+}
+
+export interface LowStockReport {
+  items: LowStockItem[];
+  total: number;
+  estimated_total: number;
+  checked_at: string;
+}
+
+export interface CategoryThreshold {
+  id: string;
+  category: string;
+  min_quantity: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Toast for the low_stock list returned by stock-changing endpoints
+export const warnLowStock = (
+  warning: (title: string, message?: string) => void,
+  lowStock?: LowStockItem[]
+) => {
+  if (!lowStock?.length) return;
+
+  const [first] = lowStock;
+  warning(
+    lowStock.length === 1 ? `${first.name} is running low` : `${lowStock.length} parts are running low`,
+    lowStock.length === 1
+      ? `${first.quantity} left, minimum is ${first.min_quantity}`
+      : lowStock.map(item => item.name).join(', ')
+  );
+};
+
+// Low stock query hooks
+export const useLowStock = () => {
+  return useQuery({
+    queryKey: ['low-stock'],
+    queryFn: async (): Promise<LowStockReport> => unwrap(await api.getLowStock()),
+  });
+};
+
+export const useCategoryThresholds = () => {
+  return useQuery({
+    queryKey: ['category-thresholds'],
+    queryFn: async (): Promise<{ thresholds: CategoryThreshold[] }> =>
+      unwrap(await api.getCategoryThresholds()),
+  });
+};
+
+// Shopping list download; the CSV is built server-side from the same rows
+export const useExportShoppingList = () => {
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (): Promise<{ csv: string; filename: string; total: number }> =>
+      unwrap(await api.getLowStock('csv')),
+    onSuccess: (data) => {
+      const url = URL.createObjectURL(new Blob([data.csv], { type: 'text/csv;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = data.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      success('Shopping list exported', `${data.total} parts to restock`);
+    },
+    onError: (err: Error) => {
+      error('Failed to export shopping list', err.message);
+    },
+  });
+};
+
+// Category threshold mutation hooks
+export const useSaveCategoryThreshold = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (threshold: { category: string; min_quantity: number }) =>
+      unwrap(await api.saveCategoryThreshold(threshold)),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['category-thresholds'] });
+      queryClient.invalidateQueries({ queryKey: ['low-stock'] });
+      success('Threshold saved', `${variables.category}: keep at least ${variables.min_quantity}`);
+    },
+    onError: (err: Error) => {
+      error('Failed to save threshold', err.message);
+    },
+  });
+};
+
+export const useDeleteCategoryThreshold = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteCategoryThreshold(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['category-thresholds'] });
+      queryClient.invalidateQueries({ queryKey: ['low-stock'] });
+      success('Threshold removed');
+    },
+    onError: (err: Error) => {
+      error('Failed to remove threshold', err.message);
+    },
+  });
+};
@@ -0,0 +1,60 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+
+export type MemoryCategory = 'preference' | 'equipment' | 'skill' | 'safety' | 'project' | 'other';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['preference', 'equipment', 'skill', 'safety', 'project', 'other'];
+
+// A durable fact the assistant learned about the user in chat
+export interface Memory {
+  id: string;
+  content: string;
+  category: MemoryCategory;
+  source_message_id: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// Memory query hooks; `store` says whether mem0 or the local table backs them
+export const useMemories = () => {
+  return useQuery({
+    queryKey: ['memories'],
+    queryFn: async (): Promise<{ memories: Memory[]; store: 'local' | 'mem0' }> =>
+      unwrap(await api.getMemories()),
+  });
+};
+
+// Memory mutation hooks
+export const useUpdateMemory = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { content?: string; category?: MemoryCategory } }) =>
+      unwrap(await api.updateMemory(id, updates)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['memories'] });
+      success('Memory updated');
+    },
+    onError: (err: Error) => {
+      error('Failed to update memory', err.message);
+    },
+  });
+};
+
+export const useDeleteMemory = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteMemory(id)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['memories'] });
+      success('Memory forgotten');
+    },
+    onError: (err: Error) => {
+      error('Failed to forget memory', err.message);
+    },
+  });
+};
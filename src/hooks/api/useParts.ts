@@ -1,12 +1,46 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/lib/api';
+import { api, unwrap } from '@/lib/api';
+import { partMatchesMarking } from '@/lib/ocr';
 import { useToast } from '@/hooks/useToast';
+import { warnLowStock } from './useLowStock';
+
+export interface Part {
+  id: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  subcategory: string | null;
+  quantity: number;
+  reserved_quantity: number;
+  min_quantity: number | null;
+  location: string | null;
+  location_id: string | null;
+  source: string | null;
+  specs: Record<string, unknown>;
+  tags: string[];
+  images: string[];
+  pinout_diagram: string | null;
+  datasheet_url: string | null;
+  value_estimate: number | null;
+  is_available: boolean;
+  ai_identified: boolean;
+  original_device: string | null;
+  teardown_id: string | null;
+  compatible_with: string[];
+  notes: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
 
 // Parts query hooks
 export const useParts = (filters: {
   search?: string;
+  query?: string;
   category?: string;
   available?: boolean;
+  location_id?: string;
+  include_sublocations?: boolean;
   limit?: number;
   offset?: number;
 } = {}) => {
@@ -88,6 +122,35 @@ export const usePart = (id: string) => {
   });
 };
 
+export interface MarkingMatch {
+  id: string;
+  name: string;
+  quantity: number;
+  location: string | null;
+  metadata?: { part_number?: string | null } | null;
+}
+
+// Inventory parts whose name or part number carries one of the OCR'd markings
+export const useMarkingMatches = (markings: string[]) => {
+  return useQuery({
+    queryKey: ['parts', 'markings', markings],
+    queryFn: async (): Promise<MarkingMatch[]> => {
+      const matches = new Map<string, MarkingMatch>();
+
+      for (const marking of markings.slice(0, 5)) {
+        const { parts }: { parts: MarkingMatch[] } = unwrap(await api.getParts({ search: marking, limit: 10 }));
+        (parts || [])
+          .filter(part => partMatchesMarking(part, marking))
+          .forEach(part => matches.set(part.id, part));
+      }
+
+      return [...matches.values()];
+    },
+    enabled: markings.length > 0,
+    staleTime: 1000 * 30,
+  });
+};
+
 // Parts mutation hooks
 export const useCreatePart = () => {
   const queryClient = useQueryClient();
@@ -129,6 +192,12 @@ export const useCreatePart = () => {
       
       // Invalidate to trigger refetch
       queryClient.invalidateQueries({ queryKey: ['parts'] });
+      queryClient.invalidateQueries({ queryKey: ['low-stock'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      if (data.part?.teardown_id) {
+        queryClient.invalidateQueries({ queryKey: ['teardowns'] });
+        queryClient.invalidateQueries({ queryKey: ['teardown', data.part.teardown_id] });
+      }
       console.log('🔄 [useCreatePart] Invalidated parts queries');
       
       // Force immediate refetch with more aggressive timing
@@ -175,7 +244,7 @@ export const useCreatePart = () => {
 
 export const useUpdatePart = () => {
   const queryClient = useQueryClient();
-  const { success, error } = useToast();
+  const { success, error, warning } = useToast();
 
   return useMutation({
     mutationFn: ({ id, updates }: { id: string; updates: any }) => 
@@ -183,8 +252,11 @@ export const useUpdatePart = () => {
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['parts'] });
       queryClient.invalidateQueries({ queryKey: ['parts', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      queryClient.invalidateQueries({ queryKey: ['low-stock'] });
       queryClient.refetchQueries({ queryKey: ['parts'] });
       success('Part updated successfully');
+      warnLowStock(warning, data?.low_stock);
       return data;
     },
     onError: (err: Error) => {
@@ -207,6 +279,8 @@ export const useDeletePart = () => {
     mutationFn: api.deletePart,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['parts'] });
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      queryClient.invalidateQueries({ queryKey: ['low-stock'] });
       queryClient.refetchQueries({ queryKey: ['parts'] });
       success('Part deleted successfully');
     },
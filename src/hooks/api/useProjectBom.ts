@@ -0,0 +1,155 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+import { warnLowStock, LowStockItem } from './useLowStock';
+
+export type BomStatus = 'have' | 'short' | 'reserved' | 'consumed';
+
+export interface BomSubstitute {
+  id: string;
+  name: string;
+  available: number;
+}
+
+export interface BomLine {
+  id: string;
+  project_id: string;
+  part_id: string;
+  quantity: number;
+  reserved: number;
+  consumed: number;
+  substitutes: string[];
+  notes: string | null;
+  created_at: string;
+  part: {
+    id: string;
+    name: string;
+    category: string | null;
+    location: string | null;
+    quantity: number;
+    reserved_quantity: number;
+  } | null;
+  status: BomStatus;
+  outstanding: number;
+  available: number;
+  missing: number;
+  substitute_parts: BomSubstitute[];
+}
+
+export interface BomShortfall {
+  line_id: string;
+  part_id: string;
+  name: string;
+  outstanding: number;
+  available: number;
+  missing: number;
+  substitutes: BomSubstitute[];
+  covered_by_substitutes: boolean;
+}
+
+export interface BomReport {
+  lines: BomLine[];
+  shortfalls: BomShortfall[];
+  summary: Record<BomStatus, number> & { total: number; ready: boolean };
+}
+
+// Reservations change part availability, so the BOM, parts and projects move together
+const invalidateBom = (queryClient: ReturnType<typeof useQueryClient>, projectId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['project-bom', projectId] });
+  queryClient.invalidateQueries({ queryKey: ['projects'] });
+  queryClient.invalidateQueries({ queryKey: ['parts'] });
+};
+
+// Project BOM query hooks
+export const useProjectBom = (projectId: string) => {
+  return useQuery({
+    queryKey: ['project-bom', projectId],
+    queryFn: async (): Promise<BomReport> => unwrap(await api.getProjectBom(projectId)),
+    enabled: !!projectId,
+  });
+};
+
+// Project BOM mutation hooks
+export const useAddBomLine = (projectId: string) => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (line: { part_id: string; quantity?: number; substitutes?: string[]; notes?: string }) =>
+      unwrap(await api.addBomLine({ ...line, project_id: projectId })),
+    onSuccess: () => {
+      invalidateBom(queryClient, projectId);
+      success('Added to bill of materials');
+    },
+    onError: (err: Error) => {
+      error('Failed to add part', err.message);
+    },
+  });
+};
+
+export const useUpdateBomLine = (projectId: string) => {
+  const queryClient = useQueryClient();
+  const { error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: { quantity?: number; substitutes?: string[]; notes?: string | null } }) =>
+      unwrap(await api.updateBomLine(id, updates)),
+    onSuccess: () => {
+      invalidateBom(queryClient, projectId);
+    },
+    onError: (err: Error) => {
+      error('Failed to update BOM line', err.message);
+    },
+  });
+};
+
+export const useDeleteBomLine = (projectId: string) => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteBomLine(id)),
+    onSuccess: () => {
+      invalidateBom(queryClient, projectId);
+      success('Removed from bill of materials');
+    },
+    onError: (err: Error) => {
+      error('Failed to remove part', err.message);
+    },
+  });
+};
+
+export const useBomAction = (projectId: string) => {
+  const queryClient = useQueryClient();
+  const { success, error, warning } = useToast();
+
+  return useMutation({
+    mutationFn: async (action: 'reserve' | 'release' | 'build'): Promise<BomReport & { reserved?: number; low_stock?: LowStockItem[] }> =>
+      unwrap(await api.runBomAction(projectId, action)),
+    onSuccess: (data, action) => {
+      invalidateBom(queryClient, projectId);
+
+      if (action === 'reserve') {
+        success('Stock reserved', `${data.reserved || 0} units held for this project`);
+      } else if (action === 'release') {
+        success('Reservations released');
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+        queryClient.invalidateQueries({ queryKey: ['project-timeline', projectId] });
+        queryClient.invalidateQueries({ queryKey: ['low-stock'] });
+        success('Parts consumed', 'Stock taken from inventory for this build');
+        warnLowStock(warning, data.low_stock);
+      }
+
+      if (data.shortfalls.length > 0) {
+        warning(
+          `${data.shortfalls.length} parts still short`,
+          data.shortfalls.map(s => `${s.name}: need ${s.missing} more`).join(', ')
+        );
+      }
+    },
+    onError: (err: Error) => {
+      error('BOM action failed', err.message);
+    },
+  });
+};
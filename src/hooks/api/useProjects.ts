@@ -1,14 +1,70 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { api } from '@/lib/api';
+import { api, unwrap } from '@/lib/api';
 import { useToast } from '@/hooks/useToast';
+import { warnLowStock } from './useLowStock';
 
-// Projects query hooks
-export const useProjects = (filters: {
+export type ProjectStatus = 'idea' | 'planning' | 'building' | 'completed' | 'failed' | 'abandoned';
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['idea', 'planning', 'building', 'completed', 'failed', 'abandoned'];
+
+export interface Project {
+  id: string;
+  name: string;
+  description: string | null;
+  status: ProjectStatus;
+  difficulty_level: number | null;
+  danger_level: number | null;
+  fun_factor: number | null;
+  practicality: number | null;
+  parts_used: string[];
+  parts_consumed: string[];
+  instructions: string | null;
+  time_estimate: string | null;
+  actual_time: string | null;
+  actual_minutes: number;
+  date_started: string | null;
+  date_completed: string | null;
+  ai_generated: boolean;
+  notes: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BuildSession {
+  id: string;
+  project_id: string | null;
+  session_number: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  work_description: string | null;
+  parts_consumed: string[];
+  tools_used: string[];
+  issues_encountered: string[];
+  solutions_found: string[];
+  photos: string[];
+  mood: 'excited' | 'focused' | 'frustrated' | 'confused' | 'triumphant' | 'defeated' | 'drunk' | null;
+  notes: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+  // Joined when listing the sessions that consumed a part
+  project?: Pick<Project, 'id' | 'name' | 'status'> | null;
+}
+
+export interface ProjectFilters {
   search?: string;
   status?: string;
+  part_id?: string;
+  difficulty_level?: number;
+  max_danger_level?: number;
+  min_fun_factor?: number;
   limit?: number;
   offset?: number;
-} = {}) => {
+}
+
+// Projects query hooks
+export const useProjects = (filters: ProjectFilters = {}) => {
   return useQuery({
     queryKey: ['projects', filters],
     queryFn: () => api.getProjects(filters),
@@ -24,6 +80,139 @@ export const useProject = (id: string) => {
   });
 };
 
+// Build sessions query hooks
+export const useBuildSessions = (filters: {
+  project_id?: string;
+  part_id?: string;
+  limit?: number;
+  offset?: number;
+} = {}) => {
+  return useQuery({
+    queryKey: ['build-sessions', filters],
+    queryFn: () => api.getBuildSessions(filters),
+  });
+};
+
+export type TimelineEventType = 'status' | 'session' | 'photos' | 'stock';
+
+export interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  at: string;
+  title: string;
+  detail?: string | null;
+  from_status?: ProjectStatus | null;
+  to_status?: ProjectStatus;
+  session_id?: string;
+  end_time?: string | null;
+  minutes?: number | null;
+  mood?: string | null;
+  notes?: string | null;
+  issues?: string[];
+  solutions?: string[];
+  photos?: string[];
+  parts_consumed?: number;
+  outcome?: 'success' | 'fail';
+  part_id?: string;
+  delta?: number;
+  reason?: string;
+}
+
+export interface ProjectTimeline {
+  timeline: TimelineEvent[];
+  summary: {
+    sessions: number;
+    open_sessions: number;
+    actual_minutes: number;
+    actual_time: string | null;
+    issues: number;
+    solutions: number;
+    photos: number;
+  };
+}
+
+export const useProjectTimeline = (projectId: string) => {
+  return useQuery({
+    queryKey: ['project-timeline', projectId],
+    queryFn: async (): Promise<ProjectTimeline> => unwrap(await api.getProjectTimeline(projectId)),
+    enabled: !!projectId,
+  });
+};
+
+// Build sessions mutation hooks
+// Sessions consume stock and roll up into project time, so parts, ledgers,
+// BOMs and projects refresh with them
+const invalidateSessions = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['build-sessions'] });
+  queryClient.invalidateQueries({ queryKey: ['projects'] });
+  queryClient.invalidateQueries({ queryKey: ['project-timeline'] });
+  queryClient.invalidateQueries({ queryKey: ['parts'] });
+  queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+  queryClient.invalidateQueries({ queryKey: ['project-bom'] });
+  queryClient.invalidateQueries({ queryKey: ['low-stock'] });
+};
+
+type StockShortfall = { name: string; requested: number; available: number };
+
+const warnShortfalls = (warning: (title: string, message?: string) => void, shortfalls?: StockShortfall[]) => {
+  if (!shortfalls?.length) return;
+  warning(
+    'Not enough stock for every consumed part',
+    shortfalls.map(s => `${s.name}: needed ${s.requested}, had ${s.available}`).join(', ')
+  );
+};
+
+export const useCreateBuildSession = () => {
+  const queryClient = useQueryClient();
+  const { error, warning } = useToast();
+
+  return useMutation({
+    mutationFn: async (session: Record<string, unknown>) => unwrap(await api.createBuildSession(session)),
+    onSuccess: (data) => {
+      invalidateSessions(queryClient);
+      warnShortfalls(warning, data.stock?.shortfalls);
+      return data;
+    },
+    onError: (err: Error) => {
+      error('Failed to start build session', err.message);
+    },
+  });
+};
+
+export const useUpdateBuildSession = () => {
+  const queryClient = useQueryClient();
+  const { error, warning } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Record<string, unknown> }) =>
+      unwrap(await api.updateBuildSession(id, updates)),
+    onSuccess: (data) => {
+      invalidateSessions(queryClient);
+      warnShortfalls(warning, data.stock?.shortfalls);
+      warnLowStock(warning, data.stock?.low_stock);
+      return data;
+    },
+    onError: (err: Error) => {
+      error('Failed to save build session', err.message);
+    },
+  });
+};
+
+export const useDeleteBuildSession = () => {
+  const queryClient = useQueryClient();
+  const { error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteBuildSession(id)),
+    onSuccess: () => {
+      invalidateSessions(queryClient);
+    },
+    onError: (err: Error) => {
+      error('Failed to delete build session', err.message);
+    },
+  });
+};
+
 // Projects mutation hooks
 export const useCreateProject = () => {
   const queryClient = useQueryClient();
@@ -52,6 +241,7 @@ export const useUpdateProject = () => {
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ['projects'] });
       queryClient.invalidateQueries({ queryKey: ['projects', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['project-timeline', variables.id] });
       success('Project updated successfully');
       return data;
     },
@@ -61,6 +251,44 @@ export const useUpdateProject = () => {
   });
 };
 
+// Kanban drag: show the new column immediately, then let the server stamp the dates
+export const useMoveProject = () => {
+  const queryClient = useQueryClient();
+  const { success, error, warning } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ project, status }: { project: Project; status: ProjectStatus }) =>
+      unwrap(await api.updateProject(project.id, { ...project, status })),
+    onMutate: async ({ project, status }) => {
+      await queryClient.cancelQueries({ queryKey: ['projects'] });
+      const snapshot = queryClient.getQueriesData<{ projects?: Project[] }>({ queryKey: ['projects'] });
+
+      queryClient.setQueriesData<{ projects?: Project[] }>({ queryKey: ['projects'] }, (old) =>
+        old?.projects
+          ? { ...old, projects: old.projects.map(p => (p.id === project.id ? { ...p, status } : p)) }
+          : old
+      );
+
+      return { snapshot };
+    },
+    onSuccess: (data, { project, status }) => {
+      success(`${project.name} moved to ${status.toUpperCase()}`);
+      warnShortfalls(warning, data?.stock?.shortfalls);
+    },
+    onError: (err: Error, _variables, context) => {
+      context?.snapshot.forEach(([key, value]) => queryClient.setQueryData(key, value));
+      error('Failed to move project', err.message);
+    },
+    onSettled: (_data, _error, { project }) => {
+      queryClient.invalidateQueries({ queryKey: ['projects'] });
+      queryClient.invalidateQueries({ queryKey: ['project-timeline', project.id] });
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+      queryClient.invalidateQueries({ queryKey: ['low-stock'] });
+    },
+  });
+};
+
 export const useDeleteProject = () => {
   const queryClient = useQueryClient();
   const { success, error } = useToast();
@@ -0,0 +1,38 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+
+export interface UnparsedSpec {
+  part_id: string;
+  part_name: string;
+  key: string;
+  value: string;
+}
+
+export interface SpecNormalizationReport {
+  applied: boolean;
+  parts: number;
+  changed: number;
+  unchanged: number;
+  unparsed: UnparsedSpec[];
+}
+
+// Preview (apply: false) or run the bulk conversion of free-text specs
+export const useNormalizeSpecs = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (apply: boolean): Promise<SpecNormalizationReport> =>
+      unwrap(await api.normalizeSpecs(apply)),
+    onSuccess: (data) => {
+      if (data.applied) {
+        queryClient.invalidateQueries({ queryKey: ['parts'] });
+        success('Specs normalized', `${data.changed} parts updated, ${data.unparsed.length} values left as text`);
+      }
+    },
+    onError: (err: Error) => {
+      error('Spec normalization failed', err.message);
+    },
+  });
+};
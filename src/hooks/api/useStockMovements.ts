@@ -0,0 +1,92 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+import { warnLowStock } from './useLowStock';
+
+export type StockReason = 'salvaged' | 'consumed' | 'sold' | 'lost' | 'adjusted';
+
+export const STOCK_REASONS: StockReason[] = ['salvaged', 'consumed', 'sold', 'lost', 'adjusted'];
+
+export interface StockMovement {
+  id: string;
+  part_id: string;
+  delta: number;
+  reason: StockReason;
+  project_id: string | null;
+  build_session_id: string | null;
+  note: string | null;
+  created_at: string;
+  part?: { id: string; name: string } | null;
+  project?: { id: string; name: string } | null;
+}
+
+export interface StockMovementFilters {
+  part_id?: string;
+  project_id?: string;
+  build_session_id?: string;
+  reason?: StockReason;
+  limit?: number;
+  offset?: number;
+}
+
+// Quantities, location totals and ledgers all move together
+const invalidateStock = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['stock-movements'] });
+  queryClient.invalidateQueries({ queryKey: ['parts'] });
+  queryClient.invalidateQueries({ queryKey: ['locations'] });
+  queryClient.invalidateQueries({ queryKey: ['low-stock'] });
+};
+
+// Stock ledger query hooks
+export const useStockMovements = (filters: StockMovementFilters = {}) => {
+  return useQuery({
+    queryKey: ['stock-movements', filters],
+    queryFn: async (): Promise<{ movements: StockMovement[]; total: number }> =>
+      unwrap(await api.getStockMovements(filters)),
+  });
+};
+
+// Stock ledger mutation hooks
+export const useCreateStockMovement = () => {
+  const queryClient = useQueryClient();
+  const { success, error, warning } = useToast();
+
+  return useMutation({
+    mutationFn: async (movement: {
+      part_id: string;
+      delta: number;
+      reason: StockReason;
+      project_id?: string | null;
+      build_session_id?: string | null;
+      note?: string;
+    }) => unwrap(await api.createStockMovement(movement)),
+    onSuccess: (data, variables) => {
+      invalidateStock(queryClient);
+      success(
+        `${variables.delta > 0 ? '+' : ''}${variables.delta} ${variables.reason}`,
+        `Now ${data.part?.quantity} on hand`
+      );
+      warnLowStock(warning, data.low_stock);
+      return data;
+    },
+    onError: (err: Error) => {
+      error('Failed to record stock movement', err.message);
+    },
+  });
+};
+
+export const useDeleteStockMovement = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteStockMovement(id)),
+    onSuccess: () => {
+      invalidateStock(queryClient);
+      success('Stock movement reverted');
+    },
+    onError: (err: Error) => {
+      error('Failed to revert stock movement', err.message);
+    },
+  });
+};
@@ -0,0 +1,169 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+
+// One salvageable component on a teardown's checklist; `part_id` is set once it's harvested
+export interface TeardownChecklistItem {
+  name: string;
+  category: string | null;
+  quantity: number;
+  estimated_value: number | null;
+  notes: string | null;
+  harvested: boolean;
+  part_id: string | null;
+}
+
+export interface Teardown {
+  id: string;
+  device_name: string;
+  model: string | null;
+  manufacturer: string | null;
+  teardown_date: string;
+  photos: string[];
+  notes: string | null;
+  hazards: string[];
+  checklist: TeardownChecklistItem[];
+  metadata: { suggestion_confidence?: number; suggested_at?: string } | null;
+  created_at: string;
+  updated_at: string;
+  // Harvest so far, from the linked parts
+  parts: number;
+  units: number;
+  value: number;
+}
+
+export interface TeardownPart {
+  id: string;
+  name: string;
+  category: string | null;
+  quantity: number;
+  value_estimate: number | null;
+  images: string[];
+  is_available: boolean;
+  created_at: string;
+}
+
+export type TeardownInput = Pick<Teardown, 'device_name' | 'model' | 'manufacturer' | 'teardown_date' | 'photos' | 'notes' | 'hazards' | 'checklist'>;
+
+// "HP LaserJet 1020" + "Q5911A" → "HP LaserJet 1020 (Q5911A)", as stored on harvested parts
+export const teardownLabel = (teardown: Pick<Teardown, 'device_name' | 'model'>) =>
+  teardown.model ? `${teardown.device_name} (${teardown.model})` : teardown.device_name;
+
+// teardown_date is a plain date; parse it as local midnight so it doesn't shift a day
+export const formatTeardownDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+export const toTeardownInput = (teardown: Teardown): TeardownInput => ({
+  device_name: teardown.device_name,
+  model: teardown.model,
+  manufacturer: teardown.manufacturer,
+  teardown_date: teardown.teardown_date,
+  photos: teardown.photos || [],
+  notes: teardown.notes,
+  hazards: teardown.hazards || [],
+  checklist: teardown.checklist || []
+});
+
+const invalidateTeardowns = (queryClient: ReturnType<typeof useQueryClient>, id?: string) => {
+  queryClient.invalidateQueries({ queryKey: ['teardowns'] });
+  if (id) {
+    queryClient.invalidateQueries({ queryKey: ['teardown', id] });
+  }
+};
+
+// Teardowns query hooks
+export const useTeardowns = (search?: string) => {
+  return useQuery({
+    queryKey: ['teardowns', search || ''],
+    queryFn: async (): Promise<{ teardowns: Teardown[]; total: number }> =>
+      unwrap(await api.getTeardowns({ search })),
+  });
+};
+
+export const useTeardown = (id: string | undefined) => {
+  return useQuery({
+    queryKey: ['teardown', id],
+    queryFn: async (): Promise<{ teardown: Teardown; parts: TeardownPart[] }> => unwrap(await api.getTeardown(id!)),
+    enabled: !!id,
+  });
+};
+
+// Teardowns mutation hooks
+export const useCreateTeardown = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (teardown: TeardownInput): Promise<{ teardown: Teardown }> =>
+      unwrap(await api.createTeardown(teardown)),
+    onSuccess: (data) => {
+      invalidateTeardowns(queryClient);
+      success('Teardown logged', data.teardown?.device_name);
+      return data;
+    },
+    onError: (err: Error) => {
+      error('Failed to log teardown', err.message);
+    },
+  });
+};
+
+// `silent` skips the toast for small edits like ticking a checklist item
+export const useUpdateTeardown = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: TeardownInput; silent?: boolean }) =>
+      unwrap(await api.updateTeardown(id, updates)),
+    onSuccess: (data, { id, silent }) => {
+      invalidateTeardowns(queryClient, id);
+      // A renamed device renames original_device on its parts
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      if (!silent) {
+        success('Teardown updated');
+      }
+      return data;
+    },
+    onError: (err: Error) => {
+      error('Failed to update teardown', err.message);
+    },
+  });
+};
+
+export const useSuggestTeardownComponents = () => {
+  const queryClient = useQueryClient();
+  const { success, info, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<{ teardown: Teardown; added: number; confidence: number }> =>
+      unwrap(await api.suggestTeardownComponents(id)),
+    onSuccess: (data, id) => {
+      invalidateTeardowns(queryClient, id);
+      if (data.added > 0) {
+        success('Checklist updated', `${data.added} salvageable components suggested`);
+      } else {
+        info('Nothing new to suggest', 'The checklist already covers the usual components');
+      }
+    },
+    onError: (err: Error) => {
+      error('Failed to suggest components', err.message);
+    },
+  });
+};
+
+export const useDeleteTeardown = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => unwrap(await api.deleteTeardown(id)),
+    onSuccess: () => {
+      invalidateTeardowns(queryClient);
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      success('Teardown deleted', 'Its parts stay in your inventory');
+    },
+    onError: (err: Error) => {
+      error('Failed to delete teardown', err.message);
+    },
+  });
+};
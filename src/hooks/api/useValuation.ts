@@ -0,0 +1,169 @@
+import { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { api, unwrap } from '@/lib/api';
+import { useToast } from '@/hooks/useToast';
+
+export interface ValuationGroup {
+  key: string;
+  parts: number;
+  units: number;
+  value: number;
+  unvalued: number;
+}
+
+export interface TeardownYield extends ValuationGroup {
+  sources: string[];
+  first_salvaged: string;
+  last_salvaged: string;
+  top_parts: { id: string; name: string; value: number }[];
+}
+
+export interface UnvaluedPart {
+  id: string;
+  name: string;
+  category: string | null;
+  quantity: number;
+  original_device: string | null;
+  manufacturer: string | null;
+  part_number: string | null;
+}
+
+export interface ValuationReport {
+  totals: {
+    parts: number;
+    units: number;
+    value: number;
+    valued_parts: number;
+    unvalued_parts: number;
+    unvalued_units: number;
+  };
+  by_category: ValuationGroup[];
+  by_source: ValuationGroup[];
+  by_device: ValuationGroup[];
+  teardowns: TeardownYield[];
+  unvalued: UnvaluedPart[];
+  generated_at: string;
+}
+
+export type ValuationCsvView = 'parts' | 'category' | 'source' | 'device' | 'teardowns';
+
+export interface ValueProposal {
+  part: UnvaluedPart;
+  value_estimate: number | null;
+  confidence: number | null;
+  error?: string;
+}
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Valuation query hooks
+export const useValuation = () => {
+  return useQuery({
+    queryKey: ['valuation'],
+    queryFn: async (): Promise<ValuationReport> => unwrap(await api.getValuation()),
+  });
+};
+
+// Valuation mutation hooks
+export const useExportValuation = () => {
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ format, view = 'parts' }: { format: 'csv' | 'json'; view?: ValuationCsvView }) => {
+      if (format === 'csv') {
+        const data: { csv: string; filename: string } = unwrap(await api.getValuation({ format, view }));
+        download(data.csv, data.filename, 'text/csv;charset=utf-8');
+      } else {
+        const report: ValuationReport = unwrap(await api.getValuation());
+        download(JSON.stringify(report, null, 2), `valuation-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+      }
+    },
+    onSuccess: (_data, { format }) => {
+      success('Valuation exported', format.toUpperCase());
+    },
+    onError: (err: Error) => {
+      error('Failed to export valuation', err.message);
+    },
+  });
+};
+
+export const useApplyValueEstimates = () => {
+  const queryClient = useQueryClient();
+  const { success, error } = useToast();
+
+  return useMutation({
+    mutationFn: async (estimates: { part_id: string; value_estimate: number; confidence?: number | null }[]) =>
+      unwrap(await api.applyValueEstimates(estimates)),
+    onSuccess: (data: { total: number }) => {
+      queryClient.invalidateQueries({ queryKey: ['valuation'] });
+      queryClient.invalidateQueries({ queryKey: ['parts'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+      success('Value estimates saved', `${data.total} parts updated`);
+    },
+    onError: (err: Error) => {
+      error('Failed to save value estimates', err.message);
+    },
+  });
+};
+
+// Runs ai-research-part in quick mode for each part, one at a time, and
+// collects proposals for review before anything is written
+export const useBatchValueEstimate = () => {
+  const [proposals, setProposals] = useState<ValueProposal[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelled = useRef(false);
+
+  const run = async (parts: UnvaluedPart[]) => {
+    cancelled.current = false;
+    setIsRunning(true);
+    setProposals([]);
+    setProgress({ done: 0, total: parts.length });
+
+    for (const part of parts) {
+      if (cancelled.current) break;
+
+      const description = [part.manufacturer, part.part_number, part.name, part.category && `(${part.category})`]
+        .filter(Boolean)
+        .join(' ');
+
+      let proposal: ValueProposal;
+      try {
+        const response = await api.aiResearchPart({ description, mode: 'quick' });
+        const research = response.research || response.fallback;
+        const value = research?.estimated_value ?? research?.current_price_usd ?? null;
+        proposal = {
+          part,
+          value_estimate: typeof value === 'number' && value >= 0 ? value : null,
+          confidence: response.success ? research?.confidence ?? null : null,
+          error: response.success ? undefined : response.details || response.error
+        };
+      } catch (err) {
+        proposal = { part, value_estimate: null, confidence: null, error: err instanceof Error ? err.message : 'Research failed' };
+      }
+
+      setProposals(prev => [...prev, proposal]);
+      setProgress(prev => ({ ...prev, done: prev.done + 1 }));
+    }
+
+    setIsRunning(false);
+  };
+
+  const cancel = () => {
+    cancelled.current = true;
+  };
+
+  const reset = () => {
+    setProposals([]);
+    setProgress({ done: 0, total: 0 });
+  };
+
+  return { run, cancel, reset, proposals, progress, isRunning };
+};
@@ -17,7 +17,8 @@ export const useKeyboardShortcuts = (
   onOpenAddPart?: () => void,
   onOpenAddProject?: () => void,
   onOpenAIIdentifier?: () => void,
-  onOpenProjectGenerator?: () => void
+  onOpenProjectGenerator?: () => void,
+  onOpenScanner?: () => void
 ) => {
   const navigate = useNavigate();
 
@@ -126,6 +127,12 @@ export const useKeyboardShortcuts = (
       },
       description: 'Generate project ideas'
     },
+    {
+      key: 'b',
+      ctrlKey: true,
+      action: () => onOpenScanner?.(),
+      description: 'Scan a part or location label'
+    },
 
     // Global actions
     {
@@ -190,7 +197,7 @@ export const useKeyboardShortcuts = (
 
     document.addEventListener('keydown', handleKeyDown, { capture: true });
     return () => document.removeEventListener('keydown', handleKeyDown, { capture: true });
-  }, [shortcuts, navigate, onOpenCommandPalette, onOpenAddPart, onOpenAddProject, onOpenAIIdentifier, onOpenProjectGenerator]);
+  }, [shortcuts, navigate, onOpenCommandPalette, onOpenAddPart, onOpenAddProject, onOpenAIIdentifier, onOpenProjectGenerator, onOpenScanner]);
 
   // Return shortcuts for documentation/help purposes
   return {
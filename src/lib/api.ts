@@ -42,53 +42,7 @@ class APIClient {
     try {
       checkDevEnvironment();
 
-      const { data: { session }, error: sessionError } = await supabase.auth.getSession();
-      
-      if (sessionError) {
-        console.error('Session error:', sessionError);
-        await this.handleAuthFailure('Session error occurred');
-        throw new Error('Authentication session error - please login again');
-      }
-
-      if (!session?.access_token) {
-        console.error('No session or access token available');
-        await this.handleAuthFailure('No session available');
-        throw new Error('No authentication token available - please login again');
-      }
-
-      let currentToken = session.access_token;
-      
-      try {
-        const tokenPayload = JSON.parse(atob(currentToken.split('.')[1]));
-        const tokenExp = tokenPayload.exp * 1000;
-        const now = Date.now();
-        
-        if (tokenExp <= now || tokenExp - now < 5 * 60 * 1000) {
-          console.log(tokenExp <= now ? 'Token already expired, refreshing...' : 'Token expiring soon, refreshing...');
-          
-          const { data: { session: refreshedSession }, error: refreshError } = await supabase.auth.refreshSession();
-          
-          if (refreshError || !refreshedSession?.access_token) {
-            console.error('Token refresh failed:', refreshError);
-            await this.handleAuthFailure('Token refresh failed');
-            throw new Error('Token refresh failed - please login again');
-          }
-          
-          currentToken = refreshedSession.access_token;
-          console.log('Token refreshed successfully');
-        }
-        
-      } catch (tokenError) {
-        console.error('Token validation error:', tokenError);
-        if (tokenError.message?.includes('Invalid') || tokenError.name === 'SyntaxError') {
-          console.error('Token appears to be malformed or invalid');
-          await this.handleAuthFailure('Invalid token format');
-          throw new Error('Invalid authentication token - please login again');
-        }
-        console.warn('Token validation had issues but continuing with existing token');
-      }
-
-      const apiKeys = getStoredAPIKeys();
+      const currentToken = await this.getAccessToken();
       const baseUrl = import.meta.env.DEV ? '/.netlify/functions' : '/.netlify/functions';
       const fullUrl = `${baseUrl}/${endpoint}`;
       
@@ -97,11 +51,7 @@ class APIClient {
       const response = await fetch(fullUrl, {
         ...options,
         headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${currentToken}`,
-          'X-Anthropic-Key': apiKeys.anthropic || '',
-          'X-Mem0-Key': apiKeys.mem0 || '',
-          'X-Perplexity-Key': apiKeys.perplexity || '',
+          ...this.buildHeaders(currentToken),
           ...options.headers,
         },
       });
@@ -221,6 +171,68 @@ class APIClient {
     }
   }
 
+  // Current session token, refreshed when it expires within 5 minutes
+  private getAccessToken = async (): Promise<string> => {
+    const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+    
+    if (sessionError) {
+      console.error('Session error:', sessionError);
+      await this.handleAuthFailure('Session error occurred');
+      throw new Error('Authentication session error - please login again');
+    }
+
+    if (!session?.access_token) {
+      console.error('No session or access token available');
+      await this.handleAuthFailure('No session available');
+      throw new Error('No authentication token available - please login again');
+    }
+
+    let currentToken = session.access_token;
+    
+    try {
+      const tokenPayload = JSON.parse(atob(currentToken.split('.')[1]));
+      const tokenExp = tokenPayload.exp * 1000;
+      const now = Date.now();
+      
+      if (tokenExp <= now || tokenExp - now < 5 * 60 * 1000) {
+        console.log(tokenExp <= now ? 'Token already expired, refreshing...' : 'Token expiring soon, refreshing...');
+        
+        const { data: { session: refreshedSession }, error: refreshError } = await supabase.auth.refreshSession();
+        
+        if (refreshError || !refreshedSession?.access_token) {
+          console.error('Token refresh failed:', refreshError);
+          await this.handleAuthFailure('Token refresh failed');
+          throw new Error('Token refresh failed - please login again');
+        }
+        
+        currentToken = refreshedSession.access_token;
+        console.log('Token refreshed successfully');
+      }
+      
+    } catch (tokenError) {
+      console.error('Token validation error:', tokenError);
+      if (tokenError.message?.includes('Invalid') || tokenError.name === 'SyntaxError') {
+        console.error('Token appears to be malformed or invalid');
+        await this.handleAuthFailure('Invalid token format');
+        throw new Error('Invalid authentication token - please login again');
+      }
+      console.warn('Token validation had issues but continuing with existing token');
+    }
+
+    return currentToken;
+  }
+
+  private buildHeaders = (token: string): Record<string, string> => {
+    const apiKeys = getStoredAPIKeys();
+    return {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'X-Anthropic-Key': apiKeys.anthropic || '',
+      'X-Mem0-Key': apiKeys.mem0 || '',
+      'X-Perplexity-Key': apiKeys.perplexity || '',
+    };
+  }
+
   private handleAuthFailure = async (reason: string) => {
     console.error('Handling auth failure:', reason);
     
@@ -244,11 +256,13 @@ class APIClient {
     mode: 'research' | 'quick';
     context?: any;
     imageUrl?: string;
+    images?: { url: string; angle?: string }[];
+    candidate_count?: number;
   }) => {
     console.log('🔍 Making AI research request:', { 
       description: body.description?.substring(0, 100), 
       mode: body.mode,
-      hasImage: !!body.imageUrl 
+      images: body.images?.length ?? (body.imageUrl ? 1 : 0)
     });
     return this.makeRequest('ai-research-part', {
       method: 'POST',
@@ -256,6 +270,19 @@ class APIClient {
     });
   }
 
+  resolveIdentification = async (id: string, outcome: {
+    outcome: 'confirmed' | 'rejected';
+    chosen_index?: number | null;
+    part_id?: string | null;
+    notes?: string | null;
+  }) => {
+    return this.makeRequest(`identifications-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(outcome),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
   // AI Project Generator
   aiGenerateProject = async (body: {
     selected_parts?: string[];
@@ -282,11 +309,172 @@ class APIClient {
     });
   }
 
+  // Streaming AI chat: onDelta receives the reply as it's generated, the promise
+  // resolves once the reply is saved. Aborting the signal stops generation.
+  aiChatStream = async (body: {
+    message: string;
+    conversation_id?: string;
+    context?: Record<string, unknown>;
+  }, handlers: {
+    onStart?: (conversationId: string) => void;
+    onDelta: (text: string) => void;
+    signal?: AbortSignal;
+  }): Promise<{
+    message: string;
+    conversation_id: string;
+    message_id: string;
+    title?: string;
+    actions: {
+      id: string;
+      tool: string;
+      input: Record<string, unknown>;
+      summary: string;
+      status: 'executed' | 'pending' | 'running' | 'rejected' | 'failed';
+      result?: unknown;
+      error?: string;
+    }[];
+    context?: {
+      parts_referenced?: number;
+      projects_referenced?: number;
+      memories_referenced?: number;
+      records?: {
+        type: 'part' | 'project' | 'session';
+        id: string;
+        name: string;
+        reason: 'match' | 'recent';
+        project_id?: string | null;
+      }[];
+    };
+  }> => {
+    checkDevEnvironment();
+
+    const token = await this.getAccessToken();
+    const response = await fetch('/.netlify/functions/ai-chat-stream', {
+      method: 'POST',
+      headers: this.buildHeaders(token),
+      body: JSON.stringify(body),
+      signal: handlers.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      console.error(`❌ [ai-chat-stream] API Error ${response.status}:`, errorText);
+      let errorJson: { error?: string; details?: string } = {};
+      try {
+        errorJson = JSON.parse(errorText);
+      } catch {
+        // Not JSON, fall through to the status message
+      }
+      throw new Error(errorJson.error || `Request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const event = raw.match(/^event: (.*)$/m)?.[1];
+        const data = raw.match(/^data: (.*)$/m)?.[1];
+        if (!event || !data) continue;
+        const payload = JSON.parse(data);
+
+        if (event === 'start') handlers.onStart?.(payload.conversation_id);
+        if (event === 'delta') handlers.onDelta(payload.text);
+        if (event === 'error') throw new Error(payload.details || payload.error);
+        if (event === 'done') {
+          console.log('✅ [ai-chat-stream] Reply complete');
+          return payload;
+        }
+      }
+    }
+
+    throw new Error('Chat stream ended before the reply was complete');
+  }
+
+  // Confirm or reject an action the assistant proposed in a chat message
+  resolveChatAction = async (messageId: string, actionId: string, decision: 'confirm' | 'reject') => {
+    return this.makeRequest(`chat-actions/${messageId}`, {
+      method: 'POST',
+      body: JSON.stringify({ action_id: actionId, decision }),
+      headers: { 'x-http-method': 'POST' }
+    });
+  }
+
+  // Conversations API
+  getConversations = async (filters: { search?: string; archived?: boolean; limit?: number; offset?: number } = {}) => {
+    return this.makeRequest('conversations-crud', {
+      method: 'POST',
+      body: JSON.stringify(filters),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  // One page of messages, oldest first; pass `before` to load the page before it
+  getChatMessages = async (conversationId: string, page: { before?: string; limit?: number } = {}) => {
+    return this.makeRequest(`conversations-crud/${conversationId}`, {
+      method: 'POST',
+      body: JSON.stringify(page),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  updateConversation = async (id: string, updates: { title?: string; pinned?: boolean; archived?: boolean }) => {
+    return this.makeRequest(`conversations-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(updates),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
+  deleteConversation = async (id: string) => {
+    return this.makeRequest(`conversations-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
+
+  // Assistant memory API
+  getMemories = async () => {
+    return this.makeRequest('memories-crud', {
+      method: 'POST',
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  updateMemory = async (id: string, updates: { content?: string; category?: string }) => {
+    return this.makeRequest(`memories-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(updates),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
+  deleteMemory = async (id: string) => {
+    return this.makeRequest(`memories-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
+
   // Parts API
   getParts = async (filters: {
     search?: string;
+    query?: string;
     category?: string;
     available?: boolean;
+    location_id?: string;
+    teardown_id?: string;
+    include_sublocations?: boolean;
     limit?: number;
     offset?: number;
   } = {}) => {
@@ -331,10 +519,133 @@ class APIClient {
     });
   }
 
+  // Locations API
+  getLocations = async () => {
+    return this.makeRequest('locations-crud', {
+      method: 'POST',
+      body: JSON.stringify({}),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  createLocation = async (location: {
+    name: string;
+    parent_id?: string | null;
+    kind?: string;
+    description?: string;
+  }) => {
+    return this.makeRequest('locations-crud', {
+      method: 'POST',
+      body: JSON.stringify(location)
+    });
+  }
+
+  updateLocation = async (id: string, updates: {
+    name: string;
+    parent_id?: string | null;
+    kind?: string;
+    description?: string;
+  }) => {
+    return this.makeRequest(`locations-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(updates),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
+  deleteLocation = async (id: string) => {
+    return this.makeRequest(`locations-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
+
+  // Teardowns API
+  getTeardowns = async (filters: { search?: string; limit?: number; offset?: number } = {}) => {
+    return this.makeRequest('teardowns-crud', {
+      method: 'POST',
+      body: JSON.stringify(filters),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  getTeardown = async (id: string) => {
+    return this.makeRequest(`teardowns-crud/${id}`, {
+      method: 'GET'
+    });
+  }
+
+  createTeardown = async (teardown: {
+    device_name: string;
+    model?: string | null;
+    manufacturer?: string | null;
+    teardown_date?: string;
+    photos?: string[];
+    notes?: string | null;
+    hazards?: string[];
+    checklist?: {
+      name: string;
+      category: string | null;
+      quantity: number;
+      estimated_value: number | null;
+      notes: string | null;
+      harvested: boolean;
+      part_id: string | null;
+    }[];
+  }) => {
+    return this.makeRequest('teardowns-crud', {
+      method: 'POST',
+      body: JSON.stringify(teardown)
+    });
+  }
+
+  updateTeardown = async (id: string, updates: {
+    device_name: string;
+    model?: string | null;
+    manufacturer?: string | null;
+    teardown_date?: string;
+    photos?: string[];
+    notes?: string | null;
+    hazards?: string[];
+    checklist?: {
+      name: string;
+      category: string | null;
+      quantity: number;
+      estimated_value: number | null;
+      notes: string | null;
+      harvested: boolean;
+      part_id: string | null;
+    }[];
+  }) => {
+    return this.makeRequest(`teardowns-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(updates),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
+  suggestTeardownComponents = async (id: string) => {
+    return this.makeRequest(`teardowns-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify({ action: 'suggest' })
+    });
+  }
+
+  deleteTeardown = async (id: string) => {
+    return this.makeRequest(`teardowns-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
+
   // Projects API
   getProjects = async (filters: {
     search?: string;
     status?: string;
+    part_id?: string;
+    difficulty_level?: number;
+    max_danger_level?: number;
+    min_fun_factor?: number;
     limit?: number;
     offset?: number;
   } = {}) => {
@@ -376,6 +687,7 @@ class APIClient {
   // Build Sessions API
   getBuildSessions = async (filters: {
     project_id?: string;
+    part_id?: string;
     limit?: number;
     offset?: number;
   } = {}) => {
@@ -392,6 +704,188 @@ class APIClient {
       body: JSON.stringify(session)
     });
   }
+
+  updateBuildSession = async (id: string, updates: Record<string, unknown>) => {
+    return this.makeRequest(`build-sessions-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(updates),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
+  deleteBuildSession = async (id: string) => {
+    return this.makeRequest(`build-sessions-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
+
+  getProjectTimeline = async (projectId: string) => {
+    return this.makeRequest('project-timeline', {
+      method: 'POST',
+      body: JSON.stringify({ project_id: projectId }),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  // Stock ledger API
+  getStockMovements = async (filters: {
+    part_id?: string;
+    project_id?: string;
+    build_session_id?: string;
+    reason?: string;
+    limit?: number;
+    offset?: number;
+  } = {}) => {
+    return this.makeRequest('stock-movements-crud', {
+      method: 'POST',
+      body: JSON.stringify(filters),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  createStockMovement = async (movement: {
+    part_id: string;
+    delta: number;
+    reason: string;
+    project_id?: string | null;
+    build_session_id?: string | null;
+    note?: string;
+  }) => {
+    return this.makeRequest('stock-movements-crud', {
+      method: 'POST',
+      body: JSON.stringify(movement)
+    });
+  }
+
+  deleteStockMovement = async (id: string) => {
+    return this.makeRequest(`stock-movements-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
+
+  // Project BOM API
+  getProjectBom = async (projectId: string) => {
+    return this.makeRequest('project-parts-crud', {
+      method: 'POST',
+      body: JSON.stringify({ project_id: projectId }),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  addBomLine = async (line: {
+    project_id: string;
+    part_id: string;
+    quantity?: number;
+    substitutes?: string[];
+    notes?: string;
+  }) => {
+    return this.makeRequest('project-parts-crud', {
+      method: 'POST',
+      body: JSON.stringify(line)
+    });
+  }
+
+  updateBomLine = async (id: string, updates: {
+    quantity?: number;
+    substitutes?: string[];
+    notes?: string | null;
+  }) => {
+    return this.makeRequest(`project-parts-crud/${id}`, {
+      method: 'POST',
+      body: JSON.stringify(updates),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
+  deleteBomLine = async (id: string) => {
+    return this.makeRequest(`project-parts-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
+
+  runBomAction = async (projectId: string, action: 'reserve' | 'release' | 'build') => {
+    return this.makeRequest('project-parts-crud', {
+      method: 'POST',
+      body: JSON.stringify({ project_id: projectId, action })
+    });
+  }
+
+  // Analytics API
+  getAnalytics = async (months = 12) => {
+    return this.makeRequest('analytics', {
+      method: 'POST',
+      body: JSON.stringify({ months }),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  // Valuation API
+  getValuation = async (options: { format?: 'json' | 'csv'; view?: string } = {}) => {
+    return this.makeRequest('valuation-report', {
+      method: 'POST',
+      body: JSON.stringify(options),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  applyValueEstimates = async (estimates: { part_id: string; value_estimate: number; confidence?: number | null }[]) => {
+    return this.makeRequest('valuation-report', {
+      method: 'POST',
+      body: JSON.stringify({ estimates }),
+      headers: { 'x-http-method': 'PUT' }
+    });
+  }
+
+  // Spec normalization API: GET previews, POST converts every part's specs
+  normalizeSpecs = async (apply: boolean) => {
+    return this.makeRequest('specs-normalize', {
+      method: 'POST',
+      body: JSON.stringify({}),
+      headers: { 'x-http-method': apply ? 'POST' : 'GET' }
+    });
+  }
+
+  // Low stock API
+  getLowStock = async (format?: 'json' | 'csv') => {
+    return this.makeRequest('low-stock-check', {
+      method: 'POST',
+      body: JSON.stringify({ format }),
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  getCategoryThresholds = async () => {
+    return this.makeRequest('category-thresholds-crud', {
+      method: 'POST',
+      headers: { 'x-http-method': 'GET' }
+    });
+  }
+
+  saveCategoryThreshold = async (threshold: { category: string; min_quantity: number }) => {
+    return this.makeRequest('category-thresholds-crud', {
+      method: 'POST',
+      body: JSON.stringify(threshold)
+    });
+  }
+
+  deleteCategoryThreshold = async (id: string) => {
+    return this.makeRequest(`category-thresholds-crud/${id}`, {
+      method: 'POST',
+      headers: { 'x-http-method': 'DELETE' }
+    });
+  }
 }
 
-export const api = new APIClient();
\ No newline at end of file
+export const api = new APIClient();
+
+// Functions report failures in the body ({ error, details }), not the status code
+export const unwrap = <T extends { error?: string; details?: string[] | string }>(result: T): T => {
+  if (result?.error) {
+    const details = Array.isArray(result.details) ? result.details.join(', ') : result.details;
+    throw new Error(details || result.error);
+  }
+  return result;
+};
\ No newline at end of file
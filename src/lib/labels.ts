@@ -0,0 +1,278 @@
+import QRCode from 'qrcode';
+import { formatSpecValue } from '@/lib/utils';
+import type { Part } from '@/hooks/api/useParts';
+
+// Printable label sheets, rendered entirely in the browser as SVG.
+// All geometry is in inches; each page is one <svg> sized to the paper.
+
+export interface LabelLayout {
+  id: string;
+  name: string;
+  paper: { width: number; height: number; name: 'letter' | 'A4' };
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  pitchX: number; // distance between the left edges of neighbouring labels
+  pitchY: number;
+}
+
+const LETTER = { width: 8.5, height: 11, name: 'letter' as const };
+const A4 = { width: 8.2677, height: 11.6929, name: 'A4' as const };
+
+export const LABEL_LAYOUTS: LabelLayout[] = [
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160 • 1" × 2⅝" • 30/sheet',
+    paper: LETTER,
+    columns: 3, rows: 10,
+    labelWidth: 2.625, labelHeight: 1,
+    marginTop: 0.5, marginLeft: 0.1875,
+    pitchX: 2.75, pitchY: 1
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163 • 2" × 4" • 10/sheet',
+    paper: LETTER,
+    columns: 2, rows: 5,
+    labelWidth: 4, labelHeight: 2,
+    marginTop: 0.5, marginLeft: 0.15625,
+    pitchX: 4.1875, pitchY: 2
+  },
+  {
+    id: 'avery-5167',
+    name: 'Avery 5167 • ½" × 1¾" • 80/sheet',
+    paper: LETTER,
+    columns: 4, rows: 20,
+    labelWidth: 1.75, labelHeight: 0.5,
+    marginTop: 0.5, marginLeft: 0.28125,
+    pitchX: 2.03125, pitchY: 0.5
+  },
+  {
+    id: 'avery-22806',
+    name: 'Avery 22806 • 2" × 2" square • 12/sheet',
+    paper: LETTER,
+    columns: 3, rows: 4,
+    labelWidth: 2, labelHeight: 2,
+    marginTop: 0.625, marginLeft: 0.625,
+    pitchX: 2.625, pitchY: 2.5
+  },
+  {
+    id: 'avery-l7160',
+    name: 'Avery L7160 (A4) • 38.1 × 63.5 mm • 21/sheet',
+    paper: A4,
+    columns: 3, rows: 7,
+    labelWidth: 2.5, labelHeight: 1.5,
+    marginTop: 0.5965, marginLeft: 0.2835,
+    pitchX: 2.6, pitchY: 1.5
+  }
+];
+
+export interface LabelItem {
+  id: string;
+  kind: 'part' | 'location';
+  title: string;
+  subtitle?: string;
+  details: string[];
+  quantity?: number;
+  url: string;
+}
+
+export interface LabelSheetOptions {
+  skip?: number; // labels already used on the first sheet
+  copies?: number;
+  showDetails?: boolean;
+  showBorder?: boolean; // outline each label, handy for test prints on plain paper
+}
+
+// Deep links encoded in the QR codes
+export const getPartUrl = (id: string) => `${window.location.origin}/parts/${id}`;
+export const getLocationUrl = (id: string) => `${window.location.origin}/locations/${id}`;
+
+export const partToLabel = (part: Part): LabelItem => {
+  const specs = part.specs && typeof part.specs === 'object' ? Object.entries(part.specs) : [];
+  const details = [
+    part.metadata?.part_number && `P/N ${part.metadata.part_number}`,
+    ...specs
+      .filter(([, value]) => value !== null && value !== '' && typeof value !== 'boolean')
+      .slice(0, 3)
+      .map(([key, value]) => `${key.replace(/_/g, ' ')}: ${formatSpecValue(value)}`)
+  ].filter(Boolean) as string[];
+
+  return {
+    id: part.id,
+    kind: 'part',
+    title: part.name,
+    subtitle: [part.category, part.location].filter(Boolean).join(' • ') || undefined,
+    details,
+    quantity: part.quantity,
+    url: getPartUrl(part.id)
+  };
+};
+
+export const locationToLabel = (location: {
+  id: string;
+  name: string;
+  kind?: string;
+  path?: string;
+  description?: string | null;
+  total_part_count?: number;
+}): LabelItem => ({
+  id: location.id,
+  kind: 'location',
+  title: location.name,
+  subtitle: location.path && location.path !== location.name ? location.path : location.kind?.toUpperCase(),
+  details: location.description ? [location.description] : [],
+  url: getLocationUrl(location.id)
+});
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[char]!));
+
+// Monospace glyphs are ~0.6em wide, so truncation by character count is reliable
+const fitText = (text: string, width: number, fontSize: number) => {
+  const maxChars = Math.max(4, Math.floor(width / (fontSize * 0.6)));
+  return text.length > maxChars ? text.slice(0, maxChars - 1) + '…' : text;
+};
+
+// QR modules as a single path in a unit box of `size` modules
+const qrPath = (text: string): { d: string; size: number } => {
+  const qr = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const size = qr.modules.size;
+  const data = qr.modules.data;
+  let d = '';
+
+  for (let y = 0; y < size; y++) {
+    let runStart = -1;
+    for (let x = 0; x <= size; x++) {
+      const dark = x < size && data[y * size + x];
+      if (dark && runStart < 0) runStart = x;
+      if (!dark && runStart >= 0) {
+        d += `M${runStart} ${y}h${x - runStart}v1h${runStart - x}z`;
+        runStart = -1;
+      }
+    }
+  }
+
+  return { d, size };
+};
+
+const renderLabel = (item: LabelItem, layout: LabelLayout, x: number, y: number, options: LabelSheetOptions): string => {
+  const { labelWidth: w, labelHeight: h } = layout;
+  const pad = Math.min(0.08, h * 0.1);
+  const qrSize = Math.min(h - pad * 2, w * 0.45);
+  const qr = qrPath(item.url);
+  const quiet = 1; // modules of white border kept inside qrSize
+  const scale = qrSize / (qr.size + quiet * 2);
+
+  const textX = x + pad + qrSize + pad;
+  const textWidth = w - (textX - x) - pad;
+  const titleSize = Math.min(0.16, Math.max(0.07, h * 0.16));
+  const bodySize = titleSize * 0.72;
+  const lineGap = 1.25;
+
+  const parts: string[] = [];
+
+  if (options.showBorder) {
+    parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="0.06" fill="none" stroke="#bbb" stroke-width="0.01"/>`);
+  }
+
+  parts.push(
+    `<path transform="translate(${x + pad + quiet * scale} ${y + (h - qrSize) / 2 + quiet * scale}) scale(${scale})" d="${qr.d}" fill="#000"/>`
+  );
+
+  const lines: { text: string; size: number; weight: string }[] = [
+    { text: item.title, size: titleSize, weight: 'bold' }
+  ];
+  if (item.subtitle) lines.push({ text: item.subtitle, size: bodySize, weight: 'normal' });
+  if (item.quantity !== undefined && item.quantity !== null) {
+    lines.push({ text: `QTY ${item.quantity}`, size: bodySize, weight: 'bold' });
+  }
+  if (options.showDetails !== false) {
+    item.details.forEach(detail => lines.push({ text: detail, size: bodySize, weight: 'normal' }));
+  }
+
+  let cursorY = y + pad;
+  for (const line of lines) {
+    const lineHeight = line.size * lineGap;
+    if (cursorY + lineHeight > y + h - pad * 0.5) break;
+    cursorY += line.size;
+    parts.push(
+      `<text x="${textX}" y="${cursorY}" font-size="${line.size}" font-weight="${line.weight}">${escapeXml(fitText(line.text, textWidth, line.size))}</text>`
+    );
+    cursorY += line.size * (lineGap - 1);
+  }
+
+  return parts.join('');
+};
+
+// One SVG string per page
+export const buildLabelSheets = (items: LabelItem[], layout: LabelLayout, options: LabelSheetOptions = {}): string[] => {
+  const perPage = layout.columns * layout.rows;
+  const skip = Math.min(Math.max(options.skip || 0, 0), perPage - 1);
+  const copies = Math.max(options.copies || 1, 1);
+  const queue = items.flatMap(item => Array.from({ length: copies }, () => item));
+
+  const pages: string[] = [];
+  let slot = skip;
+  let current: string[] = [];
+
+  const flush = () => {
+    const { width, height } = layout.paper;
+    pages.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}in" height="${height}in" viewBox="0 0 ${width} ${height}" font-family="'Courier New', monospace">` +
+      `<rect width="${width}" height="${height}" fill="#fff"/>${current.join('')}</svg>`
+    );
+    current = [];
+  };
+
+  queue.forEach(item => {
+    const column = slot % layout.columns;
+    const row = Math.floor(slot / layout.columns);
+    const x = layout.marginLeft + column * layout.pitchX;
+    const y = layout.marginTop + row * layout.pitchY;
+    current.push(renderLabel(item, layout, x, y, options));
+
+    slot++;
+    if (slot === perPage) {
+      flush();
+      slot = 0;
+    }
+  });
+
+  if (current.length > 0) flush();
+  return pages;
+};
+
+// Opens the browser print dialog (which also offers "Save as PDF")
+export const printLabelSheets = (pages: string[], layout: LabelLayout): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.write(`<!DOCTYPE html><html><head><title>Labels</title><style>
+    @page { size: ${layout.paper.name}; margin: 0; }
+    html, body { margin: 0; padding: 0; }
+    .page { page-break-after: always; break-after: page; }
+    .page:last-child { page-break-after: auto; break-after: auto; }
+    svg { display: block; }
+  </style></head><body>${pages.map(page => `<div class="page">${page}</div>`).join('')}</body></html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the new window a moment to lay out the SVGs before printing
+  setTimeout(() => printWindow.print(), 300);
+  return true;
+};
+
+export const downloadLabelSheets = (pages: string[], baseName = 'labels') => {
+  pages.forEach((page, index) => {
+    const blob = new Blob([page], { type: 'image/svg+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = pages.length > 1 ? `${baseName}-page-${index + 1}.svg` : `${baseName}.svg`;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+};
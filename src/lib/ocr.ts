@@ -0,0 +1,87 @@
+import { createWorker, PSM } from 'tesseract.js';
+import type { Worker as OcrWorker } from 'tesseract.js';
+
+// In-browser OCR of component top markings ("NE555P", "78L05") for the AI identifier.
+// Runs on the device before any AI call. The worker, WASM core and English model are
+// served by the app from /tesseract (copied there on install), so it works offline.
+
+// Markings are part numbers and date codes; anything else is logo or silkscreen noise
+const MARKING_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789-./+';
+
+let workerPromise: Promise<OcrWorker> | null = null;
+
+// Absolute URLs: the worker starts from a blob URL, where relative paths don't resolve
+const assetUrl = (path: string) => new URL(`${import.meta.env.BASE_URL}tesseract/${path}`, window.location.origin).href;
+
+const getWorker = () => {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', undefined, {
+      workerPath: assetUrl('worker.min.js'),
+      corePath: assetUrl('core'),
+      langPath: assetUrl('lang')
+    })
+      .then(async (worker) => {
+        await worker.setParameters({
+          tessedit_char_whitelist: MARKING_CHARS,
+          tessedit_pageseg_mode: PSM.SPARSE_TEXT
+        });
+        return worker;
+      })
+      .catch((error) => {
+        workerPromise = null;
+        throw error;
+      });
+  }
+  return workerPromise;
+};
+
+// Tokens of 3+ characters containing a digit, e.g. "2N2222A" or "LM317T";
+// single letters and words like "MADE" or "JAPAN" are dropped
+export const extractMarkings = (text: string): string[] => {
+  const tokens = text
+    .toUpperCase()
+    .split(/\s+/)
+    .map(token => token.replace(/^[^A-Z0-9]+|[^A-Z0-9]+$/g, ''))
+    .filter(token => token.length >= 3 && /\d/.test(token) && /[A-Z0-9]{3}/.test(token));
+
+  return [...new Set(tokens)];
+};
+
+// Read every photo in turn on one worker and merge what they show
+export const readMarkings = async (images: string[]): Promise<string[]> => {
+  const worker = await getWorker();
+  const markings: string[] = [];
+
+  for (const image of images) {
+    const { data } = await worker.recognize(image);
+    markings.push(...extractMarkings(data.text));
+  }
+
+  return [...new Set(markings)];
+};
+
+// "NE555P, 78L05" or one per line → ["NE555P", "78L05"]
+export const parseMarkings = (value: string): string[] =>
+  [...new Set(value.split(/[\s,;]+/).map(marking => marking.trim().toUpperCase()).filter(marking => marking.length >= 3))];
+
+const normalize = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// A part matches when its name or part number contains the marking, or when the
+// marking is its part number plus a package / date suffix ("NE555P" for "NE555")
+export const partMatchesMarking = (
+  part: { name: string; metadata?: { part_number?: string | null } | null },
+  marking: string
+) => {
+  const target = normalize(marking);
+  if (target.length < 3) {
+    return false;
+  }
+
+  const partNumber = normalize(part.metadata?.part_number || '');
+  return normalize(part.name).includes(target)
+    || (partNumber.length > 0 && partNumber.includes(target))
+    || (partNumber.length >= 4 && target.startsWith(partNumber));
+};
+
+export const isOcrAvailable = () =>
+  typeof window !== 'undefined' && typeof Worker !== 'undefined' && typeof WebAssembly !== 'undefined';
@@ -0,0 +1,314 @@
+// Deterministic decoding of passive component markings: resistor colour bands,
+// SMD resistor codes (3/4-digit, R-notation, EIA-96), ceramic capacitor codes and
+// inductor codes. No AI involved; a decoded value maps straight onto a part.
+
+export type PassiveKind = 'resistor' | 'capacitor' | 'inductor';
+
+export type BandColor =
+  | 'black' | 'brown' | 'red' | 'orange' | 'yellow' | 'green' | 'blue'
+  | 'violet' | 'grey' | 'white' | 'gold' | 'silver' | 'none';
+
+export interface DecodedPassive {
+  kind: PassiveKind;
+  // Human name of the marking scheme, e.g. "4-band", "EIA-96", "3-digit code"
+  format: string;
+  code: string;
+  // Base units: ohms, farads or henries
+  value: number;
+  unit: 'Ω' | 'F' | 'H';
+  tolerance: string | null;
+  temperature_coefficient: string | null;
+  smd: boolean;
+}
+
+export interface PassiveDecodeResult {
+  valid: boolean;
+  error?: string;
+  passive?: DecodedPassive;
+  // Set when the marking could also be read another way
+  note?: string;
+}
+
+const DIGIT_COLORS: BandColor[] = ['black', 'brown', 'red', 'orange', 'yellow', 'green', 'blue', 'violet', 'grey', 'white'];
+
+export const BAND_COLORS: BandColor[] = [...DIGIT_COLORS, 'gold', 'silver', 'none'];
+
+const MULTIPLIERS: Partial<Record<BandColor, number>> = {
+  black: 1, brown: 10, red: 100, orange: 1e3, yellow: 1e4, green: 1e5,
+  blue: 1e6, violet: 1e7, grey: 1e8, white: 1e9, gold: 0.1, silver: 0.01
+};
+
+const BAND_TOLERANCES: Partial<Record<BandColor, number>> = {
+  brown: 1, red: 2, orange: 0.05, yellow: 0.02, green: 0.5, blue: 0.25,
+  violet: 0.1, grey: 0.01, gold: 5, silver: 10, none: 20
+};
+
+const TEMPCOS: Partial<Record<BandColor, number>> = {
+  black: 250, brown: 100, red: 50, orange: 15, yellow: 25, green: 20, blue: 10, violet: 5, grey: 1
+};
+
+// EIA-96 value codes 01-96, in order
+const EIA96_VALUES = [
+  100, 102, 105, 107, 110, 113, 115, 118, 121, 124, 127, 130, 133, 137, 140, 143,
+  147, 150, 154, 158, 162, 165, 169, 174, 178, 182, 187, 191, 196, 200, 205, 210,
+  215, 221, 226, 232, 237, 243, 249, 255, 261, 267, 274, 280, 287, 294, 301, 309,
+  316, 324, 332, 340, 348, 357, 365, 374, 383, 392, 402, 412, 422, 432, 442, 453,
+  464, 475, 487, 499, 511, 523, 536, 549, 562, 576, 590, 604, 619, 634, 649, 665,
+  681, 698, 715, 732, 750, 768, 787, 806, 825, 845, 866, 887, 909, 931, 953, 976
+];
+
+const EIA96_MULTIPLIERS: Record<string, number> = {
+  Z: 0.001, Y: 0.01, R: 0.01, X: 0.1, S: 0.1, A: 1, B: 10, H: 10, C: 100, D: 1e3, E: 1e4, F: 1e5
+};
+
+// Letter suffixes on capacitor and inductor codes ("223J"); B/C/D are absolute, in pF
+const LETTER_TOLERANCES: Record<string, string> = {
+  B: '±0.1pF', C: '±0.25pF', D: '±0.5pF', F: '±1%', G: '±2%', J: '±5%', K: '±10%', M: '±20%', Z: '+80/-20%'
+};
+
+const percent = (value: number) => `±${value}%`;
+
+// Floating point noise from the multipliers: 4.7 * 1e3 → 4700.000000000001
+const clean = (value: number) => Number(value.toPrecision(6));
+
+const invalid = (error: string): PassiveDecodeResult => ({ valid: false, error });
+
+const result = (passive: DecodedPassive, note?: string): PassiveDecodeResult => ({
+  valid: true,
+  passive: { ...passive, value: clean(passive.value) },
+  ...(note && { note })
+});
+
+// "4R7" → 4.7, "R47" → 0.47; null when there's no R (or more than one)
+const parseRNotation = (code: string, marker: string) => {
+  const match = code.match(new RegExp(`^(\\d*)${marker}(\\d*)$`));
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+  return parseFloat(`${match[1] || '0'}.${match[2] || '0'}`);
+};
+
+// Significant digits then a power of ten: "103" → 10 × 10³
+const parseDigitCode = (code: string) => {
+  const digits = code.slice(0, -1);
+  const exponent = Number(code.slice(-1));
+  return Number(digits) * Math.pow(10, exponent);
+};
+
+export const decodeResistorBands = (bands: BandColor[]): PassiveDecodeResult => {
+  if (![4, 5, 6].includes(bands.length)) {
+    return invalid('Resistors have 4, 5 or 6 bands');
+  }
+
+  const digitCount = bands.length === 4 ? 2 : 3;
+  const digitBands = bands.slice(0, digitCount);
+  const multiplierBand = bands[digitCount];
+  const toleranceBand = bands[digitCount + 1];
+  const tempcoBand = bands.length === 6 ? bands[5] : null;
+
+  if (digitBands.some(band => !DIGIT_COLORS.includes(band))) {
+    return invalid('Digit bands must be black through white');
+  }
+  if (MULTIPLIERS[multiplierBand] === undefined) {
+    return invalid(`${multiplierBand} is not a multiplier colour`);
+  }
+  if (BAND_TOLERANCES[toleranceBand] === undefined) {
+    return invalid(`${toleranceBand} is not a tolerance colour`);
+  }
+  if (tempcoBand && TEMPCOS[tempcoBand] === undefined) {
+    return invalid(`${tempcoBand} is not a temperature coefficient colour`);
+  }
+
+  const significant = Number(digitBands.map(band => DIGIT_COLORS.indexOf(band)).join(''));
+
+  return result({
+    kind: 'resistor',
+    format: `${bands.length}-band`,
+    code: bands.join('-'),
+    value: significant * MULTIPLIERS[multiplierBand]!,
+    unit: 'Ω',
+    tolerance: percent(BAND_TOLERANCES[toleranceBand]!),
+    temperature_coefficient: tempcoBand ? `${TEMPCOS[tempcoBand]}ppm/K` : null,
+    smd: false
+  });
+};
+
+// SMD resistor markings: "103", "4R7", "1002", "R010", "01C" (EIA-96), "0" / "000" jumpers
+export const decodeResistorCode = (input: string): PassiveDecodeResult => {
+  const code = input.trim().toUpperCase();
+  const base = { kind: 'resistor' as const, code, unit: 'Ω' as const, temperature_coefficient: null, smd: true };
+
+  if (/^0+$/.test(code)) {
+    return result({ ...base, format: 'zero-ohm jumper', value: 0, tolerance: null });
+  }
+
+  // R-notation wins: "10R" and "47R" are far more common than EIA-96 ×0.01 codes,
+  // which are flagged as the alternative reading
+  if (code.includes('R')) {
+    const value = parseRNotation(code, 'R');
+    if (value === null) {
+      return invalid(`Can't read "${input}" as an R-notation value`);
+    }
+
+    const index = /^\d{2}R$/.test(code) ? Number(code.slice(0, 2)) : 0;
+    const note = index >= 1 && index <= 96
+      ? `Could also be EIA-96 ${code} (${formatPassiveValue(clean(EIA96_VALUES[index - 1] * EIA96_MULTIPLIERS.R), 'Ω')}) on a 1% part`
+      : undefined;
+
+    return result({ ...base, format: 'R-notation', value, tolerance: code.length >= 4 ? percent(1) : percent(5) }, note);
+  }
+
+  const eia96 = code.match(/^(\d{2})([ZYXSABHCDEF])$/);
+  if (eia96) {
+    const index = Number(eia96[1]);
+    if (index < 1 || index > 96) {
+      return invalid('EIA-96 codes run from 01 to 96');
+    }
+    return result({ ...base, format: 'EIA-96', value: EIA96_VALUES[index - 1] * EIA96_MULTIPLIERS[eia96[2]], tolerance: percent(1) });
+  }
+
+  if (/^\d{3}$/.test(code)) {
+    return result({ ...base, format: '3-digit code', value: parseDigitCode(code), tolerance: percent(5) });
+  }
+
+  if (/^\d{4}$/.test(code)) {
+    return result({ ...base, format: '4-digit code', value: parseDigitCode(code), tolerance: percent(1) });
+  }
+
+  return invalid(`"${input}" isn't a 3/4-digit, R-notation or EIA-96 resistor code`);
+};
+
+// Ceramic / film capacitor markings: "104", "223J", "47", "4n7", "2p2", "1u0"
+export const decodeCapacitorCode = (input: string): PassiveDecodeResult => {
+  const code = input.trim().replace(/[µμ]/g, 'u').toUpperCase();
+  const base = { kind: 'capacitor' as const, code, unit: 'F' as const, temperature_coefficient: null, smd: false };
+
+  const lettered = code.match(/^(\d*)([PNU])(\d*)([BCDFGJKMZ])?$/);
+  if (lettered && (lettered[1] || lettered[3])) {
+    const scale = { P: 1e-12, N: 1e-9, U: 1e-6 }[lettered[2] as 'P' | 'N' | 'U'];
+    const value = parseFloat(`${lettered[1] || '0'}.${lettered[3] || '0'}`) * scale;
+    return result({ ...base, format: 'value notation', value, tolerance: lettered[4] ? LETTER_TOLERANCES[lettered[4]] : null });
+  }
+
+  const digits = code.match(/^(\d{2,3})([BCDFGJKMZ])?$/);
+  if (!digits) {
+    return invalid(`"${input}" isn't a capacitor code like 104, 223J or 4n7`);
+  }
+
+  const tolerance = digits[2] ? LETTER_TOLERANCES[digits[2]] : null;
+
+  // Two digits are the value in picofarads
+  if (digits[1].length === 2) {
+    return result({ ...base, format: '2-digit code', value: Number(digits[1]) * 1e-12, tolerance });
+  }
+
+  // Third digit 8 and 9 mean ×0.01 and ×0.1 rather than 10⁸ / 10⁹
+  const multiplier = digits[1][2];
+  const significant = Number(digits[1].slice(0, 2));
+  const picofarads = multiplier === '8'
+    ? significant * 0.01
+    : multiplier === '9'
+      ? significant * 0.1
+      : parseDigitCode(digits[1]);
+
+  return result({ ...base, format: '3-digit code', value: picofarads * 1e-12, tolerance });
+};
+
+// Inductor markings in µH: "101" (100µH), "4R7", "R47", and nH as "47N" / "2N2"
+export const decodeInductorCode = (input: string): PassiveDecodeResult => {
+  const code = input.trim().toUpperCase();
+  const match = code.match(/^([\dRN]+?)([JKM])?$/);
+  if (!match) {
+    return invalid(`"${input}" isn't an inductor code like 101, 4R7 or 47N`);
+  }
+
+  const body = match[1];
+  const tolerance = match[2] ? LETTER_TOLERANCES[match[2]] : null;
+  const base = { kind: 'inductor' as const, code, unit: 'H' as const, temperature_coefficient: null, smd: false, tolerance };
+
+  if (body.includes('N')) {
+    const value = parseRNotation(body, 'N');
+    return value === null
+      ? invalid(`Can't read "${input}" as a nanohenry value`)
+      : result({ ...base, format: 'nH notation', value: value * 1e-9 });
+  }
+
+  if (body.includes('R')) {
+    const value = parseRNotation(body, 'R');
+    return value === null
+      ? invalid(`Can't read "${input}" as an R-notation value`)
+      : result({ ...base, format: 'R-notation', value: value * 1e-6 });
+  }
+
+  if (/^\d{3}$/.test(body)) {
+    return result({ ...base, format: '3-digit code', value: parseDigitCode(body) * 1e-6 });
+  }
+
+  return invalid(`"${input}" isn't an inductor code like 101, 4R7 or 47N`);
+};
+
+export const decodePassiveCode = (kind: PassiveKind, code: string): PassiveDecodeResult => {
+  switch (kind) {
+    case 'resistor':
+      return decodeResistorCode(code);
+    case 'capacitor':
+      return decodeCapacitorCode(code);
+    case 'inductor':
+      return decodeInductorCode(code);
+  }
+};
+
+// Every reading of a bare code, for the command palette ("104" is 100kΩ, 100nF or 100mH)
+export const decodeAnyCode = (code: string): DecodedPassive[] =>
+  (['resistor', 'capacitor', 'inductor'] as PassiveKind[])
+    .map(kind => decodePassiveCode(kind, code).passive)
+    .filter((passive): passive is DecodedPassive => !!passive);
+
+const PREFIXES: [number, string][] = [
+  [1e9, 'G'], [1e6, 'M'], [1e3, 'k'], [1, ''], [1e-3, 'm'], [1e-6, 'µ'], [1e-9, 'n'], [1e-12, 'p']
+];
+
+// 4700 Ω → "4.7kΩ", 1e-7 F → "100nF"
+export const formatPassiveValue = (value: number, unit: DecodedPassive['unit']) => {
+  if (value === 0) {
+    return `0${unit}`;
+  }
+  const [scale, prefix] = PREFIXES.find(([threshold]) => Math.abs(value) >= threshold) || PREFIXES[PREFIXES.length - 1];
+  return `${clean(value / scale)}${prefix}${unit}`;
+};
+
+const KIND_LABELS: Record<PassiveKind, { category: string; spec: string }> = {
+  resistor: { category: 'Resistor', spec: 'resistance' },
+  capacitor: { category: 'Capacitor', spec: 'capacitance' },
+  inductor: { category: 'Inductor', spec: 'inductance' }
+};
+
+const subcategoryFor = (passive: DecodedPassive) => {
+  if (passive.kind === 'capacitor') return 'Ceramic';
+  if (passive.kind === 'inductor') return 'Fixed';
+  return passive.smd ? 'SMD' : 'Through-hole';
+};
+
+// The part a decoded marking describes, ready for createPart
+export const toPassivePart = (passive: DecodedPassive) => {
+  const { category, spec } = KIND_LABELS[passive.kind];
+  const value = formatPassiveValue(passive.value, passive.unit);
+  const subcategory = subcategoryFor(passive);
+
+  return {
+    name: `${value} ${category}`,
+    description: `${subcategory} ${category.toLowerCase()}, decoded from ${passive.format} marking ${passive.code}`,
+    category,
+    subcategory,
+    specs: {
+      [spec]: value,
+      ...(passive.tolerance && { tolerance: passive.tolerance }),
+      ...(passive.temperature_coefficient && { temperature_coefficient: passive.temperature_coefficient })
+    },
+    tags: ['passive', passive.kind, value, ...(passive.smd ? ['smd'] : [])],
+    ai_identified: false,
+    metadata: {
+      decoded_from: { format: passive.format, code: passive.code }
+    }
+  };
+};
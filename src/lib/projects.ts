@@ -0,0 +1,13 @@
+import type { ElementType } from 'react';
+import { Lightbulb, ClipboardList, Hammer, CheckCircle, AlertCircle, Archive } from 'lucide-react';
+import type { ProjectStatus } from '@/hooks/api/useProjects';
+
+// Badge label, colours and icon for each project status
+export const PROJECT_STATUS_CONFIG: Record<ProjectStatus, { label: string; color: string; icon: ElementType }> = {
+  idea: { label: 'IDEA', color: 'bg-cyber-cyan/20 text-cyber-cyan border-cyber-cyan', icon: Lightbulb },
+  planning: { label: 'PLANNING', color: 'bg-cyber-cyan/10 text-text-primary border-cyber-cyan/50', icon: ClipboardList },
+  building: { label: 'BUILDING', color: 'bg-cyber-orange/20 text-cyber-orange border-cyber-orange', icon: Hammer },
+  completed: { label: 'COMPLETED', color: 'bg-cyber-green/20 text-cyber-green border-cyber-green', icon: CheckCircle },
+  failed: { label: 'FAILED', color: 'bg-cyber-magenta/20 text-cyber-magenta border-cyber-magenta', icon: AlertCircle },
+  abandoned: { label: 'ABANDONED', color: 'bg-bg-tertiary text-text-muted border-text-muted', icon: Archive }
+};
@@ -0,0 +1,49 @@
+import { BrowserMultiFormatReader } from '@zxing/browser';
+import { BarcodeFormat, DecodeHintType } from '@zxing/library';
+
+// In-browser QR / Code128 decoding for the scanner modal. Nothing leaves the device.
+
+export type ScanTarget =
+  | { kind: 'part'; id: string; raw: string }
+  | { kind: 'location'; id: string; raw: string }
+  | { kind: 'text'; text: string; raw: string };
+
+const UUID = '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}';
+const DEEP_LINK = new RegExp(`/(parts|locations)/(${UUID})/?(?:[?#].*)?$`, 'i');
+
+// Labels encode getPartUrl/getLocationUrl. The origin is ignored so labels
+// printed from another deployment (or localhost) still resolve here.
+export const parseScanResult = (raw: string): ScanTarget => {
+  const text = raw.trim();
+  const match = text.match(DEEP_LINK);
+
+  if (match) {
+    const id = match[2].toLowerCase();
+    return match[1].toLowerCase() === 'parts'
+      ? { kind: 'part', id, raw }
+      : { kind: 'location', id, raw };
+  }
+
+  return { kind: 'text', text, raw };
+};
+
+export const createScanReader = () => {
+  const hints = new Map();
+  hints.set(DecodeHintType.POSSIBLE_FORMATS, [BarcodeFormat.QR_CODE, BarcodeFormat.CODE_128]);
+  hints.set(DecodeHintType.TRY_HARDER, true);
+  return new BrowserMultiFormatReader(hints, { delayBetweenScanAttempts: 150 });
+};
+
+// Decode a still photo, e.g. an upload when no camera is available
+export const decodeImageFile = async (file: File): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const result = await createScanReader().decodeFromImageUrl(url);
+    return result.getText();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const isCameraAvailable = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
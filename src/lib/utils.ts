@@ -24,6 +24,45 @@ export function formatDate(date: string | Date): string {
   }).format(new Date(date));
 }
 
+const SI_PREFIXES: [number, string][] = [
+  [1e9, 'G'], [1e6, 'M'], [1e3, 'k'], [1, ''], [1e-3, 'm'], [1e-6, 'µ'], [1e-9, 'n'], [1e-12, 'p']
+];
+
+// 0.5 A → "500mA", 16000000 Hz → "16MHz"; unitless numbers print as-is
+function formatQuantity(value: number, unit: string | null): string {
+  if (!unit || value === 0 || !['V', 'A', 'W', 'Hz', 'Ω', 'F', 'H', 's', 'g', 'Ah', 'Wh', 'bps'].includes(unit)) {
+    return `${value}${unit ? ` ${unit}` : ''}`;
+  }
+  const [scale, prefix] = SI_PREFIXES.find(([threshold]) => Math.abs(value) >= threshold) || SI_PREFIXES[SI_PREFIXES.length - 1];
+  return `${Number((value / scale).toPrecision(6))}${prefix}${unit}`;
+}
+
+// Format a part specs value: normalized { value, unit, min, max } specs show the
+// text they were parsed from; older { value, unit } objects are joined
+export function formatSpecValue(value: unknown): string {
+  if (value && typeof value === 'object' && 'min' in value && 'max' in value) {
+    const spec = value as { value: number | null; unit: string | null; min: number | null; max: number | null; raw?: string };
+    if (spec.raw) {
+      return spec.raw;
+    }
+    if (spec.value !== null) {
+      return formatQuantity(spec.value, spec.unit);
+    }
+    if (spec.min !== null && spec.max !== null) {
+      return `${formatQuantity(spec.min, spec.unit)} – ${formatQuantity(spec.max, spec.unit)}`;
+    }
+    return spec.max !== null ? `≤ ${formatQuantity(spec.max, spec.unit)}` : `≥ ${formatQuantity(spec.min ?? 0, spec.unit)}`;
+  }
+  if (value && typeof value === 'object' && 'value' in value) {
+    const spec = value as { value: unknown; unit?: string };
+    return `${spec.value}${spec.unit ? ` ${spec.unit}` : ''}`;
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return JSON.stringify(value);
+  }
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
 // Debounce function for search
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
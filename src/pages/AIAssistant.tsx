@@ -2,14 +2,31 @@ import React, { useState } from 'react';
 import { Brain, MessageSquare, Lightbulb, Camera, Zap, Package, Plus } from 'lucide-react';
 import { Button } from '@/components/common/Button';
 import { ChatInterface } from '@/components/ai/ChatInterface';
+import { ConversationSidebar } from '@/components/ai/ConversationSidebar';
 import { useNavigate } from 'react-router-dom';
 
 export const AIAssistant: React.FC = () => {
   const [currentConversationId, setCurrentConversationId] = useState<string>();
+  // Bumped to remount the chat when switching conversations. Not when a new chat
+  // gets its id, so the messages already on screen stay.
+  const [chatKey, setChatKey] = useState(0);
   const navigate = useNavigate();
 
   const handleNewConversation = () => {
     setCurrentConversationId(undefined);
+    setChatKey(key => key + 1);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    if (id === currentConversationId) return;
+    setCurrentConversationId(id);
+    setChatKey(key => key + 1);
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === currentConversationId) {
+      handleNewConversation();
+    }
   };
 
   const quickActions = [
@@ -74,13 +91,20 @@ export const AIAssistant: React.FC = () => {
         {/* Main Chat Interface */}
         <div className="lg:col-span-2">
           <ChatInterface 
+            key={chatKey}
             conversationId={currentConversationId}
             onConversationStart={setCurrentConversationId}
           />
         </div>
 
-        {/* Sidebar with Quick Actions */}
+        {/* Sidebar with conversations and Quick Actions */}
         <div className="space-y-6">
+          <ConversationSidebar
+            activeId={currentConversationId}
+            onSelect={handleSelectConversation}
+            onDeleted={handleConversationDeleted}
+          />
+
           {/* Quick Actions */}
           <div className="cyber-card">
             <h3 className="font-medium text-text-primary mb-4 flex items-center font-mono uppercase tracking-wider">
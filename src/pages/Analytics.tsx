@@ -1,42 +1,200 @@
-import React from 'react';
-import { BarChart3, TrendingUp, Package, Brain } from 'lucide-react';
+import React, { useState } from 'react';
+import { BarChart3, TrendingUp, Package, Brain, Timer, DollarSign, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { SkeletonStats } from '@/components/common/LoadingStates';
+import { BarList, ColumnChart, LineChart, StackedBars } from '@/components/analytics/Charts';
+import { useAnalytics } from '@/hooks/api/useAnalytics';
+import { cn } from '@/lib/utils';
+
+const PERIODS = [3, 6, 12, 24];
+
+const currency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const percent = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+const shortMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: '2-digit' });
+
+const Panel: React.FC<{ title: string; icon: React.ElementType; children: React.ReactNode; className?: string }> = ({
+  title,
+  icon: Icon,
+  children,
+  className
+}) => (
+  <div className={cn('cyber-card', className)}>
+    <div className="flex items-center gap-2 mb-4">
+      <Icon className="w-5 h-5 text-cyber-cyan" />
+      <h2 className="text-sm font-semibold text-text-primary font-mono uppercase tracking-wider">{title}</h2>
+    </div>
+    {children}
+  </div>
+);
+
+const Metric: React.FC<{ label: string; value: React.ReactNode; hint?: string }> = ({ label, value, hint }) => (
+  <div className="cyber-card">
+    <p className="text-xs text-text-muted font-mono uppercase tracking-wider">{label}</p>
+    <p className="text-2xl font-bold text-text-primary font-mono mt-1">{value}</p>
+    {hint && <p className="text-xs text-text-muted font-mono mt-1">{hint}</p>}
+  </div>
+);
 
 export const Analytics: React.FC = () => {
+  const [months, setMonths] = useState(12);
+  const { data, isLoading, error, refetch, isFetching } = useAnalytics(months);
+
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold text-text-primary font-mono uppercase tracking-wider">ANALYTICS</h1>
-        <p className="text-text-muted mt-1 font-mono">Insights into your workshop activity</p>
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary font-mono uppercase tracking-wider">ANALYTICS</h1>
+          <p className="text-text-muted mt-1 font-mono">Insights into your workshop activity</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {PERIODS.map(period => (
+            <Button key={period} size="sm" variant={months === period ? 'primary' : 'ghost'} onClick={() => setMonths(period)}>
+              {period}M
+            </Button>
+          ))}
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => refetch()}
+            loading={isFetching && !isLoading}
+            icon={<RefreshCw className="w-4 h-4" />}
+          />
+        </div>
       </div>
 
-      {/* Coming Soon */}
-      <div className="cyber-card text-center py-12">
-        <BarChart3 className="w-16 h-16 text-text-muted mx-auto mb-4" />
-        <h2 className="text-xl font-semibold text-text-primary mb-2 font-mono text-glow-cyan">ANALYTICS COMING SOON</h2>
-        <p className="text-text-secondary max-w-md mx-auto font-mono">
-          We're working on detailed analytics to help you understand your parts usage, 
-          project success rates, and AI interaction patterns.
-        </p>
-        <div className="w-24 h-1 bg-cyber-cyan/50 mx-auto mt-6 mb-6"></div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 max-w-2xl mx-auto">
-          <div className="bg-bg-secondary p-4 rounded-sm border border-cyber-cyan/20 text-text-secondary text-left">
-            <Package className="w-5 h-5 text-cyber-cyan mb-2" />
-            <p className="font-mono">PARTS USAGE TRACKING</p>
-            <p className="text-sm text-text-muted mt-1">Track which components you use most frequently</p>
+      {isLoading && <SkeletonStats />}
+
+      {error && (
+        <div className="cyber-card text-center py-12">
+          <BarChart3 className="w-12 h-12 text-text-muted mx-auto mb-4" />
+          <p className="text-cyber-magenta font-mono">{error.message}</p>
+        </div>
+      )}
+
+      {data && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Metric label="Inventory Value" value={currency(data.parts.value)} hint={`${data.parts.units} units in ${data.parts.total} parts`} />
+            <Metric
+              label="Completion Rate"
+              value={percent(data.projects.completion_rate)}
+              hint={`${percent(data.projects.abandon_rate)} abandoned of finished projects`}
+            />
+            <Metric
+              label="Time Logged"
+              value={`${Math.round(data.sessions.total_minutes / 60)}h`}
+              hint={`${data.sessions.total} sessions, avg ${data.sessions.average_minutes}m`}
+            />
+            <Metric
+              label="AI Identified"
+              value={data.ai.identified_parts}
+              hint={`${percent(data.ai.identified_share)} of parts, avg confidence ${percent(data.ai.average_confidence)}`}
+            />
           </div>
-          <div className="bg-bg-secondary p-4 rounded-sm border border-cyber-cyan/20 text-text-secondary text-left">
-            <TrendingUp className="w-5 h-5 text-cyber-green mb-2" />
-            <p className="font-mono">PROJECT SUCCESS METRICS</p>
-            <p className="text-sm text-text-muted mt-1">Visualize your project completion patterns</p>
+
+          {/* Parts usage */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Panel title="Inventory Value Over Time" icon={DollarSign}>
+              <LineChart
+                points={data.parts.value_over_time.map(point => ({ label: shortMonth(point.month), value: point.value }))}
+                format={currency}
+              />
+              <p className="text-xs text-text-muted font-mono mt-2">Replays the stock ledger at today's value estimates</p>
+            </Panel>
+
+            <Panel title="Most Consumed Categories" icon={Package}>
+              <BarList
+                items={data.parts.most_consumed.map(entry => ({
+                  label: entry.category,
+                  value: entry.units,
+                  hint: entry.value ? `(${currency(entry.value)})` : undefined
+                }))}
+                color="orange"
+              />
+            </Panel>
+
+            <Panel title="Inventory by Category" icon={Package}>
+              <BarList
+                items={data.parts.by_category.slice(0, 10).map(entry => ({
+                  label: entry.category,
+                  value: entry.units,
+                  hint: `/ ${entry.parts} parts`
+                }))}
+              />
+            </Panel>
+
+            <Panel title="Parts Added per Month" icon={TrendingUp}>
+              <ColumnChart items={data.parts.added_by_month.map(entry => ({ label: shortMonth(entry.month), value: entry.count }))} />
+            </Panel>
           </div>
-          <div className="bg-bg-secondary p-4 rounded-sm border border-cyber-cyan/20 text-text-secondary text-left">
-            <Brain className="w-5 h-5 text-cyber-magenta mb-2" />
-            <p className="font-mono">AI INTERACTION STATS</p>
-            <p className="text-sm text-text-muted mt-1">See how AI is helping your workshop flow</p>
+
+          {/* Project success */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Panel title="Outcomes by Difficulty" icon={TrendingUp}>
+              <StackedBars
+                rows={data.projects.by_difficulty.map(entry => ({
+                  label: entry.difficulty ? `DIFFICULTY ${entry.difficulty}/5` : 'UNRATED',
+                  hint: `${percent(entry.completion_rate)} done • ${percent(entry.abandon_rate)} abandoned`,
+                  segments: [
+                    { key: 'completed', value: entry.completed },
+                    { key: 'failed', value: entry.failed },
+                    { key: 'abandoned', value: entry.abandoned },
+                    { key: 'active', value: entry.active }
+                  ]
+                }))}
+                legend={[
+                  { key: 'completed', label: 'Completed', color: 'green' },
+                  { key: 'failed', label: 'Failed', color: 'magenta' },
+                  { key: 'abandoned', label: 'Abandoned', color: 'orange' },
+                  { key: 'active', label: 'In progress', color: 'cyan' }
+                ]}
+              />
+            </Panel>
+
+            <Panel title="Average Session by Mood" icon={Timer}>
+              <BarList
+                items={data.sessions.by_mood.map(entry => ({
+                  label: entry.mood.toUpperCase(),
+                  value: entry.average_minutes,
+                  hint: `/ ${entry.sessions} sessions`
+                }))}
+                color="green"
+                format={(value) => `${value}m`}
+              />
+            </Panel>
           </div>
-        </div>
-      </div>
+
+          {/* AI usage */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Panel title="Identification Confidence" icon={Brain}>
+              <ColumnChart
+                items={data.ai.confidence_distribution.map(bucket => ({ label: bucket.range, value: bucket.count }))}
+                color="magenta"
+              />
+            </Panel>
+
+            <Panel title="AI Questions per Month" icon={Brain}>
+              <ColumnChart
+                items={data.ai.questions_by_month.map(entry => ({ label: shortMonth(entry.month), value: entry.count }))}
+                color="magenta"
+              />
+              <p className="text-xs text-text-muted font-mono mt-2">
+                {data.ai.questions} questions in {data.ai.conversations} conversations
+              </p>
+            </Panel>
+
+            <Panel title="AI Generated Projects" icon={Brain}>
+              <p className="text-3xl font-bold text-text-primary font-mono">{data.ai.generated_projects}</p>
+              <p className="text-sm text-text-muted font-mono mt-1">
+                {data.ai.generated_completed} completed
+                {data.ai.generated_projects > 0 && ` (${percent(data.ai.generated_completed / data.ai.generated_projects)})`}
+              </p>
+            </Panel>
+          </div>
+        </>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Package, Brain, Wrench, TrendingUp, Plus, Search, Zap, Target, Clock, CheckCircle, Activity } from 'lucide-react';
 import { Button } from '@/components/common/Button';
 import { QuickAddPart } from '@/components/parts/QuickAddPart';
+import { LowStockAlerts } from '@/components/parts/LowStockAlerts';
 import { useParts } from '@/hooks/api/useParts';
 import { useProjects } from '@/hooks/api/useProjects';
 import { useNavigate } from 'react-router-dom';
@@ -149,6 +150,9 @@ export const Dashboard: React.FC = () => {
         />
       </div>
 
+      {/* Restock Alerts */}
+      <LowStockAlerts />
+
       {/* Quick Add Section */}
       {showQuickAdd && (
         <div className="cyber-card">
@@ -0,0 +1,387 @@
+import React, { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { MapPin, Plus, Edit, Trash2, ChevronRight, ChevronDown, Package, Inbox, FolderTree, QrCode } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { Input } from '@/components/common/Input';
+import { Modal } from '@/components/common/Modal';
+import { LoadingOverlay } from '@/components/common/LoadingStates';
+import { PartTable } from '@/components/parts/PartTable';
+import { PartForm } from '@/components/parts/PartForm';
+import { useParts, useDeletePart, Part } from '@/hooks/api/useParts';
+import {
+  useLocations,
+  useCreateLocation,
+  useUpdateLocation,
+  useDeleteLocation,
+  StorageLocation,
+  LocationKind,
+  LOCATION_KINDS
+} from '@/hooks/api/useLocations';
+import { useUIStore } from '@/stores/uiStore';
+import { locationToLabel } from '@/lib/labels';
+import { cn } from '@/lib/utils';
+
+const UNASSIGNED = 'unassigned';
+
+interface LocationFormState {
+  id?: string;
+  name: string;
+  kind: LocationKind;
+  parent_id: string | null;
+  description: string;
+}
+
+export const Locations: React.FC = () => {
+  // /locations/:locationId is the deep link printed on location labels
+  const { locationId } = useParams();
+  const [selectedId, setSelectedId] = useState<string | null>(locationId || null);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [includeSublocations, setIncludeSublocations] = useState(true);
+  const [locationForm, setLocationForm] = useState<LocationFormState | null>(null);
+  const [editingPart, setEditingPart] = useState<Part | null>(null);
+
+  const { data: locationsData, isLoading } = useLocations();
+  const createLocation = useCreateLocation();
+  const updateLocation = useUpdateLocation();
+  const deleteLocation = useDeleteLocation();
+  const deletePart = useDeletePart();
+  const { openLabelPrinter } = useUIStore();
+
+  const locations = locationsData?.locations || [];
+  const selected = locations.find(location => location.id === selectedId);
+
+  const { data: partsData, isLoading: partsLoading } = useParts({
+    location_id: selectedId || undefined,
+    include_sublocations: includeSublocations,
+    limit: 200
+  });
+  const parts = selectedId ? (partsData as { parts?: Part[] } | undefined)?.parts || [] : [];
+
+  const childrenOf = (parentId: string | null) =>
+    locations.filter(location => location.parent_id === parentId);
+
+  // Ancestors are hidden when any of them is collapsed
+  const isVisible = (location: StorageLocation) => {
+    let parentId = location.parent_id;
+    while (parentId) {
+      if (collapsed.has(parentId)) return false;
+      parentId = locations.find(l => l.id === parentId)?.parent_id || null;
+    }
+    return true;
+  };
+
+  // A location can't move under itself or anything below it
+  const descendantIds = (id: string): string[] => {
+    const ids = [id];
+    for (let i = 0; i < ids.length; i++) {
+      childrenOf(ids[i]).forEach(child => ids.push(child.id));
+    }
+    return ids;
+  };
+
+  const toggleCollapsed = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const openCreate = (parentId: string | null) => {
+    setLocationForm({ name: '', kind: parentId ? 'bin' : 'room', parent_id: parentId, description: '' });
+  };
+
+  const openEdit = (location: StorageLocation) => {
+    setLocationForm({
+      id: location.id,
+      name: location.name,
+      kind: location.kind,
+      parent_id: location.parent_id,
+      description: location.description || ''
+    });
+  };
+
+  const handleSaveLocation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!locationForm) return;
+
+    const { id, ...fields } = locationForm;
+
+    try {
+      if (id) {
+        await updateLocation.mutateAsync({ id, updates: fields });
+      } else {
+        const result = await createLocation.mutateAsync(fields);
+        setSelectedId(result.location?.id || selectedId);
+      }
+      setLocationForm(null);
+    } catch {
+      // Error handling is done in the hooks
+    }
+  };
+
+  const handleDeleteLocation = async (location: StorageLocation) => {
+    const target = location.parent_id ? 'its parent' : 'the top level';
+    if (!window.confirm(`Delete "${location.path}"? Its ${location.total_part_count} parts and sublocations move to ${target}.`)) {
+      return;
+    }
+
+    await deleteLocation.mutateAsync(location.id);
+    setSelectedId(location.parent_id);
+  };
+
+  const renderNode = (location: StorageLocation) => {
+    const hasChildren = childrenOf(location.id).length > 0;
+    const isCollapsed = collapsed.has(location.id);
+
+    return (
+      <div
+        key={location.id}
+        className={cn(
+          'flex items-center gap-2 py-1.5 pr-2 rounded-sm cursor-pointer transition-colors font-mono text-sm',
+          selectedId === location.id
+            ? 'bg-cyber-cyan/20 text-cyber-cyan'
+            : 'text-text-secondary hover:bg-bg-tertiary hover:text-text-primary'
+        )}
+        style={{ paddingLeft: `${location.depth * 16 + 8}px` }}
+        onClick={() => setSelectedId(location.id)}
+      >
+        <button
+          type="button"
+          className={cn('w-4 h-4 flex-shrink-0', !hasChildren && 'invisible')}
+          onClick={(e) => {
+            e.stopPropagation();
+            toggleCollapsed(location.id);
+          }}
+        >
+          {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        <MapPin className="w-4 h-4 flex-shrink-0" />
+        <span className="flex-1 truncate">{location.name}</span>
+        <span className="text-xs text-text-muted uppercase">{location.kind}</span>
+        <span className="text-xs px-1.5 py-0.5 bg-bg-tertiary border border-text-muted/30 rounded-sm">
+          {location.total_part_count}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <LoadingOverlay isLoading={isLoading} message="LOADING STORAGE MAP...">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-text-primary font-mono uppercase tracking-wider">Storage Locations</h1>
+            <p className="text-text-muted mt-1 font-mono">
+              {locations.length} LOCATIONS • {locationsData?.unassigned_count || 0} UNFILED PARTS
+            </p>
+          </div>
+          <Button onClick={() => openCreate(null)} icon={<Plus className="w-4 h-4" />} glow>
+            NEW LOCATION
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Tree */}
+          <div className="cyber-card lg:col-span-1">
+            <div className="flex items-center gap-2 mb-4">
+              <FolderTree className="w-5 h-5 text-cyber-cyan" />
+              <h2 className="text-lg font-semibold text-text-primary font-mono uppercase tracking-wider">Tree</h2>
+            </div>
+
+            {locations.length === 0 ? (
+              <div className="text-center py-8">
+                <MapPin className="w-10 h-10 text-text-muted mx-auto mb-3" />
+                <p className="text-text-muted font-mono text-sm mb-3">NO LOCATIONS YET</p>
+                <Button variant="outline" size="sm" onClick={() => openCreate(null)}>
+                  ADD A ROOM OR SHELF
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-0.5">
+                {locations.filter(isVisible).map(renderNode)}
+              </div>
+            )}
+
+            <div
+              className={cn(
+                'flex items-center gap-2 mt-4 pt-3 border-t border-text-muted/20 py-1.5 px-2 rounded-sm cursor-pointer font-mono text-sm',
+                selectedId === UNASSIGNED
+                  ? 'bg-cyber-orange/20 text-cyber-orange'
+                  : 'text-text-secondary hover:bg-bg-tertiary'
+              )}
+              onClick={() => setSelectedId(UNASSIGNED)}
+            >
+              <Inbox className="w-4 h-4" />
+              <span className="flex-1">Unfiled</span>
+              <span className="text-xs px-1.5 py-0.5 bg-bg-tertiary border border-text-muted/30 rounded-sm">
+                {locationsData?.unassigned_count || 0}
+              </span>
+            </div>
+          </div>
+
+          {/* Contents */}
+          <div className="cyber-card lg:col-span-2">
+            {!selectedId ? (
+              <div className="text-center py-12">
+                <Package className="w-12 h-12 text-text-muted mx-auto mb-4" />
+                <p className="text-text-muted font-mono">SELECT A LOCATION TO SEE WHAT'S IN IT</p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h2 className="text-xl font-bold text-text-primary font-mono">
+                      {selected ? selected.path : 'Unfiled parts'}
+                    </h2>
+                    {selected ? (
+                      <p className="text-text-muted font-mono text-sm mt-1">
+                        {selected.part_count} PARTS HERE • {selected.total_part_count} INCLUDING SUBLOCATIONS •{' '}
+                        {selected.total_quantity_count} UNITS
+                      </p>
+                    ) : (
+                      <p className="text-text-muted font-mono text-sm mt-1">
+                        Parts without a location, or with a location that didn't match the tree
+                      </p>
+                    )}
+                    {selected?.description && (
+                      <p className="text-text-secondary text-sm mt-2">{selected.description}</p>
+                    )}
+                  </div>
+
+                  {selected && (
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => openCreate(selected.id)} icon={<Plus className="w-4 h-4" />}>
+                        INSIDE
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openLabelPrinter([locationToLabel(selected)])}
+                        icon={<QrCode className="w-4 h-4" />}
+                      >
+                        LABEL
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => openEdit(selected)} icon={<Edit className="w-4 h-4" />} />
+                      <Button
+                        variant="danger"
+                        size="sm"
+                        onClick={() => handleDeleteLocation(selected)}
+                        loading={deleteLocation.isPending}
+                        icon={<Trash2 className="w-4 h-4" />}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {selected && childrenOf(selected.id).length > 0 && (
+                  <label className="flex items-center gap-2 text-sm text-text-secondary font-mono uppercase tracking-wider">
+                    <input
+                      type="checkbox"
+                      checked={includeSublocations}
+                      onChange={(e) => setIncludeSublocations(e.target.checked)}
+                      className="w-4 h-4 text-cyber-cyan bg-bg-secondary border-text-muted/30 rounded focus:ring-cyber-cyan"
+                    />
+                    Include sublocations
+                  </label>
+                )}
+
+                {parts.length === 0 && !partsLoading ? (
+                  <div className="text-center py-8">
+                    <Package className="w-10 h-10 text-text-muted mx-auto mb-3" />
+                    <p className="text-text-muted font-mono text-sm">NOTHING STORED HERE</p>
+                  </div>
+                ) : (
+                  <PartTable
+                    parts={parts}
+                    onEdit={setEditingPart}
+                    onDelete={(id) => deletePart.mutateAsync(id)}
+                    isLoading={partsLoading}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Location Form Modal */}
+        <Modal
+          isOpen={!!locationForm}
+          onClose={() => setLocationForm(null)}
+          title={locationForm?.id ? 'EDIT LOCATION' : 'NEW LOCATION'}
+        >
+          {locationForm && (
+            <form onSubmit={handleSaveLocation} className="space-y-4">
+              <Input
+                label="NAME"
+                value={locationForm.name}
+                onChange={(e) => setLocationForm({ ...locationForm, name: e.target.value })}
+                placeholder="e.g., Drawer A"
+                required
+                glow
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider">KIND</label>
+                  <select
+                    value={locationForm.kind}
+                    onChange={(e) => setLocationForm({ ...locationForm, kind: e.target.value as LocationKind })}
+                    className="cyber-input block w-full"
+                  >
+                    {LOCATION_KINDS.map(kind => (
+                      <option key={kind} value={kind}>{kind}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-text-secondary font-mono uppercase tracking-wider">INSIDE</label>
+                  <select
+                    value={locationForm.parent_id || ''}
+                    onChange={(e) => setLocationForm({ ...locationForm, parent_id: e.target.value || null })}
+                    className="cyber-input block w-full"
+                  >
+                    <option value="">— Top level —</option>
+                    {locations
+                      .filter(location => !locationForm.id || !descendantIds(locationForm.id).includes(location.id))
+                      .map(location => (
+                        <option key={location.id} value={location.id}>{location.path}</option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+
+              <Input
+                label="DESCRIPTION"
+                value={locationForm.description}
+                onChange={(e) => setLocationForm({ ...locationForm, description: e.target.value })}
+                placeholder="Optional notes, e.g. 'anti-static bags only'"
+              />
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-text-muted/20">
+                <Button type="button" variant="outline" onClick={() => setLocationForm(null)}>
+                  CANCEL
+                </Button>
+                <Button type="submit" loading={createLocation.isPending || updateLocation.isPending} glow>
+                  {locationForm.id ? 'SAVE' : 'CREATE'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </Modal>
+
+        {/* Part Form Modal */}
+        {editingPart && (
+          <PartForm
+            isOpen={!!editingPart}
+            onClose={() => setEditingPart(null)}
+            part={editingPart}
+          />
+        )}
+      </div>
+    </LoadingOverlay>
+  );
+};
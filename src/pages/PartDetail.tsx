@@ -0,0 +1,420 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Package,
+  Edit,
+  Trash2,
+  QrCode,
+  MapPin,
+  ExternalLink,
+  FileText,
+  Brain,
+  AlertTriangle,
+  Wrench,
+  Clock,
+  Tag,
+  History
+} from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { LoadingOverlay } from '@/components/common/LoadingStates';
+import { OptimizedImage, useImagePlaceholder } from '@/components/common/OptimizedImage';
+import { PartForm } from '@/components/parts/PartForm';
+import { StockLedger } from '@/components/parts/StockLedger';
+import { usePart, useDeletePart } from '@/hooks/api/useParts';
+import { useProjects, useBuildSessions, Project, BuildSession } from '@/hooks/api/useProjects';
+import { useUIStore } from '@/stores/uiStore';
+import { partToLabel } from '@/lib/labels';
+import { cn, formatDate, formatSpecValue } from '@/lib/utils';
+
+const Section: React.FC<{ title: string; icon: React.ElementType; children: React.ReactNode; className?: string }> = ({
+  title,
+  icon: Icon,
+  children,
+  className
+}) => (
+  <div className={cn('cyber-card', className)}>
+    <div className="flex items-center gap-2 mb-4">
+      <Icon className="w-5 h-5 text-cyber-cyan" />
+      <h2 className="text-lg font-semibold text-text-primary font-mono uppercase tracking-wider">{title}</h2>
+    </div>
+    {children}
+  </div>
+);
+
+const Empty: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <p className="text-text-muted font-mono text-sm">{children}</p>
+);
+
+export const PartDetail: React.FC = () => {
+  const { partId = '' } = useParams();
+  const navigate = useNavigate();
+  const { openLabelPrinter } = useUIStore();
+  const [showForm, setShowForm] = useState(false);
+  const [activeImage, setActiveImage] = useState(0);
+
+  const { data, isLoading } = usePart(partId);
+  const { data: projectsData } = useProjects({ part_id: partId });
+  const { data: sessionsData } = useBuildSessions({ part_id: partId });
+  const deletePart = useDeletePart();
+
+  const part = data?.part;
+  const placeholder = useImagePlaceholder(part?.name || 'Part', 600, 600);
+  const projects: Project[] = projectsData?.projects || [];
+  const sessions: BuildSession[] = sessionsData?.sessions || [];
+
+  if (!isLoading && !part) {
+    return (
+      <div className="text-center py-24">
+        <Package className="w-12 h-12 text-text-muted mx-auto mb-4" />
+        <h1 className="text-lg font-medium text-text-primary font-mono mb-2">PART NOT FOUND</h1>
+        <p className="text-text-muted font-mono mb-6">{data?.error || 'It may have been deleted'}</p>
+        <Button variant="outline" onClick={() => navigate('/parts')} icon={<ArrowLeft className="w-4 h-4" />}>
+          BACK TO INVENTORY
+        </Button>
+      </div>
+    );
+  }
+
+  if (!part) {
+    return <LoadingOverlay isLoading message="LOADING PART..."><div /></LoadingOverlay>;
+  }
+
+  const metadata = part.metadata || {};
+  const images: string[] = part.images || [];
+  // Older AI adds kept the researched specs in metadata only
+  const specs = Object.entries({ ...(metadata.specifications || {}), ...(part.specs || {}) })
+    .filter(([, value]) => value !== null && value !== undefined && value !== '');
+  const aiMetadata: Record<string, unknown> = metadata.ai_metadata || {};
+  const confidence = typeof metadata.confidence === 'number' ? metadata.confidence : null;
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Are you sure you want to delete "${part.name}"?`)) return;
+    await deletePart.mutateAsync(part.id);
+    navigate('/parts');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <Link to="/parts" className="inline-flex items-center gap-1 text-sm text-text-muted hover:text-cyber-cyan font-mono mb-2">
+            <ArrowLeft className="w-3 h-3" />
+            INVENTORY
+          </Link>
+          <h1 className="text-3xl font-bold text-text-primary font-mono tracking-wider">{part.name}</h1>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-sm font-mono">
+            {part.category && (
+              <span className="text-text-muted">
+                {part.category}
+                {part.subcategory && ` / ${part.subcategory}`}
+              </span>
+            )}
+            <span className={`px-2 py-0.5 rounded-sm text-xs border ${
+              part.is_available
+                ? 'bg-cyber-green/20 text-cyber-green border-cyber-green'
+                : 'bg-cyber-magenta/20 text-cyber-magenta border-cyber-magenta'
+            }`}>
+              {part.is_available ? 'AVAILABLE' : 'USED'}
+            </span>
+            {part.ai_identified && (
+              <span className="px-2 py-0.5 rounded-sm text-xs border bg-cyber-cyan/20 text-cyber-cyan border-cyber-cyan">
+                AI IDENTIFIED
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Button variant="outline" onClick={() => openLabelPrinter([partToLabel(part)])} icon={<QrCode className="w-4 h-4" />}>
+            LABEL
+          </Button>
+          <Button variant="outline" onClick={() => setShowForm(true)} icon={<Edit className="w-4 h-4" />}>
+            EDIT
+          </Button>
+          <Button variant="danger" onClick={handleDelete} loading={deletePart.isPending} icon={<Trash2 className="w-4 h-4" />} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Gallery */}
+        <div className="cyber-card lg:col-span-1">
+          <div className="aspect-square bg-bg-tertiary rounded-sm flex items-center justify-center overflow-hidden">
+            {images.length > 0 ? (
+              <OptimizedImage
+                key={images[activeImage]}
+                src={images[activeImage]}
+                alt={part.name}
+                className="w-full h-full object-contain"
+                fallback={placeholder}
+              />
+            ) : (
+              <Package className="w-16 h-16 text-text-muted" />
+            )}
+          </div>
+          {images.length > 1 && (
+            <div className="grid grid-cols-5 gap-2 mt-3">
+              {images.map((image, index) => (
+                <button
+                  key={image}
+                  type="button"
+                  onClick={() => setActiveImage(index)}
+                  className={cn(
+                    'aspect-square rounded-sm overflow-hidden border',
+                    index === activeImage ? 'border-cyber-cyan' : 'border-text-muted/30 hover:border-text-muted'
+                  )}
+                >
+                  <OptimizedImage src={image} alt={`${part.name} ${index + 1}`} className="w-full h-full object-cover" fallback={placeholder} />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Overview */}
+        <div className="lg:col-span-2 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="cyber-card">
+              <p className="text-xs text-text-muted font-mono uppercase tracking-wider">Quantity</p>
+              <p className="text-2xl font-bold text-text-primary font-mono">{part.quantity || 0}</p>
+              {part.min_quantity !== null && part.min_quantity !== undefined && (
+                <p className={cn(
+                  'text-xs font-mono mt-1',
+                  (part.quantity || 0) < part.min_quantity ? 'text-cyber-orange' : 'text-text-muted'
+                )}>
+                  MIN {part.min_quantity}
+                </p>
+              )}
+            </div>
+            <div className="cyber-card">
+              <p className="text-xs text-text-muted font-mono uppercase tracking-wider">Value</p>
+              <p className="text-2xl font-bold text-cyber-green font-mono">
+                {part.value_estimate ? `$${parseFloat(part.value_estimate).toFixed(2)}` : '-'}
+              </p>
+            </div>
+            <div className="cyber-card col-span-2">
+              <p className="text-xs text-text-muted font-mono uppercase tracking-wider">Location</p>
+              {part.location_id ? (
+                <Link to={`/locations/${part.location_id}`} className="flex items-center gap-1 text-cyber-cyan font-mono hover:underline">
+                  <MapPin className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate">{part.location}</span>
+                </Link>
+              ) : (
+                <p className="text-text-secondary font-mono truncate">{part.location || 'Unfiled'}</p>
+              )}
+            </div>
+          </div>
+
+          {(part.description || part.notes) && (
+            <div className="cyber-card space-y-3">
+              {part.description && <p className="text-text-secondary">{part.description}</p>}
+              {part.notes && (
+                <p className="text-sm text-text-muted font-mono whitespace-pre-wrap border-t border-text-muted/20 pt-3">{part.notes}</p>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm font-mono text-text-muted">
+            {part.source && <span>SOURCE: <span className="text-text-secondary">{part.source}</span></span>}
+            {part.original_device && (
+              <span>
+                FROM:{' '}
+                {part.teardown_id ? (
+                  <Link to={`/teardowns/${part.teardown_id}`} className="text-cyber-cyan hover:underline">{part.original_device}</Link>
+                ) : (
+                  <span className="text-text-secondary">{part.original_device}</span>
+                )}
+              </span>
+            )}
+            {metadata.manufacturer && <span>MFR: <span className="text-text-secondary">{metadata.manufacturer}</span></span>}
+            {metadata.part_number && <span>P/N: <span className="text-text-secondary">{metadata.part_number}</span></span>}
+          </div>
+
+          {part.tags && part.tags.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Tag className="w-4 h-4 text-text-muted" />
+              {part.tags.map((tag: string) => (
+                <Link
+                  key={tag}
+                  to={`/parts?q=${encodeURIComponent(`tag:${tag.includes(' ') ? `"${tag}"` : tag}`)}`}
+                  className="px-2 py-0.5 rounded-sm text-xs font-mono bg-bg-tertiary text-text-secondary hover:text-cyber-cyan"
+                >
+                  {tag}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Specs */}
+        <Section title="Specifications" icon={FileText}>
+          {specs.length > 0 ? (
+            <table className="w-full text-sm font-mono">
+              <tbody>
+                {specs.map(([key, value]) => (
+                  <tr key={key} className="border-b border-text-muted/20 last:border-0">
+                    <td className="py-2 pr-4 text-text-muted uppercase tracking-wider align-top">{key.replace(/_/g, ' ')}</td>
+                    <td className="py-2 text-text-primary break-words">{formatSpecValue(value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <Empty>NO SPECS RECORDED</Empty>
+          )}
+
+          {(part.datasheet_url || part.pinout_diagram) && (
+            <div className="flex flex-wrap gap-3 mt-4 pt-4 border-t border-text-muted/20">
+              {part.datasheet_url && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(part.datasheet_url, '_blank')}
+                  icon={<ExternalLink className="w-3 h-3" />}
+                >
+                  DATASHEET
+                </Button>
+              )}
+              {part.pinout_diagram && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => window.open(part.pinout_diagram, '_blank')}
+                  icon={<ExternalLink className="w-3 h-3" />}
+                >
+                  PINOUT
+                </Button>
+              )}
+            </div>
+          )}
+        </Section>
+
+        {/* AI research */}
+        <Section title="AI Research" icon={Brain}>
+          {!part.ai_identified && confidence === null && Object.keys(aiMetadata).length === 0 ? (
+            <Empty>ADDED MANUALLY — NO AI RESEARCH ON FILE</Empty>
+          ) : (
+            <div className="space-y-4">
+              {confidence !== null && (
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-text-muted font-mono">CONFIDENCE</span>
+                  <div className="flex-1 h-2 bg-bg-tertiary rounded-full overflow-hidden">
+                    <div
+                      className={cn(
+                        'h-full',
+                        confidence >= 0.8 ? 'bg-cyber-green' : confidence >= 0.5 ? 'bg-cyber-orange' : 'bg-cyber-magenta'
+                      )}
+                      style={{ width: `${confidence * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-sm text-text-primary font-mono">{Math.round(confidence * 100)}%</span>
+                </div>
+              )}
+
+              {metadata.partial_data && (
+                <p className="text-sm text-cyber-orange font-mono">RESEARCH PARTIALLY FAILED — VERIFY DETAILS</p>
+              )}
+
+              {Array.isArray(metadata.safety_warnings) && metadata.safety_warnings.length > 0 && (
+                <div className="p-3 bg-cyber-magenta/10 border border-cyber-magenta/50 rounded-sm">
+                  <div className="flex items-center gap-2 text-cyber-magenta font-mono text-sm mb-1">
+                    <AlertTriangle className="w-4 h-4" />
+                    SAFETY
+                  </div>
+                  <ul className="list-disc list-inside text-sm text-text-secondary">
+                    {metadata.safety_warnings.map((warning: string) => <li key={warning}>{warning}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              {Array.isArray(metadata.common_uses) && metadata.common_uses.length > 0 && (
+                <div>
+                  <p className="text-xs text-text-muted font-mono uppercase tracking-wider mb-1">Common uses</p>
+                  <p className="text-sm text-text-secondary">{metadata.common_uses.join(', ')}</p>
+                </div>
+              )}
+
+              {Object.keys(aiMetadata).length > 0 && (
+                <table className="w-full text-xs font-mono">
+                  <tbody>
+                    {Object.entries(aiMetadata).map(([key, value]) => (
+                      <tr key={key} className="border-b border-text-muted/20 last:border-0">
+                        <td className="py-1.5 pr-4 text-text-muted uppercase align-top">{key.replace(/_/g, ' ')}</td>
+                        <td className="py-1.5 text-text-secondary break-words">
+                          {key === 'timestamp' && typeof value === 'string' ? formatDate(value) : formatSpecValue(value)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </Section>
+
+        {/* Stock ledger */}
+        <Section title="Stock Ledger" icon={History} className="lg:col-span-2">
+          <StockLedger partId={part.id} quantity={part.quantity || 0} />
+        </Section>
+
+        {/* Projects */}
+        <Section title="Projects" icon={Wrench}>
+          {projects.length > 0 ? (
+            <div className="divide-y divide-text-muted/20">
+              {projects.map(project => (
+                <Link
+                  key={project.id}
+                  to={`/projects/${project.id}`}
+                  className="flex items-center justify-between gap-3 py-2 hover:text-cyber-cyan"
+                >
+                  <span className="font-mono text-text-primary truncate">{project.name}</span>
+                  <span className="flex items-center gap-2 flex-shrink-0 text-xs font-mono">
+                    {project.parts_consumed?.includes(part.id) ? (
+                      <span className="text-cyber-orange">CONSUMED</span>
+                    ) : (
+                      <span className="text-text-muted">USED</span>
+                    )}
+                    <span className="px-2 py-0.5 rounded-sm bg-bg-tertiary text-text-secondary uppercase">{project.status}</span>
+                  </span>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <Empty>NOT USED IN ANY PROJECT YET</Empty>
+          )}
+        </Section>
+
+        {/* Build sessions */}
+        <Section title="Build Sessions" icon={Clock}>
+          {sessions.length > 0 ? (
+            <div className="divide-y divide-text-muted/20">
+              {sessions.map(session => (
+                <div key={session.id} className="py-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="font-mono text-text-primary truncate">
+                      {session.project?.name || 'Project'}
+                      {session.session_number && <span className="text-text-muted"> #{session.session_number}</span>}
+                    </span>
+                    <span className="text-xs text-text-muted font-mono flex-shrink-0">
+                      {formatDate(session.start_time || session.created_at)}
+                    </span>
+                  </div>
+                  {session.work_description && (
+                    <p className="text-sm text-text-secondary line-clamp-2">{session.work_description}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <Empty>NO BUILD SESSION HAS CONSUMED THIS PART</Empty>
+          )}
+        </Section>
+      </div>
+
+      <PartForm isOpen={showForm} onClose={() => setShowForm(false)} part={part} />
+    </div>
+  );
+};
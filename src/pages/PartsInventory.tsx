@@ -12,7 +12,9 @@ import { PartTable } from '@/components/parts/PartTable';
 import { QuickAddPart } from '@/components/parts/QuickAddPart';
 import { BulkAddParts } from '@/components/parts/BulkAddParts';
 import { AIPartIdentifier } from '@/components/parts/AIPartIdentifier';
+import { PartQueryFeedback, PartQueryError } from '@/components/parts/PartQueryFeedback';
 import { useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
 
 export const PartsInventory: React.FC = () => {
   const { partsView, setPartsView } = useUIStore();
@@ -21,19 +23,30 @@ export const PartsInventory: React.FC = () => {
   const [showBulkAdd, setShowBulkAdd] = useState(false);
   const [showAIIdentifier, setShowAIIdentifier] = useState(false);
   const [editingPart, setEditingPart] = useState<any>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState(searchParams.get('q') || '');
   const [categoryFilter, setCategoryFilter] = useState('');
   const [debugInfo, setDebugInfo] = useState<any>(null);
 
   // Fetch parts with filters
   const { data: partsData, isLoading, error, refetch, isError, isSuccess } = useParts({
-    search: searchQuery || undefined,
+    query: searchQuery || undefined,
     category: categoryFilter || undefined,
     limit: 100
   });
 
   const deletePart = useDeletePart();
   const parts = partsData?.parts || [];
+  const queryErrors: PartQueryError[] = (partsData as { query?: { errors: PartQueryError[] } } | undefined)?.query?.errors || [];
+
+  // Pick up searches launched from the command palette (/parts?q=...)
+  useEffect(() => {
+    const q = searchParams.get('q');
+    if (q !== null) {
+      setSearchQuery(q);
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
 
   // Debug effect to track parts data changes
   useEffect(() => {
@@ -168,8 +181,10 @@ export const PartsInventory: React.FC = () => {
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               icon={<Search className="w-4 h-4" />}
+              helperText={queryErrors.length === 0 ? 'Try: category:sensor qty<5 tag:i2c loc:"drawer A" -used vout:3.3V current>=1A sort:-current' : undefined}
               glow
             />
+            <PartQueryFeedback query={searchQuery} errors={queryErrors} />
           </div>
           
           <div className="flex items-center space-x-4">
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Wrench, Edit, Trash2, ListChecks, Clock, FileText, Brain, Timer } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { LoadingOverlay } from '@/components/common/LoadingStates';
+import { ProjectForm } from '@/components/projects/ProjectForm';
+import { ProjectBom } from '@/components/projects/ProjectBom';
+import { BuildSessionPanel } from '@/components/projects/BuildSessionPanel';
+import { ProjectTimeline } from '@/components/projects/ProjectTimeline';
+import { useProject, useDeleteProject, Project } from '@/hooks/api/useProjects';
+import { PROJECT_STATUS_CONFIG } from '@/lib/projects';
+import { cn, formatDate } from '@/lib/utils';
+
+const Section: React.FC<{ title: string; icon: React.ElementType; children: React.ReactNode; className?: string }> = ({
+  title,
+  icon: Icon,
+  children,
+  className
+}) => (
+  <div className={cn('cyber-card', className)}>
+    <div className="flex items-center gap-2 mb-4">
+      <Icon className="w-5 h-5 text-cyber-cyan" />
+      <h2 className="text-lg font-semibold text-text-primary font-mono uppercase tracking-wider">{title}</h2>
+    </div>
+    {children}
+  </div>
+);
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="cyber-card">
+    <p className="text-xs text-text-muted font-mono uppercase tracking-wider">{label}</p>
+    <p className="text-xl font-bold text-text-primary font-mono">{value}</p>
+  </div>
+);
+
+export const ProjectDetail: React.FC = () => {
+  const { projectId = '' } = useParams();
+  const navigate = useNavigate();
+  const [showForm, setShowForm] = useState(false);
+
+  const { data, isLoading } = useProject(projectId);
+  const deleteProject = useDeleteProject();
+
+  const project: Project | undefined = data?.project;
+
+  if (!isLoading && !project) {
+    return (
+      <div className="text-center py-24">
+        <Wrench className="w-12 h-12 text-text-muted mx-auto mb-4" />
+        <h1 className="text-lg font-medium text-text-primary font-mono mb-2">PROJECT NOT FOUND</h1>
+        <p className="text-text-muted font-mono mb-6">{data?.error || 'It may have been deleted'}</p>
+        <Button variant="outline" onClick={() => navigate('/projects')} icon={<ArrowLeft className="w-4 h-4" />}>
+          BACK TO PROJECTS
+        </Button>
+      </div>
+    );
+  }
+
+  if (!project) {
+    return <LoadingOverlay isLoading message="LOADING PROJECT..."><div /></LoadingOverlay>;
+  }
+
+  const status = PROJECT_STATUS_CONFIG[project.status];
+  const StatusIcon = status.icon;
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete "${project.name}"? Its build sessions will be deleted too.`)) return;
+    await deleteProject.mutateAsync(project.id);
+    navigate('/projects');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <Link to="/projects" className="inline-flex items-center gap-1 text-sm text-text-muted hover:text-cyber-cyan font-mono mb-2">
+            <ArrowLeft className="w-3 h-3" />
+            PROJECTS
+          </Link>
+          <h1 className="text-3xl font-bold text-text-primary font-mono tracking-wider">{project.name}</h1>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-sm font-mono">
+            <span className={cn('inline-flex items-center px-2 py-0.5 rounded-sm text-xs border', status.color)}>
+              <StatusIcon className="w-3 h-3 mr-1" />
+              {status.label}
+            </span>
+            {project.ai_generated && (
+              <span className="inline-flex items-center px-2 py-0.5 rounded-sm text-xs border bg-cyber-magenta/20 text-cyber-magenta border-cyber-magenta">
+                <Brain className="w-3 h-3 mr-1" />
+                AI GENERATED
+              </span>
+            )}
+            {project.date_started && <span className="text-text-muted">STARTED {formatDate(project.date_started)}</span>}
+            {project.date_completed && <span className="text-text-muted">DONE {formatDate(project.date_completed)}</span>}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Button variant="outline" onClick={() => setShowForm(true)} icon={<Edit className="w-4 h-4" />}>
+            EDIT
+          </Button>
+          <Button variant="danger" onClick={handleDelete} loading={deleteProject.isPending} icon={<Trash2 className="w-4 h-4" />} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Stat label="Difficulty" value={project.difficulty_level ? `${project.difficulty_level}/5` : '-'} />
+        <Stat label="Danger" value={project.danger_level ? `${project.danger_level}/5` : '-'} />
+        <Stat label="Fun" value={project.fun_factor ? `${project.fun_factor}/5` : '-'} />
+        <Stat label="Estimate" value={project.time_estimate || '-'} />
+        <Stat label="Logged" value={project.actual_time || '-'} />
+      </div>
+
+      {/* Live session */}
+      <Section title="Workbench" icon={Timer}>
+        <BuildSessionPanel project={project} />
+      </Section>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Bill of materials */}
+        <Section title="Bill of Materials" icon={ListChecks} className="lg:col-span-2">
+          <ProjectBom projectId={project.id} />
+        </Section>
+
+        {/* Notes */}
+        <Section title="Notes" icon={FileText}>
+          {project.description && <p className="text-text-secondary mb-3">{project.description}</p>}
+          {project.notes && <p className="text-sm text-text-secondary whitespace-pre-wrap">{project.notes}</p>}
+          {project.instructions && (
+            <details className="mt-3">
+              <summary className="text-xs text-text-muted font-mono uppercase cursor-pointer hover:text-cyber-cyan">Build steps</summary>
+              <p className="text-sm text-text-secondary whitespace-pre-wrap mt-2">{project.instructions}</p>
+            </details>
+          )}
+          {!project.description && !project.notes && !project.instructions && (
+            <p className="text-text-muted font-mono text-sm">NO NOTES YET</p>
+          )}
+        </Section>
+
+        {/* Timeline */}
+        <Section title="Timeline" icon={Clock} className="lg:col-span-3">
+          <ProjectTimeline projectId={project.id} />
+        </Section>
+      </div>
+
+      {showForm && <ProjectForm isOpen onClose={() => setShowForm(false)} project={project} />}
+    </div>
+  );
+};
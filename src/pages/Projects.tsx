@@ -1,235 +1,187 @@
 import React, { useState } from 'react';
-import { Wrench, Plus, Clock, CheckCircle, AlertCircle, Lightbulb, Target, Play } from 'lucide-react';
+import { Wrench, Plus, Hammer, CheckCircle, Lightbulb, Target, Search, X } from 'lucide-react';
 import { Button } from '@/components/common/Button';
-import { ContextMenu } from '@/components/common/ContextMenu';
-import { LoadingOverlay, SkeletonStats, SkeletonCard } from '@/components/common/LoadingStates';
+import { SkeletonStats, SkeletonCard } from '@/components/common/LoadingStates';
 import { ProjectGenerator } from '@/components/projects/ProjectGenerator';
+import { ProjectBoard } from '@/components/projects/ProjectBoard';
+import { ProjectForm } from '@/components/projects/ProjectForm';
 import { Modal } from '@/components/common/Modal';
+import { useProjects, useMoveProject, useDeleteProject, Project, ProjectStatus } from '@/hooks/api/useProjects';
 
-const ProjectCard = ({ title, description, status, difficulty, timeEstimate }: {
+const StatCard = ({ title, value, icon: Icon, color }: {
   title: string;
-  description: string;
-  status: 'idea' | 'in_progress' | 'completed' | 'failed';
-  difficulty: string;
-  timeEstimate: string;
-}) => {
-  const statusConfig = {
-    idea: { color: 'bg-cyber-cyan/20 text-cyber-cyan border-cyber-cyan', icon: Lightbulb },
-    in_progress: { color: 'bg-cyber-orange/20 text-cyber-orange border-cyber-orange', icon: Clock },
-    completed: { color: 'bg-cyber-green/20 text-cyber-green border-cyber-green', icon: CheckCircle },
-    failed: { color: 'bg-cyber-magenta/20 text-cyber-magenta border-cyber-magenta', icon: AlertCircle }
-  };
+  value: string | number;
+  icon: React.ElementType;
+  color: string;
+}) => (
+  <div className="cyber-card">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-text-secondary text-sm font-mono uppercase tracking-wider">{title}</p>
+        <p className="text-2xl font-bold text-text-primary font-mono">{value}</p>
+      </div>
+      <div className={`p-3 rounded-sm ${color}`}>
+        <Icon className="w-6 h-6" />
+      </div>
+    </div>
+  </div>
+);
+
+const FilterSelect = ({ label, value, onChange }: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className="cyber-input w-auto">
+    <option value="">{label}: ANY</option>
+    {[1, 2, 3, 4, 5].map(n => (
+      <option key={n} value={n}>{label}: {n}</option>
+    ))}
+  </select>
+);
+
+export const Projects: React.FC = () => {
+  const [showProjectGenerator, setShowProjectGenerator] = useState(false);
+  const [search, setSearch] = useState('');
+  const [difficulty, setDifficulty] = useState('');
+  const [maxDanger, setMaxDanger] = useState('');
+  const [minFun, setMinFun] = useState('');
+  const [formState, setFormState] = useState<{ project?: Project; status?: ProjectStatus } | null>(null);
+
+  const { data: projectsData, isLoading } = useProjects({
+    search: search.trim() || undefined,
+    difficulty_level: difficulty ? parseInt(difficulty) : undefined,
+    max_danger_level: maxDanger ? parseInt(maxDanger) : undefined,
+    min_fun_factor: minFun ? parseInt(minFun) : undefined,
+    limit: 500
+  });
+  const moveProject = useMoveProject();
+  const deleteProject = useDeleteProject();
 
-  const config = statusConfig[status];
-  const StatusIcon = config.icon;
+  const projects: Project[] = projectsData?.projects || [];
+  const hasFilters = !!(search || difficulty || maxDanger || minFun);
 
-  const contextMenuItems = [
-    {
-      id: 'view',
-      label: 'View Project',
-      icon: Target,
-      onClick: () => console.log('View project')
-    },
-    {
-      id: 'start',
-      label: status === 'idea' ? 'Start Building' : 'Continue Building',
-      icon: Play,
-      onClick: () => console.log('Start/continue building'),
-      disabled: status === 'completed'
-    },
-    {
-      id: 'separator',
-      separator: true,
-      label: '',
-      onClick: () => {}
-    },
-    {
-      id: 'delete',
-      label: 'Delete Project',
-      icon: AlertCircle,
-      onClick: () => console.log('Delete project'),
-      destructive: true
+  const building = projects.filter(p => p.status === 'building').length;
+  const completed = projects.filter(p => p.status === 'completed').length;
+  const finished = projects.filter(p => ['completed', 'failed', 'abandoned'].includes(p.status)).length;
+  const successRate = finished > 0 ? Math.round((completed / finished) * 100) : 0;
+
+  const handleDelete = (project: Project) => {
+    if (window.confirm(`Delete "${project.name}"? Its build sessions will be deleted too.`)) {
+      deleteProject.mutate(project.id);
     }
-  ];
+  };
+
+  const clearFilters = () => {
+    setSearch('');
+    setDifficulty('');
+    setMaxDanger('');
+    setMinFun('');
+  };
 
   return (
-    <ContextMenu items={contextMenuItems}>
-      <div className="cyber-card hover-lift">
-        <div className="flex items-start justify-between mb-4">
-          <h3 className="text-lg font-semibold text-text-primary font-mono">{title}</h3>
-          <div className={`inline-flex items-center px-2 py-1 rounded-sm text-xs border ${config.color}`}>
-            <StatusIcon className="w-3 h-3 mr-1" />
-            {status.replace('_', ' ').toUpperCase()}
-          </div>
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary font-mono uppercase tracking-wider">Projects</h1>
+          <p className="text-text-muted mt-1 font-mono">Build amazing things with your salvaged parts</p>
         </div>
-        
-        <p className="text-text-secondary mb-4 line-clamp-2">{description}</p>
-        
-        <div className="flex items-center justify-between text-sm text-text-muted font-mono">
-          <span>DIFFICULTY: {difficulty}</span>
-          <span>EST. {timeEstimate}</span>
-        </div>
-        
-        <div className="mt-4 flex space-x-2">
-          <Button variant="outline" size="sm" className="flex-1">
-            VIEW DETAILS
+        <div className="flex items-center space-x-3">
+          <Button
+            variant="outline"
+            icon={<Lightbulb className="w-4 h-4" />}
+            onClick={() => setShowProjectGenerator(true)}
+            glow
+          >
+            GENERATE PROJECT
+          </Button>
+          <Button
+            icon={<Plus className="w-4 h-4" />}
+            onClick={() => setFormState({ status: 'idea' })}
+            glow
+          >
+            NEW PROJECT
           </Button>
-          {status === 'idea' && (
-            <Button size="sm" className="flex-1">
-              START BUILDING
-            </Button>
-          )}
         </div>
       </div>
-    </ContextMenu>
-  );
-};
 
-export const Projects: React.FC = () => {
-  const [showProjectGenerator, setShowProjectGenerator] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
-
-  const projects = [
-    {
-      title: "LED Matrix Clock",
-      description: "Build a retro-style digital clock using salvaged LED matrix displays and Arduino",
-      status: "in_progress" as const,
-      difficulty: "Medium",
-      timeEstimate: "4-6 hours"
-    },
-    {
-      title: "Smart Plant Monitor",
-      description: "Create an IoT device to monitor soil moisture and light levels for plants",
-      status: "idea" as const,
-      difficulty: "Easy",
-      timeEstimate: "2-3 hours"
-    },
-    {
-      title: "Bluetooth Speaker",
-      description: "Repurpose old speakers with Bluetooth module and amplifier circuit",
-      status: "completed" as const,
-      difficulty: "Hard",
-      timeEstimate: "8-10 hours"
-    },
-    {
-      title: "Temperature Logger",
-      description: "Data logging device using temperature sensors and SD card storage",
-      status: "failed" as const,
-      difficulty: "Medium",
-      timeEstimate: "3-4 hours"
-    }
-  ];
-
-  return (
-    <LoadingOverlay isLoading={isLoading} message="GENERATING PROJECT IDEAS...">
-      <div className="space-y-6">
-        {/* Header */}
-        <div className="flex items-center justify-between">
-          <div>
-            <h1 className="text-3xl font-bold text-text-primary font-mono uppercase tracking-wider">Projects</h1>
-            <p className="text-text-muted mt-1 font-mono">Build amazing things with your salvaged parts</p>
-          </div>
-          <div className="flex items-center space-x-3">
-            <Button 
-              variant="outline" 
-              icon={<Lightbulb className="w-4 h-4" />}
-              onClick={() => setShowProjectGenerator(true)}
-              glow
-            >
-              GENERATE PROJECT
-            </Button>
-            <Button 
-              icon={<Plus className="w-4 h-4" />}
-              glow
-            >
-              NEW PROJECT
-            </Button>
-          </div>
+      {/* Project Stats */}
+      {isLoading ? (
+        <SkeletonStats />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <StatCard title="TOTAL PROJECTS" value={projects.length} icon={Wrench} color="bg-cyber-cyan/20 text-cyber-cyan" />
+          <StatCard title="BUILDING" value={building} icon={Hammer} color="bg-cyber-orange/20 text-cyber-orange" />
+          <StatCard title="COMPLETED" value={completed} icon={CheckCircle} color="bg-cyber-green/20 text-cyber-green" />
+          <StatCard title="SUCCESS RATE" value={`${successRate}%`} icon={Target} color="bg-cyber-magenta/20 text-cyber-magenta" />
         </div>
+      )}
 
-        {/* Project Stats */}
-        {isLoading ? (
-          <SkeletonStats />
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <div className="cyber-card">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-text-secondary text-sm font-mono uppercase tracking-wider">TOTAL PROJECTS</p>
-                  <p className="text-2xl font-bold text-text-primary font-mono">12</p>
-                </div>
-                <div className="p-3 bg-cyber-cyan/20 rounded-sm">
-                  <Wrench className="w-6 h-6 text-cyber-cyan" />
-                </div>
-              </div>
-            </div>
-            <div className="cyber-card">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-text-secondary text-sm font-mono uppercase tracking-wider">IN PROGRESS</p>
-                  <p className="text-2xl font-bold text-text-primary font-mono">3</p>
-                </div>
-                <div className="p-3 bg-cyber-orange/20 rounded-sm">
-                  <Clock className="w-6 h-6 text-cyber-orange" />
-                </div>
-              </div>
-            </div>
-            <div className="cyber-card">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-text-secondary text-sm font-mono uppercase tracking-wider">COMPLETED</p>
-                  <p className="text-2xl font-bold text-text-primary font-mono">7</p>
-                </div>
-                <div className="p-3 bg-cyber-green/20 rounded-sm">
-                  <CheckCircle className="w-6 h-6 text-cyber-green" />
-                </div>
-              </div>
-            </div>
-            <div className="cyber-card">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-text-secondary text-sm font-mono uppercase tracking-wider">SUCCESS RATE</p>
-                  <p className="text-2xl font-bold text-text-primary font-mono">78%</p>
-                </div>
-                <div className="p-3 bg-cyber-magenta/20 rounded-sm">
-                  <Target className="w-6 h-6 text-cyber-magenta" />
-                </div>
-              </div>
-            </div>
-          </div>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="w-4 h-4 text-text-muted absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search projects..."
+            className="cyber-input w-full pl-9"
+          />
+        </div>
+        <FilterSelect label="DIFFICULTY" value={difficulty} onChange={setDifficulty} />
+        <FilterSelect label="MAX DANGER" value={maxDanger} onChange={setMaxDanger} />
+        <FilterSelect label="MIN FUN" value={minFun} onChange={setMinFun} />
+        {hasFilters && (
+          <Button variant="ghost" size="sm" onClick={clearFilters} icon={<X className="w-3 h-3" />}>
+            CLEAR
+          </Button>
         )}
+      </div>
 
-        {/* Projects Grid */}
-        {isLoading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {Array.from({ length: 6 }).map((_, i) => (
-              <SkeletonCard key={i} />
-            ))}
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {projects.map((project, index) => (
-              <ProjectCard key={index} {...project} />
-            ))}
-          </div>
-        )}
+      {/* Kanban Board */}
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <SkeletonCard key={i} />
+          ))}
+        </div>
+      ) : (
+        <ProjectBoard
+          projects={projects}
+          onEdit={(project) => setFormState({ project })}
+          onMove={(project, status) => moveProject.mutate({ project, status })}
+          onDelete={handleDelete}
+          onAdd={(status) => setFormState({ status })}
+        />
+      )}
 
-        {/* Project Generator Modal */}
-        <Modal
-          isOpen={showProjectGenerator}
-          onClose={() => setShowProjectGenerator(false)}
-          title="AI PROJECT GENERATOR"
-          size="xl"
-          variant="terminal"
-        >
-          <ProjectGenerator
-            onProjectGenerated={(project) => {
-              console.log('Generated project:', project);
-              setShowProjectGenerator(false);
-            }}
-          />
-        </Modal>
-      </div>
-    </LoadingOverlay>
+      {formState && (
+        <ProjectForm
+          key={formState.project?.id || formState.status}
+          isOpen
+          onClose={() => setFormState(null)}
+          project={formState.project}
+          initialStatus={formState.status}
+        />
+      )}
+
+      {/* Project Generator Modal */}
+      <Modal
+        isOpen={showProjectGenerator}
+        onClose={() => setShowProjectGenerator(false)}
+        title="AI PROJECT GENERATOR"
+        size="xl"
+        variant="terminal"
+      >
+        <ProjectGenerator
+          onProjectGenerated={(project) => {
+            console.log('Generated project:', project);
+            setShowProjectGenerator(false);
+          }}
+        />
+      </Modal>
+    </div>
   );
-};
\ No newline at end of file
+};
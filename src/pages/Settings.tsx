@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { Settings as SettingsIcon, User, Bell, Shield, Database, Key, Eye, EyeOff, Save, TestTube, CheckCircle, XCircle, Clock, Zap } from 'lucide-react';
+import { Settings as SettingsIcon, User, Bell, Shield, Database, Key, Eye, EyeOff, Save, TestTube, CheckCircle, XCircle, Clock, Zap, Brain } from 'lucide-react';
 import { Button } from '@/components/common/Button';
 import { Input } from '@/components/common/Input';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/useToast';
+import { CategoryThresholds } from '@/components/parts/CategoryThresholds';
+import { SpecNormalization } from '@/components/parts/SpecNormalization';
+import { MemoryManager } from '@/components/ai/MemoryManager';
 
 interface APIKeys {
   anthropic: string;
@@ -258,9 +261,10 @@ export const Settings: React.FC = () => {
   const navigation = [
     { id: 'profile', name: 'Profile', icon: User },
     { id: 'api-keys', name: 'API Keys', icon: Key },
+    { id: 'memory', name: 'AI Memory', icon: Brain },
     { id: 'notifications', name: 'Notifications', icon: Bell },
     { id: 'privacy', name: 'Privacy', icon: Shield },
-    { id: 'data', name: 'Data Export', icon: Database },
+    { id: 'data', name: 'Data', icon: Database },
   ];
 
   return (
@@ -653,14 +657,23 @@ export const Settings: React.FC = () => {
               </>
             )}
 
-            {/* Other tabs placeholder */}
+            {/* AI Memory Tab */}
+            {activeTab === 'memory' && (
+              <>
+                <h2 className="text-xl font-semibold text-text-primary mb-6 font-mono uppercase tracking-wider">AI MEMORY</h2>
+                <MemoryManager />
+              </>
+            )}
+
+            {/* Notifications Tab */}
             {activeTab === 'notifications' && (
               <>
-                <h2 className="text-xl font-semibold text-text-primary mb-6 font-mono uppercase tracking-wider">NOTIFICATION SETTINGS</h2>
-                <p className="text-text-muted font-mono">Notification settings coming soon...</p>
+                <h2 className="text-xl font-semibold text-text-primary mb-6 font-mono uppercase tracking-wider">LOW STOCK THRESHOLDS</h2>
+                <CategoryThresholds />
               </>
             )}
 
+            {/* Other tabs placeholder */}
             {activeTab === 'privacy' && (
               <>
                 <h2 className="text-xl font-semibold text-text-primary mb-6 font-mono uppercase tracking-wider">PRIVACY SETTINGS</h2>
@@ -670,7 +683,10 @@ export const Settings: React.FC = () => {
 
             {activeTab === 'data' && (
               <>
-                <h2 className="text-xl font-semibold text-text-primary mb-6 font-mono uppercase tracking-wider">DATA EXPORT</h2>
+                <h2 className="text-xl font-semibold text-text-primary mb-6 font-mono uppercase tracking-wider">SPEC NORMALIZATION</h2>
+                <SpecNormalization />
+
+                <h2 className="text-xl font-semibold text-text-primary mt-10 mb-6 font-mono uppercase tracking-wider">DATA EXPORT</h2>
                 <p className="text-text-muted font-mono">Data export functionality coming soon...</p>
               </>
             )}
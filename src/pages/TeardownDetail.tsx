@@ -0,0 +1,370 @@
+import React, { useCallback, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Recycle,
+  Edit,
+  Trash2,
+  AlertTriangle,
+  ListChecks,
+  Package,
+  Camera,
+  Brain,
+  Plus,
+  X,
+  CheckSquare,
+  Square
+} from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { LoadingOverlay } from '@/components/common/LoadingStates';
+import { ImageUpload } from '@/components/common/ImageUpload';
+import { PartForm, PartFormDefaults } from '@/components/parts/PartForm';
+import { TeardownForm } from '@/components/teardowns/TeardownForm';
+import {
+  useTeardown,
+  useUpdateTeardown,
+  useSuggestTeardownComponents,
+  useDeleteTeardown,
+  teardownLabel,
+  formatTeardownDate,
+  toTeardownInput,
+  Teardown,
+  TeardownChecklistItem
+} from '@/hooks/api/useTeardowns';
+import { cn } from '@/lib/utils';
+
+const currency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const Section: React.FC<{ title: string; icon: React.ElementType; children: React.ReactNode; action?: React.ReactNode; className?: string }> = ({
+  title,
+  icon: Icon,
+  children,
+  action,
+  className
+}) => (
+  <div className={cn('cyber-card', className)}>
+    <div className="flex items-center justify-between gap-2 mb-4">
+      <div className="flex items-center gap-2">
+        <Icon className="w-5 h-5 text-cyber-cyan" />
+        <h2 className="text-lg font-semibold text-text-primary font-mono uppercase tracking-wider">{title}</h2>
+      </div>
+      {action}
+    </div>
+    {children}
+  </div>
+);
+
+const Stat: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="cyber-card">
+    <p className="text-xs text-text-muted font-mono uppercase tracking-wider">{label}</p>
+    <p className="text-xl font-bold text-text-primary font-mono">{value}</p>
+  </div>
+);
+
+// Parts harvested here start out sourced from the teardown and named after its device
+const harvestDefaults = (teardown: Teardown, item?: TeardownChecklistItem): PartFormDefaults => ({
+  name: item?.name,
+  category: item?.category,
+  quantity: item?.quantity,
+  value_estimate: item?.estimated_value,
+  notes: item?.notes,
+  source: 'Teardown',
+  original_device: teardownLabel(teardown),
+  teardown_id: teardown.id
+});
+
+export const TeardownDetail: React.FC = () => {
+  const { teardownId = '' } = useParams();
+  const navigate = useNavigate();
+  const [showForm, setShowForm] = useState(false);
+  const [showPhotos, setShowPhotos] = useState(false);
+  const [newItem, setNewItem] = useState('');
+  // Checklist index being harvested; undefined for a part that wasn't on the checklist
+  const [harvest, setHarvest] = useState<{ index?: number; defaults: PartFormDefaults } | null>(null);
+
+  const { data, isLoading } = useTeardown(teardownId);
+  const updateTeardown = useUpdateTeardown();
+  const suggestComponents = useSuggestTeardownComponents();
+  const deleteTeardown = useDeleteTeardown();
+
+  const teardown = data?.teardown;
+  const parts = data?.parts || [];
+
+  const save = useCallback((updates: Partial<ReturnType<typeof toTeardownInput>>) => {
+    if (!teardown) return;
+    updateTeardown.mutate({ id: teardown.id, updates: { ...toTeardownInput(teardown), ...updates }, silent: true });
+  }, [teardown, updateTeardown]);
+
+  // ImageUpload reports every finished upload each time, so only add the new ones
+  const handlePhotos = useCallback((urls: string[]) => {
+    if (!teardown) return;
+    const added = urls.filter(url => !teardown.photos.includes(url));
+    if (added.length > 0) {
+      save({ photos: [...teardown.photos, ...added] });
+    }
+  }, [teardown, save]);
+
+  if (!isLoading && !teardown) {
+    return (
+      <div className="text-center py-24">
+        <Recycle className="w-12 h-12 text-text-muted mx-auto mb-4" />
+        <h1 className="text-lg font-medium text-text-primary font-mono mb-2">TEARDOWN NOT FOUND</h1>
+        <p className="text-text-muted font-mono mb-6">It may have been deleted</p>
+        <Button variant="outline" onClick={() => navigate('/teardowns')} icon={<ArrowLeft className="w-4 h-4" />}>
+          BACK TO TEARDOWNS
+        </Button>
+      </div>
+    );
+  }
+
+  if (!teardown) {
+    return <LoadingOverlay isLoading message="LOADING TEARDOWN..."><div /></LoadingOverlay>;
+  }
+
+  const checklist = teardown.checklist || [];
+  const harvestedCount = checklist.filter(item => item.harvested).length;
+
+  const updateItem = (index: number, changes: Partial<TeardownChecklistItem>) => {
+    save({ checklist: checklist.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const addItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.trim()) return;
+    save({
+      checklist: [
+        ...checklist,
+        { name: newItem.trim(), category: null, quantity: 1, estimated_value: null, notes: null, harvested: false, part_id: null }
+      ]
+    });
+    setNewItem('');
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the "${teardown.device_name}" teardown? Harvested parts stay in your inventory.`)) return;
+    await deleteTeardown.mutateAsync(teardown.id);
+    navigate('/teardowns');
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <Link to="/teardowns" className="inline-flex items-center gap-1 text-sm text-text-muted hover:text-cyber-cyan font-mono mb-2">
+            <ArrowLeft className="w-3 h-3" />
+            TEARDOWNS
+          </Link>
+          <h1 className="text-3xl font-bold text-text-primary font-mono tracking-wider">{teardownLabel(teardown)}</h1>
+          <div className="flex flex-wrap items-center gap-3 mt-2 text-sm font-mono text-text-muted">
+            {teardown.manufacturer && <span>{teardown.manufacturer}</span>}
+            <span>TORN DOWN {formatTeardownDate(teardown.teardown_date)}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <Button variant="outline" onClick={() => setShowForm(true)} icon={<Edit className="w-4 h-4" />}>
+            EDIT
+          </Button>
+          <Button variant="danger" onClick={handleDelete} loading={deleteTeardown.isPending} icon={<Trash2 className="w-4 h-4" />} />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Stat label="Parts" value={teardown.parts} />
+        <Stat label="Units" value={teardown.units} />
+        <Stat label="Value" value={currency(teardown.value)} />
+        <Stat label="Checklist" value={checklist.length ? `${harvestedCount}/${checklist.length}` : '-'} />
+      </div>
+
+      {teardown.hazards.length > 0 && (
+        <div className="cyber-card border-cyber-orange/50">
+          <div className="flex items-center gap-2 mb-2">
+            <AlertTriangle className="w-5 h-5 text-cyber-orange" />
+            <h2 className="text-sm font-semibold text-cyber-orange font-mono uppercase tracking-wider">Hazards</h2>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {teardown.hazards.map(hazard => (
+              <span key={hazard} className="px-2 py-0.5 rounded-sm text-xs font-mono border border-cyber-orange/50 text-cyber-orange bg-cyber-orange/10">
+                {hazard}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Salvage checklist */}
+        <Section
+          title="Salvage Checklist"
+          icon={ListChecks}
+          className="lg:col-span-2"
+          action={
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => suggestComponents.mutate(teardown.id)}
+              loading={suggestComponents.isPending}
+              icon={<Brain className="w-4 h-4" />}
+            >
+              SUGGEST
+            </Button>
+          }
+        >
+          {checklist.length === 0 ? (
+            <p className="text-text-muted font-mono text-sm mb-4">
+              Ask the AI for the components typically worth salvaging from this device, or add your own.
+            </p>
+          ) : (
+            <ul className="space-y-2 mb-4">
+              {checklist.map((item, index) => (
+                <li
+                  key={`${item.name}-${index}`}
+                  className={cn(
+                    'flex items-start gap-3 p-2 rounded-sm border',
+                    item.harvested ? 'border-cyber-green/30 bg-cyber-green/5' : 'border-text-muted/20'
+                  )}
+                >
+                  <button
+                    type="button"
+                    onClick={() => updateItem(index, { harvested: !item.harvested })}
+                    className="mt-0.5 text-text-muted hover:text-cyber-green"
+                    title={item.harvested ? 'Mark as not harvested' : 'Mark as harvested'}
+                  >
+                    {item.harvested ? <CheckSquare className="w-4 h-4 text-cyber-green" /> : <Square className="w-4 h-4" />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className={cn('font-mono text-sm', item.harvested ? 'text-text-muted line-through' : 'text-text-primary')}>
+                      {item.quantity > 1 && <span className="text-cyber-cyan">{item.quantity}× </span>}
+                      {item.name}
+                      {item.category && <span className="text-text-muted"> / {item.category}</span>}
+                      {item.estimated_value !== null && <span className="text-cyber-green"> ~{currency(item.estimated_value)}</span>}
+                    </p>
+                    {item.notes && <p className="text-xs text-text-muted font-mono mt-0.5">{item.notes}</p>}
+                  </div>
+                  {item.part_id ? (
+                    <Link to={`/parts/${item.part_id}`} className="text-xs text-cyber-cyan hover:underline font-mono flex-shrink-0">
+                      VIEW PART
+                    </Link>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setHarvest({ index, defaults: harvestDefaults(teardown, item) })}
+                      icon={<Plus className="w-3 h-3" />}
+                    >
+                      HARVEST
+                    </Button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => save({ checklist: checklist.filter((_, i) => i !== index) })}
+                    className="mt-0.5 text-text-muted hover:text-cyber-magenta"
+                    title="Remove from checklist"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={addItem} className="flex gap-2">
+            <input
+              type="text"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              placeholder="Add a component to look for..."
+              className="cyber-input flex-1"
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={!newItem.trim()} icon={<Plus className="w-4 h-4" />}>
+              ADD
+            </Button>
+          </form>
+          {teardown.metadata?.suggestion_confidence !== undefined && (
+            <p className="text-xs text-text-muted font-mono mt-3">
+              AI suggestions {Math.round(teardown.metadata.suggestion_confidence * 100)}% confident. Check against the actual board.
+            </p>
+          )}
+        </Section>
+
+        {/* Notes and photos */}
+        <Section
+          title="Notes"
+          icon={Camera}
+          action={
+            <Button size="sm" variant="ghost" onClick={() => setShowPhotos(!showPhotos)} icon={<Plus className="w-3 h-3" />}>
+              PHOTOS
+            </Button>
+          }
+        >
+          {teardown.notes ? (
+            <p className="text-sm text-text-secondary whitespace-pre-wrap mb-3">{teardown.notes}</p>
+          ) : (
+            <p className="text-text-muted font-mono text-sm mb-3">NO NOTES YET</p>
+          )}
+          {teardown.photos.length > 0 && (
+            <div className="grid grid-cols-3 gap-2 mb-3">
+              {teardown.photos.map(url => (
+                <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                  <img src={url} alt="" className="w-full aspect-square object-cover rounded-sm border border-text-muted/20" />
+                </a>
+              ))}
+            </div>
+          )}
+          {showPhotos && <ImageUpload onImagesUploaded={handlePhotos} maxFiles={10} showPreview={false} />}
+        </Section>
+
+        {/* Harvested parts */}
+        <Section
+          title="Harvested Parts"
+          icon={Package}
+          className="lg:col-span-3"
+          action={
+            <Button size="sm" onClick={() => setHarvest({ defaults: harvestDefaults(teardown) })} icon={<Plus className="w-4 h-4" />}>
+              ADD PART
+            </Button>
+          }
+        >
+          {parts.length === 0 ? (
+            <p className="text-text-muted font-mono text-sm">Nothing harvested yet. Parts added here are linked to this teardown.</p>
+          ) : (
+            <div className="divide-y divide-text-muted/10">
+              {parts.map(part => (
+                <Link
+                  key={part.id}
+                  to={`/parts/${part.id}`}
+                  className="flex items-center justify-between gap-4 py-2 font-mono text-sm hover:text-cyber-cyan"
+                >
+                  <span className="truncate text-text-primary">
+                    {part.name}
+                    {part.category && <span className="text-text-muted"> / {part.category}</span>}
+                  </span>
+                  <span className="flex-shrink-0 text-text-secondary">
+                    {part.quantity}×
+                    {part.value_estimate !== null && <span className="text-cyber-green ml-2">{currency(part.value_estimate * part.quantity)}</span>}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          )}
+        </Section>
+      </div>
+
+      {showForm && <TeardownForm isOpen onClose={() => setShowForm(false)} teardown={teardown} />}
+
+      {harvest && (
+        <PartForm
+          isOpen
+          onClose={() => setHarvest(null)}
+          defaults={harvest.defaults}
+          onSaved={(part) => {
+            if (harvest.index !== undefined) {
+              updateItem(harvest.index, { harvested: true, part_id: part.id });
+            }
+          }}
+        />
+      )}
+    </div>
+  );
+};
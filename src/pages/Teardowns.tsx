@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Recycle, Plus, Search, AlertTriangle, Package, DollarSign, ListChecks } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { SkeletonCard } from '@/components/common/LoadingStates';
+import { TeardownForm } from '@/components/teardowns/TeardownForm';
+import { useTeardowns, teardownLabel, formatTeardownDate, Teardown } from '@/hooks/api/useTeardowns';
+
+const currency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const TeardownCard: React.FC<{ teardown: Teardown }> = ({ teardown }) => {
+  const harvested = teardown.checklist.filter(item => item.harvested).length;
+
+  return (
+    <Link to={`/teardowns/${teardown.id}`} className="cyber-card block hover:border-cyber-cyan transition-colors">
+      <div className="flex items-start gap-3">
+        {teardown.photos[0] ? (
+          <img src={teardown.photos[0]} alt="" className="w-16 h-16 object-cover rounded-sm flex-shrink-0" />
+        ) : (
+          <div className="w-16 h-16 rounded-sm bg-bg-tertiary flex items-center justify-center flex-shrink-0">
+            <Recycle className="w-6 h-6 text-text-muted" />
+          </div>
+        )}
+        <div className="min-w-0">
+          <h3 className="font-semibold text-text-primary font-mono truncate">{teardownLabel(teardown)}</h3>
+          <p className="text-xs text-text-muted font-mono">
+            {[teardown.manufacturer, formatTeardownDate(teardown.teardown_date)].filter(Boolean).join(' • ')}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-4 text-xs font-mono text-text-secondary">
+        <span className="inline-flex items-center gap-1">
+          <Package className="w-3 h-3 text-cyber-cyan" />
+          {teardown.parts} PARTS / {teardown.units} UNITS
+        </span>
+        <span className="inline-flex items-center gap-1">
+          <DollarSign className="w-3 h-3 text-cyber-green" />
+          {currency(teardown.value)}
+        </span>
+        {teardown.checklist.length > 0 && (
+          <span className="inline-flex items-center gap-1">
+            <ListChecks className="w-3 h-3 text-cyber-magenta" />
+            {harvested}/{teardown.checklist.length} HARVESTED
+          </span>
+        )}
+        {teardown.hazards.length > 0 && (
+          <span className="inline-flex items-center gap-1 text-cyber-orange">
+            <AlertTriangle className="w-3 h-3" />
+            {teardown.hazards.length} HAZARD{teardown.hazards.length === 1 ? '' : 'S'}
+          </span>
+        )}
+      </div>
+    </Link>
+  );
+};
+
+export const Teardowns: React.FC = () => {
+  const navigate = useNavigate();
+  const [search, setSearch] = useState('');
+  const [showForm, setShowForm] = useState(false);
+
+  const { data, isLoading } = useTeardowns(search.trim() || undefined);
+  const teardowns = data?.teardowns || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary font-mono uppercase tracking-wider">Teardowns</h1>
+          <p className="text-text-muted mt-1 font-mono">Devices you've taken apart and what they gave up</p>
+        </div>
+        <Button icon={<Plus className="w-4 h-4" />} onClick={() => setShowForm(true)} glow>
+          NEW TEARDOWN
+        </Button>
+      </div>
+
+      <div className="relative">
+        <Search className="w-4 h-4 text-text-muted absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search devices, models, manufacturers..."
+          className="cyber-input w-full pl-9"
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <SkeletonCard key={i} />
+          ))}
+        </div>
+      ) : teardowns.length === 0 ? (
+        <div className="cyber-card text-center py-12">
+          <Recycle className="w-12 h-12 text-text-muted mx-auto mb-4" />
+          <p className="text-text-primary font-mono mb-2">{search ? 'NO MATCHING TEARDOWNS' : 'NO TEARDOWNS YET'}</p>
+          <p className="text-text-muted font-mono text-sm">
+            Log a device before you open it up to get a checklist of what's worth saving
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {teardowns.map(teardown => (
+            <TeardownCard key={teardown.id} teardown={teardown} />
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <TeardownForm
+          isOpen
+          onClose={() => setShowForm(false)}
+          onCreated={(teardown) => navigate(`/teardowns/${teardown.id}`)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,350 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { DollarSign, Download, FileJson, Cpu, AlertTriangle, Brain, Check, X } from 'lucide-react';
+import { Button } from '@/components/common/Button';
+import { SkeletonStats } from '@/components/common/LoadingStates';
+import { BarList } from '@/components/analytics/Charts';
+import {
+  useValuation,
+  useExportValuation,
+  useApplyValueEstimates,
+  useBatchValueEstimate,
+  ValuationCsvView,
+  ValuationGroup
+} from '@/hooks/api/useValuation';
+import { cn, formatDate } from '@/lib/utils';
+
+type GroupView = 'category' | 'source' | 'device';
+
+const GROUP_VIEWS: { view: GroupView; label: string }[] = [
+  { view: 'category', label: 'Category' },
+  { view: 'source', label: 'Source' },
+  { view: 'device', label: 'Device' }
+];
+
+const CSV_VIEWS: { view: ValuationCsvView; label: string }[] = [
+  { view: 'parts', label: 'Every part' },
+  { view: 'category', label: 'By category' },
+  { view: 'source', label: 'By source' },
+  { view: 'device', label: 'By device' },
+  { view: 'teardowns', label: 'Teardown yield' }
+];
+
+const currency = (value: number) => `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const Metric: React.FC<{ label: string; value: React.ReactNode; hint?: string; warn?: boolean }> = ({ label, value, hint, warn }) => (
+  <div className={cn('cyber-card', warn && 'border-cyber-orange/60')}>
+    <p className="text-xs text-text-muted font-mono uppercase tracking-wider">{label}</p>
+    <p className={cn('text-2xl font-bold font-mono mt-1', warn ? 'text-cyber-orange' : 'text-text-primary')}>{value}</p>
+    {hint && <p className="text-xs text-text-muted font-mono mt-1">{hint}</p>}
+  </div>
+);
+
+const groupItems = (groups: ValuationGroup[]) =>
+  groups.slice(0, 15).map(group => ({
+    label: group.key,
+    value: group.value,
+    hint: `/ ${group.units} units${group.unvalued ? ` • ${group.unvalued} unvalued` : ''}`
+  }));
+
+export const Valuation: React.FC = () => {
+  const [groupView, setGroupView] = useState<GroupView>('category');
+  const [csvView, setCsvView] = useState<ValuationCsvView>('parts');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, string>>({});
+  const [rejected, setRejected] = useState<string[]>([]);
+
+  const { data, isLoading } = useValuation();
+  const exportValuation = useExportValuation();
+  const applyEstimates = useApplyValueEstimates();
+  const batch = useBatchValueEstimate();
+
+  const unvalued = data?.unvalued || [];
+  const groups = data ? { category: data.by_category, source: data.by_source, device: data.by_device }[groupView] : [];
+
+  const proposalValue = (partId: string, value: number | null) => {
+    const override = overrides[partId];
+    if (override !== undefined) {
+      const parsed = parseFloat(override);
+      return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+    }
+    return value;
+  };
+
+  const accepted = batch.proposals
+    .filter(proposal => !rejected.includes(proposal.part.id))
+    .map(proposal => ({ ...proposal, value_estimate: proposalValue(proposal.part.id, proposal.value_estimate) }))
+    .filter(proposal => proposal.value_estimate !== null);
+
+  const handleEstimate = () => {
+    const parts = unvalued.filter(part => selected.includes(part.id));
+    setOverrides({});
+    setRejected([]);
+    batch.run(parts);
+  };
+
+  const handleApply = async () => {
+    await applyEstimates.mutateAsync(
+      accepted.map(proposal => ({
+        part_id: proposal.part.id,
+        value_estimate: proposal.value_estimate!,
+        confidence: proposal.confidence
+      }))
+    );
+    batch.reset();
+    setSelected([]);
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-text-primary font-mono uppercase tracking-wider">VALUATION</h1>
+          <p className="text-text-muted mt-1 font-mono">What your inventory and teardowns are worth</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={csvView} onChange={(e) => setCsvView(e.target.value as ValuationCsvView)} className="cyber-input">
+            {CSV_VIEWS.map(option => <option key={option.view} value={option.view}>{option.label}</option>)}
+          </select>
+          <Button
+            variant="outline"
+            onClick={() => exportValuation.mutate({ format: 'csv', view: csvView })}
+            loading={exportValuation.isPending && exportValuation.variables?.format === 'csv'}
+            icon={<Download className="w-4 h-4" />}
+          >
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => exportValuation.mutate({ format: 'json' })}
+            loading={exportValuation.isPending && exportValuation.variables?.format === 'json'}
+            icon={<FileJson className="w-4 h-4" />}
+          >
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && <SkeletonStats />}
+
+      {data && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Metric label="Total Value" value={currency(data.totals.value)} hint={`${data.totals.units} units`} />
+            <Metric label="Valued Parts" value={data.totals.valued_parts} hint={`of ${data.totals.parts} parts`} />
+            <Metric
+              label="No Estimate"
+              value={data.totals.unvalued_parts}
+              hint={`${data.totals.unvalued_units} units not counted`}
+              warn={data.totals.unvalued_parts > 0}
+            />
+            <Metric label="Teardowns" value={data.teardowns.length} hint="devices salvaged" />
+          </div>
+
+          {/* Breakdown */}
+          <div className="cyber-card">
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+              <div className="flex items-center gap-2">
+                <DollarSign className="w-5 h-5 text-cyber-cyan" />
+                <h2 className="text-sm font-semibold text-text-primary font-mono uppercase tracking-wider">Value Breakdown</h2>
+              </div>
+              <div className="flex gap-2">
+                {GROUP_VIEWS.map(option => (
+                  <Button
+                    key={option.view}
+                    size="sm"
+                    variant={groupView === option.view ? 'primary' : 'ghost'}
+                    onClick={() => setGroupView(option.view)}
+                  >
+                    {option.label.toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <BarList items={groupItems(groups)} color="green" format={currency} />
+          </div>
+
+          {/* Teardown yield */}
+          <div className="cyber-card">
+            <div className="flex items-center gap-2 mb-4">
+              <Cpu className="w-5 h-5 text-cyber-cyan" />
+              <h2 className="text-sm font-semibold text-text-primary font-mono uppercase tracking-wider">Teardown Yield</h2>
+            </div>
+            {data.teardowns.length === 0 ? (
+              <p className="text-text-muted font-mono text-sm">SET "ORIGINAL DEVICE" ON SALVAGED PARTS TO SEE WHAT EACH TEARDOWN YIELDED</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {data.teardowns.map(teardown => (
+                  <div key={teardown.key} className="bg-bg-secondary border border-cyber-cyan/20 rounded-sm p-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className="font-mono text-text-primary">{teardown.key}</h3>
+                      <span className="font-mono text-cyber-green">{currency(teardown.value)}</span>
+                    </div>
+                    <p className="text-xs text-text-muted font-mono mt-1">
+                      {teardown.parts} parts • {teardown.units} units
+                      {teardown.sources.length > 0 && ` • from ${teardown.sources.join(', ')}`}
+                    </p>
+                    <p className="text-xs text-text-muted font-mono">
+                      {formatDate(teardown.first_salvaged)}
+                      {teardown.last_salvaged !== teardown.first_salvaged && ` – ${formatDate(teardown.last_salvaged)}`}
+                    </p>
+                    {teardown.top_parts.length > 0 && (
+                      <ul className="mt-2 space-y-0.5 text-sm">
+                        {teardown.top_parts.map(part => (
+                          <li key={part.id} className="flex justify-between gap-2">
+                            <Link to={`/parts/${part.id}`} className="text-text-secondary hover:text-cyber-cyan truncate">{part.name}</Link>
+                            <span className="text-text-muted font-mono flex-shrink-0">{currency(part.value)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {teardown.unvalued > 0 && (
+                      <p className="flex items-center text-xs text-cyber-orange font-mono mt-2">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        {teardown.unvalued} parts without an estimate
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Missing estimates */}
+          {(unvalued.length > 0 || batch.proposals.length > 0) && (
+            <div className="cyber-card border-cyber-orange/60">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5 text-cyber-orange" />
+                  <h2 className="text-sm font-semibold text-text-primary font-mono uppercase tracking-wider">
+                    Parts Without a Value ({unvalued.length})
+                  </h2>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setSelected(selected.length === unvalued.length ? [] : unvalued.map(part => part.id))}
+                    disabled={batch.isRunning}
+                  >
+                    {selected.length === unvalued.length ? 'SELECT NONE' : 'SELECT ALL'}
+                  </Button>
+                  {batch.isRunning ? (
+                    <Button size="sm" variant="danger" onClick={batch.cancel} icon={<X className="w-3 h-3" />}>
+                      STOP ({batch.progress.done}/{batch.progress.total})
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={handleEstimate}
+                      disabled={selected.length === 0}
+                      icon={<Brain className="w-3 h-3" />}
+                      glow
+                    >
+                      ESTIMATE WITH AI ({selected.length})
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {batch.progress.total > 0 && (
+                <div className="h-1 bg-bg-tertiary rounded-sm overflow-hidden mb-4">
+                  <div
+                    className="h-full bg-cyber-magenta transition-all"
+                    style={{ width: `${(batch.progress.done / batch.progress.total) * 100}%` }}
+                  />
+                </div>
+              )}
+
+              {batch.proposals.length > 0 ? (
+                <div className="space-y-3">
+                  <table className="w-full text-sm font-mono">
+                    <thead>
+                      <tr className="border-b border-cyber-cyan/30 text-text-muted text-xs uppercase tracking-wider">
+                        <th className="text-left py-2 pr-3">Part</th>
+                        <th className="text-right py-2 pr-3">Confidence</th>
+                        <th className="text-right py-2 pr-3">Unit Value</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {batch.proposals.map(proposal => {
+                        const isRejected = rejected.includes(proposal.part.id);
+                        return (
+                          <tr key={proposal.part.id} className={cn('border-b border-text-muted/20 last:border-0', isRejected && 'opacity-40')}>
+                            <td className="py-2 pr-3">
+                              <span className="text-text-primary">{proposal.part.name}</span>
+                              {proposal.error && <p className="text-xs text-cyber-magenta">{proposal.error}</p>}
+                            </td>
+                            <td className="py-2 pr-3 text-right text-text-muted">
+                              {proposal.confidence !== null ? `${Math.round(proposal.confidence * 100)}%` : '-'}
+                            </td>
+                            <td className="py-2 pr-3 text-right">
+                              <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={overrides[proposal.part.id] ?? proposal.value_estimate ?? ''}
+                                onChange={(e) => setOverrides({ ...overrides, [proposal.part.id]: e.target.value })}
+                                placeholder="?"
+                                className="cyber-input w-24 text-right py-0.5"
+                              />
+                            </td>
+                            <td className="py-2 text-right">
+                              <button
+                                type="button"
+                                onClick={() => setRejected(isRejected ? rejected.filter(id => id !== proposal.part.id) : [...rejected, proposal.part.id])}
+                                className={isRejected ? 'text-text-muted hover:text-cyber-green' : 'text-text-muted hover:text-cyber-magenta'}
+                                title={isRejected ? 'Include' : 'Skip'}
+                              >
+                                {isRejected ? <Check className="w-4 h-4" /> : <X className="w-4 h-4" />}
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" onClick={batch.reset} disabled={batch.isRunning}>DISCARD</Button>
+                    <Button
+                      onClick={handleApply}
+                      disabled={batch.isRunning || accepted.length === 0}
+                      loading={applyEstimates.isPending}
+                      icon={<Check className="w-4 h-4" />}
+                    >
+                      SAVE {accepted.length} ESTIMATES
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="divide-y divide-text-muted/20 max-h-96 overflow-y-auto">
+                  {unvalued.map(part => (
+                    <label key={part.id} className="flex items-center gap-3 py-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(part.id)}
+                        onChange={() => toggleSelected(part.id)}
+                        className="accent-cyber-cyan"
+                      />
+                      <Link to={`/parts/${part.id}`} className="text-sm text-text-primary hover:text-cyber-cyan truncate">
+                        {part.name}
+                      </Link>
+                      <span className="text-xs text-text-muted font-mono ml-auto flex-shrink-0">
+                        {[part.category, part.original_device, `×${part.quantity}`].filter(Boolean).join(' • ')}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
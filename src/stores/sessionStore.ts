@@ -0,0 +1,106 @@
+import { useEffect, useState } from 'react';
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+export type SessionMood = 'excited' | 'focused' | 'frustrated' | 'confused' | 'triumphant' | 'defeated' | 'drunk';
+
+export const SESSION_MOODS: SessionMood[] = ['excited', 'focused', 'frustrated', 'confused', 'triumphant', 'defeated', 'drunk'];
+
+// The build session that is currently running. The server row is created when
+// the session starts; this copy keeps the clock and the log across reloads.
+export interface ActiveSession {
+  id: string;
+  projectId: string;
+  projectName: string;
+  sessionNumber: number | null;
+  startedAt: string;
+  pausedAt: string | null;
+  pausedMs: number;
+  notes: string[];
+  issues: string[];
+  solutions: string[];
+  photos: string[];
+  partsConsumed: string[];
+  partNames: Record<string, string>;
+}
+
+interface SessionState {
+  active: ActiveSession | null;
+  startSession: (session: Pick<ActiveSession, 'id' | 'projectId' | 'projectName' | 'sessionNumber' | 'startedAt'>) => void;
+  pauseSession: () => void;
+  resumeSession: () => void;
+  updateSession: (changes: Partial<Pick<ActiveSession, 'notes' | 'issues' | 'solutions' | 'photos' | 'partsConsumed' | 'partNames'>>) => void;
+  clearSession: () => void;
+}
+
+// Time worked so far, not counting pauses
+export const sessionElapsedMs = (session: ActiveSession, now = Date.now()) => {
+  const end = session.pausedAt ? new Date(session.pausedAt).getTime() : now;
+  return Math.max(end - new Date(session.startedAt).getTime() - session.pausedMs, 0);
+};
+
+export const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(n => n.toString().padStart(2, '0')).join(':');
+};
+
+// Re-renders every second while the session clock is running
+export const useSessionClock = (session: ActiveSession | null) => {
+  const [now, setNow] = useState(Date.now());
+  const running = !!session && !session.pausedAt;
+
+  useEffect(() => {
+    if (!running) return;
+    setNow(Date.now());
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  return session ? sessionElapsedMs(session, now) : 0;
+};
+
+export const useSessionStore = create<SessionState>()(
+  persist(
+    (set) => ({
+      active: null,
+
+      startSession: (session) => set({
+        active: {
+          ...session,
+          pausedAt: null,
+          pausedMs: 0,
+          notes: [],
+          issues: [],
+          solutions: [],
+          photos: [],
+          partsConsumed: [],
+          partNames: {}
+        }
+      }),
+
+      pauseSession: () => set(({ active }) => (
+        active && !active.pausedAt ? { active: { ...active, pausedAt: new Date().toISOString() } } : {}
+      )),
+
+      resumeSession: () => set(({ active }) => (
+        active?.pausedAt
+          ? {
+              active: {
+                ...active,
+                pausedAt: null,
+                pausedMs: active.pausedMs + (Date.now() - new Date(active.pausedAt).getTime())
+              }
+            }
+          : {}
+      )),
+
+      updateSession: (changes) => set(({ active }) => (active ? { active: { ...active, ...changes } } : {})),
+
+      clearSession: () => set({ active: null }),
+    }),
+    { name: 'salvage-tracker-build-session' }
+  )
+);
@@ -1,4 +1,6 @@
 import { create } from 'zustand';
+import type { LabelItem } from '@/lib/labels';
+import type { PassiveKind } from '@/lib/passives';
 
 interface UIState {
   // Sidebar state
@@ -20,6 +22,23 @@ interface UIState {
   // View preferences
   partsView: 'grid' | 'table';
   setPartsView: (view: 'grid' | 'table') => void;
+
+  // Label printer (opened from cards, table selections and the command palette)
+  labelPrinterOpen: boolean;
+  labelItems: LabelItem[];
+  openLabelPrinter: (items?: LabelItem[]) => void;
+  closeLabelPrinter: () => void;
+
+  // Label scanner (keyboard shortcut and command palette)
+  scannerOpen: boolean;
+  openScanner: () => void;
+  closeScanner: () => void;
+
+  // Passive decoder (command palette); a code typed there opens it pre-filled
+  decoderOpen: boolean;
+  decoderInput: { kind: PassiveKind; code: string } | null;
+  openDecoder: (input?: { kind: PassiveKind; code: string }) => void;
+  closeDecoder: () => void;
 }
 
 export const useUIStore = create<UIState>((set) => ({
@@ -42,4 +61,21 @@ export const useUIStore = create<UIState>((set) => ({
   // View preferences
   partsView: 'grid',
   setPartsView: (view) => set({ partsView: view }),
+
+  // Label printer
+  labelPrinterOpen: false,
+  labelItems: [],
+  openLabelPrinter: (items = []) => set({ labelPrinterOpen: true, labelItems: items }),
+  closeLabelPrinter: () => set({ labelPrinterOpen: false, labelItems: [] }),
+
+  // Scanner
+  scannerOpen: false,
+  openScanner: () => set({ scannerOpen: true }),
+  closeScanner: () => set({ scannerOpen: false }),
+
+  // Passive decoder
+  decoderOpen: false,
+  decoderInput: null,
+  openDecoder: (input) => set({ decoderOpen: true, decoderInput: input || null }),
+  closeDecoder: () => set({ decoderOpen: false, decoderInput: null }),
 }));
\ No newline at end of file
@@ -0,0 +1,172 @@
+/*
+  # Core Inventory Tables
+
+  1. New Tables
+    - `parts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - identity: `name`, `description`, `category`, `subcategory`
+      - stock: `quantity`, `location`, `is_available`
+      - provenance: `source`, `original_device`, `ai_identified`
+      - details: `specs` (jsonb), `tags`, `images`, `pinout_diagram`, `datasheet_url`,
+        `value_estimate`, `compatible_with`, `notes`, `metadata` (jsonb)
+      - `created_at`, `updated_at` (timestamps)
+    - `projects`
+      - mirrors `ProjectInput` in netlify/functions/utils/validation.ts
+      - `status` constrained to idea | planning | building | completed | failed | abandoned
+    - `build_sessions`
+      - mirrors `BuildSessionInput`, belongs to a project
+      - `mood` constrained to the session mood enum
+
+  2. Security
+    - Enable RLS on all three tables
+    - Users can manage only their own rows
+
+  3. Housekeeping
+    - Shared `set_updated_at()` trigger keeps `updated_at` current
+*/
+
+-- Shared trigger function for updated_at columns
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Parts
+CREATE TABLE IF NOT EXISTS parts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  category text,
+  subcategory text,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity >= 0),
+  location text,
+  source text,
+  specs jsonb DEFAULT '{}',
+  tags text[] DEFAULT '{}',
+  images text[] DEFAULT '{}',
+  pinout_diagram text,
+  datasheet_url text,
+  value_estimate numeric(10, 2) CHECK (value_estimate IS NULL OR value_estimate >= 0),
+  is_available boolean NOT NULL DEFAULT true,
+  ai_identified boolean NOT NULL DEFAULT false,
+  original_device text,
+  compatible_with text[] DEFAULT '{}',
+  notes text,
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Projects
+CREATE TABLE IF NOT EXISTS projects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  description text,
+  status text NOT NULL DEFAULT 'idea'
+    CHECK (status IN ('idea', 'planning', 'building', 'completed', 'failed', 'abandoned')),
+  difficulty_level integer CHECK (difficulty_level IS NULL OR difficulty_level BETWEEN 1 AND 5),
+  danger_level integer,
+  fun_factor integer,
+  practicality integer,
+  parts_used text[] DEFAULT '{}',
+  parts_consumed text[] DEFAULT '{}',
+  instructions text,
+  code text,
+  schematics text,
+  images text[] DEFAULT '{}',
+  success_photos text[] DEFAULT '{}',
+  fail_photos text[] DEFAULT '{}',
+  time_estimate text,
+  actual_time text,
+  date_started timestamptz,
+  date_completed timestamptz,
+  ai_generated boolean NOT NULL DEFAULT false,
+  ai_prompt text,
+  notes text,
+  lessons_learned text,
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Build sessions
+CREATE TABLE IF NOT EXISTS build_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  session_number integer,
+  start_time timestamptz,
+  end_time timestamptz,
+  work_description text,
+  parts_consumed text[] DEFAULT '{}',
+  tools_used text[] DEFAULT '{}',
+  issues_encountered text[] DEFAULT '{}',
+  solutions_found text[] DEFAULT '{}',
+  photos text[] DEFAULT '{}',
+  mood text CHECK (mood IS NULL OR mood IN ('excited', 'focused', 'frustrated', 'confused', 'triumphant', 'defeated', 'drunk')),
+  notes text,
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE parts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE build_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Users can manage their own rows
+DROP POLICY IF EXISTS "Users can manage their own parts" ON parts;
+CREATE POLICY "Users can manage their own parts"
+  ON parts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own projects" ON projects;
+CREATE POLICY "Users can manage their own projects"
+  ON projects
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own build sessions" ON build_sessions;
+CREATE POLICY "Users can manage their own build sessions"
+  ON build_sessions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- updated_at triggers
+DROP TRIGGER IF EXISTS parts_set_updated_at ON parts;
+CREATE TRIGGER parts_set_updated_at
+  BEFORE UPDATE ON parts
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+DROP TRIGGER IF EXISTS projects_set_updated_at ON projects;
+CREATE TRIGGER projects_set_updated_at
+  BEFORE UPDATE ON projects
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+DROP TRIGGER IF EXISTS build_sessions_set_updated_at ON build_sessions;
+CREATE TRIGGER build_sessions_set_updated_at
+  BEFORE UPDATE ON build_sessions
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+-- Indexes for the list queries the CRUD functions run
+CREATE INDEX IF NOT EXISTS idx_parts_user_created ON parts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_parts_user_category ON parts(user_id, category);
+CREATE INDEX IF NOT EXISTS idx_parts_user_available ON parts(user_id, is_available);
+CREATE INDEX IF NOT EXISTS idx_projects_user_created ON projects(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_projects_user_status ON projects(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_build_sessions_user_created ON build_sessions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_build_sessions_project ON build_sessions(project_id, session_number);
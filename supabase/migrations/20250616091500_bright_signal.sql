@@ -0,0 +1,154 @@
+/*
+  # Ranked Parts Search
+
+  1. Extensions
+    - `pg_trgm` for fuzzy part-number matching
+
+  2. Columns on `parts`
+    - `search_vector` (tsvector) - weighted document over name, part number,
+      manufacturer, tags, category, description, specs and notes
+    - `search_key` (text) - normalized name + part number ("LM 7805" -> "lm7805")
+    Both are maintained by the `parts_search_refresh` trigger.
+
+  3. Functions
+    - `normalize_part_key(text)` - lowercases and strips everything but [a-z0-9]
+    - `specs_to_text(jsonb)` - flattens a specs object to "key value" pairs
+    - `search_parts(...)` - relevance-ordered search returning the part row,
+      its rank, a highlighted snippet and the total match count
+
+  4. Indexes
+    - GIN on `search_vector`, GIN trigram on `search_key`
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- "LM 7805", "lm7805" and "LM-7805" all normalize to "lm7805"
+CREATE OR REPLACE FUNCTION normalize_part_key(input text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT regexp_replace(lower(coalesce(input, '')), '[^a-z0-9]+', '', 'g');
+$$;
+
+-- Flatten a specs object to searchable text ("voltage 5V package TO-220")
+CREATE OR REPLACE FUNCTION specs_to_text(specs jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(specs) = 'object' THEN
+      coalesce((SELECT string_agg(key || ' ' || value, ' ') FROM jsonb_each_text(specs)), '')
+    ELSE ''
+  END;
+$$;
+
+ALTER TABLE parts ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE parts ADD COLUMN IF NOT EXISTS search_key text;
+
+CREATE OR REPLACE FUNCTION parts_search_refresh()
+RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW.metadata->>'part_number', '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW.metadata->>'manufacturer', '')), 'B') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(NEW.tags, '{}'), ' ')), 'B') ||
+    setweight(to_tsvector('english', concat_ws(' ', NEW.category, NEW.subcategory)), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'C') ||
+    setweight(to_tsvector('english', specs_to_text(NEW.specs)), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.notes, '')), 'D');
+
+  NEW.search_key := concat_ws(' ',
+    normalize_part_key(NEW.name),
+    nullif(normalize_part_key(NEW.metadata->>'part_number'), '')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS parts_search_refresh ON parts;
+CREATE TRIGGER parts_search_refresh
+  BEFORE INSERT OR UPDATE ON parts
+  FOR EACH ROW EXECUTE PROCEDURE parts_search_refresh();
+
+-- Backfill existing rows through the trigger
+UPDATE parts SET name = name;
+
+CREATE INDEX IF NOT EXISTS idx_parts_search_vector ON parts USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_parts_search_key_trgm ON parts USING gin(search_key gin_trgm_ops);
+
+-- Relevance-ordered search. Full-text hits rank by ts_rank_cd; part numbers
+-- that only match fuzzily (e.g. "lm 7805" vs "LM7805") rank by trigram score.
+-- SECURITY INVOKER so RLS still applies when called with a user JWT.
+CREATE OR REPLACE FUNCTION search_parts(
+  p_user_id uuid,
+  p_query text,
+  p_category text DEFAULT NULL,
+  p_available boolean DEFAULT NULL,
+  p_limit integer DEFAULT 50,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  part jsonb,
+  rank real,
+  highlight text,
+  match_type text,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', p_query) AS tsq,
+      normalize_part_key(p_query) AS key
+  ),
+  matches AS (
+    SELECT
+      to_jsonb(p) - 'search_vector' - 'search_key' AS part,
+      concat_ws(' | ', p.name, p.description, array_to_string(p.tags, ', '), specs_to_text(p.specs), p.notes) AS doc,
+      p.created_at,
+      p.search_vector @@ q.tsq AS fts_hit,
+      ts_rank_cd(p.search_vector, q.tsq, 32) AS fts_rank,
+      CASE WHEN length(q.key) >= 3 THEN word_similarity(q.key, p.search_key) ELSE 0 END AS trgm_score
+    FROM parts p, q
+    WHERE p.user_id = p_user_id
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (p_available IS NULL OR p.is_available = p_available)
+      AND (
+        p.search_vector @@ q.tsq
+        OR (length(q.key) >= 3 AND q.key <% p.search_key)
+      )
+  ),
+  ranked AS (
+    SELECT
+      m.*,
+      (m.fts_rank + 0.5 * m.trgm_score)::real AS score,
+      count(*) OVER () AS total_count
+    FROM matches m
+    ORDER BY (m.fts_rank + 0.5 * m.trgm_score) DESC, m.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset
+  )
+  SELECT
+    r.part,
+    r.score AS rank,
+    CASE
+      WHEN r.fts_hit THEN ts_headline(
+        'english',
+        r.doc,
+        q.tsq,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+      )
+      ELSE NULL
+    END AS highlight,
+    CASE WHEN r.fts_hit THEN 'fulltext' ELSE 'fuzzy' END AS match_type,
+    r.total_count
+  FROM ranked r, q
+  ORDER BY r.score DESC, r.created_at DESC;
+$$;
@@ -0,0 +1,84 @@
+/*
+  # Storage Locations
+
+  1. New Tables
+    - `locations`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `parent_id` (uuid, self reference) - room → shelf → bin tree; NULL for roots
+      - `name`, `kind`, `description`, `sort_order`, `metadata`
+      - `created_at`, `updated_at` (timestamps)
+      - sibling names are unique per parent, ignoring case and surrounding spaces
+
+  2. Changes to `parts`
+    - `location_id` (uuid) - the bin a part lives in. `location` stays as the
+      denormalized display path ("Garage / Shelf 2 / Bin 4") so existing
+      search and the `loc:` query filter keep working.
+
+  3. Security
+    - Enable RLS on `locations`; users can manage only their own rows
+
+  4. Backfill
+    - Each distinct free-text `parts.location` (case-insensitive) becomes a
+      root location and its parts are linked to it
+*/
+
+CREATE TABLE IF NOT EXISTS locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  parent_id uuid REFERENCES locations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  kind text NOT NULL DEFAULT 'bin'
+    CHECK (kind IN ('room', 'area', 'shelf', 'cabinet', 'drawer', 'bin', 'box', 'other')),
+  description text,
+  sort_order integer NOT NULL DEFAULT 0,
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (parent_id IS NULL OR parent_id <> id)
+);
+
+ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own locations" ON locations;
+CREATE POLICY "Users can manage their own locations"
+  ON locations
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS locations_set_updated_at ON locations;
+CREATE TRIGGER locations_set_updated_at
+  BEFORE UPDATE ON locations
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_locations_user_id ON locations(user_id);
+CREATE INDEX IF NOT EXISTS idx_locations_parent_id ON locations(parent_id);
+
+-- "Drawer A" and "drawer a " under the same parent are the same place
+CREATE UNIQUE INDEX IF NOT EXISTS idx_locations_unique_sibling_name ON locations (
+  user_id,
+  coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid),
+  lower(trim(name))
+);
+
+ALTER TABLE parts ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES locations(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_parts_location_id ON parts(location_id);
+
+-- Promote existing free-text locations to root locations
+INSERT INTO locations (user_id, name, kind)
+SELECT user_id, min(trim(location)), 'other'
+FROM parts
+WHERE location IS NOT NULL AND trim(location) <> ''
+GROUP BY user_id, lower(trim(location))
+ON CONFLICT DO NOTHING;
+
+UPDATE parts p
+SET location_id = l.id,
+    location = l.name
+FROM locations l
+WHERE l.user_id = p.user_id
+  AND l.parent_id IS NULL
+  AND lower(trim(l.name)) = lower(trim(p.location))
+  AND p.location_id IS NULL;
@@ -0,0 +1,81 @@
+/*
+  # Stock Movements Ledger
+
+  1. New Tables
+    - `stock_movements`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `part_id` (uuid, foreign key) - removed with the part
+      - `delta` (integer, non-zero) - positive adds stock, negative removes it
+      - `reason` - salvaged | consumed | sold | lost | adjusted
+      - `project_id`, `build_session_id` (uuid, optional) - what the stock went into;
+        kept as history (set to NULL) when the project or session is deleted
+      - `note`, `created_at`
+      - rows are append-only; deleting one reverts it
+
+  2. Changes to `parts`
+    - `quantity` is now maintained from the ledger: inserting a movement adds its
+      delta, deleting one subtracts it. The existing `quantity >= 0` check rejects
+      movements that would overdraw a part.
+
+  3. Security
+    - Enable RLS on `stock_movements`; users can manage only their own rows
+
+  4. Backfill
+    - Each part with stock gets an "Opening balance" adjustment so the ledger
+      sums to the current quantity (inserted before the trigger exists)
+*/
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  part_id uuid NOT NULL REFERENCES parts(id) ON DELETE CASCADE,
+  delta integer NOT NULL CHECK (delta <> 0),
+  reason text NOT NULL
+    CHECK (reason IN ('salvaged', 'consumed', 'sold', 'lost', 'adjusted')),
+  project_id uuid REFERENCES projects(id) ON DELETE SET NULL,
+  build_session_id uuid REFERENCES build_sessions(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own stock movements" ON stock_movements;
+CREATE POLICY "Users can manage their own stock movements"
+  ON stock_movements
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_part_id ON stock_movements(part_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_user_id ON stock_movements(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_project_id ON stock_movements(project_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_build_session_id ON stock_movements(build_session_id);
+
+-- Opening balances, before the trigger so they don't double existing stock
+INSERT INTO stock_movements (user_id, part_id, delta, reason, note, created_at)
+SELECT user_id, id, quantity, 'adjusted', 'Opening balance', coalesce(created_at, now())
+FROM parts
+WHERE quantity > 0
+  AND NOT EXISTS (SELECT 1 FROM stock_movements m WHERE m.part_id = parts.id);
+
+-- Keep parts.quantity equal to the sum of its movements
+CREATE OR REPLACE FUNCTION apply_stock_movement()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE parts SET quantity = quantity + NEW.delta WHERE id = NEW.part_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE parts SET quantity = quantity - OLD.delta WHERE id = OLD.part_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stock_movements_apply ON stock_movements;
+CREATE TRIGGER stock_movements_apply
+  AFTER INSERT OR DELETE ON stock_movements
+  FOR EACH ROW EXECUTE PROCEDURE apply_stock_movement();
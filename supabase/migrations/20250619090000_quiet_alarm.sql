@@ -0,0 +1,51 @@
+/*
+  # Low Stock Thresholds
+
+  1. Changes to `parts`
+    - `min_quantity` (integer, optional) - restock when quantity falls below it;
+      overrides the category threshold
+
+  2. New Tables
+    - `category_thresholds`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `category` (text) - matched case-insensitively against `parts.category`
+      - `min_quantity` (integer)
+      - `created_at`, `updated_at` (timestamps)
+
+  3. Security
+    - Enable RLS on `category_thresholds`; users can manage only their own rows
+*/
+
+ALTER TABLE parts ADD COLUMN IF NOT EXISTS min_quantity integer
+  CHECK (min_quantity IS NULL OR min_quantity >= 0);
+
+CREATE TABLE IF NOT EXISTS category_thresholds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  category text NOT NULL CHECK (length(trim(category)) > 0),
+  min_quantity integer NOT NULL CHECK (min_quantity >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE category_thresholds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own category thresholds" ON category_thresholds;
+CREATE POLICY "Users can manage their own category thresholds"
+  ON category_thresholds
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS category_thresholds_set_updated_at ON category_thresholds;
+CREATE TRIGGER category_thresholds_set_updated_at
+  BEFORE UPDATE ON category_thresholds
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_category_thresholds_unique_category
+  ON category_thresholds (user_id, lower(trim(category)));
+
+-- Parts with their own threshold, for the low stock check
+CREATE INDEX IF NOT EXISTS idx_parts_min_quantity ON parts(user_id) WHERE min_quantity IS NOT NULL;
@@ -0,0 +1,102 @@
+/*
+  # Project Bill of Materials
+
+  1. New Tables
+    - `project_parts` - one BOM line per part per project
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `project_id` (uuid, foreign key) - removed with the project
+      - `part_id` (uuid, foreign key) - removed with the part
+      - `quantity` (integer, > 0) - how many the build needs
+      - `reserved` (integer) - units held back from other projects
+      - `consumed` (integer) - units already used up by the build
+      - `substitutes` (uuid[]) - parts that can stand in when this one is short
+      - `notes`, `created_at`, `updated_at`
+
+  2. Changes to `parts`
+    - `reserved_quantity` (integer) - sum of `project_parts.reserved` for the part,
+      maintained by trigger. Available stock is `quantity - reserved_quantity`.
+
+  3. Security
+    - Enable RLS on `project_parts`; users can manage only their own rows
+
+  4. Backfill
+    - Existing `projects.parts_used` entries become BOM lines (repeats become the
+      quantity); completed projects count their `parts_consumed` as consumed
+*/
+
+ALTER TABLE parts ADD COLUMN IF NOT EXISTS reserved_quantity integer NOT NULL DEFAULT 0
+  CHECK (reserved_quantity >= 0);
+
+CREATE TABLE IF NOT EXISTS project_parts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  part_id uuid NOT NULL REFERENCES parts(id) ON DELETE CASCADE,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  reserved integer NOT NULL DEFAULT 0 CHECK (reserved >= 0),
+  consumed integer NOT NULL DEFAULT 0 CHECK (consumed >= 0),
+  substitutes uuid[] DEFAULT '{}',
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (project_id, part_id)
+);
+
+ALTER TABLE project_parts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own project parts" ON project_parts;
+CREATE POLICY "Users can manage their own project parts"
+  ON project_parts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS project_parts_set_updated_at ON project_parts;
+CREATE TRIGGER project_parts_set_updated_at
+  BEFORE UPDATE ON project_parts
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_project_parts_project_id ON project_parts(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_parts_part_id ON project_parts(part_id) WHERE reserved > 0;
+
+-- Keep parts.reserved_quantity equal to the reservations held against it
+CREATE OR REPLACE FUNCTION apply_part_reservation()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.reserved <> 0 THEN
+    UPDATE parts SET reserved_quantity = reserved_quantity - OLD.reserved WHERE id = OLD.part_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.reserved <> 0 THEN
+    UPDATE parts SET reserved_quantity = reserved_quantity + NEW.reserved WHERE id = NEW.part_id;
+  END IF;
+
+  RETURN coalesce(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS project_parts_apply_reservation ON project_parts;
+CREATE TRIGGER project_parts_apply_reservation
+  AFTER INSERT OR UPDATE OF reserved, part_id OR DELETE ON project_parts
+  FOR EACH ROW EXECUTE PROCEDURE apply_part_reservation();
+
+-- BOM lines from the legacy parts_used arrays; ids that no longer match a part are dropped
+INSERT INTO project_parts (user_id, project_id, part_id, quantity, consumed)
+SELECT
+  projects.user_id,
+  projects.id,
+  parts.id,
+  count(*),
+  CASE WHEN projects.status = 'completed'
+    THEN LEAST(count(*), (
+      SELECT count(*) FROM unnest(projects.parts_consumed) AS c(part_id) WHERE c.part_id = parts.id::text
+    ))
+    ELSE 0
+  END
+FROM projects
+CROSS JOIN LATERAL unnest(projects.parts_used) AS used(part_id)
+JOIN parts ON parts.id::text = used.part_id AND parts.user_id = projects.user_id
+GROUP BY projects.user_id, projects.id, projects.status, projects.parts_consumed, parts.id
+ON CONFLICT (project_id, part_id) DO NOTHING;
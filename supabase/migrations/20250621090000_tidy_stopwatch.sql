@@ -0,0 +1,60 @@
+/*
+  # Build Session Numbering
+
+  1. Changes to `build_sessions`
+    - `session_number` is assigned by the database: each new session on a project
+      gets the next number for that project, whatever the client sent. Moving a
+      session to another project renumbers it there; other updates keep it.
+    - Sessions without a project have no number
+
+  2. Backfill
+    - Existing project sessions without a number are numbered after the
+      project's highest number, oldest first (before the trigger exists)
+*/
+
+-- Number existing sessions first; the trigger below would keep their NULLs
+WITH numbered AS (
+  SELECT
+    s.id,
+    coalesce((SELECT max(session_number) FROM build_sessions m WHERE m.project_id = s.project_id), 0)
+      + row_number() OVER (PARTITION BY s.project_id ORDER BY coalesce(s.start_time, s.created_at), s.created_at) AS next_number
+  FROM build_sessions s
+  WHERE s.project_id IS NOT NULL
+    AND s.session_number IS NULL
+)
+UPDATE build_sessions
+SET session_number = numbered.next_number
+FROM numbered
+WHERE build_sessions.id = numbered.id;
+
+CREATE OR REPLACE FUNCTION assign_session_number()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.project_id IS NOT DISTINCT FROM OLD.project_id THEN
+    NEW.session_number := OLD.session_number;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.project_id IS NULL THEN
+    NEW.session_number := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- Serialise numbering per project so concurrent starts don't share a number
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.project_id::text));
+
+  SELECT coalesce(max(session_number), 0) + 1
+    INTO NEW.session_number
+    FROM build_sessions
+    WHERE project_id = NEW.project_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS build_sessions_assign_number ON build_sessions;
+CREATE TRIGGER build_sessions_assign_number
+  BEFORE INSERT OR UPDATE OF project_id, session_number ON build_sessions
+  FOR EACH ROW EXECUTE PROCEDURE assign_session_number();
+
+CREATE INDEX IF NOT EXISTS idx_build_sessions_project_number ON build_sessions(project_id, session_number);
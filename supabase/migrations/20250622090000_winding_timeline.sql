@@ -0,0 +1,145 @@
+/*
+  # Project Timeline
+
+  1. New Tables
+    - `project_status_changes`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `project_id` (uuid, foreign key) - removed with the project
+      - `from_status` (text, nullable) - NULL for the status a project was created with
+      - `to_status` (text)
+      - `changed_at` (timestamptz)
+      - rows are written by a trigger on `projects`, whichever path changed the status
+
+  2. Changes to `projects`
+    - New `actual_minutes` (integer) - total time logged by the project's build sessions
+    - `actual_time` is no longer edited by hand: both columns are recalculated whenever
+      a build session is added, changed, moved or deleted. A session counts its
+      `metadata.active_minutes` (pauses excluded) when the session clock recorded it,
+      otherwise `end_time - start_time`.
+
+  3. Security
+    - Enable RLS on `project_status_changes`; users can manage only their own rows
+
+  4. Backfill
+    - Each existing project gets one status change for its current status, dated when
+      the project was created
+    - `actual_minutes` / `actual_time` are recalculated for projects with sessions
+*/
+
+CREATE TABLE IF NOT EXISTS project_status_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE project_status_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own project status changes" ON project_status_changes;
+CREATE POLICY "Users can manage their own project status changes"
+  ON project_status_changes
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_project_status_changes_project_id ON project_status_changes(project_id, changed_at);
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS actual_minutes integer NOT NULL DEFAULT 0;
+
+-- Current status of existing projects, before the trigger so it isn't logged twice
+INSERT INTO project_status_changes (user_id, project_id, from_status, to_status, changed_at)
+SELECT user_id, id, NULL, status, coalesce(created_at, now())
+FROM projects
+WHERE NOT EXISTS (SELECT 1 FROM project_status_changes c WHERE c.project_id = projects.id);
+
+CREATE OR REPLACE FUNCTION log_project_status_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO project_status_changes (user_id, project_id, from_status, to_status)
+  VALUES (
+    NEW.user_id,
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS projects_log_status ON projects;
+CREATE TRIGGER projects_log_status
+  AFTER INSERT OR UPDATE OF status ON projects
+  FOR EACH ROW EXECUTE PROCEDURE log_project_status_change();
+
+-- "3h 20m" style text for actual_time
+CREATE OR REPLACE FUNCTION format_minutes(total integer)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN total IS NULL OR total <= 0 THEN NULL
+    WHEN total < 60 THEN total || 'm'
+    WHEN total % 60 = 0 THEN (total / 60) || 'h'
+    ELSE (total / 60) || 'h ' || (total % 60) || 'm'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION rollup_project_time(target_project uuid)
+RETURNS void AS $$
+DECLARE
+  total integer;
+BEGIN
+  IF target_project IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT coalesce(sum(
+    CASE
+      WHEN metadata ? 'active_minutes' THEN (metadata->>'active_minutes')::integer
+      WHEN start_time IS NOT NULL AND end_time IS NOT NULL
+        THEN round(extract(epoch FROM end_time - start_time) / 60)::integer
+      ELSE 0
+    END
+  ), 0)
+  INTO total
+  FROM build_sessions
+  WHERE project_id = target_project;
+
+  UPDATE projects
+  SET actual_minutes = total,
+      actual_time = format_minutes(total)
+  WHERE id = target_project;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rollup_session_time()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM rollup_project_time(OLD.project_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.project_id IS DISTINCT FROM OLD.project_id) THEN
+    PERFORM rollup_project_time(NEW.project_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS build_sessions_rollup_time ON build_sessions;
+CREATE TRIGGER build_sessions_rollup_time
+  AFTER INSERT OR UPDATE OR DELETE ON build_sessions
+  FOR EACH ROW EXECUTE PROCEDURE rollup_session_time();
+
+-- Existing projects with sessions
+SELECT rollup_project_time(id)
+FROM projects
+WHERE EXISTS (SELECT 1 FROM build_sessions s WHERE s.project_id = projects.id);
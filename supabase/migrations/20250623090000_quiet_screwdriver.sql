@@ -0,0 +1,84 @@
+/*
+  # Teardowns
+
+  1. New Tables
+    - `teardowns`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `device_name` (text) - what was taken apart ("HP LaserJet 1020")
+      - `model`, `manufacturer` (text, nullable)
+      - `teardown_date` (date) - defaults to today
+      - `photos` (text[]) - uploaded image urls
+      - `notes` (text)
+      - `hazards` (text[]) - e.g. "mains capacitors", "laser", "lithium cell"
+      - `checklist` (jsonb) - salvageable components, usually suggested by the AI:
+        `[{ name, category, quantity, estimated_value, notes, harvested, part_id }]`
+      - `metadata` (jsonb)
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes to `parts`
+    - `teardown_id` (uuid) - the teardown a part was harvested in. `original_device`
+      stays as the denormalized device name so search and the valuation report
+      keep working for parts added without a teardown record.
+
+  3. Security
+    - Enable RLS on `teardowns`; users can manage only their own rows
+
+  4. Backfill
+    - Each distinct `parts.original_device` (case-insensitive) becomes a teardown,
+      dated when its first part was added, and its parts are linked to it
+*/
+
+CREATE TABLE IF NOT EXISTS teardowns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_name text NOT NULL CHECK (length(trim(device_name)) > 0),
+  model text,
+  manufacturer text,
+  teardown_date date NOT NULL DEFAULT current_date,
+  photos text[] DEFAULT '{}',
+  notes text,
+  hazards text[] DEFAULT '{}',
+  checklist jsonb NOT NULL DEFAULT '[]',
+  metadata jsonb DEFAULT '{}',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE teardowns ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own teardowns" ON teardowns;
+CREATE POLICY "Users can manage their own teardowns"
+  ON teardowns
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS teardowns_set_updated_at ON teardowns;
+CREATE TRIGGER teardowns_set_updated_at
+  BEFORE UPDATE ON teardowns
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_teardowns_user_id ON teardowns(user_id, teardown_date DESC);
+
+ALTER TABLE parts ADD COLUMN IF NOT EXISTS teardown_id uuid REFERENCES teardowns(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_parts_teardown_id ON parts(teardown_id);
+
+-- Promote existing free-text source devices to teardowns
+INSERT INTO teardowns (user_id, device_name, teardown_date, created_at)
+SELECT user_id, min(trim(original_device)), min(created_at)::date, min(created_at)
+FROM parts
+WHERE original_device IS NOT NULL AND trim(original_device) <> ''
+  AND NOT EXISTS (
+    SELECT 1 FROM teardowns t
+    WHERE t.user_id = parts.user_id AND lower(trim(t.device_name)) = lower(trim(parts.original_device))
+  )
+GROUP BY user_id, lower(trim(original_device));
+
+UPDATE parts p
+SET teardown_id = t.id
+FROM teardowns t
+WHERE p.teardown_id IS NULL
+  AND t.user_id = p.user_id
+  AND lower(trim(t.device_name)) = lower(trim(p.original_device));
@@ -0,0 +1,55 @@
+/*
+  # Identification Attempts
+
+  1. New Tables
+    - `identification_attempts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `description` (text) - context the user typed
+      - `images` (jsonb) - `[{ url, angle }]` sent to the model
+      - `research_method` (text) - image_analysis | text_research
+      - `candidates` (jsonb) - ranked identities the model proposed:
+        `[{ name, part_number, manufacturer, category, reasoning, markings_read, confidence }]`
+      - `outcome` (text) - pending | confirmed | rejected
+      - `chosen_index` (integer) - which candidate the user confirmed (0 = the model's top pick)
+      - `part_id` (uuid, nullable) - the part added from the confirmed candidate
+      - `notes` (text) - what it actually was, when every candidate was wrong
+      - `created_at`, `resolved_at` (timestamps)
+
+  2. Security
+    - Enable RLS on `identification_attempts`; users can manage only their own rows
+
+  3. Notes
+    - Rows are written by ai-research-part and resolved from the identifier UI, so
+      top-1 / top-N accuracy and confidence calibration can be measured later
+*/
+
+CREATE TABLE IF NOT EXISTS identification_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  description text,
+  images jsonb NOT NULL DEFAULT '[]',
+  research_method text NOT NULL DEFAULT 'image_analysis',
+  candidates jsonb NOT NULL DEFAULT '[]',
+  outcome text NOT NULL DEFAULT 'pending'
+    CHECK (outcome IN ('pending', 'confirmed', 'rejected')),
+  chosen_index integer CHECK (chosen_index IS NULL OR chosen_index >= 0),
+  part_id uuid REFERENCES parts(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  resolved_at timestamptz,
+  CHECK (outcome <> 'confirmed' OR chosen_index IS NOT NULL)
+);
+
+ALTER TABLE identification_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own identification attempts" ON identification_attempts;
+CREATE POLICY "Users can manage their own identification attempts"
+  ON identification_attempts
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_identification_attempts_user_id ON identification_attempts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_identification_attempts_outcome ON identification_attempts(user_id, outcome);
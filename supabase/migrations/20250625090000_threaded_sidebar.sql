@@ -0,0 +1,84 @@
+/*
+  # Conversations
+
+  1. New Tables
+    - `conversations`
+      - `id` (uuid, primary key) - the `conversation_id` its chat_messages share
+      - `user_id` (uuid, foreign key)
+      - `title` (text) - generated from the first exchange, editable
+      - `pinned` (boolean) - pinned conversations list first
+      - `archived` (boolean) - hidden from the default list
+      - `last_message_at` (timestamptz) - list order
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Changes to `chat_messages`
+    - `conversation_id` now references `conversations(id)`; deleting a
+      conversation deletes its messages
+
+  3. Security
+    - Enable RLS on `conversations`; users can manage only their own rows
+
+  4. Backfill
+    - Every existing conversation_id becomes a conversation titled from its
+      first user message
+*/
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  title text NOT NULL DEFAULT 'New conversation' CHECK (length(trim(title)) > 0),
+  pinned boolean NOT NULL DEFAULT false,
+  archived boolean NOT NULL DEFAULT false,
+  last_message_at timestamptz DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own conversations" ON conversations;
+CREATE POLICY "Users can manage their own conversations"
+  ON conversations
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS conversations_set_updated_at ON conversations;
+CREATE TRIGGER conversations_set_updated_at
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_list
+  ON conversations(user_id, archived, pinned DESC, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversations_title_trgm
+  ON conversations USING gin (title gin_trgm_ops);
+
+-- Message search across conversations
+CREATE INDEX IF NOT EXISTS idx_chat_messages_content_trgm
+  ON chat_messages USING gin (content gin_trgm_ops);
+
+-- Promote existing conversation ids, titled from the first thing the user said
+INSERT INTO conversations (id, user_id, title, last_message_at, created_at)
+SELECT
+  m.conversation_id,
+  m.user_id,
+  coalesce(
+    nullif(left(trim(regexp_replace((
+      SELECT first.content FROM chat_messages first
+      WHERE first.conversation_id = m.conversation_id AND first.role = 'user'
+      ORDER BY first.created_at
+      LIMIT 1
+    ), '\s+', ' ', 'g')), 60), ''),
+    'New conversation'
+  ),
+  max(m.created_at),
+  min(m.created_at)
+FROM chat_messages m
+WHERE NOT EXISTS (SELECT 1 FROM conversations c WHERE c.id = m.conversation_id)
+GROUP BY m.conversation_id, m.user_id;
+
+ALTER TABLE chat_messages DROP CONSTRAINT IF EXISTS chat_messages_conversation_id_fkey;
+ALTER TABLE chat_messages
+  ADD CONSTRAINT chat_messages_conversation_id_fkey
+  FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE;
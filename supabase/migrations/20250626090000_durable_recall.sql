@@ -0,0 +1,51 @@
+/*
+  # Assistant memory
+
+  1. New Tables
+    - `user_memories`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key)
+      - `content` (text) - one durable fact, e.g. "Prefers 3.3V logic"
+      - `category` (text) - preference, equipment, skill, safety, project or other
+      - `source_message_id` (uuid, nullable) - the assistant reply it was learned from;
+        cleared if that message is deleted
+      - `created_at`, `updated_at` (timestamps)
+
+  2. Security
+    - Enable RLS on `user_memories`; users can manage only their own rows
+
+  3. Notes
+    - This is the local memory store. When the user configures a mem0 key the
+      hosted service is used instead and this table is left alone.
+*/
+
+CREATE TABLE IF NOT EXISTS user_memories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (length(trim(content)) > 0),
+  category text NOT NULL DEFAULT 'other'
+    CHECK (category IN ('preference', 'equipment', 'skill', 'safety', 'project', 'other')),
+  source_message_id uuid REFERENCES chat_messages(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_memories ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own memories" ON user_memories;
+CREATE POLICY "Users can manage their own memories"
+  ON user_memories
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS user_memories_set_updated_at ON user_memories;
+CREATE TRIGGER user_memories_set_updated_at
+  BEFORE UPDATE ON user_memories
+  FOR EACH ROW EXECUTE PROCEDURE set_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_user_memories_user_created
+  ON user_memories(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_memories_content_trgm
+  ON user_memories USING gin (content gin_trgm_ops);
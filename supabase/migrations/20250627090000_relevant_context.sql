@@ -0,0 +1,166 @@
+/*
+  # Relevant Chat Context
+
+  1. Columns
+    - `projects.search_vector` (tsvector) - name, description, instructions and notes
+    - `build_sessions.search_vector` (tsvector) - work description, issues, solutions,
+      notes and tools used
+    Both are maintained by triggers, like `parts.search_vector`.
+
+  2. Functions
+    - `match_chat_context(p_user_id, p_query, p_limit)` - parts, projects and build
+      sessions relevant to a chat message, best first within each kind. Any word
+      of the message can match (OR, not AND like search_parts), and words that
+      look like part numbers ("L298N", "lm7805") also match part keys fuzzily.
+
+  3. Indexes
+    - GIN on both new `search_vector` columns
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_vector tsvector;
+ALTER TABLE build_sessions ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+CREATE OR REPLACE FUNCTION projects_search_refresh()
+RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.instructions, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(NEW.notes, '')), 'D');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS projects_search_refresh ON projects;
+CREATE TRIGGER projects_search_refresh
+  BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW EXECUTE PROCEDURE projects_search_refresh();
+
+CREATE OR REPLACE FUNCTION build_sessions_search_refresh()
+RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.work_description, '')), 'A') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(NEW.issues_encountered, '{}'), ' ')), 'B') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(NEW.solutions_found, '{}'), ' ')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.notes, '')), 'C') ||
+    setweight(to_tsvector('english', array_to_string(coalesce(NEW.tools_used, '{}'), ' ')), 'D');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS build_sessions_search_refresh ON build_sessions;
+CREATE TRIGGER build_sessions_search_refresh
+  BEFORE INSERT OR UPDATE ON build_sessions
+  FOR EACH ROW EXECUTE PROCEDURE build_sessions_search_refresh();
+
+-- Backfill existing rows through the triggers
+UPDATE projects SET name = name;
+UPDATE build_sessions SET notes = notes;
+
+CREATE INDEX IF NOT EXISTS idx_projects_search_vector ON projects USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_build_sessions_search_vector ON build_sessions USING gin(search_vector);
+
+-- Up to p_limit matches of each kind. `record` holds just the columns the chat
+-- prompt uses; ranks are ts_rank_cd (plus trigram score for part numbers).
+-- SECURITY INVOKER so RLS still applies when called with a user JWT.
+CREATE OR REPLACE FUNCTION match_chat_context(
+  p_user_id uuid,
+  p_query text,
+  p_limit integer DEFAULT 15
+)
+RETURNS TABLE (
+  kind text,
+  record jsonb,
+  rank real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    -- "can I build a motor driver?" -> 'build' | 'motor' | 'driver'
+    SELECT nullif(replace(plainto_tsquery('english', coalesce(p_query, ''))::text, ' & ', ' | '), '')::tsquery AS tsq
+  ),
+  codes AS (
+    SELECT DISTINCT normalize_part_key(word) AS key
+    FROM regexp_split_to_table(lower(coalesce(p_query, '')), '\s+') AS word
+    WHERE word ~ '[0-9]' AND word ~ '[a-z]' AND length(normalize_part_key(word)) >= 3
+  ),
+  part_matches AS (
+    SELECT
+      'part'::text AS kind,
+      jsonb_build_object(
+        'id', p.id,
+        'name', p.name,
+        'category', p.category,
+        'description', p.description,
+        'quantity', p.quantity,
+        'reserved_quantity', p.reserved_quantity,
+        'is_available', p.is_available,
+        'location', p.location,
+        'specs', p.specs
+      ) AS record,
+      (
+        coalesce(ts_rank_cd(p.search_vector, q.tsq, 32), 0) +
+        0.5 * coalesce((SELECT max(word_similarity(c.key, p.search_key)) FROM codes c), 0)
+      )::real AS rank,
+      p.created_at
+    FROM parts p, q
+    WHERE p.user_id = p_user_id
+      AND (
+        p.search_vector @@ q.tsq
+        OR EXISTS (SELECT 1 FROM codes c WHERE c.key <% p.search_key)
+      )
+    ORDER BY 3 DESC, p.created_at DESC
+    LIMIT p_limit
+  ),
+  project_matches AS (
+    SELECT
+      'project'::text AS kind,
+      jsonb_build_object(
+        'id', pr.id,
+        'name', pr.name,
+        'status', pr.status,
+        'description', pr.description
+      ) AS record,
+      ts_rank_cd(pr.search_vector, q.tsq, 32)::real AS rank,
+      pr.created_at
+    FROM projects pr, q
+    WHERE pr.user_id = p_user_id
+      AND pr.search_vector @@ q.tsq
+    ORDER BY 3 DESC, pr.created_at DESC
+    LIMIT p_limit
+  ),
+  session_matches AS (
+    SELECT
+      'session'::text AS kind,
+      jsonb_build_object(
+        'id', s.id,
+        'project_id', s.project_id,
+        'project_name', pr.name,
+        'session_number', s.session_number,
+        'work_description', s.work_description,
+        'issues_encountered', s.issues_encountered,
+        'solutions_found', s.solutions_found,
+        'notes', s.notes,
+        'created_at', s.created_at
+      ) AS record,
+      ts_rank_cd(s.search_vector, q.tsq, 32)::real AS rank,
+      s.created_at
+    FROM build_sessions s
+    CROSS JOIN q
+    LEFT JOIN projects pr ON pr.id = s.project_id
+    WHERE s.user_id = p_user_id
+      AND s.search_vector @@ q.tsq
+    ORDER BY 3 DESC, s.created_at DESC
+    LIMIT p_limit
+  )
+  SELECT m.kind, m.record, m.rank FROM part_matches m
+  UNION ALL
+  SELECT m.kind, m.record, m.rank FROM project_matches m
+  UNION ALL
+  SELECT m.kind, m.record, m.rank FROM session_matches m;
+$$;
@@ -0,0 +1,55 @@
+/*
+  # Atomic Chat Action Updates
+
+  1. Functions
+    - `update_chat_action(p_message_id, p_user_id, p_action_id, p_from_status, p_changes)` -
+      merges `p_changes` into one entry of `chat_messages.metadata.actions`, but only
+      while that action is still in `p_from_status`. Returns the updated action, or
+      NULL when the action isn't in that status (already claimed or resolved).
+
+  2. Notes
+    - The message row is locked first, so concurrent calls on the same message
+      queue up and each sees the statuses the previous one wrote. Only the one
+      action is rewritten; other actions on the message are left as they are.
+*/
+
+CREATE OR REPLACE FUNCTION update_chat_action(
+  p_message_id uuid,
+  p_user_id uuid,
+  p_action_id text,
+  p_from_status text,
+  p_changes jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_index integer;
+  v_action jsonb;
+BEGIN
+  PERFORM 1
+  FROM chat_messages
+  WHERE id = p_message_id
+    AND user_id = p_user_id
+  FOR UPDATE;
+
+  SELECT a.position - 1, a.action || p_changes
+  INTO v_index, v_action
+  FROM chat_messages m,
+       jsonb_array_elements(coalesce(m.metadata->'actions', '[]'::jsonb)) WITH ORDINALITY AS a(action, position)
+  WHERE m.id = p_message_id
+    AND m.user_id = p_user_id
+    AND a.action->>'id' = p_action_id
+    AND a.action->>'status' = p_from_status;
+
+  IF v_index IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE chat_messages
+  SET metadata = jsonb_set(metadata, ARRAY['actions', v_index::text], v_action)
+  WHERE id = p_message_id;
+
+  RETURN v_action;
+END;
+$$;
@@ -0,0 +1,67 @@
+/*
+  # Serialized Consumption Sync
+
+  1. Functions
+    - `record_consumption(p_user_id, p_project_id, p_build_session_id, p_seen, p_movements)` -
+      inserts the 'consumed' movements a sync worked out for a project or build
+      session, but only if the scope's ledger still holds what the sync read
+      (`p_seen`: units consumed by part id). Otherwise it raises
+      serialization_failure (40001) and the caller works the difference out again.
+
+  2. Notes
+    - Calls for the same project or session queue up on a transaction-scoped
+      advisory lock, so two overlapping saves can't both take the same stock.
+*/
+
+CREATE OR REPLACE FUNCTION record_consumption(
+  p_user_id uuid,
+  p_project_id uuid,
+  p_build_session_id uuid,
+  p_seen jsonb,
+  p_movements jsonb
+)
+RETURNS SETOF stock_movements
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current jsonb;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('consumption:' || coalesce(p_build_session_id, p_project_id)::text));
+
+  SELECT coalesce(jsonb_object_agg(ledger.part_id, ledger.units), '{}'::jsonb)
+  INTO v_current
+  FROM (
+    SELECT m.part_id::text AS part_id, -sum(m.delta) AS units
+    FROM stock_movements m
+    WHERE m.user_id = p_user_id
+      AND m.reason = 'consumed'
+      AND CASE
+        WHEN p_build_session_id IS NOT NULL THEN m.build_session_id = p_build_session_id
+        ELSE m.project_id = p_project_id
+      END
+    GROUP BY m.part_id
+    HAVING sum(m.delta) <> 0
+  ) ledger;
+
+  IF v_current <> coalesce(p_seen, '{}'::jsonb) THEN
+    RAISE EXCEPTION 'Consumption changed while it was being synced'
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO stock_movements (user_id, part_id, delta, reason, project_id, build_session_id, note)
+    SELECT
+      p_user_id,
+      (movement->>'part_id')::uuid,
+      (movement->>'delta')::integer,
+      'consumed',
+      p_project_id,
+      p_build_session_id,
+      movement->>'note'
+    FROM jsonb_array_elements(coalesce(p_movements, '[]'::jsonb)) AS movement
+    RETURNING *
+  )
+  SELECT * FROM inserted;
+END;
+$$;